@@ -7,6 +7,10 @@ import NotFound from "@/pages/not-found";
 import Landing from "@/pages/landing";
 import Login from "@/pages/login";
 import Signup from "@/pages/signup";
+import ForgotPassword from "@/pages/forgot-password";
+import ResetPassword from "@/pages/reset-password";
+import VerifyEmail from "@/pages/verify-email";
+import AcceptInvite from "@/pages/accept-invite";
 import UserDashboard from "@/pages/user-dashboard";
 import PlumberDashboard from "@/pages/plumber-dashboard";
 import AdminDashboard from "@/pages/admin-dashboard";
@@ -17,6 +21,10 @@ function Router() {
       <Route path="/" component={Landing} />
       <Route path="/login" component={Login} />
       <Route path="/signup" component={Signup} />
+      <Route path="/forgot-password" component={ForgotPassword} />
+      <Route path="/reset-password" component={ResetPassword} />
+      <Route path="/verify-email" component={VerifyEmail} />
+      <Route path="/accept-invite" component={AcceptInvite} />
       <Route path="/dashboard/user" component={UserDashboard} />
       <Route path="/dashboard/plumber" component={PlumberDashboard} />
       <Route path="/dashboard/admin" component={AdminDashboard} />
@@ -0,0 +1,163 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Crown } from "lucide-react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { authenticatedApiRequest } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import { roleLabels, staffRoles, type StaffRole } from "@shared/permissions";
+
+type InviteStatus = 'pending' | 'accepted' | 'revoked' | 'expired';
+
+interface AdminInvite {
+  id: string;
+  email: string;
+  role: StaffRole;
+  expiresAt: string;
+  acceptedAt: string | null;
+  createdAt: string;
+  status: InviteStatus;
+}
+
+const statusBadges: Record<InviteStatus, { label: string; className: string }> = {
+  pending: { label: "Pending", className: "bg-warning/10 text-warning border-warning/30" },
+  accepted: { label: "Accepted", className: "bg-success/10 text-success border-success/30" },
+  revoked: { label: "Revoked", className: "text-muted-foreground" },
+  expired: { label: "Expired", className: "text-muted-foreground" },
+};
+
+export default function AdminInvitesDialog() {
+  const [open, setOpen] = useState(false);
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<StaffRole>('admin');
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: invites = [], isLoading } = useQuery({
+    queryKey: ['/api/admin-invites'],
+    queryFn: async () => {
+      const response = await authenticatedApiRequest('GET', '/api/admin-invites');
+      return response.json() as Promise<AdminInvite[]>;
+    },
+    enabled: open,
+    staleTime: 0,
+  });
+
+  const onError = (title: string) => (error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "Please try again later.",
+      variant: "destructive",
+    });
+  };
+
+  const inviteMutation = useMutation({
+    mutationFn: async (invite: { email: string; role: StaffRole }) => {
+      const response = await authenticatedApiRequest('POST', '/api/admin-invites', invite);
+      return response.json() as Promise<AdminInvite>;
+    },
+    onSuccess: (invite) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin-invites'] });
+      setEmail("");
+      toast({ title: "Invite Sent", description: `${invite.email} can join as ${roleLabels[invite.role]} until ${format(new Date(invite.expiresAt), "MMM d")}.` });
+    },
+    onError: onError("Could Not Send Invite"),
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (inviteId: string) => {
+      await authenticatedApiRequest('DELETE', `/api/admin-invites/${inviteId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin-invites'] });
+      toast({ title: "Invite Revoked" });
+    },
+    onError: onError("Could Not Revoke Invite"),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" data-testid="button-invite-admin">
+          <Crown className="w-4 h-4 mr-2" />
+          Invite Staff
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Staff Invites</DialogTitle>
+          <DialogDescription>New admins, dispatchers and support staff join through an emailed link. Each link works once.</DialogDescription>
+        </DialogHeader>
+
+        <form
+          className="flex space-x-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            if (email.trim()) inviteMutation.mutate({ email: email.trim(), role });
+          }}
+        >
+          <Input
+            type="email"
+            placeholder="colleague@plumbpro.com"
+            value={email}
+            onChange={(event) => setEmail(event.target.value)}
+            data-testid="input-invite-email"
+          />
+          <Select value={role} onValueChange={(value) => setRole(value as StaffRole)}>
+            <SelectTrigger className="w-36" data-testid="select-invite-role">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {staffRoles.map((staffRole) => (
+                <SelectItem key={staffRole} value={staffRole}>{roleLabels[staffRole]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="submit" disabled={inviteMutation.isPending || !email.trim()} data-testid="button-send-invite">
+            {inviteMutation.isPending ? "Sending..." : "Send"}
+          </Button>
+        </form>
+
+        {isLoading ? (
+          <div className="py-6 text-center text-sm text-muted-foreground">Loading...</div>
+        ) : invites.length === 0 ? (
+          <div className="py-6 text-center text-sm text-muted-foreground">No invites sent yet</div>
+        ) : (
+          <div className="space-y-3 max-h-80 overflow-y-auto">
+            {invites.map((invite) => (
+              <div key={invite.id} className="flex items-center justify-between rounded-lg border border-border p-3" data-testid={`invite-${invite.id}`}>
+                <div>
+                  <div className="flex items-center space-x-2 text-sm font-medium text-foreground">
+                    <span>{invite.email}</span>
+                    <span className="text-xs text-muted-foreground">{roleLabels[invite.role]}</span>
+                    <Badge variant="outline" className={statusBadges[invite.status].className}>{statusBadges[invite.status].label}</Badge>
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {invite.acceptedAt
+                      ? `Accepted ${format(new Date(invite.acceptedAt), "MMM d, yyyy")}`
+                      : `Sent ${format(new Date(invite.createdAt), "MMM d")} · expires ${format(new Date(invite.expiresAt), "MMM d")}`}
+                  </div>
+                </div>
+                {invite.status === 'pending' && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => revokeMutation.mutate(invite.id)}
+                    disabled={revokeMutation.isPending}
+                    data-testid={`button-revoke-invite-${invite.id}`}
+                  >
+                    Revoke
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,234 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { CalendarOff, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { authenticatedApiRequest } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import type { Plumber, PlumberTimeOff } from "@shared/schema";
+import type { WorkingHours } from "@shared/availability";
+import { weekdays } from "@shared/scheduling";
+
+interface DayHours {
+  enabled: boolean;
+  start: string;
+  end: string;
+}
+
+const defaultDay: DayHours = { enabled: false, start: "08:00", end: "18:00" };
+
+// The editor shows one block per day; the API accepts several
+function toDays(workingHours: WorkingHours | null | undefined): DayHours[] {
+  return weekdays.map((_, dayOfWeek) => {
+    const slot = workingHours?.slots.find(s => s.dayOfWeek === dayOfWeek);
+    return slot ? { enabled: true, start: slot.start, end: slot.end } : defaultDay;
+  });
+}
+
+export default function AvailabilityCard() {
+  const [days, setDays] = useState<DayHours[]>(() => toDays(null));
+  const [timeOffDate, setTimeOffDate] = useState("");
+  const [timeOffStart, setTimeOffStart] = useState("");
+  const [timeOffEnd, setTimeOffEnd] = useState("");
+  const [timeOffReason, setTimeOffReason] = useState("");
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: plumber } = useQuery({
+    queryKey: ['/api/plumbers/me'],
+    queryFn: async () => {
+      const response = await authenticatedApiRequest('GET', '/api/plumbers/me');
+      return response.json() as Promise<Plumber>;
+    },
+  });
+
+  const { data: availability } = useQuery({
+    queryKey: ['/api/plumbers', plumber?.id, 'availability'],
+    queryFn: async () => {
+      const response = await authenticatedApiRequest('GET', `/api/plumbers/${plumber!.id}/availability`);
+      return response.json() as Promise<{ workingHours: WorkingHours | null; timeOff: PlumberTimeOff[] }>;
+    },
+    enabled: !!plumber,
+  });
+
+  useEffect(() => {
+    if (availability) setDays(toDays(availability.workingHours));
+  }, [availability]);
+
+  const invalidateAvailability = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/plumbers', plumber?.id, 'availability'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/plumbers/me'] });
+  };
+
+  const onError = (title: string) => (error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "Please try again later.",
+      variant: "destructive",
+    });
+  };
+
+  const saveHoursMutation = useMutation({
+    mutationFn: async () => {
+      const response = await authenticatedApiRequest('PUT', `/api/plumbers/${plumber!.id}/working-hours`, {
+        timeZone: availability?.workingHours?.timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone,
+        slots: days.flatMap((day, dayOfWeek) => day.enabled ? [{ dayOfWeek, start: day.start, end: day.end }] : []),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateAvailability();
+      toast({
+        title: "Working Hours Saved",
+        description: "You'll only be sent jobs booked inside these hours.",
+      });
+    },
+    onError: onError("Update Failed"),
+  });
+
+  const addTimeOffMutation = useMutation({
+    mutationFn: async () => {
+      const response = await authenticatedApiRequest('POST', `/api/plumbers/${plumber!.id}/time-off`, {
+        date: timeOffDate,
+        startTime: timeOffStart || null,
+        endTime: timeOffEnd || null,
+        reason: timeOffReason || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidateAvailability();
+      setTimeOffDate("");
+      setTimeOffStart("");
+      setTimeOffEnd("");
+      setTimeOffReason("");
+      toast({ title: "Time Off Added" });
+    },
+    onError: onError("Could Not Add Time Off"),
+  });
+
+  const removeTimeOffMutation = useMutation({
+    mutationFn: async (timeOffId: string) => {
+      await authenticatedApiRequest('DELETE', `/api/plumbers/${plumber!.id}/time-off/${timeOffId}`);
+    },
+    onSuccess: invalidateAvailability,
+    onError: onError("Could Not Remove Time Off"),
+  });
+
+  const updateDay = (dayOfWeek: number, changes: Partial<DayHours>) => {
+    setDays(current => current.map((day, index) => index === dayOfWeek ? { ...day, ...changes } : day));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold">Availability</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-3">
+          <p className="text-sm text-muted-foreground">
+            {availability?.workingHours
+              ? `Weekly hours in ${availability.workingHours.timeZone}`
+              : "No working hours set. You may be sent jobs at any time."}
+          </p>
+          {days.map((day, dayOfWeek) => (
+            <div key={weekdays[dayOfWeek]} className="flex items-center gap-3">
+              <div className="flex items-center gap-2 w-32">
+                <Checkbox
+                  id={`working-day-${dayOfWeek}`}
+                  checked={day.enabled}
+                  onCheckedChange={(checked) => updateDay(dayOfWeek, { enabled: checked === true })}
+                  data-testid={`checkbox-working-day-${dayOfWeek}`}
+                />
+                <Label htmlFor={`working-day-${dayOfWeek}`}>{weekdays[dayOfWeek]}</Label>
+              </div>
+              <Input
+                type="time"
+                className="w-32"
+                value={day.start}
+                disabled={!day.enabled}
+                onChange={(e) => updateDay(dayOfWeek, { start: e.target.value })}
+                data-testid={`input-working-start-${dayOfWeek}`}
+              />
+              <span className="text-muted-foreground">to</span>
+              <Input
+                type="time"
+                className="w-32"
+                value={day.end}
+                disabled={!day.enabled}
+                onChange={(e) => updateDay(dayOfWeek, { end: e.target.value })}
+                data-testid={`input-working-end-${dayOfWeek}`}
+              />
+            </div>
+          ))}
+          <Button
+            className="w-full"
+            onClick={() => saveHoursMutation.mutate()}
+            disabled={!plumber || saveHoursMutation.isPending}
+            data-testid="button-save-working-hours"
+          >
+            {saveHoursMutation.isPending ? "Saving..." : "Save Working Hours"}
+          </Button>
+        </div>
+
+        <div className="space-y-3">
+          <h4 className="font-medium text-foreground">Time Off</h4>
+          {availability?.timeOff.length === 0 && (
+            <p className="text-sm text-muted-foreground">No time off booked.</p>
+          )}
+          {availability?.timeOff.map((period) => (
+            <div key={period.id} className="flex items-center justify-between p-3 bg-muted rounded-lg text-sm" data-testid={`time-off-${period.id}`}>
+              <div className="flex items-center">
+                <CalendarOff className="w-4 h-4 mr-2 text-muted-foreground" />
+                <span className="text-foreground">
+                  {period.date}
+                  {period.startTime && period.endTime ? `, ${period.startTime} - ${period.endTime}` : " (all day)"}
+                </span>
+                {period.reason && <span className="ml-2 text-muted-foreground">{period.reason}</span>}
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => removeTimeOffMutation.mutate(period.id)}
+                disabled={removeTimeOffMutation.isPending}
+                data-testid={`button-remove-time-off-${period.id}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          <div className="grid md:grid-cols-4 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="time-off-date">Date</Label>
+              <Input id="time-off-date" type="date" value={timeOffDate} onChange={(e) => setTimeOffDate(e.target.value)} data-testid="input-time-off-date" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="time-off-start">From (optional)</Label>
+              <Input id="time-off-start" type="time" value={timeOffStart} onChange={(e) => setTimeOffStart(e.target.value)} data-testid="input-time-off-start" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="time-off-end">Until (optional)</Label>
+              <Input id="time-off-end" type="time" value={timeOffEnd} onChange={(e) => setTimeOffEnd(e.target.value)} data-testid="input-time-off-end" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="time-off-reason">Reason</Label>
+              <Input id="time-off-reason" value={timeOffReason} onChange={(e) => setTimeOffReason(e.target.value)} data-testid="input-time-off-reason" />
+            </div>
+          </div>
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={() => addTimeOffMutation.mutate()}
+            disabled={!plumber || !timeOffDate || addTimeOffMutation.isPending}
+            data-testid="button-add-time-off"
+          >
+            {addTimeOffMutation.isPending ? "Adding..." : "Add Time Off"}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
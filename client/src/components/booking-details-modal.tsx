@@ -0,0 +1,102 @@
+import { X, MapPin, Calendar } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { Booking } from "@shared/schema";
+import { formatAppointment, getBookingWindow } from "@shared/scheduling";
+
+interface BookingDetailsModalProps {
+  booking: Booking | null;
+  onClose: () => void;
+}
+
+const formatComponent = (value: number) => `${Math.round(value * 100)}%`;
+
+export default function BookingDetailsModal({ booking, onClose }: BookingDetailsModalProps) {
+  return (
+    <Dialog open={!!booking} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <div className="flex items-center justify-between">
+            <DialogTitle className="text-2xl font-bold">Booking #{booking?.id.slice(-8)}</DialogTitle>
+            <Button variant="ghost" size="icon" onClick={onClose} data-testid="button-close-booking-details">
+              <X className="h-5 w-5" />
+            </Button>
+          </div>
+        </DialogHeader>
+
+        {booking && (
+          <div className="space-y-6">
+            <div className="space-y-2 text-sm">
+              <div className="font-semibold text-foreground">{booking.category}</div>
+              <p className="text-muted-foreground">{booking.description}</p>
+              <div className="flex items-center text-muted-foreground">
+                <MapPin className="w-4 h-4 mr-2" />
+                <span>
+                  {booking.address}
+                  {booking.latitude != null && booking.longitude != null
+                    ? ` (${booking.latitude.toFixed(4)}, ${booking.longitude.toFixed(4)})`
+                    : " (not geocoded)"}
+                </span>
+              </div>
+              {booking.preferredDate && (
+                <div className="flex items-center text-muted-foreground">
+                  <Calendar className="w-4 h-4 mr-2" />
+                  <span>{formatAppointment(getBookingWindow(booking)!)}</span>
+                </div>
+              )}
+            </div>
+
+            <div>
+              <h3 className="text-lg font-semibold text-foreground mb-3">Assignment History</h3>
+              {booking.assignmentHistory.length === 0 ? (
+                <p className="text-sm text-muted-foreground">This booking has not been dispatched yet.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Plumber</TableHead>
+                      <TableHead>Assigned</TableHead>
+                      <TableHead>Outcome</TableHead>
+                      <TableHead>Score</TableHead>
+                      <TableHead>Distance</TableHead>
+                      <TableHead>Rating</TableHead>
+                      <TableHead>Workload</TableHead>
+                      <TableHead>Specialist</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {booking.assignmentHistory.map((entry, index) => (
+                      <TableRow key={index}>
+                        <TableCell className="font-medium">#{entry.plumberId.slice(-8)}</TableCell>
+                        <TableCell>{new Date(entry.assignedAt).toLocaleString()}</TableCell>
+                        <TableCell><Badge variant="secondary">{entry.status}</Badge></TableCell>
+                        {entry.score ? (
+                          <>
+                            <TableCell className="font-semibold">{entry.score.total.toFixed(2)}</TableCell>
+                            <TableCell>
+                              {formatComponent(entry.score.distance)}
+                              {entry.score.distanceKm != null && (
+                                <div className="text-xs text-muted-foreground">{entry.score.distanceKm.toFixed(1)} km</div>
+                              )}
+                            </TableCell>
+                            <TableCell>{formatComponent(entry.score.rating)}</TableCell>
+                            <TableCell>{formatComponent(entry.score.workload)}</TableCell>
+                            <TableCell>{entry.score.specialization ? "Yes" : "No"}</TableCell>
+                          </>
+                        ) : (
+                          <TableCell colSpan={5} className="text-muted-foreground">No score recorded</TableCell>
+                        )}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -15,6 +15,7 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { authenticatedApiRequest } from "@/lib/auth";
 import { useToast } from "@/hooks/use-toast";
 import type { Category } from "@shared/schema";
+import { bookingSlots, formatAppointment, getSlotWindow } from "@shared/scheduling";
 
 const bookingSchema = z.object({
   category: z.string().min(1, "Please select a service category"),
@@ -22,6 +23,7 @@ const bookingSchema = z.object({
   address: z.string().min(5, "Please provide a complete address"),
   phone: z.string().min(10, "Please provide a valid phone number"),
   preferredDate: z.string().optional(),
+  // A slot start such as "10:00", read in the customer's own time zone
   preferredTime: z.string().optional(),
 });
 
@@ -40,14 +42,20 @@ const categoryIcons = {
   "Emergency": AlertTriangle,
 };
 
-const timeSlots = [
-  "8:00 AM - 10:00 AM",
-  "10:00 AM - 12:00 PM",
-  "12:00 PM - 2:00 PM",
-  "2:00 PM - 4:00 PM",
-  "4:00 PM - 6:00 PM",
-  "6:00 PM - 8:00 PM",
-];
+interface SlotAvailability {
+  date: string;
+  start: string;
+  label: string;
+  startsAt: string;
+  capacity: number;
+}
+
+interface AvailabilityResponse {
+  slots: SlotAvailability[];
+  nextAvailable: SlotAvailability | null;
+}
+
+const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
 
 export default function BookingModal({ isOpen, onClose, onSuccess }: BookingModalProps) {
   const [selectedCategory, setSelectedCategory] = useState<string>("");
@@ -73,16 +81,40 @@ export default function BookingModal({ isOpen, onClose, onSuccess }: BookingModa
     },
   });
 
+  const preferredDate = form.watch("preferredDate");
+  const preferredTime = form.watch("preferredTime");
+
+  const { data: availability } = useQuery({
+    queryKey: ['/api/availability', selectedCategory, preferredDate],
+    queryFn: async () => {
+      const params = new URLSearchParams({ category: selectedCategory, date: preferredDate!, timeZone: browserTimeZone });
+      const response = await authenticatedApiRequest('GET', `/api/availability?${params}`);
+      return response.json() as Promise<AvailabilityResponse>;
+    },
+    enabled: !!selectedCategory && !!preferredDate,
+  });
+
+  const selectedSlot = availability?.slots.find(slot => slot.start === preferredTime);
+  const dayIsFull = !!availability && availability.slots.every(slot => slot.capacity === 0);
+  // Offer the next open slot after the chosen one, or on a later day when this one is full
+  const suggestedSlot = selectedSlot?.capacity === 0
+    ? availability?.slots.find(slot => slot.startsAt > selectedSlot.startsAt && slot.capacity > 0) ?? availability?.nextAvailable
+    : dayIsFull ? availability?.nextAvailable : undefined;
+
+  const applySuggestedSlot = () => {
+    if (!suggestedSlot) return;
+    form.setValue("preferredDate", suggestedSlot.date);
+    form.setValue("preferredTime", suggestedSlot.start);
+  };
+
   const createBookingMutation = useMutation({
     mutationFn: async (data: BookingForm) => {
+      const { preferredDate, preferredTime, ...details } = data;
+      // The server works out the exact window from the slot, the same way getSlotWindow does here
       const bookingData = {
-        ...data,
-        preferredDate: data.preferredDate && data.preferredTime 
-          ? new Date(`${data.preferredDate}T${data.preferredTime === '8:00 AM - 10:00 AM' ? '08:00' : 
-                      data.preferredTime === '10:00 AM - 12:00 PM' ? '10:00' :
-                      data.preferredTime === '12:00 PM - 2:00 PM' ? '12:00' :
-                      data.preferredTime === '2:00 PM - 4:00 PM' ? '14:00' :
-                      data.preferredTime === '4:00 PM - 6:00 PM' ? '16:00' : '18:00'}:00`).toISOString()
+        ...details,
+        slot: preferredDate && preferredTime
+          ? { date: preferredDate, start: preferredTime, timeZone: browserTimeZone }
           : undefined,
       };
       const response = await authenticatedApiRequest('POST', '/api/bookings', bookingData);
@@ -285,11 +317,20 @@ export default function BookingModal({ isOpen, onClose, onSuccess }: BookingModa
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        {timeSlots.map((slot) => (
-                          <SelectItem key={slot} value={slot}>
-                            {slot}
-                          </SelectItem>
-                        ))}
+                        {bookingSlots.map((slot) => {
+                          const capacity = availability?.slots.find(s => s.start === slot.start)?.capacity;
+                          return (
+                            <SelectItem
+                              key={slot.start}
+                              value={slot.start}
+                              disabled={capacity === 0}
+                              data-testid={`option-slot-${slot.start}`}
+                            >
+                              {slot.label}
+                              {capacity === 0 ? " (Full)" : capacity !== undefined ? ` (${capacity} left)` : ""}
+                            </SelectItem>
+                          );
+                        })}
                       </SelectContent>
                     </Select>
                     <FormMessage />
@@ -298,6 +339,33 @@ export default function BookingModal({ isOpen, onClose, onSuccess }: BookingModa
               />
             </div>
 
+            {preferredDate && preferredTime && (
+              <p className="text-sm text-muted-foreground -mt-3" data-testid="text-appointment-preview">
+                Appointment: {formatAppointment(getSlotWindow(preferredDate, preferredTime, browserTimeZone))}
+              </p>
+            )}
+
+            {suggestedSlot !== undefined && (
+              <Alert data-testid="alert-slot-suggestion">
+                <Clock className="h-4 w-4" />
+                <AlertDescription className="flex items-center justify-between gap-4">
+                  {suggestedSlot ? (
+                    <>
+                      <span>
+                        {selectedSlot?.capacity === 0 ? "That slot is fully booked." : "No plumbers are free on this day."}
+                        {" "}Next available: {formatAppointment(getSlotWindow(suggestedSlot.date, suggestedSlot.start, browserTimeZone))}
+                      </span>
+                      <Button type="button" size="sm" variant="outline" onClick={applySuggestedSlot} data-testid="button-use-suggested-slot">
+                        Use this slot
+                      </Button>
+                    </>
+                  ) : (
+                    <span>No plumbers are free in the next two weeks. Leave the time blank and we'll assign one as soon as possible.</span>
+                  )}
+                </AlertDescription>
+              </Alert>
+            )}
+
             {/* Problem Description */}
             <FormField
               control={form.control}
@@ -0,0 +1,137 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { X, Info, AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { authenticatedApiRequest } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import type { Booking } from "@shared/schema";
+import { cancellationReasons, type CancellationReason, type CancellationTerms } from "@shared/cancellation-policy";
+
+interface CancelBookingModalProps {
+  booking: Booking | null;
+  onClose: () => void;
+}
+
+export default function CancelBookingModal({ booking, onClose }: CancelBookingModalProps) {
+  const [reason, setReason] = useState<CancellationReason | "">("");
+  const [note, setNote] = useState("");
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: terms } = useQuery({
+    queryKey: ['/api/bookings', booking?.id, 'cancellation'],
+    queryFn: async () => {
+      const response = await authenticatedApiRequest('GET', `/api/bookings/${booking!.id}/cancellation`);
+      return response.json() as Promise<CancellationTerms & { canCancel: boolean }>;
+    },
+    enabled: !!booking,
+    staleTime: 0,
+  });
+
+  const cancelBookingMutation = useMutation({
+    mutationFn: async () => {
+      const response = await authenticatedApiRequest('POST', `/api/bookings/${booking!.id}/cancel`, {
+        reason,
+        note: note || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/bookings'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
+      toast({
+        title: "Booking Cancelled",
+        description: "The booking has been cancelled and the plumber released.",
+      });
+      handleClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "Cancellation Failed",
+        description: error instanceof Error ? error.message : "Please try again later.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleClose = () => {
+    setReason("");
+    setNote("");
+    onClose();
+  };
+
+  return (
+    <Dialog open={!!booking} onOpenChange={handleClose}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <div className="flex items-center justify-between">
+            <DialogTitle className="text-2xl font-bold">Cancel Booking</DialogTitle>
+            <Button variant="ghost" size="icon" onClick={handleClose} data-testid="button-close-cancel-modal">
+              <X className="h-5 w-5" />
+            </Button>
+          </div>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          {terms && (
+            <Alert variant={terms.isFree ? "default" : "destructive"}>
+              {terms.isFree ? <Info className="h-4 w-4" /> : <AlertTriangle className="h-4 w-4" />}
+              <AlertDescription>
+                {terms.isFree
+                  ? "This cancellation is free of charge."
+                  : `This booking starts in less than ${terms.freeCancellationHours} hours, so a ${terms.feePercent}% late cancellation fee applies.`}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="space-y-2">
+            <Label>Reason *</Label>
+            <Select value={reason} onValueChange={(value) => setReason(value as CancellationReason)}>
+              <SelectTrigger data-testid="select-cancellation-reason">
+                <SelectValue placeholder="Select a reason" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(cancellationReasons).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Additional details</Label>
+            <Textarea
+              placeholder="Anything else we should know?"
+              rows={3}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              data-testid="textarea-cancellation-note"
+            />
+          </div>
+
+          <div className="flex space-x-4 pt-2">
+            <Button variant="outline" className="flex-1" onClick={handleClose} disabled={cancelBookingMutation.isPending}>
+              Keep Booking
+            </Button>
+            <Button
+              variant="destructive"
+              className="flex-1"
+              onClick={() => cancelBookingMutation.mutate()}
+              disabled={!reason || terms?.canCancel === false || cancelBookingMutation.isPending}
+              data-testid="button-confirm-cancel"
+            >
+              {cancelBookingMutation.isPending ? "Cancelling..." : "Cancel Booking"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,139 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import LineItemsEditor, { toLineItems, type LineItemDraft } from "@/components/line-items-editor";
+import { authenticatedApiRequest } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import type { Booking, Quote } from "@shared/schema";
+import { calculateInvoiceTotals, formatMoney, type InvoiceLineItem } from "@shared/pricing";
+
+interface CompleteJobModalProps {
+  booking: Booking | null;
+  // The accepted quote the invoice starts from
+  quote?: Quote;
+  onClose: () => void;
+}
+
+export default function CompleteJobModal({ booking, quote, onClose }: CompleteJobModalProps) {
+  const [extras, setExtras] = useState<LineItemDraft[]>([]);
+  const [extrasTaxRate, setExtrasTaxRate] = useState("0");
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!booking) return;
+    setExtras([]);
+    setExtrasTaxRate(String(quote?.taxRate ?? 0));
+  }, [booking?.id, quote?.id]);
+
+  const extraItems = toLineItems(extras);
+  const isValid = extraItems.every(item => item.description && item.quantity > 0);
+  // Same calculation the server bills with, so the customer sees this total
+  const invoiceItems: InvoiceLineItem[] = [
+    ...(quote?.lineItems ?? []).map(item => ({ ...item, source: 'quote' as const, taxRate: quote!.taxRate })),
+    ...extraItems.map(item => ({ ...item, source: 'extra' as const, taxRate: Number(extrasTaxRate) || 0 })),
+  ];
+  const totals = calculateInvoiceTotals(invoiceItems);
+
+  const completeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await authenticatedApiRequest('PATCH', `/api/bookings/${booking!.id}/status`, {
+        status: 'completed',
+        extras: extraItems,
+        extrasTaxRate: Number(extrasTaxRate) || 0,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/bookings'] });
+      toast({
+        title: "Job Completed",
+        description: "Great work! The customer's invoice is ready.",
+      });
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to complete the job. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={!!booking} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <div className="flex items-center justify-between">
+            <DialogTitle className="text-2xl font-bold">Complete Job</DialogTitle>
+            <Button variant="ghost" size="icon" onClick={onClose} data-testid="button-close-complete-modal">
+              <X className="h-5 w-5" />
+            </Button>
+          </div>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="text-sm text-muted-foreground">
+            {booking?.category} &middot; Job #{booking?.id.slice(-8)}
+            {quote && <> &middot; Quote v{quote.version}: {formatMoney(quote.total)}</>}
+          </div>
+
+          <div className="space-y-2">
+            <h4 className="font-medium text-foreground">Extras added on site</h4>
+            <p className="text-sm text-muted-foreground">
+              Anything beyond the accepted quote. Leave empty if the job came in as quoted.
+            </p>
+            <LineItemsEditor drafts={extras} onChange={setExtras} minItems={0} />
+          </div>
+
+          {extras.length > 0 && (
+            <div className="w-40 space-y-1">
+              <Label htmlFor="extras-tax-rate">Tax on extras (%)</Label>
+              <Input
+                id="extras-tax-rate"
+                type="number"
+                min="0"
+                max="100"
+                step="0.1"
+                value={extrasTaxRate}
+                onChange={(e) => setExtrasTaxRate(e.target.value)}
+                data-testid="input-extras-tax-rate"
+              />
+            </div>
+          )}
+
+          <div className="p-4 bg-muted rounded-lg text-sm space-y-1">
+            <div className="flex justify-between"><span>Subtotal</span><span>{formatMoney(totals.subtotal)}</span></div>
+            {totals.taxLines.map(line => (
+              <div key={line.rate} className="flex justify-between text-muted-foreground">
+                <span>Tax at {line.rate}%</span><span>{formatMoney(line.amount)}</span>
+              </div>
+            ))}
+            <div className="flex justify-between font-bold text-foreground">
+              <span>Invoice total</span><span data-testid="text-invoice-total">{formatMoney(totals.total)}</span>
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-3">
+            <Button variant="outline" onClick={onClose} data-testid="button-cancel-complete">
+              Cancel
+            </Button>
+            <Button
+              className="bg-success text-success-foreground hover:bg-success/90"
+              onClick={() => completeMutation.mutate()}
+              disabled={!isValid || completeMutation.isPending}
+              data-testid="button-confirm-complete"
+            >
+              {completeMutation.isPending ? "Completing..." : "Complete and Invoice"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,147 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Laptop, MonitorSmartphone, Smartphone } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { authenticatedApiRequest } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+
+interface Device {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  current: boolean;
+}
+
+// "Chrome on macOS" from a user agent string; good enough to tell devices apart
+function describeDevice(userAgent: string | null) {
+  if (!userAgent) return "Unknown device";
+  const browser = [
+    ["Edg/", "Edge"], ["OPR/", "Opera"], ["Firefox/", "Firefox"], ["Chrome/", "Chrome"], ["Safari/", "Safari"],
+  ].find(([token]) => userAgent.includes(token))?.[1] ?? "Browser";
+  const os = [
+    ["iPhone", "iPhone"], ["iPad", "iPad"], ["Android", "Android"], ["Windows", "Windows"], ["Mac OS X", "macOS"], ["Linux", "Linux"],
+  ].find(([token]) => userAgent.includes(token))?.[1];
+  return os ? `${browser} on ${os}` : browser;
+}
+
+const isMobile = (userAgent: string | null) => !!userAgent && /iPhone|Android|Mobile/.test(userAgent);
+
+export default function DevicesDialog() {
+  const [open, setOpen] = useState(false);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: devices = [], isLoading } = useQuery({
+    queryKey: ['/api/sessions'],
+    queryFn: async () => {
+      const response = await authenticatedApiRequest('GET', '/api/sessions');
+      return response.json() as Promise<Device[]>;
+    },
+    enabled: open,
+    staleTime: 0,
+  });
+
+  const onError = (title: string) => (error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "Please try again later.",
+      variant: "destructive",
+    });
+  };
+
+  const revokeMutation = useMutation({
+    mutationFn: async (sessionId: string) => {
+      await authenticatedApiRequest('DELETE', `/api/sessions/${sessionId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions'] });
+      toast({ title: "Device Signed Out" });
+    },
+    onError: onError("Could Not Sign Out Device"),
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () => {
+      const response = await authenticatedApiRequest('POST', '/api/sessions/revoke-others');
+      return response.json() as Promise<{ revoked: number }>;
+    },
+    onSuccess: ({ revoked }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sessions'] });
+      toast({ title: "Other Devices Signed Out", description: `Signed out of ${revoked} ${revoked === 1 ? "device" : "devices"}.` });
+    },
+    onError: onError("Could Not Sign Out Devices"),
+  });
+
+  const hasOtherDevices = devices.some(device => !device.current);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="icon" title="Devices" data-testid="button-devices">
+          <MonitorSmartphone className="h-5 w-5" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Devices</DialogTitle>
+          <DialogDescription>Where you're signed in. Sign out of any device you don't recognise.</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="py-6 text-center text-sm text-muted-foreground">Loading...</div>
+        ) : (
+          <div className="space-y-3">
+            {devices.map((device) => {
+              const Icon = isMobile(device.userAgent) ? Smartphone : Laptop;
+              return (
+                <div key={device.id} className="flex items-center justify-between rounded-lg border border-border p-3" data-testid={`device-${device.id}`}>
+                  <div className="flex items-center space-x-3">
+                    <Icon className="h-5 w-5 text-muted-foreground" />
+                    <div>
+                      <div className="flex items-center space-x-2 text-sm font-medium text-foreground">
+                        <span>{describeDevice(device.userAgent)}</span>
+                        {device.current && <Badge variant="secondary">This device</Badge>}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {device.ipAddress && `${device.ipAddress} · `}
+                        Active {formatDistanceToNow(new Date(device.lastUsedAt), { addSuffix: true })}
+                      </div>
+                    </div>
+                  </div>
+                  {!device.current && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => revokeMutation.mutate(device.id)}
+                      disabled={revokeMutation.isPending}
+                      data-testid={`button-revoke-device-${device.id}`}
+                    >
+                      Sign out
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {hasOtherDevices && (
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={() => revokeOthersMutation.mutate()}
+            disabled={revokeOthersMutation.isPending}
+            data-testid="button-revoke-other-devices"
+          >
+            Sign out of all other devices
+          </Button>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
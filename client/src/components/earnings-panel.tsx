@@ -0,0 +1,148 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Download, Wallet } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { authenticatedApiRequest } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import type { Earning } from "@shared/schema";
+import { earningsPeriods, getEarningsPeriodRange, summarizeEarnings, type EarningsPeriod } from "@shared/earnings";
+import { formatMoney } from "@shared/pricing";
+
+function getPayoutBadge(earning: Earning) {
+  if (earning.paidOutAt) {
+    return <Badge variant="outline" className="bg-success/10 text-success border-success/30">Paid out</Badge>;
+  }
+  if (earning.payoutBatchId) {
+    return <Badge variant="outline" className="bg-primary/10 text-primary border-primary/30">Scheduled</Badge>;
+  }
+  return <Badge variant="outline" className="bg-warning/10 text-warning border-warning/30">Pending</Badge>;
+}
+
+export default function EarningsPanel() {
+  const [period, setPeriod] = useState<EarningsPeriod>('this-month');
+  const { toast } = useToast();
+
+  // Shares the cache with the dashboard's monthly summary, so filter the period here
+  const { data: earnings = [], isLoading } = useQuery({
+    queryKey: ['/api/earnings'],
+    queryFn: async () => {
+      const response = await authenticatedApiRequest('GET', '/api/earnings');
+      return response.json() as Promise<Earning[]>;
+    },
+  });
+
+  const { from, to } = getEarningsPeriodRange(period);
+  const periodEarnings = earnings.filter(earning => {
+    const earnedAt = new Date(earning.earnedAt);
+    return (!from || earnedAt >= from) && (!to || earnedAt < to);
+  });
+  const totals = summarizeEarnings(periodEarnings);
+  const awaitingPayout = summarizeEarnings(earnings.filter(earning => !earning.paidOutAt)).net;
+
+  const handleExport = async () => {
+    try {
+      const params = new URLSearchParams({ format: 'csv' });
+      if (from) params.set('from', from.toISOString());
+      if (to) params.set('to', to.toISOString());
+      const response = await authenticatedApiRequest('GET', `/api/earnings?${params}`);
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `earnings-${period}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to export earnings.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <Select value={period} onValueChange={(value) => setPeriod(value as EarningsPeriod)}>
+          <SelectTrigger className="w-48" data-testid="select-earnings-period">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(earningsPeriods).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" onClick={handleExport} disabled={periodEarnings.length === 0} data-testid="button-export-earnings">
+          <Download className="w-4 h-4 mr-2" />
+          Export CSV
+        </Button>
+      </div>
+
+      <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        <div className="p-4 bg-muted rounded-lg">
+          <div className="text-sm text-muted-foreground">Paid by customers</div>
+          <div className="text-xl font-bold text-foreground">{formatMoney(totals.gross)}</div>
+        </div>
+        <div className="p-4 bg-muted rounded-lg">
+          <div className="text-sm text-muted-foreground">Platform commission</div>
+          <div className="text-xl font-bold text-foreground">{formatMoney(totals.commission)}</div>
+        </div>
+        <div className="p-4 bg-success/10 rounded-lg">
+          <div className="text-sm text-muted-foreground">Your earnings ({totals.jobs} {totals.jobs === 1 ? "job" : "jobs"})</div>
+          <div className="text-xl font-bold text-success" data-testid="text-period-net">{formatMoney(totals.net)}</div>
+        </div>
+        <div className="p-4 bg-muted rounded-lg">
+          <div className="text-sm text-muted-foreground">Awaiting payout</div>
+          <div className="text-xl font-bold text-foreground">{formatMoney(awaitingPayout)}</div>
+        </div>
+      </div>
+
+      {!isLoading && periodEarnings.length === 0 ? (
+        <div className="text-center py-12">
+          <Wallet className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+          <h3 className="text-lg font-medium text-foreground mb-2">No earnings in this period</h3>
+          <p className="text-muted-foreground">You earn from a job once the customer has paid its invoice.</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Job</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead className="text-right">Gross</TableHead>
+                <TableHead className="text-right">Commission</TableHead>
+                <TableHead className="text-right">Net</TableHead>
+                <TableHead>Payout</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {periodEarnings.map((earning) => (
+                <TableRow key={earning.id} data-testid={`earning-row-${earning.id}`}>
+                  <TableCell>{new Date(earning.earnedAt).toLocaleDateString()}</TableCell>
+                  <TableCell className="font-medium">#{earning.bookingId.slice(-8)}</TableCell>
+                  <TableCell>{earning.source === 'payment' ? "Payment" : "Refund"}</TableCell>
+                  <TableCell className="text-right">{formatMoney(earning.gross)}</TableCell>
+                  <TableCell className="text-right text-muted-foreground">
+                    {formatMoney(earning.commission)} ({earning.commissionRate}%)
+                  </TableCell>
+                  <TableCell className={`text-right font-medium ${earning.net < 0 ? "text-destructive" : "text-foreground"}`}>
+                    {formatMoney(earning.net)}
+                  </TableCell>
+                  <TableCell>{getPayoutBadge(earning)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
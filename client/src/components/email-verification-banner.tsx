@@ -0,0 +1,51 @@
+import { useMutation } from "@tanstack/react-query";
+import { MailWarning } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { authService, authenticatedApiRequest } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+
+// Asks users who haven't confirmed their email yet to do so, with a way to resend the link
+export default function EmailVerificationBanner() {
+  const { toast } = useToast();
+  const user = authService.getCurrentUser();
+
+  const resendMutation = useMutation({
+    mutationFn: async () => {
+      const response = await authenticatedApiRequest('POST', '/api/auth/verify-email/resend');
+      return response.json() as Promise<{ message: string }>;
+    },
+    onSuccess: ({ message }) => {
+      toast({ title: "Verification Email Sent", description: message });
+    },
+    onError: (error) => {
+      toast({
+        title: "Could Not Send Email",
+        description: error instanceof Error ? error.message : "Please try again later.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Undefined means a sign-in saved before verification existed; only nag once the server says so
+  if (!user || user.emailVerified !== false) return null;
+
+  return (
+    <div className="bg-warning/10 border-b border-warning/20">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+        <div className="flex items-center space-x-2 text-sm text-foreground">
+          <MailWarning className="h-4 w-4 text-warning" />
+          <span>Please confirm your email address using the link we sent to {user.email}.</span>
+        </div>
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => resendMutation.mutate()}
+          disabled={resendMutation.isPending}
+          data-testid="button-resend-verification"
+        >
+          {resendMutation.isPending ? "Sending..." : "Resend link"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { quoteLineItemTypes, type QuoteLineItem, type QuoteLineItemType } from "@shared/pricing";
+
+// Prices are typed in dollars but sent in cents
+export interface LineItemDraft {
+  type: QuoteLineItemType;
+  description: string;
+  quantity: string;
+  unitPrice: string;
+}
+
+export const newLineItem = (type: QuoteLineItemType): LineItemDraft => ({
+  type,
+  description: quoteLineItemTypes[type],
+  quantity: "1",
+  unitPrice: "",
+});
+
+export function toLineItemDraft(item: QuoteLineItem): LineItemDraft {
+  return {
+    type: item.type,
+    description: item.description,
+    quantity: String(item.quantity),
+    unitPrice: (item.unitPrice / 100).toFixed(2),
+  };
+}
+
+export function toLineItems(drafts: LineItemDraft[]): QuoteLineItem[] {
+  return drafts.map(draft => ({
+    type: draft.type,
+    description: draft.description.trim(),
+    quantity: Number(draft.quantity) || 0,
+    unitPrice: Math.round((Number(draft.unitPrice) || 0) * 100),
+  }));
+}
+
+interface LineItemsEditorProps {
+  drafts: LineItemDraft[];
+  onChange: (drafts: LineItemDraft[]) => void;
+  // Quotes need at least one line; on-site extras may have none
+  minItems?: number;
+  addType?: QuoteLineItemType;
+}
+
+export default function LineItemsEditor({ drafts, onChange, minItems = 1, addType = 'parts' }: LineItemsEditorProps) {
+  const updateDraft = (index: number, changes: Partial<LineItemDraft>) => {
+    onChange(drafts.map((draft, i) => i === index ? { ...draft, ...changes } : draft));
+  };
+
+  return (
+    <div className="space-y-3">
+      {drafts.map((draft, index) => (
+        <div key={index} className="grid grid-cols-12 gap-2 items-end">
+          <div className="col-span-3 space-y-1">
+            {index === 0 && <Label>Type</Label>}
+            <Select value={draft.type} onValueChange={(type) => updateDraft(index, { type: type as QuoteLineItemType })}>
+              <SelectTrigger data-testid={`select-line-type-${index}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(quoteLineItemTypes).map(([type, label]) => (
+                  <SelectItem key={type} value={type}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="col-span-4 space-y-1">
+            {index === 0 && <Label>Description</Label>}
+            <Input
+              value={draft.description}
+              onChange={(e) => updateDraft(index, { description: e.target.value })}
+              data-testid={`input-line-description-${index}`}
+            />
+          </div>
+          <div className="col-span-2 space-y-1">
+            {index === 0 && <Label>Qty / hours</Label>}
+            <Input
+              type="number"
+              min="0"
+              step="0.5"
+              value={draft.quantity}
+              onChange={(e) => updateDraft(index, { quantity: e.target.value })}
+              data-testid={`input-line-quantity-${index}`}
+            />
+          </div>
+          <div className="col-span-2 space-y-1">
+            {index === 0 && <Label>Unit price ($)</Label>}
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              value={draft.unitPrice}
+              onChange={(e) => updateDraft(index, { unitPrice: e.target.value })}
+              data-testid={`input-line-price-${index}`}
+            />
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="col-span-1"
+            onClick={() => onChange(drafts.filter((_, i) => i !== index))}
+            disabled={drafts.length <= minItems}
+            data-testid={`button-remove-line-${index}`}
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => onChange([...drafts, newLineItem(addType)])}
+        data-testid="button-add-line"
+      >
+        <Plus className="w-4 h-4 mr-2" />
+        Add Line
+      </Button>
+    </div>
+  );
+}
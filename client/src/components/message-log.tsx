@@ -0,0 +1,141 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Mail, MessageSquare, RotateCw } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { authenticatedApiRequest } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import type { OutboundMessage, OutboundMessageStatus } from "@shared/schema";
+
+const statusBadges: Record<OutboundMessageStatus, { label: string; className: string }> = {
+  pending: { label: "Retrying", className: "bg-warning/10 text-warning border-warning/30" },
+  sent: { label: "Sent", className: "bg-success/10 text-success border-success/30" },
+  failed: { label: "Failed", className: "bg-destructive/10 text-destructive border-destructive/30" },
+};
+
+export default function MessageLog() {
+  const [statusFilter, setStatusFilter] = useState<OutboundMessageStatus | "all">("all");
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: messages = [], isLoading } = useQuery({
+    queryKey: ['/api/messages', statusFilter],
+    queryFn: async () => {
+      const query = statusFilter === "all" ? "" : `?status=${statusFilter}`;
+      const response = await authenticatedApiRequest('GET', `/api/messages${query}`);
+      return response.json() as Promise<OutboundMessage[]>;
+    },
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: async (messageId: string) => {
+      const response = await authenticatedApiRequest('POST', `/api/messages/${messageId}/retry`);
+      return response.json() as Promise<OutboundMessage>;
+    },
+    onSuccess: (message) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/messages'] });
+      toast(message.status === 'sent'
+        ? { title: "Message Sent", description: `Delivered to ${message.recipient}.` }
+        : { title: "Still Failing", description: message.attempts[message.attempts.length - 1]?.error, variant: "destructive" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Could Not Retry",
+        description: error instanceof Error ? error.message : "Please try again later.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          Emails and texts sent for booking updates. Failed sends are retried automatically a few times.
+        </p>
+        <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as OutboundMessageStatus | "all")}>
+          <SelectTrigger className="w-40" data-testid="select-message-status">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All messages</SelectItem>
+            <SelectItem value="pending">Retrying</SelectItem>
+            <SelectItem value="sent">Sent</SelectItem>
+            <SelectItem value="failed">Failed</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {!isLoading && messages.length === 0 ? (
+        <div className="text-center py-12">
+          <Mail className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+          <h3 className="text-lg font-medium text-foreground mb-2">No messages</h3>
+          <p className="text-muted-foreground">Messages appear here as bookings move along.</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Queued</TableHead>
+                <TableHead>To</TableHead>
+                <TableHead>Message</TableHead>
+                <TableHead>Attempts</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {messages.map((message) => {
+                const lastAttempt = message.attempts[message.attempts.length - 1];
+                const status = statusBadges[message.status];
+                return (
+                  <TableRow key={message.id} data-testid={`message-${message.id}`}>
+                    <TableCell className="text-sm text-muted-foreground whitespace-nowrap">
+                      {message.createdAt && formatDistanceToNow(new Date(message.createdAt), { addSuffix: true })}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center text-sm">
+                        {message.channel === 'email'
+                          ? <Mail className="w-4 h-4 mr-2 text-muted-foreground" />
+                          : <MessageSquare className="w-4 h-4 mr-2 text-muted-foreground" />}
+                        {message.recipient}
+                      </div>
+                    </TableCell>
+                    <TableCell className="max-w-xs truncate text-sm">{message.subject ?? message.body}</TableCell>
+                    <TableCell className="text-sm">
+                      {message.attempts.length}
+                      {lastAttempt?.error && (
+                        <div className="text-xs text-destructive max-w-xs truncate" title={lastAttempt.error}>{lastAttempt.error}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={status.className}>{status.label}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      {message.status !== 'sent' && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => retryMutation.mutate(message.id)}
+                          disabled={retryMutation.isPending}
+                          data-testid={`button-retry-message-${message.id}`}
+                        >
+                          <RotateCw className="w-4 h-4 mr-1" />
+                          Retry
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
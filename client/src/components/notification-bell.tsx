@@ -0,0 +1,152 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Bell } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { DropdownMenu, DropdownMenuCheckboxItem, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { authenticatedApiRequest } from "@/lib/auth";
+import type { MessageChannel, Notification } from "@shared/schema";
+
+interface NotificationsResponse {
+  notifications: Notification[];
+  unreadCount: number;
+}
+
+type NotificationPreferences = Record<MessageChannel, boolean>;
+
+export default function NotificationBell() {
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery({
+    queryKey: ['/api/notifications'],
+    queryFn: async () => {
+      const response = await authenticatedApiRequest('GET', '/api/notifications');
+      return response.json() as Promise<NotificationsResponse>;
+    },
+    refetchInterval: 60_000,
+  });
+  const notifications = data?.notifications ?? [];
+  const unreadCount = data?.unreadCount ?? 0;
+
+  const { data: preferences } = useQuery({
+    queryKey: ['/api/notification-preferences'],
+    queryFn: async () => {
+      const response = await authenticatedApiRequest('GET', '/api/notification-preferences');
+      return response.json() as Promise<NotificationPreferences>;
+    },
+  });
+
+  const preferencesMutation = useMutation({
+    mutationFn: async (changes: Partial<NotificationPreferences>) => {
+      const response = await authenticatedApiRequest('PUT', '/api/notification-preferences', changes);
+      return response.json() as Promise<NotificationPreferences>;
+    },
+    onSuccess: (saved) => queryClient.setQueryData(['/api/notification-preferences'], saved),
+  });
+
+  const markReadMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await authenticatedApiRequest('PATCH', `/api/notifications/${id}/read`);
+      return response.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/notifications'] }),
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: async () => {
+      const response = await authenticatedApiRequest('POST', '/api/notifications/read-all');
+      return response.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['/api/notifications'] }),
+  });
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" data-testid="button-notifications">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span
+              className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 bg-destructive text-destructive-foreground text-xs font-medium rounded-full flex items-center justify-center"
+              data-testid="badge-unread-notifications"
+            >
+              {unreadCount > 9 ? "9+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <div className="flex items-center justify-between pr-2">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto p-0 text-xs"
+              onClick={() => markAllReadMutation.mutate()}
+              disabled={markAllReadMutation.isPending}
+              data-testid="button-mark-all-read"
+            >
+              Mark all as read
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <div className="px-2 py-6 text-center text-sm text-muted-foreground">You're all caught up.</div>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map((notification) => (
+              <DropdownMenuItem
+                key={notification.id}
+                className="flex items-start space-x-2 py-2 cursor-pointer"
+                onSelect={(e) => {
+                  // Keep the menu open so several can be read in a row
+                  e.preventDefault();
+                  if (!notification.readAt) markReadMutation.mutate(notification.id);
+                }}
+                data-testid={`notification-${notification.id}`}
+              >
+                <span className={`mt-1.5 h-2 w-2 shrink-0 rounded-full ${notification.readAt ? "bg-transparent" : "bg-primary"}`} />
+                <div className="space-y-0.5">
+                  <div className={`text-sm ${notification.readAt ? "text-muted-foreground" : "font-medium text-foreground"}`}>
+                    {notification.title}
+                  </div>
+                  <div className="text-xs text-muted-foreground">{notification.body}</div>
+                  {notification.createdAt && (
+                    <div className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                    </div>
+                  )}
+                </div>
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+        {preferences && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">Also send updates by</DropdownMenuLabel>
+            <DropdownMenuCheckboxItem
+              checked={preferences.email}
+              onCheckedChange={(email) => preferencesMutation.mutate({ email })}
+              onSelect={(e) => e.preventDefault()}
+              disabled={preferencesMutation.isPending}
+              data-testid="checkbox-notify-email"
+            >
+              Email
+            </DropdownMenuCheckboxItem>
+            <DropdownMenuCheckboxItem
+              checked={preferences.sms}
+              onCheckedChange={(sms) => preferencesMutation.mutate({ sms })}
+              onSelect={(e) => e.preventDefault()}
+              disabled={preferencesMutation.isPending}
+              data-testid="checkbox-notify-sms"
+            >
+              Text message
+            </DropdownMenuCheckboxItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
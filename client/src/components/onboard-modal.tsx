@@ -14,6 +14,7 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { authenticatedApiRequest } from "@/lib/auth";
 import { useToast } from "@/hooks/use-toast";
+import type { DocumentType } from "@shared/schema";
 
 const onboardSchema = z.object({
   name: z.string().min(2, "Full name must be at least 2 characters"),
@@ -27,6 +28,12 @@ const onboardSchema = z.object({
 
 type OnboardForm = z.infer<typeof onboardSchema>;
 
+interface PendingDocument {
+  file: File;
+  type: DocumentType;
+  expiresAt: string;
+}
+
 interface OnboardModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -52,8 +59,14 @@ const experienceOptions = [
   { value: "12", label: "10+ years" },
 ];
 
+const documentTypeOptions: { value: DocumentType; label: string }[] = [
+  { value: "license", label: "License" },
+  { value: "insurance", label: "Insurance" },
+  { value: "id", label: "ID" },
+];
+
 export default function OnboardModal({ isOpen, onClose, onSuccess }: OnboardModalProps) {
-  const [uploadedFiles, setUploadedFiles] = useState<File[]>([]);
+  const [uploadedFiles, setUploadedFiles] = useState<PendingDocument[]>([]);
   const queryClient = useQueryClient();
   const { toast } = useToast();
 
@@ -76,10 +89,31 @@ export default function OnboardModal({ isOpen, onClose, onSuccess }: OnboardModa
         ...data,
         experienceYears: parseInt(data.experienceYears),
       });
-      return response.json();
+      const plumber = await response.json();
+
+      const failedUploads: string[] = [];
+      for (const document of uploadedFiles) {
+        const formData = new FormData();
+        formData.append("file", document.file);
+        formData.append("type", document.type);
+        if (document.expiresAt) formData.append("expiresAt", document.expiresAt);
+        try {
+          await authenticatedApiRequest('POST', `/api/plumbers/${plumber.id}/documents`, formData);
+        } catch {
+          failedUploads.push(document.file.name);
+        }
+      }
+      return { plumber, failedUploads };
     },
-    onSuccess: () => {
+    onSuccess: ({ failedUploads }) => {
       queryClient.invalidateQueries({ queryKey: ['/api/plumbers'] });
+      if (failedUploads.length > 0) {
+        toast({
+          title: "Some documents were not uploaded",
+          description: `Please re-upload: ${failedUploads.join(", ")}`,
+          variant: "destructive",
+        });
+      }
       form.reset();
       setUploadedFiles([]);
       onSuccess();
@@ -105,10 +139,18 @@ export default function OnboardModal({ isOpen, onClose, onSuccess }: OnboardModa
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
     if (files) {
-      setUploadedFiles(Array.from(files));
+      setUploadedFiles(Array.from(files).map((file, index) => ({
+        file,
+        type: documentTypeOptions[index % documentTypeOptions.length].value,
+        expiresAt: "",
+      })));
     }
   };
 
+  const updateUploadedFile = (index: number, changes: Partial<PendingDocument>) => {
+    setUploadedFiles(files => files.map((document, i) => i === index ? { ...document, ...changes } : document));
+  };
+
   const onSubmit = (data: OnboardForm) => {
     onboardPlumberMutation.mutate(data);
   };
@@ -324,10 +366,33 @@ export default function OnboardModal({ isOpen, onClose, onSuccess }: OnboardModa
 
                 {uploadedFiles.length > 0 && (
                   <div className="mt-4 space-y-2">
-                    {uploadedFiles.map((file, index) => (
+                    {uploadedFiles.map((document, index) => (
                       <div key={index} className="flex items-center justify-center space-x-2 text-sm">
                         <FileText className="h-4 w-4 text-muted-foreground" />
-                        <span className="text-foreground">{file.name}</span>
+                        <span className="text-foreground truncate max-w-[180px]">{document.file.name}</span>
+                        <Select
+                          value={document.type}
+                          onValueChange={(value) => updateUploadedFile(index, { type: value as DocumentType })}
+                        >
+                          <SelectTrigger className="w-[120px] h-8" data-testid={`select-document-type-${index}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {documentTypeOptions.map((option) => (
+                              <SelectItem key={option.value} value={option.value}>
+                                {option.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Input
+                          type="date"
+                          value={document.expiresAt}
+                          onChange={(e) => updateUploadedFile(index, { expiresAt: e.target.value })}
+                          className="w-[150px] h-8"
+                          title="Expiry date"
+                          data-testid={`input-document-expiry-${index}`}
+                        />
                         <CheckCircle className="h-4 w-4 text-success" />
                       </div>
                     ))}
@@ -340,8 +405,8 @@ export default function OnboardModal({ isOpen, onClose, onSuccess }: OnboardModa
             <Alert>
               <CheckCircle className="h-4 w-4" />
               <AlertDescription>
-                The plumber will be automatically verified and activated upon successful onboarding. 
-                They will receive login credentials via email.
+                The plumber will be verified and activated once their license, insurance and ID documents
+                have been approved. They will receive login credentials via email.
               </AlertDescription>
             </Alert>
 
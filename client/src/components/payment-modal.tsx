@@ -0,0 +1,155 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { CreditCard, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { authenticatedApiRequest } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import type { Booking, Invoice, Payment } from "@shared/schema";
+import { formatInvoiceNumber, formatMoney } from "@shared/pricing";
+
+interface PaymentModalProps {
+  booking: Booking | null;
+  onClose: () => void;
+}
+
+interface StartedPayment {
+  payment: Payment;
+  clientSecret: string;
+  provider: string;
+  // The server offers its simulated checkout instead of a real provider's
+  simulatedCheckout: boolean;
+}
+
+export default function PaymentModal({ booking, onClose }: PaymentModalProps) {
+  const [started, setStarted] = useState<StartedPayment | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: invoice } = useQuery({
+    queryKey: ['/api/bookings', booking?.id, 'invoice'],
+    queryFn: async () => {
+      const response = await authenticatedApiRequest('GET', `/api/bookings/${booking!.id}/invoice`);
+      return response.json() as Promise<Invoice>;
+    },
+    enabled: !!booking,
+  });
+
+  const amountDue = invoice ? Math.max(0, invoice.total - invoice.amountPaid) : 0;
+
+  const handleClose = () => {
+    setStarted(null);
+    onClose();
+  };
+
+  const onError = (title: string) => (error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "Please try again later.",
+      variant: "destructive",
+    });
+  };
+
+  const startPaymentMutation = useMutation({
+    mutationFn: async () => {
+      const response = await authenticatedApiRequest('POST', `/api/bookings/${booking!.id}/payments`);
+      return response.json() as Promise<StartedPayment>;
+    },
+    onSuccess: setStarted,
+    onError: onError("Payment Failed"),
+  });
+
+  const checkoutMutation = useMutation({
+    mutationFn: async (outcome: 'succeeded' | 'failed') => {
+      const response = await authenticatedApiRequest('POST', `/api/payments/${started!.payment.id}/checkout`, { outcome });
+      return response.json() as Promise<Payment>;
+    },
+    onSuccess: (payment) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/bookings'] });
+      if (payment.status === 'succeeded') {
+        toast({
+          title: "Payment Received",
+          description: `${formatMoney(payment.amountCaptured)} paid. Thank you!`,
+        });
+        handleClose();
+      } else {
+        setStarted(null);
+        toast({
+          title: "Payment Declined",
+          description: payment.failureReason || "Your card was not charged. Please try again.",
+          variant: "destructive",
+        });
+      }
+    },
+    onError: onError("Payment Failed"),
+  });
+
+  return (
+    <Dialog open={!!booking} onOpenChange={handleClose}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <div className="flex items-center justify-between">
+            <DialogTitle className="text-2xl font-bold">Pay Invoice</DialogTitle>
+            <Button variant="ghost" size="icon" onClick={handleClose} data-testid="button-close-payment-modal">
+              <X className="h-5 w-5" />
+            </Button>
+          </div>
+        </DialogHeader>
+
+        {invoice && (
+          <div className="space-y-6">
+            <div className="p-4 bg-muted rounded-lg text-sm space-y-1">
+              <div className="flex justify-between"><span>{formatInvoiceNumber(invoice.number)}</span><span>{formatMoney(invoice.total)}</span></div>
+              {invoice.amountPaid > 0 && (
+                <div className="flex justify-between text-muted-foreground"><span>Already paid</span><span>{formatMoney(invoice.amountPaid)}</span></div>
+              )}
+              <div className="flex justify-between font-bold text-foreground">
+                <span>Amount due</span><span data-testid="text-amount-due">{formatMoney(amountDue)}</span>
+              </div>
+            </div>
+
+            {!started ? (
+              <Button
+                className="w-full"
+                onClick={() => startPaymentMutation.mutate()}
+                disabled={amountDue === 0 || startPaymentMutation.isPending}
+                data-testid="button-start-payment"
+              >
+                <CreditCard className="w-4 h-4 mr-2" />
+                {startPaymentMutation.isPending ? "Preparing..." : `Pay ${formatMoney(amountDue)}`}
+              </Button>
+            ) : started.simulatedCheckout ? (
+              <div className="space-y-3">
+                <Alert>
+                  <AlertDescription>Test gateway: no real card is charged.</AlertDescription>
+                </Alert>
+                <Button
+                  className="w-full bg-success text-success-foreground hover:bg-success/90"
+                  onClick={() => checkoutMutation.mutate('succeeded')}
+                  disabled={checkoutMutation.isPending}
+                  data-testid="button-fake-pay"
+                >
+                  Pay with Test Card
+                </Button>
+                <Button
+                  variant="outline"
+                  className="w-full"
+                  onClick={() => checkoutMutation.mutate('failed')}
+                  disabled={checkoutMutation.isPending}
+                  data-testid="button-fake-decline"
+                >
+                  Simulate a Declined Card
+                </Button>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Continue in the {started.provider} checkout to finish paying.
+              </p>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
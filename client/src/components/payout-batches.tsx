@@ -0,0 +1,189 @@
+import { Fragment, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ChevronDown, ChevronRight, Wallet } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { authenticatedApiRequest } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import type { PayoutBatch } from "@shared/schema";
+import { formatMoney } from "@shared/pricing";
+
+interface PlumberPayout {
+  plumberId: string;
+  plumberName: string;
+  earningsCount: number;
+  gross: number;
+  commission: number;
+  net: number;
+}
+
+function formatPeriod(batch: PayoutBatch) {
+  // periodEnd is exclusive, so show the Sunday before it
+  const lastDay = new Date(new Date(batch.periodEnd).getTime() - 24 * 60 * 60 * 1000);
+  const format = (date: Date) => date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+  return `${format(new Date(batch.periodStart))} – ${format(lastDay)}`;
+}
+
+function BatchPayouts({ batch }: { batch: PayoutBatch }) {
+  const { data } = useQuery({
+    queryKey: ['/api/payouts/batches', batch.id],
+    queryFn: async () => {
+      const response = await authenticatedApiRequest('GET', `/api/payouts/batches/${batch.id}`);
+      return response.json() as Promise<PayoutBatch & { payouts: PlumberPayout[] }>;
+    },
+  });
+
+  return (
+    <TableRow>
+      <TableCell colSpan={6} className="bg-muted/50">
+        {data?.payouts.map(payout => (
+          <div key={payout.plumberId} className="flex justify-between text-sm py-1">
+            <span className="text-foreground">
+              {payout.plumberName} <span className="text-muted-foreground">({payout.earningsCount} {payout.earningsCount === 1 ? "entry" : "entries"})</span>
+            </span>
+            <span>
+              <span className="text-muted-foreground mr-4">{formatMoney(payout.gross)} less {formatMoney(payout.commission)}</span>
+              <span className="font-medium">{formatMoney(payout.net)}</span>
+            </span>
+          </div>
+        ))}
+      </TableCell>
+    </TableRow>
+  );
+}
+
+export default function PayoutBatches() {
+  const [expandedBatchId, setExpandedBatchId] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: batches = [], isLoading } = useQuery({
+    queryKey: ['/api/payouts/batches'],
+    queryFn: async () => {
+      const response = await authenticatedApiRequest('GET', '/api/payouts/batches');
+      return response.json() as Promise<PayoutBatch[]>;
+    },
+  });
+
+  const onError = (title: string) => (error: unknown) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : "Please try again later.",
+      variant: "destructive",
+    });
+  };
+
+  const generateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await authenticatedApiRequest('POST', '/api/payouts/batches');
+      return response.json() as Promise<PayoutBatch>;
+    },
+    onSuccess: (batch) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/payouts/batches'] });
+      setExpandedBatchId(batch.id);
+      toast({
+        title: "Payout Batch Created",
+        description: `${formatMoney(batch.total)} to ${batch.plumberCount} ${batch.plumberCount === 1 ? "plumber" : "plumbers"}.`,
+      });
+    },
+    onError: onError("Could Not Create Batch"),
+  });
+
+  const markPaidMutation = useMutation({
+    mutationFn: async (batchId: string) => {
+      const response = await authenticatedApiRequest('POST', `/api/payouts/batches/${batchId}/paid`);
+      return response.json() as Promise<PayoutBatch>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/payouts/batches'] });
+      toast({
+        title: "Batch Marked Paid",
+        description: "Plumbers will see these earnings as paid out.",
+      });
+    },
+    onError: onError("Could Not Mark Paid"),
+  });
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          Each batch pays plumbers for everything earned up to the start of this week.
+        </p>
+        <Button onClick={() => generateMutation.mutate()} disabled={generateMutation.isPending} data-testid="button-generate-payouts">
+          <Wallet className="w-4 h-4 mr-2" />
+          {generateMutation.isPending ? "Generating..." : "Generate Weekly Batch"}
+        </Button>
+      </div>
+
+      {!isLoading && batches.length === 0 ? (
+        <div className="text-center py-12">
+          <Wallet className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+          <h3 className="text-lg font-medium text-foreground mb-2">No payouts yet</h3>
+          <p className="text-muted-foreground">Plumbers earn once customers pay their invoices.</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Week</TableHead>
+                <TableHead>Plumbers</TableHead>
+                <TableHead>Entries</TableHead>
+                <TableHead className="text-right">Total</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {batches.map((batch) => (
+                <Fragment key={batch.id}>
+                  <TableRow data-testid={`payout-batch-${batch.id}`}>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="px-0"
+                        onClick={() => setExpandedBatchId(expandedBatchId === batch.id ? null : batch.id)}
+                      >
+                        {expandedBatchId === batch.id ? <ChevronDown className="w-4 h-4 mr-1" /> : <ChevronRight className="w-4 h-4 mr-1" />}
+                        {formatPeriod(batch)}
+                      </Button>
+                    </TableCell>
+                    <TableCell>{batch.plumberCount}</TableCell>
+                    <TableCell>{batch.earningsCount}</TableCell>
+                    <TableCell className="text-right font-medium">{formatMoney(batch.total)}</TableCell>
+                    <TableCell>
+                      {batch.status === 'paid' ? (
+                        <Badge variant="outline" className="bg-success/10 text-success border-success/30">
+                          Paid {batch.paidAt && new Date(batch.paidAt).toLocaleDateString()}
+                        </Badge>
+                      ) : (
+                        <Badge variant="outline" className="bg-warning/10 text-warning border-warning/30">Pending</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {batch.status === 'pending' && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => markPaidMutation.mutate(batch.id)}
+                          disabled={markPaidMutation.isPending}
+                          data-testid={`button-mark-paid-${batch.id}`}
+                        >
+                          Mark Paid
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                  {expandedBatchId === batch.id && <BatchPayouts batch={batch} />}
+                </Fragment>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
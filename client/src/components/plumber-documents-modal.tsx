@@ -0,0 +1,194 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { X, FileText, Check, ExternalLink, UserCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { authenticatedApiRequest } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import type { Plumber, PlumberDocument } from "@shared/schema";
+
+interface PlumberDocumentsModalProps {
+  plumber: (Plumber & { user?: { name: string } }) | null;
+  onClose: () => void;
+}
+
+const documentTypeLabels: Record<string, string> = {
+  license: "License",
+  insurance: "Insurance",
+  id: "ID",
+};
+
+export default function PlumberDocumentsModal({ plumber, onClose }: PlumberDocumentsModalProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: documents = [], isLoading } = useQuery({
+    queryKey: ['/api/plumbers', plumber?.id, 'documents'],
+    queryFn: async () => {
+      const response = await authenticatedApiRequest('GET', `/api/plumbers/${plumber!.id}/documents`);
+      return response.json() as Promise<PlumberDocument[]>;
+    },
+    enabled: !!plumber,
+  });
+
+  const reviewDocumentMutation = useMutation({
+    mutationFn: async ({ documentId, status }: { documentId: string; status: 'approved' | 'rejected' }) => {
+      const response = await authenticatedApiRequest('PATCH', `/api/documents/${documentId}/review`, { status });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/plumbers'] });
+    },
+    onError: () => {
+      toast({
+        title: "Review Failed",
+        description: "Failed to update the document. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const verifyPlumberMutation = useMutation({
+    mutationFn: async () => {
+      const response = await authenticatedApiRequest('PATCH', `/api/plumbers/${plumber!.id}/verify`, { isVerified: true });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/plumbers'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
+      toast({
+        title: "Plumber Verified",
+        description: "The plumber is now active and can receive jobs.",
+      });
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "Verification Failed",
+        description: error instanceof Error ? error.message : "Please try again later.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Files are behind auth, so fetch them with the bearer token and open a local object URL
+  const handleViewDocument = async (document: PlumberDocument) => {
+    try {
+      const response = await authenticatedApiRequest('GET', `/api/documents/${document.id}/file`);
+      const url = URL.createObjectURL(await response.blob());
+      window.open(url, "_blank");
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to open the document.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const getDocumentStatusBadge = (document: PlumberDocument) => {
+    if (document.expiresAt && new Date(document.expiresAt) <= new Date()) {
+      return <Badge variant="outline" className="bg-destructive/10 text-destructive border-destructive/30">Expired</Badge>;
+    }
+    switch (document.status) {
+      case 'approved':
+        return <Badge variant="outline" className="bg-success/10 text-success border-success/30">Approved</Badge>;
+      case 'rejected':
+        return <Badge variant="outline" className="bg-destructive/10 text-destructive border-destructive/30">Rejected</Badge>;
+      default:
+        return <Badge variant="outline" className="bg-warning/10 text-warning border-warning/30">Pending Review</Badge>;
+    }
+  };
+
+  return (
+    <Dialog open={!!plumber} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <div className="flex items-center justify-between">
+            <DialogTitle className="text-2xl font-bold">
+              Documents{plumber?.user?.name ? ` — ${plumber.user.name}` : ""}
+            </DialogTitle>
+            <Button variant="ghost" size="icon" onClick={onClose} data-testid="button-close-documents-modal">
+              <X className="h-5 w-5" />
+            </Button>
+          </div>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="space-y-3">
+            {[1, 2, 3].map(i => (
+              <div key={i} className="skeleton h-14 w-full"></div>
+            ))}
+          </div>
+        ) : documents.length === 0 ? (
+          <div className="text-center py-12">
+            <FileText className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+            <h3 className="text-lg font-medium text-foreground mb-2">No documents uploaded</h3>
+            <p className="text-muted-foreground">License, insurance and ID are required before verification.</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {documents.map((document) => (
+              <div key={document.id} className="flex items-center justify-between border border-border rounded-lg p-4" data-testid={`document-row-${document.id}`}>
+                <div className="flex items-center space-x-3">
+                  <FileText className="h-5 w-5 text-muted-foreground" />
+                  <div>
+                    <div className="font-medium text-foreground">{documentTypeLabels[document.type] || document.type}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {document.fileName}
+                      {document.expiresAt && ` · Expires ${new Date(document.expiresAt).toLocaleDateString()}`}
+                    </div>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2">
+                  {getDocumentStatusBadge(document)}
+                  <Button variant="ghost" size="sm" onClick={() => handleViewDocument(document)} data-testid={`button-view-document-${document.id}`}>
+                    <ExternalLink className="w-4 h-4" />
+                  </Button>
+                  {document.status !== 'approved' && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-success border-success"
+                      disabled={reviewDocumentMutation.isPending}
+                      onClick={() => reviewDocumentMutation.mutate({ documentId: document.id, status: 'approved' })}
+                      data-testid={`button-approve-document-${document.id}`}
+                    >
+                      <Check className="w-4 h-4" />
+                    </Button>
+                  )}
+                  {document.status !== 'rejected' && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-destructive border-destructive"
+                      disabled={reviewDocumentMutation.isPending}
+                      onClick={() => reviewDocumentMutation.mutate({ documentId: document.id, status: 'rejected' })}
+                      data-testid={`button-reject-document-${document.id}`}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {plumber && !plumber.isVerified && (
+          <div className="flex pt-4">
+            <Button
+              className="flex-1"
+              onClick={() => verifyPlumberMutation.mutate()}
+              disabled={verifyPlumberMutation.isPending}
+              data-testid="button-verify-plumber"
+            >
+              <UserCheck className="w-4 h-4 mr-2" />
+              {verifyPlumberMutation.isPending ? "Verifying..." : "Verify Plumber"}
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
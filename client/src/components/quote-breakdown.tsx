@@ -0,0 +1,50 @@
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { formatMoney, getLineItemAmount, quoteLineItemTypes, type QuoteLineItem, type QuoteTotals } from "@shared/pricing";
+
+interface QuoteBreakdownProps {
+  lineItems: QuoteLineItem[];
+  taxRate: number;
+  totals: QuoteTotals;
+}
+
+export default function QuoteBreakdown({ lineItems, taxRate, totals }: QuoteBreakdownProps) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Item</TableHead>
+          <TableHead className="text-right">Qty</TableHead>
+          <TableHead className="text-right">Unit</TableHead>
+          <TableHead className="text-right">Amount</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {lineItems.map((item, index) => (
+          <TableRow key={index}>
+            <TableCell>
+              <div className="font-medium">{item.description}</div>
+              <div className="text-xs text-muted-foreground">{quoteLineItemTypes[item.type]}</div>
+            </TableCell>
+            <TableCell className="text-right">{item.quantity}</TableCell>
+            <TableCell className="text-right">{formatMoney(item.unitPrice)}</TableCell>
+            <TableCell className="text-right">{formatMoney(getLineItemAmount(item))}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+      <TableFooter>
+        <TableRow>
+          <TableCell colSpan={3}>Subtotal</TableCell>
+          <TableCell className="text-right">{formatMoney(totals.subtotal)}</TableCell>
+        </TableRow>
+        <TableRow>
+          <TableCell colSpan={3}>Tax ({taxRate}%)</TableCell>
+          <TableCell className="text-right">{formatMoney(totals.tax)}</TableCell>
+        </TableRow>
+        <TableRow>
+          <TableCell colSpan={3} className="font-bold">Total</TableCell>
+          <TableCell className="text-right font-bold" data-testid="text-quote-total">{formatMoney(totals.total)}</TableCell>
+        </TableRow>
+      </TableFooter>
+    </Table>
+  );
+}
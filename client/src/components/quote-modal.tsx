@@ -0,0 +1,136 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import QuoteBreakdown from "@/components/quote-breakdown";
+import LineItemsEditor, { newLineItem, toLineItemDraft, toLineItems, type LineItemDraft } from "@/components/line-items-editor";
+import { authenticatedApiRequest } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import type { Booking, Quote } from "@shared/schema";
+import { calculateQuoteTotals } from "@shared/pricing";
+
+interface QuoteModalProps {
+  booking: Booking | null;
+  // The quote being revised, if any; its items prefill the form
+  currentQuote?: Quote;
+  onClose: () => void;
+}
+
+function toDrafts(quote?: Quote): LineItemDraft[] {
+  return quote ? quote.lineItems.map(toLineItemDraft) : [newLineItem('call-out'), newLineItem('labour')];
+}
+
+export default function QuoteModal({ booking, currentQuote, onClose }: QuoteModalProps) {
+  const [drafts, setDrafts] = useState<LineItemDraft[]>(() => toDrafts(currentQuote));
+  const [taxRate, setTaxRate] = useState("0");
+  const [notes, setNotes] = useState("");
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!booking) return;
+    setDrafts(toDrafts(currentQuote));
+    setTaxRate(String(currentQuote?.taxRate ?? 0));
+    setNotes(currentQuote?.notes ?? "");
+  }, [booking?.id, currentQuote?.id]);
+
+  const lineItems = toLineItems(drafts);
+  const totals = calculateQuoteTotals(lineItems, Number(taxRate) || 0);
+  const isValid = lineItems.length > 0 && lineItems.every(item => item.description && item.quantity > 0);
+
+  const sendQuoteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await authenticatedApiRequest('POST', `/api/bookings/${booking!.id}/quotes`, {
+        lineItems,
+        taxRate: Number(taxRate) || 0,
+        notes: notes || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/quotes'] });
+      toast({
+        title: currentQuote ? "Quote Revised" : "Quote Sent",
+        description: "The customer needs to accept it before you can start the job.",
+      });
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "Quote Failed",
+        description: error instanceof Error ? error.message : "Please try again later.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={!!booking} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <div className="flex items-center justify-between">
+            <DialogTitle className="text-2xl font-bold">
+              {currentQuote ? `Revise Quote (v${currentQuote.version + 1})` : "Send Quote"}
+            </DialogTitle>
+            <Button variant="ghost" size="icon" onClick={onClose} data-testid="button-close-quote-modal">
+              <X className="h-5 w-5" />
+            </Button>
+          </div>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="text-sm text-muted-foreground">
+            {booking?.category} &middot; Job #{booking?.id.slice(-8)}
+          </div>
+
+          <LineItemsEditor drafts={drafts} onChange={setDrafts} />
+
+          <div className="grid md:grid-cols-4 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="quote-tax-rate">Tax rate (%)</Label>
+              <Input
+                id="quote-tax-rate"
+                type="number"
+                min="0"
+                max="100"
+                step="0.1"
+                value={taxRate}
+                onChange={(e) => setTaxRate(e.target.value)}
+                data-testid="input-quote-tax-rate"
+              />
+            </div>
+            <div className="md:col-span-3 space-y-1">
+              <Label htmlFor="quote-notes">Notes for the customer (optional)</Label>
+              <Textarea
+                id="quote-notes"
+                rows={2}
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                data-testid="textarea-quote-notes"
+              />
+            </div>
+          </div>
+
+          <QuoteBreakdown lineItems={lineItems} taxRate={Number(taxRate) || 0} totals={totals} />
+
+          <div className="flex justify-end space-x-3">
+            <Button variant="outline" onClick={onClose} data-testid="button-cancel-quote">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => sendQuoteMutation.mutate()}
+              disabled={!isValid || sendQuoteMutation.isPending}
+              data-testid="button-send-quote"
+            >
+              {sendQuoteMutation.isPending ? "Sending..." : currentQuote ? "Send Revision" : "Send Quote"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
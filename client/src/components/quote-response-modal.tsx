@@ -0,0 +1,101 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Check, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import QuoteBreakdown from "@/components/quote-breakdown";
+import { authenticatedApiRequest } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import type { Quote } from "@shared/schema";
+
+interface QuoteResponseModalProps {
+  quote: Quote | null;
+  onClose: () => void;
+}
+
+export default function QuoteResponseModal({ quote, onClose }: QuoteResponseModalProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const respondMutation = useMutation({
+    mutationFn: async (decision: 'accepted' | 'declined') => {
+      const response = await authenticatedApiRequest('POST', `/api/quotes/${quote!.id}/respond`, { decision });
+      return response.json();
+    },
+    onSuccess: (_data, decision) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/quotes'] });
+      toast({
+        title: decision === 'accepted' ? "Quote Accepted" : "Quote Declined",
+        description: decision === 'accepted'
+          ? "Your plumber can now start the work."
+          : "Your plumber can send a revised quote.",
+      });
+      onClose();
+    },
+    onError: (error) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/quotes'] });
+      toast({
+        title: "Could Not Respond",
+        description: error instanceof Error ? error.message : "Please try again later.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={!!quote} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <div className="flex items-center justify-between">
+            <DialogTitle className="text-2xl font-bold">Quote v{quote?.version}</DialogTitle>
+            <Button variant="ghost" size="icon" onClick={onClose} data-testid="button-close-quote-response-modal">
+              <X className="h-5 w-5" />
+            </Button>
+          </div>
+        </DialogHeader>
+
+        {quote && (
+          <div className="space-y-6">
+            <div className="text-sm text-muted-foreground">
+              Booking #{quote.bookingId.slice(-8)}
+              {quote.createdAt && <> &middot; Sent {new Date(quote.createdAt).toLocaleString()}</>}
+            </div>
+
+            <QuoteBreakdown lineItems={quote.lineItems} taxRate={quote.taxRate} totals={quote} />
+
+            {quote.notes && (
+              <div className="p-3 bg-muted rounded-lg text-sm text-foreground">{quote.notes}</div>
+            )}
+
+            {quote.status === 'pending' ? (
+              <div className="flex justify-end space-x-3">
+                <Button
+                  variant="outline"
+                  className="border-destructive text-destructive hover:bg-destructive/10"
+                  onClick={() => respondMutation.mutate('declined')}
+                  disabled={respondMutation.isPending}
+                  data-testid="button-decline-quote"
+                >
+                  <X className="w-4 h-4 mr-2" />
+                  Decline
+                </Button>
+                <Button
+                  className="bg-success text-success-foreground hover:bg-success/90"
+                  onClick={() => respondMutation.mutate('accepted')}
+                  disabled={respondMutation.isPending}
+                  data-testid="button-accept-quote"
+                >
+                  <Check className="w-4 h-4 mr-2" />
+                  Accept Quote
+                </Button>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground text-right">
+                You {quote.status} this quote{quote.respondedAt && ` on ${new Date(quote.respondedAt).toLocaleDateString()}`}.
+              </p>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
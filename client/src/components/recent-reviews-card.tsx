@@ -0,0 +1,107 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import StarRating from "@/components/star-rating";
+import { authenticatedApiRequest } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import type { Review } from "@shared/schema";
+
+// How many of the newest reviews the dashboard shows
+const visibleReviews = 5;
+
+export default function RecentReviewsCard() {
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [reply, setReply] = useState("");
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: reviews = [] } = useQuery({
+    queryKey: ['/api/reviews'],
+    queryFn: async () => {
+      const response = await authenticatedApiRequest('GET', '/api/reviews');
+      return response.json() as Promise<Review[]>;
+    },
+  });
+
+  const replyMutation = useMutation({
+    mutationFn: async (reviewId: string) => {
+      const response = await authenticatedApiRequest('POST', `/api/reviews/${reviewId}/reply`, { reply });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/reviews'] });
+      setReplyingTo(null);
+      setReply("");
+      toast({ title: "Reply Posted" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Reply Failed",
+        description: error instanceof Error ? error.message : "Please try again later.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold">Recent Reviews</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {reviews.length === 0 && (
+          <p className="text-sm text-muted-foreground">No reviews yet. Customers can rate you once a job is completed.</p>
+        )}
+        {reviews.slice(0, visibleReviews).map((review) => (
+          <div key={review.id} data-testid={`review-${review.id}`}>
+            <div className="flex items-center space-x-2 mb-2">
+              <StarRating value={review.rating} />
+              <span className="text-sm text-muted-foreground">
+                {review.createdAt ? new Date(review.createdAt).toLocaleDateString() : ""}
+              </span>
+            </div>
+            {review.comment && <p className="text-sm text-foreground">"{review.comment}"</p>}
+            <p className="text-xs text-muted-foreground mt-1">- Customer #{review.userId.slice(-8)}</p>
+
+            {review.reply ? (
+              <p className="text-sm text-muted-foreground mt-2 pl-3 border-l-2 border-border">Your reply: {review.reply}</p>
+            ) : replyingTo === review.id ? (
+              <div className="mt-2 space-y-2">
+                <Textarea
+                  rows={2}
+                  value={reply}
+                  onChange={(e) => setReply(e.target.value)}
+                  placeholder="Thank the customer or respond to their feedback"
+                  data-testid={`textarea-reply-${review.id}`}
+                />
+                <div className="flex justify-end space-x-2">
+                  <Button variant="ghost" size="sm" onClick={() => setReplyingTo(null)}>Cancel</Button>
+                  <Button
+                    size="sm"
+                    onClick={() => replyMutation.mutate(review.id)}
+                    disabled={!reply.trim() || replyMutation.isPending}
+                    data-testid={`button-submit-reply-${review.id}`}
+                  >
+                    Post Reply
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <Button
+                variant="link"
+                size="sm"
+                className="px-0"
+                onClick={() => { setReplyingTo(review.id); setReply(""); }}
+                data-testid={`button-reply-${review.id}`}
+              >
+                Reply
+              </Button>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,173 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { authenticatedApiRequest } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import type { Booking, Invoice, Refund } from "@shared/schema";
+import { refundReasons, type RefundReason, type RefundTerms } from "@shared/cancellation-policy";
+import { formatInvoiceNumber, formatMoney } from "@shared/pricing";
+
+interface RefundModalProps {
+  booking: Booking | null;
+  onClose: () => void;
+}
+
+type RefundableResponse = RefundTerms & { invoice: Invoice; refunds: Refund[] };
+
+// The form works in dollars; the API takes cents
+const toDollars = (cents: number) => (cents / 100).toFixed(2);
+
+export default function RefundModal({ booking, onClose }: RefundModalProps) {
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState<RefundReason | "">("");
+  const [note, setNote] = useState("");
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: terms } = useQuery({
+    queryKey: ['/api/bookings', booking?.id, 'refundable'],
+    queryFn: async () => {
+      const response = await authenticatedApiRequest('GET', `/api/bookings/${booking!.id}/refundable`);
+      return response.json() as Promise<RefundableResponse>;
+    },
+    enabled: !!booking,
+    staleTime: 0,
+  });
+
+  // Start from the whole refundable amount; the admin decides how much to give back
+  useEffect(() => {
+    if (!terms) return;
+    setAmount(toDollars(terms.refundable));
+    setReason(booking?.status === 'cancelled' ? 'cancellation' : "");
+  }, [terms, booking?.status]);
+
+  const amountCents = Math.round(Number(amount) * 100);
+  const isValid = !!reason && amountCents > 0 && !!terms && amountCents <= terms.refundable;
+
+  const refundMutation = useMutation({
+    mutationFn: async () => {
+      const response = await authenticatedApiRequest('POST', `/api/bookings/${booking!.id}/refunds`, {
+        amount: amountCents,
+        reason,
+        note: note || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/bookings'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/refunds'] });
+      toast({
+        title: "Refund Issued",
+        description: `${formatMoney(amountCents)} is on its way back to the customer.`,
+      });
+      handleClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "Refund Failed",
+        description: error instanceof Error ? error.message : "Please try again later.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleClose = () => {
+    setAmount("");
+    setReason("");
+    setNote("");
+    onClose();
+  };
+
+  return (
+    <Dialog open={!!booking} onOpenChange={handleClose}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <div className="flex items-center justify-between">
+            <DialogTitle className="text-2xl font-bold">Issue Refund</DialogTitle>
+            <Button variant="ghost" size="icon" onClick={handleClose} data-testid="button-close-refund-modal">
+              <X className="h-5 w-5" />
+            </Button>
+          </div>
+        </DialogHeader>
+
+        {terms && (
+          <div className="space-y-6">
+            <div className="p-4 bg-muted rounded-lg text-sm space-y-1">
+              <div className="flex justify-between"><span>{formatInvoiceNumber(terms.invoice.number)}</span><span>{formatMoney(terms.invoice.total)}</span></div>
+              <div className="flex justify-between text-muted-foreground"><span>Paid</span><span>{formatMoney(terms.invoice.amountPaid)}</span></div>
+              {terms.refunds.map(refund => (
+                <div key={refund.id} className="flex justify-between text-muted-foreground">
+                  <span>{refund.status === 'pending' ? "Refund processing" : "Refunded"}: {refundReasons[refund.reason] || refund.reason}</span>
+                  <span>&minus;{formatMoney(refund.amount)}</span>
+                </div>
+              ))}
+              <div className="flex justify-between font-bold text-foreground">
+                <span>Refundable</span><span data-testid="text-refundable">{formatMoney(terms.refundable)}</span>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="refund-amount">Amount ($) *</Label>
+              <Input
+                id="refund-amount"
+                type="number"
+                min="0.01"
+                max={toDollars(terms.refundable)}
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                data-testid="input-refund-amount"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Reason *</Label>
+              <Select value={reason} onValueChange={(value) => setReason(value as RefundReason)}>
+                <SelectTrigger data-testid="select-refund-reason">
+                  <SelectValue placeholder="Select a reason" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(refundReasons).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Note for the customer</Label>
+              <Textarea
+                rows={3}
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                data-testid="textarea-refund-note"
+              />
+            </div>
+
+            <div className="flex space-x-4 pt-2">
+              <Button variant="outline" className="flex-1" onClick={handleClose} disabled={refundMutation.isPending}>
+                Cancel
+              </Button>
+              <Button
+                className="flex-1"
+                onClick={() => refundMutation.mutate()}
+                disabled={!isValid || refundMutation.isPending}
+                data-testid="button-confirm-refund"
+              >
+                {refundMutation.isPending ? "Refunding..." : `Refund ${formatMoney(isValid ? amountCents : 0)}`}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,105 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import StarRating from "@/components/star-rating";
+import { authenticatedApiRequest } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import type { Booking } from "@shared/schema";
+
+interface ReviewModalProps {
+  booking: Booking | null;
+  onClose: () => void;
+}
+
+export default function ReviewModal({ booking, onClose }: ReviewModalProps) {
+  const [rating, setRating] = useState(0);
+  const [comment, setComment] = useState("");
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const submitReviewMutation = useMutation({
+    mutationFn: async () => {
+      const response = await authenticatedApiRequest('POST', `/api/bookings/${booking!.id}/review`, {
+        rating,
+        comment: comment || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/reviews'] });
+      toast({
+        title: "Thanks for Your Review",
+        description: "Your feedback helps us send the right plumber next time.",
+      });
+      handleClose();
+    },
+    onError: (error) => {
+      toast({
+        title: "Review Failed",
+        description: error instanceof Error ? error.message : "Please try again later.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleClose = () => {
+    setRating(0);
+    setComment("");
+    onClose();
+  };
+
+  return (
+    <Dialog open={!!booking} onOpenChange={handleClose}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <div className="flex items-center justify-between">
+            <DialogTitle className="text-2xl font-bold">Rate Service</DialogTitle>
+            <Button variant="ghost" size="icon" onClick={handleClose} data-testid="button-close-review-modal">
+              <X className="h-5 w-5" />
+            </Button>
+          </div>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="text-sm text-muted-foreground">
+            {booking?.category} &middot; Booking #{booking?.id.slice(-8)}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Your rating</Label>
+            <StarRating value={rating} onChange={setRating} size="lg" />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="review-comment">Comments (optional)</Label>
+            <Textarea
+              id="review-comment"
+              placeholder="How did the job go?"
+              rows={4}
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              data-testid="textarea-review-comment"
+            />
+          </div>
+
+          <div className="flex justify-end space-x-3">
+            <Button variant="outline" onClick={handleClose} data-testid="button-cancel-review">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => submitReviewMutation.mutate()}
+              disabled={rating === 0 || submitReviewMutation.isPending}
+              data-testid="button-submit-review"
+            >
+              {submitReviewMutation.isPending ? "Submitting..." : "Submit Review"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,99 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Star } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import StarRating from "@/components/star-rating";
+import { authenticatedApiRequest } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import type { Review } from "@shared/schema";
+
+export default function ReviewModeration() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: reviews = [], isLoading } = useQuery({
+    queryKey: ['/api/reviews'],
+    queryFn: async () => {
+      const response = await authenticatedApiRequest('GET', '/api/reviews');
+      return response.json() as Promise<Review[]>;
+    },
+  });
+
+  const moderateMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: Review['status'] }) => {
+      const response = await authenticatedApiRequest('PATCH', `/api/reviews/${id}/moderate`, { status });
+      return response.json();
+    },
+    onSuccess: (_data, { status }) => {
+      // Hiding or restoring a review changes the plumber's rating
+      queryClient.invalidateQueries({ queryKey: ['/api/reviews'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/plumbers'] });
+      toast({
+        title: status === 'hidden' ? "Review Hidden" : "Review Published",
+        description: "The plumber's rating has been recalculated.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Moderation Failed",
+        description: error instanceof Error ? error.message : "Please try again later.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!isLoading && reviews.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <Star className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+        <h3 className="text-lg font-medium text-foreground mb-2">No reviews yet</h3>
+        <p className="text-muted-foreground">Customers can review a job once it is completed.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Booking</TableHead>
+            <TableHead>Plumber</TableHead>
+            <TableHead>Rating</TableHead>
+            <TableHead>Comment</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {reviews.map((review) => (
+            <TableRow key={review.id} data-testid={`review-row-${review.id}`}>
+              <TableCell className="font-medium">#{review.bookingId.slice(-8)}</TableCell>
+              <TableCell>#{review.plumberId.slice(-8)}</TableCell>
+              <TableCell><StarRating value={review.rating} /></TableCell>
+              <TableCell className="max-w-sm">
+                <div className="text-sm text-foreground">{review.comment || "—"}</div>
+                {review.reply && <div className="text-xs text-muted-foreground mt-1">Reply: {review.reply}</div>}
+              </TableCell>
+              <TableCell>
+                <Badge variant={review.status === 'published' ? "secondary" : "outline"}>{review.status}</Badge>
+              </TableCell>
+              <TableCell>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => moderateMutation.mutate({ id: review.id, status: review.status === 'published' ? 'hidden' : 'published' })}
+                  disabled={moderateMutation.isPending}
+                  data-testid={`button-moderate-${review.id}`}
+                >
+                  {review.status === 'published' ? "Hide" : "Publish"}
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
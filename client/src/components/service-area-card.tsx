@@ -0,0 +1,103 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { MapPin } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { authenticatedApiRequest } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import type { Plumber } from "@shared/schema";
+
+export default function ServiceAreaCard() {
+  const [homeAddress, setHomeAddress] = useState("");
+  const [radiusKm, setRadiusKm] = useState("");
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: plumber } = useQuery({
+    queryKey: ['/api/plumbers/me'],
+    queryFn: async () => {
+      const response = await authenticatedApiRequest('GET', '/api/plumbers/me');
+      return response.json() as Promise<Plumber>;
+    },
+  });
+
+  const updateServiceAreaMutation = useMutation({
+    mutationFn: async () => {
+      const response = await authenticatedApiRequest('PUT', `/api/plumbers/${plumber!.id}/service-area`, {
+        type: 'radius',
+        homeAddress,
+        radiusKm: Number(radiusKm),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/plumbers/me'] });
+      setHomeAddress("");
+      setRadiusKm("");
+      toast({
+        title: "Service Area Updated",
+        description: "New jobs will be matched to your updated area.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Update Failed",
+        description: error instanceof Error ? error.message : "Please try again later.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const serviceArea = plumber?.serviceArea;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg font-semibold">Service Area</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center text-sm text-muted-foreground">
+          <MapPin className="w-4 h-4 mr-2" />
+          {!serviceArea
+            ? "No service area set. You may be dispatched anywhere."
+            : serviceArea.type === 'radius'
+              ? `Within ${serviceArea.radiusKm} km of ${serviceArea.center.lat.toFixed(3)}, ${serviceArea.center.lng.toFixed(3)}`
+              : `Custom area with ${serviceArea.points.length} boundary points`}
+        </div>
+        <div className="grid md:grid-cols-3 gap-3">
+          <div className="md:col-span-2 space-y-1">
+            <Label htmlFor="service-area-address">Home address</Label>
+            <Input
+              id="service-area-address"
+              placeholder="123 Main St, City"
+              value={homeAddress}
+              onChange={(e) => setHomeAddress(e.target.value)}
+              data-testid="input-service-area-address"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="service-area-radius">Radius (km)</Label>
+            <Input
+              id="service-area-radius"
+              type="number"
+              min={1}
+              value={radiusKm}
+              onChange={(e) => setRadiusKm(e.target.value)}
+              data-testid="input-service-area-radius"
+            />
+          </div>
+        </div>
+        <Button
+          className="w-full"
+          onClick={() => updateServiceAreaMutation.mutate()}
+          disabled={!plumber || !homeAddress || !(Number(radiusKm) > 0) || updateServiceAreaMutation.isPending}
+          data-testid="button-save-service-area"
+        >
+          {updateServiceAreaMutation.isPending ? "Saving..." : "Save Service Area"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
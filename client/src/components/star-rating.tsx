@@ -0,0 +1,34 @@
+import { Star } from "lucide-react";
+
+interface StarRatingProps {
+  value: number;
+  onChange?: (value: number) => void;
+  size?: "sm" | "lg";
+}
+
+// Read-only unless onChange is given
+export default function StarRating({ value, onChange, size = "sm" }: StarRatingProps) {
+  const iconClass = size === "lg" ? "w-8 h-8" : "w-4 h-4";
+
+  return (
+    <div className="flex text-warning">
+      {[1, 2, 3, 4, 5].map((star) => {
+        const icon = <Star className={`${iconClass} ${star <= value ? "fill-current" : "opacity-30"}`} />;
+        return onChange ? (
+          <button
+            key={star}
+            type="button"
+            className="p-0.5"
+            onClick={() => onChange(star)}
+            aria-label={`${star} star${star > 1 ? "s" : ""}`}
+            data-testid={`button-star-${star}`}
+          >
+            {icon}
+          </button>
+        ) : (
+          <span key={star}>{icon}</span>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import { useEffect } from "react";
+import { useQueryClient, type QueryClient } from "@tanstack/react-query";
+import { authService } from "@/lib/auth";
+import { realtimeEventsPath, realtimePath, type RealtimeMessage } from "@shared/realtime";
+
+// Everything a booking change can show up in, across the three dashboards
+const bookingQueryKeys = [
+  ['/api/bookings'],
+  ['/api/quotes'],
+  ['/api/dashboard/stats'],
+  ['/api/refunds'],
+  ['/api/earnings'],
+  ['/api/plumbers'],
+];
+
+const maxReconnectDelayMs = 30_000;
+
+function refreshBookings(queryClient: QueryClient) {
+  for (const queryKey of bookingQueryKeys) {
+    queryClient.invalidateQueries({ queryKey });
+  }
+}
+
+function applyMessage(queryClient: QueryClient, message: RealtimeMessage) {
+  if (message.type === 'booking') {
+    refreshBookings(queryClient);
+  } else {
+    queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
+  }
+}
+
+/**
+ * Keeps the signed-in dashboard current by refetching whatever the server
+ * says changed. Uses a WebSocket where the host supports one and falls back
+ * to server-sent events when the first connection never opens, as on Netlify.
+ */
+export function useRealtimeUpdates() {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!authService.isAuthenticated()) return;
+
+    let stopped = false;
+    let socket: WebSocket | null = null;
+    let eventSource: EventSource | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let hasConnected = false;
+    let attempts = 0;
+    let lastEventId: string | null = null;
+
+    const onMessage = (data: string) => {
+      try {
+        applyMessage(queryClient, JSON.parse(data) as RealtimeMessage);
+      } catch (error) {
+        console.error('Ignoring malformed realtime message:', error);
+      }
+    };
+
+    // Tokens are short-lived, so every connection asks for a current one
+    const openEventSource = async () => {
+      const token = await authService.getValidAccessToken();
+      if (!token || stopped) return;
+      const params = new URLSearchParams({ token });
+      if (lastEventId) params.set('lastEventId', lastEventId);
+      const source = new EventSource(`${realtimeEventsPath}?${params}`);
+      eventSource = source;
+      source.onmessage = (event) => {
+        lastEventId = event.lastEventId || lastEventId;
+        onMessage(event.data);
+      };
+      source.onerror = () => {
+        // The browser reconnects by itself unless the server refused, usually over an expired token
+        if (source.readyState !== EventSource.CLOSED) return;
+        reconnectTimer = setTimeout(openEventSource, 2000);
+      };
+    };
+
+    const openSocket = async () => {
+      const token = await authService.getValidAccessToken();
+      if (!token || stopped) return;
+      const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+      socket = new WebSocket(`${protocol}//${window.location.host}${realtimePath}?token=${encodeURIComponent(token)}`);
+      socket.onopen = () => {
+        // Anything could have changed while we were disconnected
+        if (hasConnected) {
+          refreshBookings(queryClient);
+          queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
+        }
+        hasConnected = true;
+        attempts = 0;
+      };
+      socket.onmessage = (event) => onMessage(event.data);
+      socket.onclose = () => {
+        if (stopped) return;
+        if (!hasConnected) return openEventSource();
+        const delay = Math.min(maxReconnectDelayMs, 1000 * 2 ** attempts++);
+        reconnectTimer = setTimeout(openSocket, delay);
+      };
+    };
+
+    openSocket();
+
+    return () => {
+      stopped = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+      eventSource?.close();
+    };
+  }, [queryClient]);
+}
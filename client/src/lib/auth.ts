@@ -1,26 +1,56 @@
 import { apiRequest } from "./queryClient";
+import { isStaffRole, type Role } from "@shared/permissions";
 
 export interface User {
   id: string;
   name: string;
   email: string;
-  role: 'user' | 'plumber' | 'admin';
+  role: Role;
+  // Missing for sign-ins saved before email verification existed
+  emailVerified?: boolean;
 }
 
 export interface AuthResponse {
   user: User;
   token: string;
+  refreshToken: string;
+}
+
+// Refresh this long before the access token expires, so requests in flight don't race it
+const refreshMarginMs = 30 * 1000;
+
+// Seconds since the epoch when a JWT expires, or null if it can't be read
+function getTokenExpiry(token: string): number | null {
+  try {
+    const payload = JSON.parse(atob(token.split('.')[1].replace(/-/g, '+').replace(/_/g, '/')));
+    return typeof payload.exp === 'number' ? payload.exp : null;
+  } catch {
+    return null;
+  }
 }
 
 class AuthService {
   private currentUser: User | null = null;
   private token: string | null = null;
+  private refreshToken: string | null = null;
+  private refreshing: Promise<string | null> | null = null;
 
   constructor() {
-    // Load auth state from localStorage on initialization
+    this.loadAuth();
+    // Another tab signing in, out or refreshing rotates the tokens this tab holds
+    window.addEventListener('storage', (event) => {
+      if (event.key?.startsWith('auth_')) this.loadAuth();
+    });
+  }
+
+  private loadAuth(): void {
+    // Load auth state from localStorage
     const savedToken = localStorage.getItem('auth_token');
     const savedUser = localStorage.getItem('auth_user');
-    
+    this.refreshToken = localStorage.getItem('auth_refresh_token');
+    this.token = null;
+    this.currentUser = null;
+
     if (savedToken && savedUser) {
       try {
         this.token = savedToken;
@@ -37,7 +67,7 @@ class AuthService {
       const response = await apiRequest('POST', '/api/auth/login', { email, password });
       const data: AuthResponse = await response.json();
       
-      this.setAuth(data.user, data.token);
+      this.setAuth(data.user, data.token, data.refreshToken);
       return data;
     } catch (error) {
       console.error('Login failed:', error);
@@ -50,14 +80,14 @@ class AuthService {
     email: string;
     password: string;
     phone: string;
-    role: 'user' | 'plumber' | 'admin';
+    role: 'user' | 'plumber';
     address?: string;
   }): Promise<AuthResponse> {
     try {
       const response = await apiRequest('POST', '/api/auth/register', userData);
       const data: AuthResponse = await response.json();
       
-      this.setAuth(data.user, data.token);
+      this.setAuth(data.user, data.token, data.refreshToken);
       return data;
     } catch (error) {
       console.error('Registration failed:', error);
@@ -65,14 +95,99 @@ class AuthService {
     }
   }
 
+  // Creates the invited admin's account and signs them in
+  async acceptAdminInvite(details: {
+    token: string;
+    name: string;
+    phone: string;
+    password: string;
+  }): Promise<AuthResponse> {
+    const response = await apiRequest('POST', '/api/admin-invites/accept', details);
+    const data: AuthResponse = await response.json();
+
+    this.setAuth(data.user, data.token, data.refreshToken);
+    return data;
+  }
+
   logout(): void {
+    const refreshToken = this.refreshToken;
     this.clearAuth();
+    // Ends the session on the server too; the user is signed out here either way
+    if (refreshToken) {
+      apiRequest('POST', '/api/auth/logout', { refreshToken }).catch(error => console.error('Logout failed:', error));
+    }
+  }
+
+  /**
+   * Swaps the refresh token for new tokens. Resolves null when the session has
+   * ended, after clearing the saved sign-in.
+   */
+  refresh(): Promise<string | null> {
+    if (!this.refreshing) {
+      this.refreshing = this.runExclusive(() => this.refreshOnce()).finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  // The access token, refreshed first if it is about to expire
+  async getValidAccessToken(): Promise<string | null> {
+    if (!this.token) return null;
+    const expiry = getTokenExpiry(this.token);
+    if (expiry !== null && expiry * 1000 - Date.now() < refreshMarginMs) {
+      return this.refresh();
+    }
+    return this.token;
+  }
+
+  // Each refresh token works once, so tabs take turns using it
+  private async runExclusive<T>(fn: () => Promise<T>): Promise<T> {
+    if (!navigator.locks) return fn();
+    return navigator.locks.request('auth-refresh', fn);
+  }
+
+  private async refreshOnce(): Promise<string | null> {
+    const usedToken = this.refreshToken;
+    // Another tab may have refreshed while this one waited for the lock
+    this.loadAuth();
+    if (this.refreshToken !== usedToken && this.token) return this.token;
+    // Sign-ins saved before refresh tokens existed can't be renewed, so start again from the login page
+    if (!this.refreshToken) {
+      this.clearAuth();
+      if (window.location.pathname !== '/login') window.location.assign('/login');
+      return null;
+    }
+
+    const response = await fetch('/api/auth/refresh', {
+      method: 'POST',
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ refreshToken: this.refreshToken }),
+      credentials: "include",
+    });
+    if (response.status === 401) {
+      this.clearAuth();
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`${response.status}: ${(await response.text()) || response.statusText}`);
+    }
+    const data: AuthResponse = await response.json();
+    this.setAuth(data.user, data.token, data.refreshToken);
+    return data.token;
   }
 
   getCurrentUser(): User | null {
     return this.currentUser;
   }
 
+  // Replaces the saved user after the server reports a change, like a confirmed email
+  updateCurrentUser(user: User): void {
+    if (this.currentUser?.id !== user.id) return;
+    this.currentUser = user;
+    localStorage.setItem('auth_user', JSON.stringify(user));
+  }
+
   getToken(): string | null {
     return this.token;
   }
@@ -81,25 +196,35 @@ class AuthService {
     return !!this.currentUser && !!this.token;
   }
 
-  private setAuth(user: User, token: string): void {
+  private setAuth(user: User, token: string, refreshToken: string): void {
     this.currentUser = user;
     this.token = token;
+    this.refreshToken = refreshToken;
     
     localStorage.setItem('auth_token', token);
     localStorage.setItem('auth_user', JSON.stringify(user));
+    localStorage.setItem('auth_refresh_token', refreshToken);
   }
 
   private clearAuth(): void {
     this.currentUser = null;
     this.token = null;
+    this.refreshToken = null;
     
     localStorage.removeItem('auth_token');
     localStorage.removeItem('auth_user');
+    localStorage.removeItem('auth_refresh_token');
   }
 }
 
 export const authService = new AuthService();
 
+// Every staff role works from the admin dashboard, which hides what the role can't do
+export function getDashboardPath(role: Role): string {
+  if (isStaffRole(role)) return '/dashboard/admin';
+  return role === 'plumber' ? '/dashboard/plumber' : '/dashboard/user';
+}
+
 // Interceptor to add auth headers to requests
 const originalApiRequest = apiRequest;
 export async function authenticatedApiRequest(
@@ -107,18 +232,29 @@ export async function authenticatedApiRequest(
   url: string,
   data?: unknown
 ): Promise<Response> {
-  const token = authService.getToken();
-  
-  const response = await fetch(url, {
+  // FormData bodies let the browser set the multipart boundary itself
+  const isFormData = data instanceof FormData;
+  const send = (token: string | null) => fetch(url, {
     method,
     headers: {
-      ...(data ? { "Content-Type": "application/json" } : {}),
+      ...(data && !isFormData ? { "Content-Type": "application/json" } : {}),
       ...(token ? { Authorization: `Bearer ${token}` } : {}),
     },
-    body: data ? JSON.stringify(data) : undefined,
+    body: isFormData ? data : data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
 
+  let response = await send(await authService.getValidAccessToken());
+  // The access token expired anyway (a sleeping laptop, a skewed clock): refresh once and retry
+  if (response.status === 401 && authService.isAuthenticated()) {
+    const token = await authService.refresh();
+    if (token) response = await send(token);
+  }
+  // The session has ended, here or in another tab
+  if (response.status === 401 && !authService.isAuthenticated()) {
+    window.location.assign('/login');
+  }
+
   if (!response.ok) {
     const text = (await response.text()) || response.statusText;
     throw new Error(`${response.status}: ${text}`);
@@ -0,0 +1,156 @@
+import { useEffect, useState } from "react";
+import { Link, useLocation, useSearch } from "wouter";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Crown, MailX } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { authService, getDashboardPath } from "@/lib/auth";
+import { roleLabels, type StaffRole } from "@shared/permissions";
+
+const acceptInviteSchema = z.object({
+  name: z.string().min(2, "Name must be at least 2 characters"),
+  phone: z.string().min(10, "Please enter a valid phone number"),
+  password: z.string().min(6, "Password must be at least 6 characters"),
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+});
+
+type AcceptInviteForm = z.infer<typeof acceptInviteSchema>;
+
+type InviteState =
+  | { status: 'loading' }
+  | { status: 'ready'; email: string; role: StaffRole }
+  | { status: 'invalid'; message: string };
+
+export default function AcceptInvite() {
+  const [, setLocation] = useLocation();
+  const token = new URLSearchParams(useSearch()).get("token");
+  const [invite, setInvite] = useState<InviteState>({ status: 'loading' });
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  const form = useForm<AcceptInviteForm>({
+    resolver: zodResolver(acceptInviteSchema),
+    defaultValues: {
+      name: "",
+      phone: "",
+      password: "",
+      confirmPassword: "",
+    },
+  });
+
+  // Checking the invite up front saves filling in the form for a link that no longer works
+  useEffect(() => {
+    if (!token) {
+      setInvite({ status: 'invalid', message: "This link is missing its invite token." });
+      return;
+    }
+    apiRequest('POST', '/api/admin-invites/preview', { token })
+      .then(response => response.json() as Promise<{ email: string; role: StaffRole }>)
+      .then(({ email, role }) => setInvite({ status: 'ready', email, role }))
+      .catch(error => setInvite({ status: 'invalid', message: error instanceof Error ? error.message : "Ask an admin to send a new invite." }));
+  }, [token]);
+
+  const onSubmit = async (data: AcceptInviteForm) => {
+    if (!token) return;
+    setIsLoading(true);
+    try {
+      const result = await authService.acceptAdminInvite({
+        token,
+        name: data.name,
+        phone: data.phone,
+        password: data.password,
+      });
+      toast({
+        title: "Welcome to PlumbPro!",
+        description: `Signed in as ${result.user.name}`,
+      });
+      setLocation(getDashboardPath(result.user.role));
+    } catch (error) {
+      toast({
+        title: "Could Not Accept Invite",
+        description: error instanceof Error ? error.message : "Please try again later.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8 bg-gradient-to-br from-primary/5 to-accent/5">
+      <Card className="w-full max-w-md shadow-xl">
+        <CardHeader className="text-center">
+          <div className="w-16 h-16 bg-primary rounded-xl flex items-center justify-center mx-auto mb-4">
+            {invite.status === 'invalid' ? <MailX className="text-primary-foreground text-3xl" /> : <Crown className="text-primary-foreground text-3xl" />}
+          </div>
+          <CardTitle className="text-3xl font-bold">{invite.status === 'invalid' ? "Invite Not Valid" : "Join the Team"}</CardTitle>
+          <p className="text-muted-foreground mt-2" data-testid="text-invite-status">
+            {invite.status === 'loading' && "Checking your invite..."}
+            {invite.status === 'ready' && `Set up the ${roleLabels[invite.role].toLowerCase()} account for ${invite.email}`}
+            {invite.status === 'invalid' && invite.message}
+          </p>
+        </CardHeader>
+
+        <CardContent>
+          {invite.status === 'ready' && (
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+              <div>
+                <Label htmlFor="name">Full Name</Label>
+                <Input id="name" placeholder="John Doe" data-testid="input-name" {...form.register("name")} />
+                {form.formState.errors.name && (
+                  <p className="text-sm text-destructive mt-1">{form.formState.errors.name.message}</p>
+                )}
+              </div>
+
+              <div>
+                <Label htmlFor="phone">Phone Number</Label>
+                <Input id="phone" type="tel" placeholder="(555) 123-4567" data-testid="input-phone" {...form.register("phone")} />
+                {form.formState.errors.phone && (
+                  <p className="text-sm text-destructive mt-1">{form.formState.errors.phone.message}</p>
+                )}
+              </div>
+
+              <div>
+                <Label htmlFor="password">Password</Label>
+                <Input id="password" type="password" placeholder="••••••••" data-testid="input-password" {...form.register("password")} />
+                {form.formState.errors.password && (
+                  <p className="text-sm text-destructive mt-1">{form.formState.errors.password.message}</p>
+                )}
+              </div>
+
+              <div>
+                <Label htmlFor="confirmPassword">Confirm Password</Label>
+                <Input id="confirmPassword" type="password" placeholder="••••••••" data-testid="input-confirm-password" {...form.register("confirmPassword")} />
+                {form.formState.errors.confirmPassword && (
+                  <p className="text-sm text-destructive mt-1">{form.formState.errors.confirmPassword.message}</p>
+                )}
+              </div>
+
+              <Button type="submit" className="w-full" disabled={isLoading} data-testid="button-accept-invite">
+                {isLoading ? "Creating account..." : "Create Account"}
+              </Button>
+            </form>
+          )}
+
+          <div className="mt-6 text-center">
+            <p className="text-sm text-muted-foreground">
+              Already have an account?{" "}
+              <Link href="/login" className="text-primary hover:text-primary/80 transition-all font-medium">
+                Sign in
+              </Link>
+            </p>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
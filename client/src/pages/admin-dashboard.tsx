@@ -1,7 +1,7 @@
 import { useEffect, useState } from "react";
 import { useLocation } from "wouter";
-import { useQuery } from "@tanstack/react-query";
-import { Crown, Bell, LogOut, TrendingUp, Users, DollarSign, UserPlus, Download, Eye, UserX, UserCheck, Search, BarChart3, PieChart, Trophy } from "lucide-react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Crown, LogOut, TrendingUp, Users, DollarSign, UserPlus, Download, Eye, UserX, UserCheck, Search, BarChart3, PieChart, Trophy, MoreHorizontal, Undo2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -9,15 +9,42 @@ import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { authService, authenticatedApiRequest } from "@/lib/auth";
 import { useToast } from "@/hooks/use-toast";
+import { useRealtimeUpdates } from "@/hooks/use-realtime-updates";
 import OnboardModal from "@/components/onboard-modal";
+import PlumberDocumentsModal from "@/components/plumber-documents-modal";
+import CancelBookingModal from "@/components/cancel-booking-modal";
+import BookingDetailsModal from "@/components/booking-details-modal";
+import RefundModal from "@/components/refund-modal";
+import ReviewModeration from "@/components/review-moderation";
+import PayoutBatches from "@/components/payout-batches";
+import MessageLog from "@/components/message-log";
+import NotificationBell from "@/components/notification-bell";
+import DevicesDialog from "@/components/devices-dialog";
+import AdminInvitesDialog from "@/components/admin-invites-dialog";
+import EmailVerificationBanner from "@/components/email-verification-banner";
 import type { Booking, User, Plumber } from "@shared/schema";
+import { formatAppointmentDate, getBookingWindow } from "@shared/scheduling";
+import { getAllowedTransitions, type BookingStatus } from "@shared/booking-status";
+import { hasPermission, isStaffRole, roleLabels, type Permission } from "@shared/permissions";
 
 interface PlumberWithUser extends Plumber {
   user: User;
 }
 
+// Each tab shows only for staff whose role has its permission
+const dashboardTabs: { value: string; label: string; permission: Permission }[] = [
+  { value: "bookings", label: "All Bookings", permission: 'bookings:view-all' },
+  { value: "plumbers", label: "Plumbers", permission: 'plumbers:view' },
+  { value: "customers", label: "Customers", permission: 'bookings:view-all' },
+  { value: "reviews", label: "Reviews", permission: 'reviews:moderate' },
+  { value: "payouts", label: "Payouts", permission: 'payouts:manage' },
+  { value: "messages", label: "Messages", permission: 'messages:manage' },
+  { value: "analytics", label: "Analytics", permission: 'stats:view' },
+];
+
 interface DashboardStats {
   totalBookings: number;
   activePlumbers: number;
@@ -29,15 +56,23 @@ interface DashboardStats {
 export default function AdminDashboard() {
   const [, setLocation] = useLocation();
   const [isOnboardModalOpen, setIsOnboardModalOpen] = useState(false);
+  const [documentsPlumber, setDocumentsPlumber] = useState<PlumberWithUser | null>(null);
+  const [cancellingBooking, setCancellingBooking] = useState<Booking | null>(null);
+  const [refundingBooking, setRefundingBooking] = useState<Booking | null>(null);
+  const [viewingBooking, setViewingBooking] = useState<Booking | null>(null);
   const [activeTab, setActiveTab] = useState("bookings");
   const [searchTerm, setSearchTerm] = useState("");
   const [statusFilter, setStatusFilter] = useState("all");
+  const queryClient = useQueryClient();
   const { toast } = useToast();
+  useRealtimeUpdates();
 
   const currentUser = authService.getCurrentUser();
+  const can = (permission: Permission) => !!currentUser && hasPermission(currentUser.role, permission);
+  const visibleTabs = dashboardTabs.filter(tab => can(tab.permission));
 
   useEffect(() => {
-    if (!authService.isAuthenticated() || currentUser?.role !== 'admin') {
+    if (!authService.isAuthenticated() || !currentUser || !isStaffRole(currentUser.role)) {
       setLocation('/login');
     }
   }, [setLocation, currentUser]);
@@ -48,6 +83,7 @@ export default function AdminDashboard() {
       const response = await authenticatedApiRequest('GET', '/api/dashboard/stats');
       return response.json() as Promise<DashboardStats>;
     },
+    enabled: can('stats:view'),
   });
 
   const { data: bookings = [], isLoading: isLoadingBookings } = useQuery({
@@ -56,6 +92,7 @@ export default function AdminDashboard() {
       const response = await authenticatedApiRequest('GET', '/api/bookings');
       return response.json() as Promise<Booking[]>;
     },
+    enabled: can('bookings:view-all'),
   });
 
   const { data: plumbers = [], isLoading: isLoadingPlumbers } = useQuery({
@@ -64,8 +101,56 @@ export default function AdminDashboard() {
       const response = await authenticatedApiRequest('GET', '/api/plumbers');
       return response.json() as Promise<PlumberWithUser[]>;
     },
+    enabled: can('plumbers:view'),
   });
 
+  const updateBookingStatusMutation = useMutation({
+    mutationFn: async ({ bookingId, status }: { bookingId: string; status: BookingStatus }) => {
+      const response = await authenticatedApiRequest('PATCH', `/api/bookings/${bookingId}/status`, { status });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/bookings'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Status Update Failed",
+        description: error instanceof Error ? error.message : "Please try again later.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const dispatchBookingMutation = useMutation({
+    mutationFn: async (bookingId: string) => {
+      const response = await authenticatedApiRequest('POST', `/api/bookings/${bookingId}/dispatch`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/bookings'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard/stats'] });
+      toast({
+        title: "Plumber Assigned",
+        description: "The booking has been offered to the best available plumber.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Dispatch Failed",
+        description: error instanceof Error ? error.message : "Please try again later.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const statusActionLabels: Partial<Record<BookingStatus, string>> = {
+    pending: "Unassign plumber",
+    'in-progress': "Mark in progress",
+    completed: "Mark completed",
+    cancelled: "Cancel booking",
+  };
+
   const handleLogout = () => {
     authService.logout();
     setLocation('/');
@@ -147,17 +232,21 @@ export default function AdminDashboard() {
               </div>
               <div>
                 <h1 className="text-2xl font-bold text-foreground">Admin Dashboard</h1>
-                <p className="text-sm text-muted-foreground">Platform Management</p>
+                <p className="text-sm text-muted-foreground" data-testid="text-staff-role">
+                  {currentUser.role === 'admin' ? "Platform Management" : `Signed in as ${roleLabels[currentUser.role]}`}
+                </p>
               </div>
             </div>
             <div className="mt-4 md:mt-0 flex items-center space-x-4">
-              <Button onClick={() => setIsOnboardModalOpen(true)} data-testid="button-onboard-plumber">
-                <UserPlus className="w-4 h-4 mr-2" />
-                Onboard Plumber
-              </Button>
-              <Button variant="ghost" size="icon" className="relative">
-                <Bell className="h-5 w-5" />
-              </Button>
+              {can('plumbers:onboard') && (
+                <Button onClick={() => setIsOnboardModalOpen(true)} data-testid="button-onboard-plumber">
+                  <UserPlus className="w-4 h-4 mr-2" />
+                  Onboard Plumber
+                </Button>
+              )}
+              {can('staff:invite') && <AdminInvitesDialog />}
+              <NotificationBell />
+              <DevicesDialog />
               <Button variant="ghost" onClick={handleLogout} data-testid="button-logout">
                 <LogOut className="h-4 w-4" />
               </Button>
@@ -166,74 +255,77 @@ export default function AdminDashboard() {
         </div>
       </div>
 
+      <EmailVerificationBanner />
+
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {/* Overview Stats */}
-        <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
-          <Card className="bg-gradient-to-br from-primary to-primary/80 text-primary-foreground shadow-lg">
-            <CardContent className="p-6">
-              <TrendingUp className="h-8 w-8 mb-4" />
-              <div className="text-3xl font-bold mb-1" data-testid="stat-total-bookings">
-                {isLoadingStats ? "..." : stats?.totalBookings || 0}
-              </div>
-              <div className="text-sm opacity-90">Total Bookings</div>
-              <div className="mt-4 flex items-center text-sm">
-                <TrendingUp className="w-4 h-4 mr-1" />
-                <span>12% from last month</span>
-              </div>
-            </CardContent>
-          </Card>
-
-          <Card className="bg-gradient-to-br from-accent to-accent/80 text-accent-foreground shadow-lg">
-            <CardContent className="p-6">
-              <Users className="h-8 w-8 mb-4" />
-              <div className="text-3xl font-bold mb-1" data-testid="stat-active-plumbers">
-                {isLoadingStats ? "..." : stats?.activePlumbers || 0}
-              </div>
-              <div className="text-sm opacity-90">Active Plumbers</div>
-              <div className="mt-4 flex items-center text-sm">
-                <TrendingUp className="w-4 h-4 mr-1" />
-                <span>5 new this week</span>
-              </div>
-            </CardContent>
-          </Card>
-
-          <Card className="bg-gradient-to-br from-success to-success/80 text-success-foreground shadow-lg">
-            <CardContent className="p-6">
-              <DollarSign className="h-8 w-8 mb-4" />
-              <div className="text-3xl font-bold mb-1">$94,580</div>
-              <div className="text-sm opacity-90">Monthly Revenue</div>
-              <div className="mt-4 flex items-center text-sm">
-                <TrendingUp className="w-4 h-4 mr-1" />
-                <span>18% from last month</span>
-              </div>
-            </CardContent>
-          </Card>
-
-          <Card className="bg-gradient-to-br from-warning to-warning/80 text-warning-foreground shadow-lg">
-            <CardContent className="p-6">
-              <Users className="h-8 w-8 mb-4" />
-              <div className="text-3xl font-bold mb-1" data-testid="stat-total-customers">
-                {isLoadingStats ? "..." : stats?.totalCustomers || 0}
-              </div>
-              <div className="text-sm opacity-90">Total Customers</div>
-              <div className="mt-4 flex items-center text-sm">
-                <TrendingUp className="w-4 h-4 mr-1" />
-                <span>234 new this month</span>
-              </div>
-            </CardContent>
-          </Card>
-        </div>
+        {can('stats:view') && (
+          <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+            <Card className="bg-gradient-to-br from-primary to-primary/80 text-primary-foreground shadow-lg">
+              <CardContent className="p-6">
+                <TrendingUp className="h-8 w-8 mb-4" />
+                <div className="text-3xl font-bold mb-1" data-testid="stat-total-bookings">
+                  {isLoadingStats ? "..." : stats?.totalBookings || 0}
+                </div>
+                <div className="text-sm opacity-90">Total Bookings</div>
+                <div className="mt-4 flex items-center text-sm">
+                  <TrendingUp className="w-4 h-4 mr-1" />
+                  <span>12% from last month</span>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="bg-gradient-to-br from-accent to-accent/80 text-accent-foreground shadow-lg">
+              <CardContent className="p-6">
+                <Users className="h-8 w-8 mb-4" />
+                <div className="text-3xl font-bold mb-1" data-testid="stat-active-plumbers">
+                  {isLoadingStats ? "..." : stats?.activePlumbers || 0}
+                </div>
+                <div className="text-sm opacity-90">Active Plumbers</div>
+                <div className="mt-4 flex items-center text-sm">
+                  <TrendingUp className="w-4 h-4 mr-1" />
+                  <span>5 new this week</span>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="bg-gradient-to-br from-success to-success/80 text-success-foreground shadow-lg">
+              <CardContent className="p-6">
+                <DollarSign className="h-8 w-8 mb-4" />
+                <div className="text-3xl font-bold mb-1">$94,580</div>
+                <div className="text-sm opacity-90">Monthly Revenue</div>
+                <div className="mt-4 flex items-center text-sm">
+                  <TrendingUp className="w-4 h-4 mr-1" />
+                  <span>18% from last month</span>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="bg-gradient-to-br from-warning to-warning/80 text-warning-foreground shadow-lg">
+              <CardContent className="p-6">
+                <Users className="h-8 w-8 mb-4" />
+                <div className="text-3xl font-bold mb-1" data-testid="stat-total-customers">
+                  {isLoadingStats ? "..." : stats?.totalCustomers || 0}
+                </div>
+                <div className="text-sm opacity-90">Total Customers</div>
+                <div className="mt-4 flex items-center text-sm">
+                  <TrendingUp className="w-4 h-4 mr-1" />
+                  <span>234 new this month</span>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
 
         {/* Main Content Tabs */}
         <Card className="shadow-sm">
           <Tabs value={activeTab} onValueChange={setActiveTab}>
             <div className="border-b border-border">
               <div className="px-6">
-                <TabsList className="grid w-full grid-cols-4">
-                  <TabsTrigger value="bookings" data-testid="tab-bookings">All Bookings</TabsTrigger>
-                  <TabsTrigger value="plumbers" data-testid="tab-plumbers">Plumbers</TabsTrigger>
-                  <TabsTrigger value="customers" data-testid="tab-customers">Customers</TabsTrigger>
-                  <TabsTrigger value="analytics" data-testid="tab-analytics">Analytics</TabsTrigger>
+                <TabsList className="grid w-full" style={{ gridTemplateColumns: `repeat(${visibleTabs.length}, minmax(0, 1fr))` }}>
+                  {visibleTabs.map((tab) => (
+                    <TabsTrigger key={tab.value} value={tab.value} data-testid={`tab-${tab.value}`}>{tab.label}</TabsTrigger>
+                  ))}
                 </TabsList>
               </div>
             </div>
@@ -318,21 +410,62 @@ export default function AdminDashboard() {
                           </TableCell>
                           <TableCell>
                             {booking.preferredDate 
-                              ? new Date(booking.preferredDate).toLocaleDateString()
+                              ? formatAppointmentDate(getBookingWindow(booking)!)
                               : "Not specified"
                             }
                           </TableCell>
                           <TableCell>{getStatusBadge(booking.status)}</TableCell>
                           <TableCell>
                             <div className="flex items-center space-x-2">
-                              <Button variant="ghost" size="sm" data-testid={`button-view-${booking.id}`}>
+                              <Button variant="ghost" size="sm" onClick={() => setViewingBooking(booking)} data-testid={`button-view-${booking.id}`}>
                                 <Eye className="w-4 h-4" />
                               </Button>
-                              {!booking.assignedPlumber && booking.status === 'pending' && (
-                                <Button variant="ghost" size="sm" className="text-primary">
+                              {can('refunds:issue') && (booking.paymentStatus === 'paid' || booking.paymentStatus === 'partially-refunded') && (
+                                <Button variant="ghost" size="sm" onClick={() => setRefundingBooking(booking)} title="Issue refund" data-testid={`button-refund-${booking.id}`}>
+                                  <Undo2 className="w-4 h-4" />
+                                </Button>
+                              )}
+                              {can('bookings:reassign') && !booking.assignedPlumber && booking.status === 'pending' && (
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  className="text-primary"
+                                  onClick={() => dispatchBookingMutation.mutate(booking.id)}
+                                  disabled={dispatchBookingMutation.isPending}
+                                  title="Find a plumber"
+                                  data-testid={`button-dispatch-${booking.id}`}
+                                >
                                   <UserPlus className="w-4 h-4" />
                                 </Button>
                               )}
+                              {getAllowedTransitions(currentUser.role, booking.status).length > 0 && (
+                                <DropdownMenu>
+                                  <DropdownMenuTrigger asChild>
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      disabled={updateBookingStatusMutation.isPending}
+                                      data-testid={`button-status-actions-${booking.id}`}
+                                    >
+                                      <MoreHorizontal className="w-4 h-4" />
+                                    </Button>
+                                  </DropdownMenuTrigger>
+                                  <DropdownMenuContent align="end">
+                                    <DropdownMenuLabel>Update status</DropdownMenuLabel>
+                                    {getAllowedTransitions(currentUser.role, booking.status).map((status) => (
+                                      <DropdownMenuItem
+                                        key={status}
+                                        onClick={() => status === 'cancelled'
+                                          ? setCancellingBooking(booking)
+                                          : updateBookingStatusMutation.mutate({ bookingId: booking.id, status })}
+                                        data-testid={`menu-status-${status}-${booking.id}`}
+                                      >
+                                        {statusActionLabels[status] || status}
+                                      </DropdownMenuItem>
+                                    ))}
+                                  </DropdownMenuContent>
+                                </DropdownMenu>
+                              )}
                             </div>
                           </TableCell>
                         </TableRow>
@@ -391,7 +524,9 @@ export default function AdminDashboard() {
                         <div className="space-y-2 mb-4">
                           <div className="flex items-center text-sm">
                             <Trophy className="text-warning w-4 h-4 mr-2" />
-                            <span className="text-foreground">{((plumber.rating || 0) / 10).toFixed(1)} ({plumber.totalJobs} jobs)</span>
+                            <span className="text-foreground">
+                              {plumber.reviewCount > 0 ? ((plumber.rating || 0) / 10).toFixed(1) : "No rating"} ({plumber.reviewCount} reviews)
+                            </span>
                           </div>
                           <div className="flex items-center text-sm">
                             <Users className="text-muted-foreground w-4 h-4 mr-2" />
@@ -421,8 +556,14 @@ export default function AdminDashboard() {
                           <Button className="flex-1" size="sm" data-testid={`button-view-plumber-${plumber.id}`}>
                             View Profile
                           </Button>
-                          {!plumber.isVerified && (
-                            <Button variant="outline" size="sm" className="text-success border-success">
+                          {can('plumbers:verify') && !plumber.isVerified && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="text-success border-success"
+                              onClick={() => setDocumentsPlumber(plumber)}
+                              data-testid={`button-review-documents-${plumber.id}`}
+                            >
                               <UserCheck className="w-4 h-4" />
                             </Button>
                           )}
@@ -472,6 +613,21 @@ export default function AdminDashboard() {
               </div>
             </TabsContent>
 
+            {/* Reviews Tab */}
+            <TabsContent value="reviews" className="p-6">
+              <ReviewModeration />
+            </TabsContent>
+
+            {/* Payouts Tab */}
+            <TabsContent value="payouts" className="p-6">
+              <PayoutBatches />
+            </TabsContent>
+
+            {/* Messages Tab */}
+            <TabsContent value="messages" className="p-6">
+              <MessageLog />
+            </TabsContent>
+
             {/* Analytics Tab */}
             <TabsContent value="analytics" className="p-6">
               <div className="grid md:grid-cols-2 gap-6">
@@ -546,6 +702,30 @@ export default function AdminDashboard() {
         onClose={() => setIsOnboardModalOpen(false)}
         onSuccess={handleOnboardSuccess}
       />
+
+      {/* Documents Review Modal */}
+      <PlumberDocumentsModal
+        plumber={documentsPlumber}
+        onClose={() => setDocumentsPlumber(null)}
+      />
+
+      {/* Booking Details Modal */}
+      <BookingDetailsModal
+        booking={viewingBooking}
+        onClose={() => setViewingBooking(null)}
+      />
+
+      {/* Cancel Booking Modal */}
+      <CancelBookingModal
+        booking={cancellingBooking}
+        onClose={() => setCancellingBooking(null)}
+      />
+
+      {/* Refund Modal */}
+      <RefundModal
+        booking={refundingBooking}
+        onClose={() => setRefundingBooking(null)}
+      />
     </div>
   );
 }
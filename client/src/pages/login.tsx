@@ -10,7 +10,7 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
-import { authService } from "@/lib/auth";
+import { authService, getDashboardPath } from "@/lib/auth";
 
 const loginSchema = z.object({
   email: z.string().email("Please enter a valid email address"),
@@ -45,17 +45,7 @@ export default function Login() {
         description: `Logged in as ${result.user.name}`,
       });
 
-      // Redirect based on user role
-      switch (result.user.role) {
-        case 'admin':
-          setLocation('/dashboard/admin');
-          break;
-        case 'plumber':
-          setLocation('/dashboard/plumber');
-          break;
-        default:
-          setLocation('/dashboard/user');
-      }
+      setLocation(getDashboardPath(result.user.role));
     } catch (error) {
       toast({
         title: "Login Failed",
@@ -1,18 +1,36 @@
 import { useEffect, useState } from "react";
 import { useLocation } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Wrench, Bell, LogOut, Clock, CheckCircle, Star, Phone, Navigation, User, MapPin, Calendar, Check, X, Info } from "lucide-react";
+import { Wrench, LogOut, Clock, CheckCircle, Star, Phone, Navigation, User, MapPin, Calendar, Check, X, Info, Receipt } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { authService, authenticatedApiRequest } from "@/lib/auth";
 import { useToast } from "@/hooks/use-toast";
-import type { Booking } from "@shared/schema";
+import { useRealtimeUpdates } from "@/hooks/use-realtime-updates";
+import ServiceAreaCard from "@/components/service-area-card";
+import AvailabilityCard from "@/components/availability-card";
+import RecentReviewsCard from "@/components/recent-reviews-card";
+import QuoteModal from "@/components/quote-modal";
+import CompleteJobModal from "@/components/complete-job-modal";
+import EarningsPanel from "@/components/earnings-panel";
+import NotificationBell from "@/components/notification-bell";
+import DevicesDialog from "@/components/devices-dialog";
+import EmailVerificationBanner from "@/components/email-verification-banner";
+import type { Booking, Earning, Plumber, Quote } from "@shared/schema";
+import { formatMoney } from "@shared/pricing";
+import { getEarningsPeriodRange, summarizeEarnings } from "@shared/earnings";
+import { formatAppointment, getBookingWindow } from "@shared/scheduling";
+import { canTransition } from "@shared/booking-status";
 
 export default function PlumberDashboard() {
   const [, setLocation] = useLocation();
+  const [quotingBooking, setQuotingBooking] = useState<Booking | null>(null);
+  const [completingBooking, setCompletingBooking] = useState<Booking | null>(null);
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  useRealtimeUpdates();
 
   const currentUser = authService.getCurrentUser();
 
@@ -30,6 +48,40 @@ export default function PlumberDashboard() {
     },
   });
 
+  const { data: plumber } = useQuery({
+    queryKey: ['/api/plumbers/me'],
+    queryFn: async () => {
+      const response = await authenticatedApiRequest('GET', '/api/plumbers/me');
+      return response.json() as Promise<Plumber>;
+    },
+  });
+
+  const { data: quotes = [] } = useQuery({
+    queryKey: ['/api/quotes'],
+    queryFn: async () => {
+      const response = await authenticatedApiRequest('GET', '/api/quotes');
+      return response.json() as Promise<Quote[]>;
+    },
+  });
+
+  // Quotes arrive newest version first, so the first one seen per booking is current
+  const currentQuotes = new Map<string, Quote>();
+  for (const quote of quotes) {
+    if (!currentQuotes.has(quote.bookingId)) currentQuotes.set(quote.bookingId, quote);
+  }
+
+  const { data: earnings = [] } = useQuery({
+    queryKey: ['/api/earnings'],
+    queryFn: async () => {
+      const response = await authenticatedApiRequest('GET', '/api/earnings');
+      return response.json() as Promise<Earning[]>;
+    },
+  });
+
+  const { from: monthStart } = getEarningsPeriodRange('this-month');
+  const monthTotals = summarizeEarnings(earnings.filter(earning => new Date(earning.earnedAt) >= monthStart!));
+  const awaitingPayout = summarizeEarnings(earnings.filter(earning => !earning.paidOutAt)).net;
+
   const updateBookingStatusMutation = useMutation({
     mutationFn: async ({ bookingId, status }: { bookingId: string; status: string }) => {
       const response = await authenticatedApiRequest('PATCH', `/api/bookings/${bookingId}/status`, { status });
@@ -103,6 +155,13 @@ export default function PlumberDashboard() {
             description: "Job status updated to in-progress. Customer has been notified.",
           });
         },
+        onError: (error) => {
+          toast({
+            title: "Error",
+            description: error instanceof Error ? error.message : "Failed to start the job. Please try again.",
+            variant: "destructive",
+          });
+        },
       }
     );
   };
@@ -131,7 +190,9 @@ export default function PlumberDashboard() {
     pending: assignedBookings.length,
     active: acceptedBookings.length + inProgressBookings.length,
     completed: completedBookings.length,
-    rating: 4.9,
+    // Stored in tenths of a star
+    rating: plumber?.reviewCount ? ((plumber.rating || 0) / 10).toFixed(1) : "New",
+    reviewCount: plumber?.reviewCount ?? 0,
   };
 
   if (!currentUser) {
@@ -158,10 +219,8 @@ export default function PlumberDashboard() {
                 <div className="w-2 h-2 bg-success rounded-full animate-pulse"></div>
                 <span className="text-sm font-medium">Available</span>
               </div>
-              <Button variant="ghost" size="icon" className="relative">
-                <Bell className="h-5 w-5" />
-                <span className="absolute -top-1 -right-1 h-2 w-2 bg-destructive rounded-full"></span>
-              </Button>
+              <NotificationBell />
+              <DevicesDialog />
               <Button variant="ghost" onClick={handleLogout} data-testid="button-logout">
                 <LogOut className="h-4 w-4" />
               </Button>
@@ -170,6 +229,8 @@ export default function PlumberDashboard() {
         </div>
       </div>
 
+      <EmailVerificationBanner />
+
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {/* Stats Cards */}
         <div className="grid md:grid-cols-4 gap-6 mb-8">
@@ -209,222 +270,268 @@ export default function PlumberDashboard() {
                 <Star className="text-warning h-8 w-8" />
               </div>
               <div className="text-2xl font-bold text-foreground mb-1">{stats.rating}</div>
-              <div className="text-sm text-muted-foreground">Average Rating</div>
+              <div className="text-sm text-muted-foreground">
+                Average Rating ({stats.reviewCount} {stats.reviewCount === 1 ? "review" : "reviews"})
+              </div>
             </CardContent>
           </Card>
         </div>
 
-        {/* Assigned Jobs Section */}
-        <Card className="shadow-sm mb-8">
-          <CardHeader>
-            <CardTitle className="text-xl font-bold">Assigned Jobs</CardTitle>
-          </CardHeader>
-
-          <CardContent>
-            {isLoading ? (
-              <div className="space-y-4">
-                {[1, 2].map(i => (
-                  <div key={i} className="border border-border rounded-lg p-6">
-                    <div className="skeleton h-6 w-48 mb-3"></div>
-                    <div className="skeleton h-4 w-full mb-2"></div>
-                    <div className="skeleton h-4 w-2/3"></div>
+        <Tabs defaultValue="jobs">
+          <TabsList className="mb-6">
+            <TabsTrigger value="jobs" data-testid="tab-jobs">Jobs</TabsTrigger>
+            <TabsTrigger value="earnings" data-testid="tab-earnings">Earnings</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="jobs">
+            {/* Assigned Jobs Section */}
+            <Card className="shadow-sm mb-8">
+              <CardHeader>
+                <CardTitle className="text-xl font-bold">Assigned Jobs</CardTitle>
+              </CardHeader>
+
+              <CardContent>
+                {isLoading ? (
+                  <div className="space-y-4">
+                    {[1, 2].map(i => (
+                      <div key={i} className="border border-border rounded-lg p-6">
+                        <div className="skeleton h-6 w-48 mb-3"></div>
+                        <div className="skeleton h-4 w-full mb-2"></div>
+                        <div className="skeleton h-4 w-2/3"></div>
+                      </div>
+                    ))}
                   </div>
-                ))}
-              </div>
-            ) : assignedBookings.length === 0 ? (
-              <div className="text-center py-12">
-                <Clock className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
-                <h3 className="text-lg font-medium text-foreground mb-2">No new assignments</h3>
-                <p className="text-muted-foreground">You're all caught up! New job assignments will appear here.</p>
-              </div>
-            ) : (
-              <div className="space-y-4">
-                {assignedBookings.map((booking) => (
-                  <div key={booking.id} className="border-2 border-accent/30 bg-accent/5 rounded-lg p-6">
-                    <div className="flex items-start justify-between mb-4">
-                      <div className="flex-1">
-                        <div className="flex items-center space-x-3 mb-2">
-                          {getStatusBadge(booking.status)}
-                          <span className="text-sm text-muted-foreground">Job #{booking.id.slice(-8)}</span>
+                ) : assignedBookings.length === 0 ? (
+                  <div className="text-center py-12">
+                    <Clock className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+                    <h3 className="text-lg font-medium text-foreground mb-2">No new assignments</h3>
+                    <p className="text-muted-foreground">You're all caught up! New job assignments will appear here.</p>
+                  </div>
+                ) : (
+                  <div className="space-y-4">
+                    {assignedBookings.map((booking) => (
+                      <div key={booking.id} className="border-2 border-accent/30 bg-accent/5 rounded-lg p-6">
+                        <div className="flex items-start justify-between mb-4">
+                          <div className="flex-1">
+                            <div className="flex items-center space-x-3 mb-2">
+                              {getStatusBadge(booking.status)}
+                              <span className="text-sm text-muted-foreground">Job #{booking.id.slice(-8)}</span>
+                            </div>
+                            <h3 className="text-lg font-semibold text-foreground mb-1">{booking.category}</h3>
+                            <p className="text-sm text-muted-foreground mb-3">{booking.description}</p>
+                          </div>
                         </div>
-                        <h3 className="text-lg font-semibold text-foreground mb-1">{booking.category}</h3>
-                        <p className="text-sm text-muted-foreground mb-3">{booking.description}</p>
-                      </div>
-                    </div>
 
-                    <div className="grid md:grid-cols-3 gap-4 mb-4">
-                      <div className="flex items-center text-sm">
-                        <User className="text-muted-foreground w-5 h-5 mr-2" />
-                        <span className="text-foreground">Customer ID: {booking.userId.slice(-8)}</span>
-                      </div>
-                      <div className="flex items-center text-sm">
-                        <MapPin className="text-muted-foreground w-5 h-5 mr-2" />
-                        <span className="text-foreground">{booking.address}</span>
-                      </div>
-                      {booking.preferredDate && (
-                        <div className="flex items-center text-sm">
-                          <Calendar className="text-muted-foreground w-5 h-5 mr-2" />
-                          <span className="text-foreground">{new Date(booking.preferredDate).toLocaleString()}</span>
+                        <div className="grid md:grid-cols-3 gap-4 mb-4">
+                          <div className="flex items-center text-sm">
+                            <User className="text-muted-foreground w-5 h-5 mr-2" />
+                            <span className="text-foreground">Customer ID: {booking.userId.slice(-8)}</span>
+                          </div>
+                          <div className="flex items-center text-sm">
+                            <MapPin className="text-muted-foreground w-5 h-5 mr-2" />
+                            <span className="text-foreground">{booking.address}</span>
+                          </div>
+                          {booking.preferredDate && (
+                            <div className="flex items-center text-sm">
+                              <Calendar className="text-muted-foreground w-5 h-5 mr-2" />
+                              <span className="text-foreground">{formatAppointment(getBookingWindow(booking)!)}</span>
+                            </div>
+                          )}
                         </div>
-                      )}
-                    </div>
-
-                    <div className="flex items-center space-x-3 pt-4 border-t border-border">
-                      <Button
-                        onClick={() => handleAcceptJob(booking.id)}
-                        disabled={updateBookingStatusMutation.isPending}
-                        className="flex-1 bg-success text-success-foreground hover:bg-success/90"
-                        data-testid={`button-accept-${booking.id}`}
-                      >
-                        <Check className="w-4 h-4 mr-2" />
-                        Accept Job
-                      </Button>
-                      <Button
-                        onClick={() => handleRejectJob(booking.id)}
-                        disabled={updateBookingStatusMutation.isPending}
-                        variant="outline"
-                        className="flex-1 border-destructive text-destructive hover:bg-destructive/10"
-                        data-testid={`button-reject-${booking.id}`}
-                      >
-                        <X className="w-4 h-4 mr-2" />
-                        Reject Job
-                      </Button>
-                      <Button variant="outline" size="icon">
-                        <Info className="w-4 h-4" />
-                      </Button>
-                    </div>
-                  </div>
-                ))}
-              </div>
-            )}
-          </CardContent>
-        </Card>
-
-        {/* Active Jobs */}
-        {(acceptedBookings.length > 0 || inProgressBookings.length > 0) && (
-          <Card className="shadow-sm mb-8">
-            <CardHeader>
-              <CardTitle className="text-xl font-bold">Active Jobs</CardTitle>
-            </CardHeader>
-
-            <CardContent>
-              <div className="space-y-4">
-                {[...acceptedBookings, ...inProgressBookings].map((booking) => (
-                  <div key={booking.id} className="border border-border rounded-lg p-6">
-                    <div className="flex items-start justify-between mb-4">
-                      <div className="flex-1">
-                        <div className="flex items-center space-x-3 mb-2">
-                          {getStatusBadge(booking.status)}
-                          <span className="text-sm text-muted-foreground">Job #{booking.id.slice(-8)}</span>
+
+                        <div className="flex items-center space-x-3 pt-4 border-t border-border">
+                          {canTransition('plumber', booking.status, 'accepted') && (
+                            <Button
+                              onClick={() => handleAcceptJob(booking.id)}
+                              disabled={updateBookingStatusMutation.isPending}
+                              className="flex-1 bg-success text-success-foreground hover:bg-success/90"
+                              data-testid={`button-accept-${booking.id}`}
+                            >
+                              <Check className="w-4 h-4 mr-2" />
+                              Accept Job
+                            </Button>
+                          )}
+                          {canTransition('plumber', booking.status, 'rejected') && (
+                            <Button
+                              onClick={() => handleRejectJob(booking.id)}
+                              disabled={updateBookingStatusMutation.isPending}
+                              variant="outline"
+                              className="flex-1 border-destructive text-destructive hover:bg-destructive/10"
+                              data-testid={`button-reject-${booking.id}`}
+                            >
+                              <X className="w-4 h-4 mr-2" />
+                              Reject Job
+                            </Button>
+                          )}
+                          <Button variant="outline" size="icon">
+                            <Info className="w-4 h-4" />
+                          </Button>
                         </div>
-                        <h3 className="text-lg font-semibold text-foreground mb-1">{booking.category}</h3>
-                        <p className="text-sm text-muted-foreground mb-3">{booking.description}</p>
                       </div>
-                    </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
 
-                    <div className="grid md:grid-cols-3 gap-4 mb-4">
-                      <div className="flex items-center text-sm">
-                        <User className="text-muted-foreground w-5 h-5 mr-2" />
-                        <span className="text-foreground">Customer ID: {booking.userId.slice(-8)}</span>
-                      </div>
-                      <div className="flex items-center text-sm">
-                        <MapPin className="text-muted-foreground w-5 h-5 mr-2" />
-                        <span className="text-foreground">{booking.address}</span>
-                      </div>
-                      {booking.preferredDate && (
-                        <div className="flex items-center text-sm">
-                          <Calendar className="text-muted-foreground w-5 h-5 mr-2" />
-                          <span className="text-foreground">{new Date(booking.preferredDate).toLocaleString()}</span>
+            {/* Active Jobs */}
+            {(acceptedBookings.length > 0 || inProgressBookings.length > 0) && (
+              <Card className="shadow-sm mb-8">
+                <CardHeader>
+                  <CardTitle className="text-xl font-bold">Active Jobs</CardTitle>
+                </CardHeader>
+
+                <CardContent>
+                  <div className="space-y-4">
+                    {[...acceptedBookings, ...inProgressBookings].map((booking) => {
+                      const quote = currentQuotes.get(booking.id);
+                      return (
+                        <div key={booking.id} className="border border-border rounded-lg p-6">
+                          <div className="flex items-start justify-between mb-4">
+                            <div className="flex-1">
+                              <div className="flex items-center space-x-3 mb-2">
+                                {getStatusBadge(booking.status)}
+                                <span className="text-sm text-muted-foreground">Job #{booking.id.slice(-8)}</span>
+                              </div>
+                              <h3 className="text-lg font-semibold text-foreground mb-1">{booking.category}</h3>
+                              <p className="text-sm text-muted-foreground mb-3">{booking.description}</p>
+                            </div>
+                          </div>
+
+                          <div className="grid md:grid-cols-3 gap-4 mb-4">
+                            <div className="flex items-center text-sm">
+                              <User className="text-muted-foreground w-5 h-5 mr-2" />
+                              <span className="text-foreground">Customer ID: {booking.userId.slice(-8)}</span>
+                            </div>
+                            <div className="flex items-center text-sm">
+                              <MapPin className="text-muted-foreground w-5 h-5 mr-2" />
+                              <span className="text-foreground">{booking.address}</span>
+                            </div>
+                            {booking.preferredDate && (
+                              <div className="flex items-center text-sm">
+                                <Calendar className="text-muted-foreground w-5 h-5 mr-2" />
+                                <span className="text-foreground">{formatAppointment(getBookingWindow(booking)!)}</span>
+                              </div>
+                            )}
+                          </div>
+
+                          <div className="flex items-center justify-between p-3 mb-4 bg-muted rounded-lg text-sm" data-testid={`quote-status-${booking.id}`}>
+                            <div className="flex items-center">
+                              <Receipt className="text-muted-foreground w-4 h-4 mr-2" />
+                              {quote ? (
+                                <span className="text-foreground">
+                                  Quote v{quote.version}: {formatMoney(quote.total)} &middot; <span className="capitalize">{quote.status}</span>
+                                </span>
+                              ) : (
+                                <span className="text-muted-foreground">No quote sent yet. The customer must accept one before you start.</span>
+                              )}
+                            </div>
+                            {booking.status === 'accepted' && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setQuotingBooking(booking)}
+                                data-testid={`button-quote-${booking.id}`}
+                              >
+                                {quote ? "Revise Quote" : "Send Quote"}
+                              </Button>
+                            )}
+                          </div>
+
+                          <div className="flex items-center space-x-3 pt-4 border-t border-border">
+                            {canTransition('plumber', booking.status, 'in-progress') && (
+                              <Button
+                                onClick={() => handleStartJob(booking.id)}
+                                disabled={updateBookingStatusMutation.isPending || quote?.status !== 'accepted'}
+                                className="flex-1"
+                                data-testid={`button-start-${booking.id}`}
+                              >
+                                <Clock className="w-4 h-4 mr-2" />
+                                Start Job
+                              </Button>
+                            )}
+                            {canTransition('plumber', booking.status, 'completed') && (
+                              <Button
+                                onClick={() => setCompletingBooking(booking)}
+                                disabled={updateBookingStatusMutation.isPending}
+                                className="flex-1 bg-success text-success-foreground hover:bg-success/90"
+                                data-testid={`button-complete-${booking.id}`}
+                              >
+                                <CheckCircle className="w-4 h-4 mr-2" />
+                                Complete Job
+                              </Button>
+                            )}
+                            <Button variant="outline" size="icon">
+                              <Phone className="w-4 h-4" />
+                            </Button>
+                            <Button variant="outline" size="icon">
+                              <Navigation className="w-4 h-4" />
+                            </Button>
+                          </div>
                         </div>
-                      )}
-                    </div>
-
-                    <div className="flex items-center space-x-3 pt-4 border-t border-border">
-                      {booking.status === 'accepted' ? (
-                        <Button
-                          onClick={() => handleStartJob(booking.id)}
-                          disabled={updateBookingStatusMutation.isPending}
-                          className="flex-1"
-                          data-testid={`button-start-${booking.id}`}
-                        >
-                          <Clock className="w-4 h-4 mr-2" />
-                          Start Job
-                        </Button>
-                      ) : (
-                        <Button className="flex-1" disabled>
-                          <Clock className="w-4 h-4 mr-2" />
-                          In Progress
-                        </Button>
-                      )}
-                      <Button variant="outline" size="icon">
-                        <Phone className="w-4 h-4" />
-                      </Button>
-                      <Button variant="outline" size="icon">
-                        <Navigation className="w-4 h-4" />
-                      </Button>
-                    </div>
+                      );
+                    })}
                   </div>
-                ))}
-              </div>
-            </CardContent>
-          </Card>
-        )}
-
-        {/* Performance Section */}
-        <div className="grid md:grid-cols-2 gap-6">
-          <Card>
-            <CardHeader>
-              <CardTitle className="text-lg font-semibold">This Month</CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div className="flex items-center justify-between">
-                <span className="text-sm text-muted-foreground">Jobs Completed</span>
-                <span className="text-lg font-bold text-foreground">24</span>
-              </div>
-              <div className="flex items-center justify-between">
-                <span className="text-sm text-muted-foreground">Earnings</span>
-                <span className="text-lg font-bold text-success">$3,840</span>
-              </div>
-              <div className="flex items-center justify-between">
-                <span className="text-sm text-muted-foreground">Average Time</span>
-                <span className="text-lg font-bold text-foreground">2.5 hrs</span>
-              </div>
-            </CardContent>
-          </Card>
+                </CardContent>
+              </Card>
+            )}
 
-          <Card>
-            <CardHeader>
-              <CardTitle className="text-lg font-semibold">Recent Reviews</CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-4">
-              <div>
-                <div className="flex items-center space-x-2 mb-2">
-                  <div className="flex text-warning">
-                    {[...Array(5)].map((_, i) => (
-                      <Star key={i} className="w-4 h-4 fill-current" />
-                    ))}
+            {/* Performance Section */}
+            <div className="grid md:grid-cols-2 gap-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg font-semibold">This Month</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-muted-foreground">Jobs Paid</span>
+                    <span className="text-lg font-bold text-foreground" data-testid="text-month-jobs">{monthTotals.jobs}</span>
                   </div>
-                  <span className="text-sm text-muted-foreground">2 hours ago</span>
-                </div>
-                <p className="text-sm text-foreground">"Excellent work! Very professional and quick."</p>
-                <p className="text-xs text-muted-foreground mt-1">- Customer #{bookings[0]?.userId.slice(-8) || 'Anonymous'}</p>
-              </div>
-              <div>
-                <div className="flex items-center space-x-2 mb-2">
-                  <div className="flex text-warning">
-                    {[...Array(5)].map((_, i) => (
-                      <Star key={i} className="w-4 h-4 fill-current" />
-                    ))}
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-muted-foreground">Earnings</span>
+                    <span className="text-lg font-bold text-success" data-testid="text-month-earnings">{formatMoney(monthTotals.net)}</span>
                   </div>
-                  <span className="text-sm text-muted-foreground">1 day ago</span>
-                </div>
-                <p className="text-sm text-foreground">"Fixed the issue perfectly. Highly recommend!"</p>
-                <p className="text-xs text-muted-foreground mt-1">- Customer #{bookings[1]?.userId.slice(-8) || 'Anonymous'}</p>
-              </div>
-            </CardContent>
-          </Card>
-        </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm text-muted-foreground">Awaiting Payout</span>
+                    <span className="text-lg font-bold text-foreground">{formatMoney(awaitingPayout)}</span>
+                  </div>
+                </CardContent>
+              </Card>
+
+              <RecentReviewsCard />
+            </div>
+
+            {/* Service Area and Availability */}
+            <div className="mt-6 grid lg:grid-cols-2 gap-6">
+              <ServiceAreaCard />
+              <AvailabilityCard />
+            </div>
+          </TabsContent>
+
+          <TabsContent value="earnings">
+            <Card className="shadow-sm">
+              <CardHeader>
+                <CardTitle className="text-xl font-bold">Earnings</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <EarningsPanel />
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
       </div>
+
+      <QuoteModal
+        booking={quotingBooking}
+        currentQuote={quotingBooking ? currentQuotes.get(quotingBooking.id) : undefined}
+        onClose={() => setQuotingBooking(null)}
+      />
+
+      <CompleteJobModal
+        booking={completingBooking}
+        quote={completingBooking ? currentQuotes.get(completingBooking.id) : undefined}
+        onClose={() => setCompletingBooking(null)}
+      />
     </div>
   );
 }
@@ -3,7 +3,7 @@ import { Link, useLocation } from "wouter";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { Wrench, User, Crown } from "lucide-react";
+import { Wrench, User } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -18,7 +18,7 @@ const signupSchema = z.object({
   phone: z.string().min(10, "Please enter a valid phone number"),
   password: z.string().min(6, "Password must be at least 6 characters"),
   confirmPassword: z.string(),
-  role: z.enum(["user", "plumber", "admin"]),
+  role: z.enum(["user", "plumber"]),
   address: z.string().optional(),
   // agreeTerms: z.boolean().refine(val => val === true, "You must agree to the terms and conditions"),
 }).refine((data) => data.password === data.confirmPassword, {
@@ -31,7 +31,7 @@ type SignupForm = z.infer<typeof signupSchema>;
 export default function Signup() {
   const [, setLocation] = useLocation();
   const [isLoading, setIsLoading] = useState(false);
-  const [selectedRole, setSelectedRole] = useState<"user" | "plumber" | "admin">("user");
+  const [selectedRole, setSelectedRole] = useState<"user" | "plumber">("user");
   const { toast } = useToast();
 
   const form = useForm<SignupForm>({
@@ -62,20 +62,11 @@ export default function Signup() {
 
       toast({
         title: "Account Created Successfully!",
-        description: `Welcome to PlumbPro, ${result.user.name}!`,
+        description: `Welcome to PlumbPro, ${result.user.name}! We've emailed you a link to confirm your address.`,
       });
 
       // Redirect based on user role
-      switch (result.user.role) {
-        case 'admin':
-          setLocation('/dashboard/admin');
-          break;
-        case 'plumber':
-          setLocation('/dashboard/plumber');
-          break;
-        default:
-          setLocation('/dashboard/user');
-      }
+      setLocation(result.user.role === 'plumber' ? '/dashboard/plumber' : '/dashboard/user');
     } catch (error) {
       toast({
         title: "Registration Failed",
@@ -87,7 +78,7 @@ export default function Signup() {
     }
   };
 
-  const selectRole = (role: "user" | "plumber" | "admin") => {
+  const selectRole = (role: "user" | "plumber") => {
     setSelectedRole(role);
     form.setValue("role", role);
   };
@@ -108,7 +99,7 @@ export default function Signup() {
             {/* Role Selection */}
             <div>
               <Label className="text-sm font-medium mb-3 block">I am a</Label>
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <Button
                   type="button"
                   variant={selectedRole === "user" ? "default" : "outline"}
@@ -131,17 +122,6 @@ export default function Signup() {
                   <div className="font-semibold">Plumber</div>
                   <div className="text-xs opacity-80">Provide services</div>
                 </Button>
-                <Button
-                  type="button"
-                  variant={selectedRole === "admin" ? "default" : "outline"}
-                  className="p-6 h-auto flex flex-col space-y-2"
-                  onClick={() => selectRole("admin")}
-                  data-testid="button-role-admin"
-                >
-                  <Crown className="w-8 h-8" />
-                  <div className="font-semibold">Admin</div>
-                  <div className="text-xs opacity-80">Manage platform</div>
-                </Button>
               </div>
             </div>
 
@@ -189,17 +169,15 @@ export default function Signup() {
               )}
             </div>
 
-            {(selectedRole === "user" || selectedRole === "plumber") && (
-              <div>
-                <Label htmlFor="address">Address</Label>
-                <Input
-                  id="address"
-                  placeholder="123 Main St, City, State"
-                  data-testid="input-address"
-                  {...form.register("address")}
-                />
-              </div>
-            )}
+            <div>
+              <Label htmlFor="address">Address</Label>
+              <Input
+                id="address"
+                placeholder="123 Main St, City, State"
+                data-testid="input-address"
+                {...form.register("address")}
+              />
+            </div>
 
             <div className="grid md:grid-cols-2 gap-6">
               <div>
@@ -1,21 +1,39 @@
 import { useEffect, useState } from "react";
 import { useLocation } from "wouter";
 import { useQuery } from "@tanstack/react-query";
-import { CalendarPlus, Clock, CheckCircle, Star, Bell, LogOut, MapPin, Calendar, Phone } from "lucide-react";
+import { CalendarPlus, Clock, CheckCircle, Star, LogOut, MapPin, Calendar, Phone, Receipt, FileText, CreditCard } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { authService, authenticatedApiRequest } from "@/lib/auth";
 import { useToast } from "@/hooks/use-toast";
+import { useRealtimeUpdates } from "@/hooks/use-realtime-updates";
 import BookingModal from "@/components/booking-modal";
-import type { Booking } from "@shared/schema";
+import CancelBookingModal from "@/components/cancel-booking-modal";
+import ReviewModal from "@/components/review-modal";
+import StarRating from "@/components/star-rating";
+import QuoteResponseModal from "@/components/quote-response-modal";
+import PaymentModal from "@/components/payment-modal";
+import NotificationBell from "@/components/notification-bell";
+import DevicesDialog from "@/components/devices-dialog";
+import EmailVerificationBanner from "@/components/email-verification-banner";
+import type { Booking, Quote, Refund, Review } from "@shared/schema";
+import { formatAppointment, getBookingWindow } from "@shared/scheduling";
+import { canTransition } from "@shared/booking-status";
+import { cancellationReasons, refundReasons } from "@shared/cancellation-policy";
+import { formatMoney, paymentStatusLabels } from "@shared/pricing";
 
 export default function UserDashboard() {
   const [, setLocation] = useLocation();
   const [isBookingModalOpen, setIsBookingModalOpen] = useState(false);
   const [statusFilter, setStatusFilter] = useState("all");
+  const [cancellingBooking, setCancellingBooking] = useState<Booking | null>(null);
+  const [reviewingBooking, setReviewingBooking] = useState<Booking | null>(null);
+  const [viewingQuote, setViewingQuote] = useState<Quote | null>(null);
+  const [payingBooking, setPayingBooking] = useState<Booking | null>(null);
   const { toast } = useToast();
+  useRealtimeUpdates();
 
   const currentUser = authService.getCurrentUser();
 
@@ -33,6 +51,43 @@ export default function UserDashboard() {
     },
   });
 
+  const { data: reviews = [] } = useQuery({
+    queryKey: ['/api/reviews'],
+    queryFn: async () => {
+      const response = await authenticatedApiRequest('GET', '/api/reviews');
+      return response.json() as Promise<Review[]>;
+    },
+  });
+
+  const reviewsByBooking = new Map(reviews.map(review => [review.bookingId, review]));
+
+  const { data: quotes = [] } = useQuery({
+    queryKey: ['/api/quotes'],
+    queryFn: async () => {
+      const response = await authenticatedApiRequest('GET', '/api/quotes');
+      return response.json() as Promise<Quote[]>;
+    },
+  });
+
+  // Quotes arrive newest version first, so the first one seen per booking is current
+  const currentQuotes = new Map<string, Quote>();
+  for (const quote of quotes) {
+    if (!currentQuotes.has(quote.bookingId)) currentQuotes.set(quote.bookingId, quote);
+  }
+
+  const { data: refunds = [] } = useQuery({
+    queryKey: ['/api/refunds'],
+    queryFn: async () => {
+      const response = await authenticatedApiRequest('GET', '/api/refunds');
+      return response.json() as Promise<Refund[]>;
+    },
+  });
+
+  const refundsByBooking = new Map<string, Refund[]>();
+  for (const refund of refunds) {
+    refundsByBooking.set(refund.bookingId, [...(refundsByBooking.get(refund.bookingId) ?? []), refund]);
+  }
+
   const handleLogout = () => {
     authService.logout();
     setLocation('/');
@@ -51,6 +106,21 @@ export default function UserDashboard() {
     });
   };
 
+  // Invoices are behind auth, so fetch the printable page with the bearer token and open it locally
+  const handleDownloadInvoice = async (booking: Booking) => {
+    try {
+      const response = await authenticatedApiRequest('GET', `/api/bookings/${booking.id}/invoice?format=html`);
+      const url = URL.createObjectURL(await response.blob());
+      window.open(url, "_blank");
+    } catch {
+      toast({
+        title: "Error",
+        description: "Failed to open the invoice.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const getStatusBadge = (status: string) => {
     switch (status) {
       case 'pending':
@@ -63,6 +133,8 @@ export default function UserDashboard() {
         return <Badge variant="outline" className="bg-accent/10 text-accent border-accent/30"><Clock className="w-3 h-3 mr-1" />In Progress</Badge>;
       case 'completed':
         return <Badge variant="outline" className="bg-success/10 text-success border-success/30"><CheckCircle className="w-3 h-3 mr-1" />Completed</Badge>;
+      case 'cancelled':
+        return <Badge variant="outline" className="bg-destructive/10 text-destructive border-destructive/30">Cancelled</Badge>;
       default:
         return <Badge variant="secondary">{status}</Badge>;
     }
@@ -76,6 +148,9 @@ export default function UserDashboard() {
     pending: bookings.filter(b => b.status === 'pending').length,
     completed: bookings.filter(b => b.status === 'completed').length,
     total: bookings.length,
+    averageRatingGiven: reviews.length > 0
+      ? (reviews.reduce((sum, review) => sum + review.rating, 0) / reviews.length).toFixed(1)
+      : "-",
   };
 
   if (!currentUser) {
@@ -98,10 +173,8 @@ export default function UserDashboard() {
               </div>
             </div>
             <div className="mt-4 md:mt-0 flex items-center space-x-4">
-              <Button variant="ghost" size="icon" className="relative">
-                <Bell className="h-5 w-5" />
-                <span className="absolute -top-1 -right-1 h-2 w-2 bg-destructive rounded-full"></span>
-              </Button>
+              <NotificationBell />
+              <DevicesDialog />
               <Button variant="ghost" onClick={handleLogout} data-testid="button-logout">
                 <LogOut className="h-4 w-4" />
               </Button>
@@ -110,6 +183,8 @@ export default function UserDashboard() {
         </div>
       </div>
 
+      <EmailVerificationBanner />
+
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {/* Quick Action Cards */}
         <div className="grid md:grid-cols-4 gap-6 mb-8">
@@ -156,7 +231,7 @@ export default function UserDashboard() {
               <div className="flex items-center justify-between mb-4">
                 <Star className="text-accent h-8 w-8" />
               </div>
-              <div className="text-2xl font-bold text-foreground mb-1">4.8</div>
+              <div className="text-2xl font-bold text-foreground mb-1">{stats.averageRatingGiven}</div>
               <div className="text-sm text-muted-foreground">Avg Rating Given</div>
             </CardContent>
           </Card>
@@ -179,6 +254,7 @@ export default function UserDashboard() {
                     <SelectItem value="accepted">Accepted</SelectItem>
                     <SelectItem value="in-progress">In Progress</SelectItem>
                     <SelectItem value="completed">Completed</SelectItem>
+                    <SelectItem value="cancelled">Cancelled</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
@@ -209,64 +285,175 @@ export default function UserDashboard() {
               </div>
             ) : (
               <div className="space-y-4">
-                {filteredBookings.map((booking) => (
-                  <div key={booking.id} className="border border-border rounded-lg p-6 hover:shadow-md transition-all">
-                    <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
-                      <div className="flex-1">
-                        <div className="flex items-center space-x-3 mb-3">
-                          {getStatusBadge(booking.status)}
-                          <span className="text-sm text-muted-foreground">Booking #{booking.id.slice(-8)}</span>
-                        </div>
-                        <h3 className="text-lg font-semibold text-foreground mb-2">{booking.category}</h3>
-                        <div className="grid md:grid-cols-2 gap-3 text-sm mb-3">
-                          <div className="flex items-center text-muted-foreground">
-                            <MapPin className="w-4 h-4 mr-2" />
-                            <span>{booking.address}</span>
+                {filteredBookings.map((booking) => {
+                  const review = reviewsByBooking.get(booking.id);
+                  const quote = currentQuotes.get(booking.id);
+                  // Completing the job issues its invoice; a late cancellation is invoiced for its fee
+                  const invoiced = booking.status === 'completed'
+                    || (booking.status === 'cancelled' && !!booking.cancellationFeePercent && quote?.status === 'accepted');
+                  const bookingRefunds = refundsByBooking.get(booking.id) ?? [];
+                  return (
+                    <div key={booking.id} className="border border-border rounded-lg p-6 hover:shadow-md transition-all">
+                      <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-4">
+                        <div className="flex-1">
+                          <div className="flex items-center space-x-3 mb-3">
+                            {getStatusBadge(booking.status)}
+                            {invoiced && (
+                              <Badge variant="outline" className={booking.paymentStatus === 'unpaid' || booking.paymentStatus === 'pending' ? "bg-warning/10 text-warning border-warning/30" : "bg-success/10 text-success border-success/30"}>
+                                {paymentStatusLabels[booking.paymentStatus]}
+                              </Badge>
+                            )}
+                            <span className="text-sm text-muted-foreground">Booking #{booking.id.slice(-8)}</span>
                           </div>
-                          {booking.preferredDate && (
+                          <h3 className="text-lg font-semibold text-foreground mb-2">{booking.category}</h3>
+                          <div className="grid md:grid-cols-2 gap-3 text-sm mb-3">
                             <div className="flex items-center text-muted-foreground">
-                              <Calendar className="w-4 h-4 mr-2" />
-                              <span>{new Date(booking.preferredDate).toLocaleString()}</span>
+                              <MapPin className="w-4 h-4 mr-2" />
+                              <span>{booking.address}</span>
+                            </div>
+                            {booking.preferredDate && (
+                              <div className="flex items-center text-muted-foreground">
+                                <Calendar className="w-4 h-4 mr-2" />
+                                <span>{formatAppointment(getBookingWindow(booking)!)}</span>
+                              </div>
+                            )}
+                          </div>
+                          <p className="text-sm text-muted-foreground">{booking.description}</p>
+
+                          {booking.status === 'cancelled' && booking.cancellationReason && (
+                            <div className="mt-3 p-3 bg-destructive/5 rounded-lg text-sm">
+                              <div className="font-medium text-foreground">
+                                Cancelled: {cancellationReasons[booking.cancellationReason] || booking.cancellationReason}
+                              </div>
+                              {booking.cancellationNote && (
+                                <div className="text-muted-foreground mt-1">{booking.cancellationNote}</div>
+                              )}
+                              {!!booking.cancellationFeePercent && (
+                                <div className="text-destructive mt-1">Late cancellation fee: {booking.cancellationFeePercent}%</div>
+                              )}
                             </div>
                           )}
-                        </div>
-                        <p className="text-sm text-muted-foreground">{booking.description}</p>
 
-                        {booking.assignedPlumber && (
-                          <div className="mt-3 flex items-center space-x-3 p-3 bg-primary/5 rounded-lg">
-                            <div className="w-8 h-8 bg-primary/10 rounded-full flex items-center justify-center">
-                              <CheckCircle className="w-4 h-4 text-primary" />
+                          {quote && (
+                            <div className="mt-3 flex items-center p-3 bg-muted rounded-lg text-sm" data-testid={`quote-${booking.id}`}>
+                              <Receipt className="w-4 h-4 mr-2 text-muted-foreground" />
+                              <span className="text-foreground">
+                                Quote v{quote.version}: {formatMoney(quote.total)} &middot; <span className="capitalize">{quote.status}</span>
+                              </span>
+                              <Button
+                                variant={quote.status === 'pending' ? "default" : "outline"}
+                                size="sm"
+                                className="ml-auto"
+                                onClick={() => setViewingQuote(quote)}
+                                data-testid={`button-view-quote-${booking.id}`}
+                              >
+                                {quote.status === 'pending' ? "Review Quote" : "View Quote"}
+                              </Button>
                             </div>
-                            <div>
-                              <div className="text-sm font-medium text-foreground">Plumber Assigned</div>
-                              <div className="text-xs text-muted-foreground">ID: {booking.assignedPlumber.slice(-8)}</div>
+                          )}
+
+                          {bookingRefunds.length > 0 && (
+                            <div className="mt-3 p-3 bg-success/5 rounded-lg text-sm space-y-1" data-testid={`refunds-${booking.id}`}>
+                              {bookingRefunds.map(refund => (
+                                <div key={refund.id}>
+                                  <div className="flex justify-between">
+                                    <span className="text-foreground">
+                                      {refund.status === 'pending' ? "Refund processing:" : "Refunded"} {formatMoney(refund.amount)} &middot; {refundReasons[refund.reason] || refund.reason}
+                                    </span>
+                                    <span className="text-muted-foreground">
+                                      {refund.createdAt && new Date(refund.createdAt).toLocaleDateString()}
+                                    </span>
+                                  </div>
+                                  {refund.note && <div className="text-muted-foreground">{refund.note}</div>}
+                                </div>
+                              ))}
                             </div>
-                            <Button variant="outline" size="sm" className="ml-auto">
-                              <Phone className="w-4 h-4 mr-2" />
-                              Contact
-                            </Button>
-                          </div>
-                        )}
-                      </div>
-                      <div className="flex flex-col space-y-2">
-                        <Button variant="outline" size="sm" data-testid={`button-view-details-${booking.id}`}>
-                          View Details
-                        </Button>
-                        {booking.status === 'pending' && (
-                          <Button variant="outline" size="sm" className="text-destructive border-destructive hover:bg-destructive/10">
-                            Cancel Booking
-                          </Button>
-                        )}
-                        {booking.status === 'completed' && (
-                          <Button variant="outline" size="sm" className="bg-accent/10 text-accent border-accent/30 hover:bg-accent/20">
-                            <Star className="w-4 h-4 mr-2" />
-                            Rate Service
+                          )}
+
+                          {review && (
+                            <div className="mt-3 p-3 bg-accent/5 rounded-lg text-sm" data-testid={`review-${booking.id}`}>
+                              <div className="flex items-center space-x-2">
+                                <StarRating value={review.rating} />
+                                <span className="text-muted-foreground">Your review</span>
+                              </div>
+                              {review.comment && (
+                                <p className="text-foreground mt-1">"{review.comment}"</p>
+                              )}
+                              {review.reply && (
+                                <p className="text-muted-foreground mt-1">Plumber's reply: {review.reply}</p>
+                              )}
+                            </div>
+                          )}
+
+                          {booking.assignedPlumber && (
+                            <div className="mt-3 flex items-center space-x-3 p-3 bg-primary/5 rounded-lg">
+                              <div className="w-8 h-8 bg-primary/10 rounded-full flex items-center justify-center">
+                                <CheckCircle className="w-4 h-4 text-primary" />
+                              </div>
+                              <div>
+                                <div className="text-sm font-medium text-foreground">Plumber Assigned</div>
+                                <div className="text-xs text-muted-foreground">ID: {booking.assignedPlumber.slice(-8)}</div>
+                              </div>
+                              <Button variant="outline" size="sm" className="ml-auto">
+                                <Phone className="w-4 h-4 mr-2" />
+                                Contact
+                              </Button>
+                            </div>
+                          )}
+                        </div>
+                        <div className="flex flex-col space-y-2">
+                          <Button variant="outline" size="sm" data-testid={`button-view-details-${booking.id}`}>
+                            View Details
                           </Button>
-                        )}
+                          {canTransition('user', booking.status, 'cancelled') && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="text-destructive border-destructive hover:bg-destructive/10"
+                              onClick={() => setCancellingBooking(booking)}
+                              data-testid={`button-cancel-${booking.id}`}
+                            >
+                              Cancel Booking
+                            </Button>
+                          )}
+                          {invoiced && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleDownloadInvoice(booking)}
+                              data-testid={`button-invoice-${booking.id}`}
+                            >
+                              <FileText className="w-4 h-4 mr-2" />
+                              Invoice
+                            </Button>
+                          )}
+                          {invoiced && booking.paymentStatus === 'unpaid' && (
+                            <Button
+                              size="sm"
+                              onClick={() => setPayingBooking(booking)}
+                              data-testid={`button-pay-${booking.id}`}
+                            >
+                              <CreditCard className="w-4 h-4 mr-2" />
+                              Pay Now
+                            </Button>
+                          )}
+                          {booking.status === 'completed' && !review && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="bg-accent/10 text-accent border-accent/30 hover:bg-accent/20"
+                              onClick={() => setReviewingBooking(booking)}
+                              data-testid={`button-rate-${booking.id}`}
+                            >
+                              <Star className="w-4 h-4 mr-2" />
+                              Rate Service
+                            </Button>
+                          )}
+                        </div>
                       </div>
                     </div>
-                  </div>
-                ))}
+                  );
+                })}
               </div>
             )}
           </CardContent>
@@ -279,6 +466,30 @@ export default function UserDashboard() {
         onClose={() => setIsBookingModalOpen(false)}
         onSuccess={handleBookingSuccess}
       />
+
+      {/* Cancel Booking Modal */}
+      <CancelBookingModal
+        booking={cancellingBooking}
+        onClose={() => setCancellingBooking(null)}
+      />
+
+      {/* Review Modal */}
+      <ReviewModal
+        booking={reviewingBooking}
+        onClose={() => setReviewingBooking(null)}
+      />
+
+      {/* Quote Modal */}
+      <QuoteResponseModal
+        quote={viewingQuote}
+        onClose={() => setViewingQuote(null)}
+      />
+
+      {/* Payment Modal */}
+      <PaymentModal
+        booking={payingBooking}
+        onClose={() => setPayingBooking(null)}
+      />
     </div>
   );
 }
@@ -0,0 +1,77 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, useSearch } from "wouter";
+import { MailCheck, MailX } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { apiRequest } from "@/lib/queryClient";
+import { authService, getDashboardPath, type User } from "@/lib/auth";
+
+type VerifyState =
+  | { status: 'verifying' }
+  | { status: 'verified' }
+  | { status: 'failed'; message: string };
+
+// Where the button sends people afterwards: their dashboard if signed in here, otherwise sign-in
+function getContinuePath() {
+  const user = authService.getCurrentUser();
+  return user ? getDashboardPath(user.role) : '/login';
+}
+
+export default function VerifyEmail() {
+  const token = new URLSearchParams(useSearch()).get("token");
+  const [state, setState] = useState<VerifyState>({ status: 'verifying' });
+  // Tokens are single-use, so the request must not repeat when React re-runs the effect
+  const requested = useRef(false);
+
+  useEffect(() => {
+    if (requested.current) return;
+    requested.current = true;
+
+    if (!token) {
+      setState({ status: 'failed', message: "This link is missing its verification token." });
+      return;
+    }
+
+    apiRequest('POST', '/api/auth/verify-email', { token })
+      .then(response => response.json() as Promise<{ user: User }>)
+      .then(({ user }) => {
+        authService.updateCurrentUser(user);
+        setState({ status: 'verified' });
+      })
+      .catch(error => {
+        setState({ status: 'failed', message: error instanceof Error ? error.message : "Please request a new link." });
+      });
+  }, [token]);
+
+  const Icon = state.status === 'failed' ? MailX : MailCheck;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8 bg-gradient-to-br from-primary/5 to-accent/5">
+      <Card className="w-full max-w-md shadow-xl">
+        <CardHeader className="text-center">
+          <div className="w-16 h-16 bg-primary rounded-xl flex items-center justify-center mx-auto mb-4">
+            <Icon className="text-primary-foreground text-3xl" />
+          </div>
+          <CardTitle className="text-3xl font-bold">
+            {state.status === 'verifying' && "Confirming Your Email"}
+            {state.status === 'verified' && "Email Confirmed"}
+            {state.status === 'failed' && "Link Not Valid"}
+          </CardTitle>
+          <p className="text-muted-foreground mt-2" data-testid="text-verify-status">
+            {state.status === 'verifying' && "Just a moment..."}
+            {state.status === 'verified' && "Thanks! We'll send booking updates to this address."}
+            {state.status === 'failed' && `${state.message} You can send a new link from your dashboard.`}
+          </p>
+        </CardHeader>
+
+        {state.status !== 'verifying' && (
+          <CardContent>
+            <Link href={getContinuePath()}>
+              <Button className="w-full" data-testid="button-continue">Continue</Button>
+            </Link>
+          </CardContent>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import bcrypt from 'bcryptjs';
+import { randomBytes } from 'crypto';
+import { storage, storageDriver } from './server/storage';
+
+// Creates the first admin account. Once one exists, further admins are invited from the admin dashboard.
+//
+//   npm run admin:create -- <email> "<name>" <phone>
+//
+// The password comes from ADMIN_PASSWORD, or a random one is generated and printed once.
+async function createAdmin() {
+    const [rawEmail, name, phone] = process.argv.slice(2);
+    if (!rawEmail || !name || !phone) {
+        throw new Error('Usage: npm run admin:create -- <email> "<name>" <phone>');
+    }
+    const email = rawEmail.toLowerCase().trim();
+
+    const admins = (await storage.getAllUsers()).filter(user => user.role === 'admin');
+    if (admins.length > 0) {
+        throw new Error(`An admin already exists (${admins[0].email}); invite further admins from the admin dashboard`);
+    }
+    if (await storage.getUserByEmail(email)) {
+        throw new Error(`An account already exists for ${email}`);
+    }
+
+    const password = process.env.ADMIN_PASSWORD || randomBytes(12).toString('base64url');
+    const user = await storage.createUser({
+        name,
+        email,
+        phone,
+        password: await bcrypt.hash(password, 10),
+        role: 'admin',
+    });
+
+    console.log(`Created admin ${user.email} (${storageDriver} storage)`);
+    if (!process.env.ADMIN_PASSWORD) {
+        console.log(`Password: ${password}`);
+        console.log('Sign in and use "Forgot password?" to choose your own.');
+    }
+}
+
+createAdmin().catch((error) => {
+    console.error('Error creating admin:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+});
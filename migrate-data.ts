@@ -0,0 +1,19 @@
+import { storage, storageDriver } from './server/storage';
+import { convertWholeStarRatings } from './server/reviews';
+import { lowercaseAccountEmails } from './server/account-tokens';
+
+// Converts rows that older versions stored differently, which drizzle-kit push can't do.
+// npm run db:push runs it after pushing the schema; every step is safe to run again.
+//
+//   npm run db:migrate-data
+async function migrateData() {
+    const ratings = await convertWholeStarRatings(storage);
+    console.log(`Converted ${ratings} plumber ratings to tenths of a star (${storageDriver} storage)`);
+    const emails = await lowercaseAccountEmails(storage);
+    console.log(`Lowercased ${emails} account emails (${storageDriver} storage)`);
+}
+
+migrateData().catch((error) => {
+    console.error('Error migrating data:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+});
@@ -0,0 +1,11 @@
+import { expireStaleAssignments } from "../../server/assignment-timeouts";
+import { registerNotificationListeners } from "../../server/notifications";
+import { registerMessageListeners } from "../../server/messaging";
+import { scheduledSweep } from "../../server/sweeps";
+
+export const handler: any = scheduledSweep("Assignment timeout", () => {
+    // Reassignments and escalations notify people, and this function doesn't load the API routes
+    registerNotificationListeners();
+    registerMessageListeners();
+    return expireStaleAssignments();
+});
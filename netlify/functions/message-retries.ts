@@ -0,0 +1,4 @@
+import { retryDueMessages } from "../../server/messaging";
+import { scheduledSweep } from "../../server/sweeps";
+
+export const handler: any = scheduledSweep("Message retry", () => retryDueMessages());
@@ -0,0 +1,5 @@
+import { storage } from "../../server/storage";
+import { retryPendingRefunds } from "../../server/payments";
+import { scheduledSweep } from "../../server/sweeps";
+
+export const handler: any = scheduledSweep("Refund retry", () => retryPendingRefunds(storage));
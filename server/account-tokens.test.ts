@@ -0,0 +1,98 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import bcrypt from "bcryptjs";
+import { MemStorage } from "./mem-storage";
+import { AccountTokenError, lowercaseAccountEmails, requestPasswordReset, resetPassword, sendEmailVerification, verifyEmail } from "./account-tokens";
+import { startSession } from "./sessions";
+import type { IMailTransport, OutboundEmail } from "./message-transport";
+
+// Keeps every email it is asked to send
+function outbox() {
+  const sent: OutboundEmail[] = [];
+  const transport: IMailTransport = {
+    name: "test",
+    send: async (email) => {
+      sent.push(email);
+      return { id: `test_${sent.length}` };
+    },
+  };
+  // The token from the newest email's link
+  const lastToken = () => new URL(sent[sent.length - 1].text.match(/https?:\/\/\S+/)![0]).searchParams.get("token")!;
+  return { transport, sent, lastToken };
+}
+
+async function signUp(store: MemStorage) {
+  return store.createUser({ name: "Casey Customer", email: "casey@example.com", password: await bcrypt.hash("old-password", 4), phone: "555-0100", role: "user" });
+}
+
+test("a reset link sets the password once and signs the user out everywhere", async () => {
+  const store = new MemStorage();
+  const user = await signUp(store);
+  await startSession(store, user, {});
+  const mail = outbox();
+
+  await requestPasswordReset(store, " Casey@Example.com ", mail.transport);
+  assert.equal(mail.sent[0].to, "casey@example.com");
+  const token = mail.lastToken();
+
+  await resetPassword(store, token, "new-password");
+  const updated = (await store.getUser(user.id))!;
+  assert.ok(await bcrypt.compare("new-password", updated.password));
+  assert.ok(updated.emailVerifiedAt);
+  assert.ok((await store.getSessionsByUserId(user.id)).every(session => session.revokedAt));
+
+  await assert.rejects(resetPassword(store, token, "another-password"), AccountTokenError);
+});
+
+test("only the newest reset link works, and only until it expires", async () => {
+  const store = new MemStorage();
+  await signUp(store);
+  const mail = outbox();
+
+  await requestPasswordReset(store, "casey@example.com", mail.transport);
+  const first = mail.lastToken();
+  await requestPasswordReset(store, "casey@example.com", mail.transport);
+  const second = mail.lastToken();
+
+  await assert.rejects(resetPassword(store, first, "new-password"), AccountTokenError);
+  const tomorrow = new Date(Date.now() + 24 * 60 * 60 * 1000);
+  await assert.rejects(resetPassword(store, second, "new-password", tomorrow), AccountTokenError);
+  await resetPassword(store, second, "new-password");
+});
+
+test("asking to reset an unknown address sends nothing", async () => {
+  const store = new MemStorage();
+  const mail = outbox();
+  await requestPasswordReset(store, "nobody@example.com", mail.transport);
+  assert.equal(mail.sent.length, 0);
+});
+
+test("a verification link confirms the address and can't reset the password", async () => {
+  const store = new MemStorage();
+  const user = await signUp(store);
+  const mail = outbox();
+
+  await sendEmailVerification(store, user, mail.transport);
+  const token = mail.lastToken();
+  await assert.rejects(resetPassword(store, token, "new-password"), AccountTokenError);
+
+  await verifyEmail(store, token);
+  assert.ok((await store.getUser(user.id))?.emailVerifiedAt);
+});
+
+test("accounts signed up with a mixed-case email can reset their password once it is lowercased", async () => {
+  const store = new MemStorage();
+  const mixed = await store.createUser({ name: "Casey Customer", email: "Casey@Example.com", password: "x", phone: "555-0100", role: "user" });
+  const taken = await store.createUser({ name: "Sam Customer", email: "Sam@Example.com", password: "x", phone: "555-0101", role: "user" });
+  await store.createUser({ name: "Sam Again", email: "sam@example.com", password: "x", phone: "555-0102", role: "user" });
+  const mail = outbox();
+
+  assert.equal(await lowercaseAccountEmails(store), 1);
+  assert.equal(await lowercaseAccountEmails(store), 0);
+  assert.equal((await store.getUser(mixed.id))?.email, "casey@example.com");
+  // Lowercasing this one would clash with the other account's address
+  assert.equal((await store.getUser(taken.id))?.email, "Sam@Example.com");
+
+  await requestPasswordReset(store, "Casey@Example.com", mail.transport);
+  assert.equal(mail.sent[0]?.to, "casey@example.com");
+});
@@ -0,0 +1,170 @@
+import { randomUUID } from "crypto";
+import bcrypt from "bcryptjs";
+import type { IStorage } from "./storage";
+import { isSessionActive } from "./sessions";
+import { sessionEvents } from "./events";
+import { hashSecretToken, matchesSecretToken, newSecretToken, secretTokenId } from "./secret-tokens";
+import { getAppUrl, mailFrom, mailTransport, type IMailTransport } from "./message-transport";
+import type { AccountToken, AccountTokenPurpose, User } from "../shared/schema";
+
+// How long an emailed link keeps working
+const tokenTtlMinutes: Record<AccountTokenPurpose, number> = {
+  'password-reset': Number(process.env.PASSWORD_RESET_TTL_MINUTES || 60),
+  'email-verification': Number(process.env.EMAIL_VERIFICATION_TTL_HOURS || 48) * 60,
+};
+
+const invalidLinkMessages: Record<AccountTokenPurpose, string> = {
+  'password-reset': "This reset link is invalid or has expired. Please request a new one.",
+  'email-verification': "This verification link is invalid or has expired. Please request a new one.",
+};
+
+export class AccountTokenError extends Error {}
+
+function isTokenUsable(row: AccountToken, now: Date) {
+  return !row.usedAt && row.expiresAt > now;
+}
+
+/**
+ * Creates a single-use token for the user. Any earlier unused token for the
+ * same purpose is expired, so only the most recently emailed link works.
+ */
+export async function issueAccountToken(store: IStorage, user: User, purpose: AccountTokenPurpose, now = new Date()): Promise<string> {
+  for (const row of await store.getAccountTokensByUserId(user.id)) {
+    if (row.purpose === purpose && isTokenUsable(row, now)) {
+      await store.updateAccountToken(row.id, { expiresAt: now });
+    }
+  }
+
+  const id = randomUUID();
+  const token = newSecretToken(id);
+  await store.createAccountToken({
+    id,
+    userId: user.id,
+    purpose,
+    tokenHash: hashSecretToken(token),
+    expiresAt: new Date(now.getTime() + tokenTtlMinutes[purpose] * 60 * 1000),
+  });
+  return token;
+}
+
+/**
+ * Marks the token used and runs apply in the same transaction, so a link
+ * can't be followed twice. Throws AccountTokenError when the token is
+ * unknown, used, expired or was issued for something else.
+ */
+async function redeemAccountToken<T>(
+  store: IStorage,
+  token: string,
+  purpose: AccountTokenPurpose,
+  apply: (tx: IStorage, user: User) => Promise<T>,
+  now: Date,
+): Promise<T> {
+  const id = secretTokenId(token);
+
+  const result = await store.withTransaction(async (tx) => {
+    const row = await tx.getAccountTokenForUpdate(id);
+    if (!row || row.purpose !== purpose || !isTokenUsable(row, now) || !matchesSecretToken(row.tokenHash, token)) return null;
+
+    const user = await tx.getUser(row.userId);
+    if (!user) return null;
+
+    await tx.updateAccountToken(row.id, { usedAt: now });
+    return { value: await apply(tx, user) };
+  });
+
+  if (!result) throw new AccountTokenError(invalidLinkMessages[purpose]);
+  return result.value;
+}
+
+function renderAccountEmail(user: User, lines: string[]) {
+  return [`Hi ${user.name.split(" ")[0]},`, "", ...lines, "", "The PlumbPro team"].join("\n");
+}
+
+/**
+ * Sign-up used to store the email as typed, while sign-in and password resets
+ * look accounts up by the lowercased address, so those accounts couldn't be
+ * found. Lowercases their emails; one whose lowercased address already belongs
+ * to another account is left alone and logged for staff to sort out. Safe to
+ * run more than once. Returns how many accounts were converted.
+ */
+export async function lowercaseAccountEmails(store: IStorage): Promise<number> {
+  let converted = 0;
+  for (const user of await store.getAllUsers()) {
+    const email = user.email.toLowerCase().trim();
+    if (email === user.email) continue;
+    const owner = await store.getUserByEmail(email);
+    if (owner) {
+      console.warn(`Can't lowercase the email of account ${user.id}: account ${owner.id} already uses ${email}`);
+      continue;
+    }
+    await store.updateUser(user.id, { email });
+    converted++;
+  }
+  return converted;
+}
+
+/**
+ * Emails a password reset link if the address belongs to an account. Unknown
+ * addresses are ignored without telling the caller, so the endpoint can't be
+ * used to find out who has an account.
+ */
+export async function requestPasswordReset(store: IStorage, email: string, transport: IMailTransport = mailTransport) {
+  const user = await store.getUserByEmail(email.toLowerCase().trim());
+  if (!user) return;
+
+  const token = await issueAccountToken(store, user, 'password-reset');
+  await transport.send({
+    from: mailFrom,
+    to: user.email,
+    subject: "Reset your PlumbPro password",
+    text: renderAccountEmail(user, [
+      "We received a request to reset your password. Choose a new one here:",
+      "",
+      `${getAppUrl()}/reset-password?token=${encodeURIComponent(token)}`,
+      "",
+      `The link works once and expires in ${tokenTtlMinutes['password-reset']} minutes.`,
+      "If you didn't ask for this, you can ignore this email and your password will stay the same.",
+    ]),
+  });
+}
+
+/**
+ * Sets a new password from a reset link and signs the user out everywhere,
+ * since whoever held the old password may still have a session.
+ */
+export async function resetPassword(store: IStorage, token: string, password: string, now = new Date()): Promise<User> {
+  const hashedPassword = await bcrypt.hash(password, 10);
+  const updated = await redeemAccountToken(store, token, 'password-reset', async (tx, user) => {
+    for (const session of await tx.getSessionsByUserId(user.id)) {
+      if (isSessionActive(session, now)) await tx.updateSession(session.id, { revokedAt: now });
+    }
+    // Following the emailed link proves the address too
+    const updated = await tx.updateUser(user.id, { password: hashedPassword, emailVerifiedAt: user.emailVerifiedAt ?? now });
+    return updated ?? user;
+  }, now);
+  await sessionEvents.emit("sessions.revoked", { userId: updated.id });
+  return updated;
+}
+
+export async function sendEmailVerification(store: IStorage, user: User, transport: IMailTransport = mailTransport) {
+  const token = await issueAccountToken(store, user, 'email-verification');
+  await transport.send({
+    from: mailFrom,
+    to: user.email,
+    subject: "Confirm your PlumbPro email address",
+    text: renderAccountEmail(user, [
+      "Please confirm this is your email address so we can keep you updated about your bookings:",
+      "",
+      `${getAppUrl()}/verify-email?token=${encodeURIComponent(token)}`,
+      "",
+      `The link expires in ${Math.round(tokenTtlMinutes['email-verification'] / 60)} hours.`,
+    ]),
+  });
+}
+
+export async function verifyEmail(store: IStorage, token: string, now = new Date()): Promise<User> {
+  return redeemAccountToken(store, token, 'email-verification', async (tx, user) => {
+    if (user.emailVerifiedAt) return user;
+    return (await tx.updateUser(user.id, { emailVerifiedAt: now })) ?? user;
+  }, now);
+}
@@ -0,0 +1,69 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MemStorage } from "./mem-storage";
+import { acceptAdminInvite, AdminInviteError, createAdminInvite, findPendingInvite } from "./admin-invites";
+import type { IMailTransport, OutboundEmail } from "./message-transport";
+import { registerUserSchema } from "../shared/schema";
+
+// Keeps every email it is asked to send
+function outbox() {
+  const sent: OutboundEmail[] = [];
+  const transport: IMailTransport = {
+    name: "test",
+    send: async (email) => {
+      sent.push(email);
+      return { id: `test_${sent.length}` };
+    },
+  };
+  const lastToken = () => new URL(sent[sent.length - 1].text.match(/https?:\/\/\S+/)![0]).searchParams.get("token")!;
+  return { transport, sent, lastToken };
+}
+
+async function inviter(store: MemStorage) {
+  return store.createUser({ name: "Avery Admin", email: "admin@example.com", password: "x", phone: "555-0100", role: "admin" });
+}
+
+const newcomer = { name: "Dana Dispatcher", phone: "555-0102", password: "a-strong-password" };
+
+test("self-registration can't choose a staff role", () => {
+  const signup = { name: "Mallory", email: "mallory@example.com", password: "password1", phone: "555-0199" };
+  assert.ok(registerUserSchema.safeParse({ ...signup, role: "user" }).success);
+  assert.ok(registerUserSchema.safeParse({ ...signup, role: "plumber" }).success);
+  assert.ok(!registerUserSchema.safeParse({ ...signup, role: "admin" }).success);
+  assert.ok(!registerUserSchema.safeParse({ ...signup, role: "dispatcher" }).success);
+});
+
+test("an invite creates one confirmed account with the invited role", async () => {
+  const store = new MemStorage();
+  const mail = outbox();
+  await createAdminInvite(store, await inviter(store), "Dana@Example.com", "dispatcher", mail.transport);
+  const token = mail.lastToken();
+  assert.equal((await findPendingInvite(store, token)).email, "dana@example.com");
+
+  const user = await acceptAdminInvite(store, { token, ...newcomer });
+  assert.equal(user.role, "dispatcher");
+  assert.equal(user.email, "dana@example.com");
+  assert.ok(user.emailVerifiedAt);
+
+  await assert.rejects(acceptAdminInvite(store, { token, ...newcomer }), AdminInviteError);
+});
+
+test("a newer invite replaces the older one, and invites expire", async () => {
+  const store = new MemStorage();
+  const admin = await inviter(store);
+  const mail = outbox();
+  await createAdminInvite(store, admin, "dana@example.com", "support", mail.transport);
+  const first = mail.lastToken();
+  await createAdminInvite(store, admin, "dana@example.com", "support", mail.transport);
+  const second = mail.lastToken();
+
+  await assert.rejects(findPendingInvite(store, first), AdminInviteError);
+  const nextMonth = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
+  await assert.rejects(acceptAdminInvite(store, { token: second, ...newcomer }, nextMonth), AdminInviteError);
+});
+
+test("nobody can be invited over an existing account", async () => {
+  const store = new MemStorage();
+  const admin = await inviter(store);
+  await assert.rejects(createAdminInvite(store, admin, "admin@example.com", "support", outbox().transport), AdminInviteError);
+});
@@ -0,0 +1,137 @@
+import { randomUUID } from "crypto";
+import bcrypt from "bcryptjs";
+import type { IStorage } from "./storage";
+import { hashSecretToken, matchesSecretToken, newSecretToken, secretTokenId } from "./secret-tokens";
+import { getAppUrl, mailFrom, mailTransport, type IMailTransport } from "./message-transport";
+import type { AcceptAdminInvite, AdminInvite, User } from "../shared/schema";
+import { roleLabels, type StaffRole } from "../shared/permissions";
+
+export const adminInviteTtlDays = Number(process.env.ADMIN_INVITE_TTL_DAYS || 7);
+
+export class AdminInviteError extends Error {}
+
+export type AdminInviteStatus = 'pending' | 'accepted' | 'revoked' | 'expired';
+
+const invalidInviteMessage = "This invite link is invalid or has expired. Ask an admin to send a new one.";
+
+export function getInviteStatus(invite: AdminInvite, now = new Date()): AdminInviteStatus {
+  if (invite.acceptedAt) return 'accepted';
+  if (invite.revokedAt) return 'revoked';
+  return invite.expiresAt > now ? 'pending' : 'expired';
+}
+
+// What the admin dashboard lists; the token hash never leaves the server
+export function toInviteSummary(invite: AdminInvite, now = new Date()) {
+  return {
+    id: invite.id,
+    email: invite.email,
+    role: invite.role,
+    invitedBy: invite.invitedBy,
+    expiresAt: invite.expiresAt,
+    acceptedAt: invite.acceptedAt,
+    createdAt: invite.createdAt,
+    status: getInviteStatus(invite, now),
+  };
+}
+
+function normalizeEmail(email: string) {
+  return email.toLowerCase().trim();
+}
+
+async function sendInviteEmail(transport: IMailTransport, inviter: User, address: string, role: StaffRole, token: string) {
+  await transport.send({
+    from: mailFrom,
+    to: address,
+    subject: "You've been invited to join the PlumbPro team",
+    text: [
+      "Hi,",
+      "",
+      `${inviter.name} has invited you to join PlumbPro with the ${roleLabels[role]} role. Set up your account here:`,
+      "",
+      `${getAppUrl()}/accept-invite?token=${encodeURIComponent(token)}`,
+      "",
+      `The link works once and expires in ${adminInviteTtlDays} days.`,
+      "If you weren't expecting this, you can ignore this email.",
+      "",
+      "The PlumbPro team",
+    ].join("\n"),
+  });
+}
+
+/**
+ * Invites someone to join as the given staff role and emails them the link.
+ * Earlier pending invites to the same address are revoked, so only the newest
+ * link works. Returns the invite even if the email could not be sent; the
+ * caller can send a fresh one.
+ */
+export async function createAdminInvite(
+  store: IStorage,
+  inviter: User,
+  email: string,
+  role: StaffRole,
+  transport: IMailTransport = mailTransport,
+  now = new Date(),
+): Promise<AdminInvite> {
+  const address = normalizeEmail(email);
+  if (await store.getUserByEmail(address)) {
+    throw new AdminInviteError("An account already exists for this email");
+  }
+
+  for (const earlier of await store.getAdminInvites()) {
+    if (earlier.email === address && getInviteStatus(earlier, now) === 'pending') {
+      await store.updateAdminInvite(earlier.id, { revokedAt: now });
+    }
+  }
+
+  const id = randomUUID();
+  const token = newSecretToken(id);
+  const invite = await store.createAdminInvite({
+    id,
+    email: address,
+    role,
+    tokenHash: hashSecretToken(token),
+    invitedBy: inviter.id,
+    expiresAt: new Date(now.getTime() + adminInviteTtlDays * 24 * 60 * 60 * 1000),
+  });
+
+  await sendInviteEmail(transport, inviter, address, role, token).catch(error => console.error('Send admin invite email error:', error));
+
+  return invite;
+}
+
+// The pending invite a token belongs to, so the accept page can show who it's for
+export async function findPendingInvite(store: IStorage, token: string, now = new Date()): Promise<AdminInvite> {
+  const invite = await store.getAdminInvite(secretTokenId(token));
+  if (!invite || getInviteStatus(invite, now) !== 'pending' || !matchesSecretToken(invite.tokenHash, token)) {
+    throw new AdminInviteError(invalidInviteMessage);
+  }
+  return invite;
+}
+
+/**
+ * Creates the staff account for an invite, with the role it was sent for. The
+ * invite is locked and marked accepted in the same transaction, so one link
+ * can't create two accounts.
+ * Following the emailed link proves the address, so it starts out confirmed.
+ */
+export async function acceptAdminInvite(
+  store: IStorage,
+  { token, name, phone, password }: AcceptAdminInvite,
+  now = new Date(),
+): Promise<User> {
+  const hashedPassword = await bcrypt.hash(password, 10);
+
+  return store.withTransaction(async (tx) => {
+    const invite = await tx.getAdminInviteForUpdate(secretTokenId(token));
+    if (!invite || getInviteStatus(invite, now) !== 'pending' || !matchesSecretToken(invite.tokenHash, token)) {
+      throw new AdminInviteError(invalidInviteMessage);
+    }
+    if (await tx.getUserByEmail(invite.email)) {
+      throw new AdminInviteError("An account already exists for this email. Sign in instead.");
+    }
+
+    const user = await tx.createUser({ name, email: invite.email, password: hashedPassword, phone, role: invite.role });
+    await tx.updateAdminInvite(invite.id, { acceptedAt: now, acceptedUserId: user.id });
+    return (await tx.updateUser(user.id, { emailVerifiedAt: now })) ?? user;
+  });
+}
@@ -1,7 +1,7 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
-import { db } from "./db";
-import { sql } from "drizzle-orm";
+import { storage, storageDriver } from "./storage";
+import { seedStorage } from "./seed";
 import { log } from "./utils";
 import "dotenv/config";
 
@@ -11,6 +11,13 @@ if (process.env.DATABASE_URL?.includes("52.220.170.93")) {
 
 const app = express();
 
+// Behind a proxy, req.ip (which rate limits are keyed on) has to come from X-Forwarded-For.
+// TRUST_PROXY takes a hop count or the proxy addresses, as Express's "trust proxy" setting does.
+const trustProxy = process.env.TRUST_PROXY;
+if (trustProxy) {
+    app.set("trust proxy", /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy);
+}
+
 declare module 'http' {
     interface IncomingMessage {
         rawBody: unknown
@@ -58,11 +65,22 @@ app.use((req, res, next) => {
 
 // We wrap the route registration in a function so we can wait for it if needed
 export async function createApp() {
+    // Demo accounts are opt-in, and never allowed where real people sign in
+    const seedDemoData = process.env.SEED_DEMO_DATA === "1";
+    if (seedDemoData && process.env.NODE_ENV === "production") {
+        throw new Error("SEED_DEMO_DATA must not be set in production");
+    }
+
+    // The offline backends start empty, so give them the categories and any demo accounts
+    if (storageDriver !== "postgres") {
+        await seedStorage(storage, { demoAccounts: seedDemoData });
+    }
+
     // Health check endpoint
     app.get("/api/health-check", async (_req, res) => {
         try {
-            const result = await db.execute(sql`SELECT 1`);
-            res.json({ status: "ok", message: "Database connected", result });
+            await storage.healthCheck();
+            res.json({ status: "ok", message: "Database connected", driver: storageDriver });
         } catch (err) {
             res.status(500).json({ status: "error", message: "Database connection failed", error: err instanceof Error ? err.message : String(err) });
         }
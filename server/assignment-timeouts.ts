@@ -0,0 +1,55 @@
+import { storage } from "./storage";
+import { reassignPlumber } from "./dispatch";
+import { startIntervalSweep } from "./sweeps";
+
+// How long an assigned plumber has to accept or reject before the job moves on
+export const assignmentResponseSlaMinutes = Number(process.env.ASSIGNMENT_RESPONSE_SLA_MINUTES || 30);
+
+// How often the long-running server looks for lapsed assignments
+const scanIntervalSeconds = Number(process.env.ASSIGNMENT_TIMEOUT_SCAN_SECONDS || 60);
+
+export interface AssignmentTimeoutSummary {
+  expired: number;
+  reassigned: number;
+  escalated: number;
+}
+
+/**
+ * Expires every assignment that has waited longer than the SLA without a
+ * response, handing the booking to the next candidate or back to pending.
+ * Shared by the in-process scheduler and the Netlify scheduled function.
+ */
+export async function expireStaleAssignments(now = new Date()): Promise<AssignmentTimeoutSummary> {
+  const cutoff = new Date(now.getTime() - assignmentResponseSlaMinutes * 60 * 1000);
+  const summary: AssignmentTimeoutSummary = { expired: 0, reassigned: 0, escalated: 0 };
+
+  for (const booking of await storage.getAssignedBookings()) {
+    const openEntry = booking.assignmentHistory.find(entry => entry.plumberId === booking.assignedPlumber && !entry.respondedAt);
+    if (!booking.assignedPlumber || !openEntry || new Date(openEntry.assignedAt) > cutoff) continue;
+
+    try {
+      // reassignPlumber re-checks the entry under the row lock, so a last-second accept wins
+      const result = await reassignPlumber(booking.id, booking.assignedPlumber, 'expired', cutoff);
+      if (!result) continue;
+
+      summary.expired++;
+      if (result.plumber) {
+        summary.reassigned++;
+      } else {
+        summary.escalated++;
+      }
+    } catch (error) {
+      console.error(`Assignment timeout error for booking ${booking.id}:`, error);
+    }
+  }
+
+  return summary;
+}
+
+export function startAssignmentTimeoutScheduler() {
+  return startIntervalSweep("Assignment timeout", scanIntervalSeconds, async () => {
+    const summary = await expireStaleAssignments();
+    if (summary.expired === 0) return;
+    return `expired ${summary.expired} assignment(s): ${summary.reassigned} reassigned, ${summary.escalated} escalated`;
+  });
+}
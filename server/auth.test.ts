@@ -0,0 +1,39 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { NextFunction, Request, Response } from "express";
+import { requirePermission, signAccessToken } from "./auth";
+import type { Role } from "../shared/permissions";
+
+// Runs the middleware for a bearer token and reports the status it answered with, or "next"
+function run(handler: ReturnType<typeof requirePermission>, token?: string) {
+  let outcome: number | "next" | undefined;
+  const req = { headers: token ? { authorization: `Bearer ${token}` } : {} } as Request;
+  const res = {
+    status(code: number) {
+      outcome = code;
+      return this;
+    },
+    json() {
+      return this;
+    },
+  } as unknown as Response;
+  const next: NextFunction = () => { outcome = "next"; };
+  handler(req, res, next);
+  return outcome;
+}
+
+const tokenFor = (role: Role) => signAccessToken({ id: `${role}-id`, email: `${role}@example.com`, role }, "session");
+
+test("requirePermission lets through only roles the matrix grants", () => {
+  const reassign = requirePermission("bookings:reassign");
+  assert.equal(run(reassign, tokenFor("admin")), "next");
+  assert.equal(run(reassign, tokenFor("dispatcher")), "next");
+  assert.equal(run(reassign, tokenFor("support")), 403);
+  assert.equal(run(reassign, tokenFor("plumber")), 403);
+});
+
+test("requirePermission refuses requests without a valid token", () => {
+  const reassign = requirePermission("bookings:reassign");
+  assert.equal(run(reassign), 401);
+  assert.equal(run(reassign, "not-a-token"), 403);
+});
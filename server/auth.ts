@@ -0,0 +1,89 @@
+import jwt from "jsonwebtoken";
+import type { NextFunction, Request, RequestHandler, Response } from "express";
+import type { User } from "../shared/schema";
+import { hasPermission, type Permission, type Role } from "../shared/permissions";
+
+const JWT_SECRET = process.env.SESSION_SECRET || "your-secret-key";
+
+// Access tokens can't be revoked, so they're kept short; a session's refresh token renews them
+export const accessTokenTtlMinutes = Number(process.env.ACCESS_TOKEN_TTL_MINUTES || 15);
+
+// What a token carries, and what requireAuth puts on req.user
+export interface AuthUser {
+  userId: string;
+  email: string;
+  role: Role;
+  // The session that issued the token; missing from tokens issued before sessions existed
+  sessionId?: string;
+  // When the token expires, in seconds since the epoch; set by jwt.sign
+  exp?: number;
+}
+
+export function signAccessToken(user: Pick<User, 'id' | 'email' | 'role'>, sessionId: string): string {
+  return jwt.sign(
+    { userId: user.id, email: user.email, role: user.role, sessionId },
+    JWT_SECRET,
+    { expiresIn: Math.round(accessTokenTtlMinutes * 60) }
+  );
+}
+
+/** Returns the token's user, or null when it is invalid or expired. */
+export function verifyAccessToken(token: string): AuthUser | null {
+  try {
+    return jwt.verify(token, JWT_SECRET) as AuthUser;
+  } catch {
+    return null;
+  }
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthUser;
+    }
+  }
+}
+
+// A request that has been through requireAuth, so req.user is always set
+export interface AuthenticatedRequest extends Request {
+  user: AuthUser;
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  const authHeader = req.headers['authorization'];
+  const token = authHeader && authHeader.split(' ')[1];
+
+  if (!token) {
+    return res.status(401).json({ message: 'Access token required' });
+  }
+
+  try {
+    req.user = jwt.verify(token, JWT_SECRET) as AuthUser;
+  } catch (error) {
+    // A 401 tells the client to refresh and try again; anything else is a bad token
+    if (error instanceof jwt.TokenExpiredError) {
+      return res.status(401).json({ message: 'Access token expired' });
+    }
+    return res.status(403).json({ message: 'Invalid or expired token' });
+  }
+  next();
+}
+
+/**
+ * Authenticates like requireAuth, then refuses roles the permission matrix in
+ * shared/permissions.ts doesn't grant this permission. Checks that depend on
+ * who owns a booking or profile stay in the handler.
+ */
+export function requirePermission(permission: Permission): RequestHandler {
+  return (req, res, next) => requireAuth(req, res, () => {
+    if (!hasPermission(req.user!.role, permission)) {
+      return res.status(403).json({ message: "Not authorized" });
+    }
+    next();
+  });
+}
+
+// Types a handler mounted behind requireAuth or requirePermission
+export function withUser(handler: (req: AuthenticatedRequest, res: Response, next: NextFunction) => unknown): RequestHandler {
+  return (req, res, next) => handler(req as AuthenticatedRequest, res, next);
+}
@@ -0,0 +1,60 @@
+import fs from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+
+export interface StoredBlob {
+  data: Buffer;
+  contentType: string;
+}
+
+export interface IBlobStore {
+  put(data: Buffer, contentType: string, prefix?: string): Promise<string>;
+  get(key: string): Promise<StoredBlob | undefined>;
+  delete(key: string): Promise<void>;
+}
+
+// Keeps uploads on the local filesystem, with the content type in a sidecar file next to each blob
+export class LocalDiskBlobStore implements IBlobStore {
+  constructor(private readonly rootDir: string) {}
+
+  async put(data: Buffer, contentType: string, prefix = ""): Promise<string> {
+    const key = path.posix.join(prefix, randomUUID());
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+    await fs.writeFile(`${filePath}.meta.json`, JSON.stringify({ contentType }));
+    return key;
+  }
+
+  async get(key: string): Promise<StoredBlob | undefined> {
+    const filePath = this.resolve(key);
+    try {
+      const [data, meta] = await Promise.all([
+        fs.readFile(filePath),
+        fs.readFile(`${filePath}.meta.json`, "utf-8"),
+      ]);
+      return { data, contentType: JSON.parse(meta).contentType };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.rm(filePath, { force: true });
+    await fs.rm(`${filePath}.meta.json`, { force: true });
+  }
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.rootDir, key);
+    if (!filePath.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error(`Invalid blob key: ${key}`);
+    }
+    return filePath;
+  }
+}
+
+export const blobStore: IBlobStore = new LocalDiskBlobStore(
+  process.env.UPLOAD_DIR || path.join(process.cwd(), "uploads")
+);
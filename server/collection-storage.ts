@@ -0,0 +1,991 @@
+import { randomUUID } from "crypto";
+import { AsyncLocalStorage } from "async_hooks";
+import type { IStorage } from "./storage";
+import { activeBookingStatuses, type User, InsertUser, Plumber, InsertPlumber, Booking, InsertBooking, Category, InsertCategory, PlumberDocument, InsertPlumberDocument, PlumberTimeOff, InsertPlumberTimeOff, Review, InsertReview, Quote, InsertQuote, Invoice, InsertInvoice, Payment, InsertPayment, Refund, InsertRefund, Earning, InsertEarning, PayoutBatch, InsertPayoutBatch, Notification, InsertNotification, NotificationPreferences, InsertNotificationPreferences, OutboundMessage, InsertOutboundMessage, OutboundMessageStatus, Session, InsertSession, AccountToken, InsertAccountToken, AdminInvite, InsertAdminInvite, RateLimitCounter, InsertRateLimitCounter } from "../shared/schema";
+
+export interface Collection<T extends { id: string }> {
+  get(id: string): T | undefined;
+  all(): T[];
+  insert(row: T): void;
+  update(row: T): void;
+  delete(id: string): boolean;
+}
+
+export interface Tables {
+  users: User;
+  plumbers: Plumber;
+  bookings: Booking;
+  categories: Category;
+  plumberDocuments: PlumberDocument;
+  plumberTimeOff: PlumberTimeOff;
+  reviews: Review;
+  quotes: Quote;
+  invoices: Invoice;
+  payments: Payment;
+  refunds: Refund;
+  earnings: Earning;
+  payoutBatches: PayoutBatch;
+  notifications: Notification;
+  notificationPreferences: NotificationPreferences;
+  outboundMessages: OutboundMessage;
+  sessions: Session;
+  accountTokens: AccountToken;
+  adminInvites: AdminInvite;
+  rateLimitCounters: RateLimitCounter;
+}
+
+// Mirrors the ORDER BY created_at DESC used by DatabaseStorage
+function byNewest<T extends { createdAt: Date | null }>(a: T, b: T) {
+  return (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0);
+}
+
+// Drizzle's .set() skips undefined values, so partial updates here must do the same
+function definedOnly<T extends object>(data: Partial<T>): Partial<T> {
+  return Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
+
+/**
+ * IStorage implemented over plain row collections, applying the same column
+ * defaults and orderings as the Postgres schema. Subclasses only decide where
+ * the rows live.
+ *
+ * Transactions are serialized: only one runs at a time, which stands in for the
+ * row locks DatabaseStorage takes. Calls made outside withTransaction while one
+ * is open wait until it has finished, so a rollback can never undo them.
+ */
+export abstract class CollectionStorage implements IStorage {
+  private transactionQueue: Promise<unknown> = Promise.resolve();
+  private readonly activeTransaction = new AsyncLocalStorage<true>();
+  private transactionOpen = false;
+
+  protected abstract collection<K extends keyof Tables>(name: K): Collection<Tables[K]>;
+  protected abstract beginTransaction(): void;
+  protected abstract commitTransaction(): void;
+  protected abstract rollbackTransaction(): void;
+
+  // True for calls made from inside the open transaction's callback
+  private get inTransaction(): boolean {
+    return this.activeTransaction.getStore() === true;
+  }
+
+  async withTransaction<T>(fn: (tx: IStorage) => Promise<T>): Promise<T> {
+    // Nested calls join the transaction that is already open
+    if (this.inTransaction) return fn(this);
+
+    const run = async () => {
+      this.beginTransaction();
+      this.transactionOpen = true;
+      try {
+        const result = await this.activeTransaction.run(true, () => fn(this));
+        this.commitTransaction();
+        return result;
+      } catch (error) {
+        this.rollbackTransaction();
+        throw error;
+      } finally {
+        this.transactionOpen = false;
+      }
+    };
+    const result = this.transactionQueue.then(run, run);
+    this.transactionQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Every storage call starts here. A call from outside the open transaction
+   * waits until no transaction is open; the call's own work is synchronous, so
+   * none can begin before it finishes.
+   */
+  private async queueBehindTransaction() {
+    while (this.transactionOpen && !this.inTransaction) await this.transactionQueue;
+  }
+
+  private insertRow<K extends keyof Tables>(name: K, row: Tables[K]): Tables[K] {
+    this.collection(name).insert(row);
+    return row;
+  }
+
+  private updateRow<K extends keyof Tables>(name: K, id: string, updateData: Partial<Tables[K]>): Tables[K] | undefined {
+    const existing = this.collection(name).get(id);
+    if (!existing) return undefined;
+    const row = {
+      ...existing,
+      ...definedOnly(updateData),
+      id,
+      // Only stamped on tables with the column, as DatabaseStorage's update() does
+      ...("updatedAt" in existing && { updatedAt: new Date() }),
+    } as Tables[K];
+    this.collection(name).update(row);
+    return row;
+  }
+
+  private createUserRow(insertUser: InsertUser): User {
+    if (this.collection("users").all().some(u => u.email === insertUser.email)) {
+      throw new Error('duplicate key value violates unique constraint "users_email_unique"');
+    }
+    return this.insertRow("users", {
+      id: randomUUID(),
+      name: insertUser.name,
+      email: insertUser.email,
+      password: insertUser.password,
+      phone: insertUser.phone,
+      role: insertUser.role,
+      address: insertUser.address ?? null,
+      emailVerifiedAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+  }
+
+  private createPlumberRow(insertPlumber: InsertPlumber): Plumber {
+    if (insertPlumber.licenseNumber && this.collection("plumbers").all().some(p => p.licenseNumber === insertPlumber.licenseNumber)) {
+      throw new Error('duplicate key value violates unique constraint "plumbers_license_number_unique"');
+    }
+    return this.insertRow("plumbers", {
+      id: randomUUID(),
+      userId: insertPlumber.userId,
+      specializations: insertPlumber.specializations ?? [],
+      isAvailable: insertPlumber.isAvailable ?? true,
+      isVerified: insertPlumber.isVerified ?? false,
+      experienceYears: insertPlumber.experienceYears ?? null,
+      rating: insertPlumber.rating ?? 0,
+      reviewCount: insertPlumber.reviewCount ?? 0,
+      totalJobs: insertPlumber.totalJobs ?? 0,
+      licenseNumber: insertPlumber.licenseNumber ?? null,
+      serviceArea: insertPlumber.serviceArea ?? null,
+      workingHours: insertPlumber.workingHours ?? null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+  }
+
+  async getUser(id: string): Promise<User | undefined> {
+    await this.queueBehindTransaction();
+    return this.collection("users").get(id);
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    await this.queueBehindTransaction();
+    return this.collection("users").all().find(u => u.email === email);
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    await this.queueBehindTransaction();
+    return this.collection("users").all();
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    await this.queueBehindTransaction();
+    return this.createUserRow(insertUser);
+  }
+
+  async updateUser(id: string, updateData: Partial<User>): Promise<User | undefined> {
+    await this.queueBehindTransaction();
+    return this.updateRow("users", id, updateData);
+  }
+
+  async getSession(id: string): Promise<Session | undefined> {
+    await this.queueBehindTransaction();
+    return this.collection("sessions").get(id);
+  }
+
+  async getSessionForUpdate(id: string): Promise<Session | undefined> {
+    return this.getSession(id);
+  }
+
+  async getSessionsByUserId(userId: string): Promise<Session[]> {
+    await this.queueBehindTransaction();
+    return this.collection("sessions").all()
+      .filter(s => s.userId === userId)
+      .sort((a, b) => b.lastUsedAt.getTime() - a.lastUsedAt.getTime());
+  }
+
+  async createSession(insertSession: InsertSession): Promise<Session> {
+    await this.queueBehindTransaction();
+    const now = new Date();
+    return this.insertRow("sessions", {
+      id: insertSession.id ?? randomUUID(),
+      userId: insertSession.userId,
+      refreshTokenHash: insertSession.refreshTokenHash,
+      userAgent: insertSession.userAgent ?? null,
+      ipAddress: insertSession.ipAddress ?? null,
+      expiresAt: insertSession.expiresAt,
+      lastUsedAt: now,
+      revokedAt: null,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  async updateSession(id: string, updateData: Partial<Session>): Promise<Session | undefined> {
+    await this.queueBehindTransaction();
+    return this.updateRow("sessions", id, updateData);
+  }
+
+  async getAccountToken(id: string): Promise<AccountToken | undefined> {
+    await this.queueBehindTransaction();
+    return this.collection("accountTokens").get(id);
+  }
+
+  async getAccountTokenForUpdate(id: string): Promise<AccountToken | undefined> {
+    return this.getAccountToken(id);
+  }
+
+  async getAccountTokensByUserId(userId: string): Promise<AccountToken[]> {
+    await this.queueBehindTransaction();
+    return this.collection("accountTokens").all().filter(t => t.userId === userId).sort(byNewest);
+  }
+
+  async createAccountToken(insertToken: InsertAccountToken): Promise<AccountToken> {
+    await this.queueBehindTransaction();
+    return this.insertRow("accountTokens", {
+      id: insertToken.id ?? randomUUID(),
+      userId: insertToken.userId,
+      purpose: insertToken.purpose,
+      tokenHash: insertToken.tokenHash,
+      expiresAt: insertToken.expiresAt,
+      usedAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+  }
+
+  async updateAccountToken(id: string, updateData: Partial<AccountToken>): Promise<AccountToken | undefined> {
+    await this.queueBehindTransaction();
+    return this.updateRow("accountTokens", id, updateData);
+  }
+
+  async getAdminInvite(id: string): Promise<AdminInvite | undefined> {
+    await this.queueBehindTransaction();
+    return this.collection("adminInvites").get(id);
+  }
+
+  async getAdminInviteForUpdate(id: string): Promise<AdminInvite | undefined> {
+    return this.getAdminInvite(id);
+  }
+
+  async getAdminInvites(): Promise<AdminInvite[]> {
+    await this.queueBehindTransaction();
+    return this.collection("adminInvites").all().sort(byNewest);
+  }
+
+  async createAdminInvite(insertInvite: InsertAdminInvite): Promise<AdminInvite> {
+    await this.queueBehindTransaction();
+    return this.insertRow("adminInvites", {
+      id: insertInvite.id ?? randomUUID(),
+      email: insertInvite.email,
+      role: insertInvite.role ?? 'admin',
+      tokenHash: insertInvite.tokenHash,
+      invitedBy: insertInvite.invitedBy,
+      expiresAt: insertInvite.expiresAt,
+      acceptedAt: null,
+      acceptedUserId: null,
+      revokedAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+  }
+
+  async updateAdminInvite(id: string, updateData: Partial<AdminInvite>): Promise<AdminInvite | undefined> {
+    await this.queueBehindTransaction();
+    return this.updateRow("adminInvites", id, updateData);
+  }
+
+  async getRateLimitCounter(id: string): Promise<RateLimitCounter | undefined> {
+    await this.queueBehindTransaction();
+    return this.collection("rateLimitCounters").get(id);
+  }
+
+  async incrementRateLimitCounter(id: string, expiresAt: Date, now = new Date()): Promise<RateLimitCounter> {
+    await this.queueBehindTransaction();
+    const existing = this.collection("rateLimitCounters").get(id);
+    if (existing && existing.expiresAt > now) {
+      return this.updateRow("rateLimitCounters", id, { count: existing.count + 1 })!;
+    }
+    return this.saveRateLimitCounterRow({ id, count: 1, expiresAt });
+  }
+
+  async saveRateLimitCounter(insertCounter: InsertRateLimitCounter): Promise<RateLimitCounter> {
+    await this.queueBehindTransaction();
+    return this.saveRateLimitCounterRow(insertCounter);
+  }
+
+  private saveRateLimitCounterRow(insertCounter: InsertRateLimitCounter): RateLimitCounter {
+    const existing = this.collection("rateLimitCounters").get(insertCounter.id);
+    if (existing) {
+      return this.updateRow("rateLimitCounters", existing.id, {
+        count: insertCounter.count,
+        expiresAt: insertCounter.expiresAt,
+      })!;
+    }
+    return this.insertRow("rateLimitCounters", {
+      id: insertCounter.id,
+      count: insertCounter.count,
+      expiresAt: insertCounter.expiresAt,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+  }
+
+  async deleteRateLimitCounter(id: string): Promise<boolean> {
+    await this.queueBehindTransaction();
+    return this.collection("rateLimitCounters").delete(id);
+  }
+
+  async deleteExpiredRateLimitCounters(now = new Date()): Promise<number> {
+    await this.queueBehindTransaction();
+    const expired = this.collection("rateLimitCounters").all().filter(counter => counter.expiresAt <= now);
+    for (const counter of expired) this.collection("rateLimitCounters").delete(counter.id);
+    return expired.length;
+  }
+
+  async getPlumber(id: string): Promise<Plumber | undefined> {
+    await this.queueBehindTransaction();
+    return this.collection("plumbers").get(id);
+  }
+
+  async getPlumberForUpdate(id: string): Promise<Plumber | undefined> {
+    return this.getPlumber(id);
+  }
+
+  async getPlumberByUserId(userId: string): Promise<Plumber | undefined> {
+    await this.queueBehindTransaction();
+    return this.collection("plumbers").all().find(p => p.userId === userId);
+  }
+
+  async getPlumberByLicenseNumber(licenseNumber: string): Promise<Plumber | undefined> {
+    await this.queueBehindTransaction();
+    return this.collection("plumbers").all().find(p => p.licenseNumber === licenseNumber);
+  }
+
+  async createPlumber(insertPlumber: InsertPlumber): Promise<Plumber> {
+    await this.queueBehindTransaction();
+    return this.createPlumberRow(insertPlumber);
+  }
+
+  async createPlumberWithUser(insertUser: InsertUser, insertPlumber: Omit<InsertPlumber, 'userId'>): Promise<{ user: User; plumber: Plumber }> {
+    return this.withTransaction(async () => {
+      const user = this.createUserRow(insertUser);
+      const plumber = this.createPlumberRow({ ...insertPlumber, userId: user.id });
+      return { user, plumber };
+    });
+  }
+
+  async updatePlumber(id: string, updateData: Partial<Plumber>): Promise<Plumber | undefined> {
+    await this.queueBehindTransaction();
+    return this.updateRow("plumbers", id, updateData);
+  }
+
+  async getAvailablePlumbers(specialization?: string): Promise<Plumber[]> {
+    await this.queueBehindTransaction();
+    const availablePlumbers = this.collection("plumbers").all().filter(p => p.isAvailable);
+    if (specialization) {
+      return availablePlumbers.filter(p => Array.isArray(p.specializations) && p.specializations.includes(specialization));
+    }
+    return availablePlumbers;
+  }
+
+  async lockAvailablePlumbers(specialization?: string): Promise<Plumber[]> {
+    return this.getAvailablePlumbers(specialization);
+  }
+
+  async getAllPlumbers(): Promise<Plumber[]> {
+    await this.queueBehindTransaction();
+    return this.collection("plumbers").all();
+  }
+
+  async getBooking(id: string): Promise<Booking | undefined> {
+    await this.queueBehindTransaction();
+    return this.collection("bookings").get(id);
+  }
+
+  async getBookingForUpdate(id: string): Promise<Booking | undefined> {
+    return this.getBooking(id);
+  }
+
+  async createBooking(insertBooking: InsertBooking): Promise<Booking> {
+    await this.queueBehindTransaction();
+    return this.insertRow("bookings", {
+      id: randomUUID(),
+      userId: insertBooking.userId,
+      category: insertBooking.category,
+      description: insertBooking.description,
+      address: insertBooking.address,
+      phone: insertBooking.phone,
+      preferredDate: insertBooking.preferredDate ?? null,
+      preferredEndDate: insertBooking.preferredEndDate ?? null,
+      timeZone: insertBooking.timeZone ?? null,
+      latitude: insertBooking.latitude ?? null,
+      longitude: insertBooking.longitude ?? null,
+      status: insertBooking.status ?? 'pending',
+      assignedPlumber: insertBooking.assignedPlumber ?? null,
+      assignmentHistory: [],
+      cancellationReason: null,
+      cancellationNote: null,
+      cancelledBy: null,
+      cancelledAt: null,
+      cancellationFeePercent: null,
+      paymentStatus: 'unpaid',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+  }
+
+  async updateBooking(id: string, updateData: Partial<Booking>): Promise<Booking | undefined> {
+    await this.queueBehindTransaction();
+    return this.updateRow("bookings", id, updateData);
+  }
+
+  async getBookingsByUserId(userId: string): Promise<Booking[]> {
+    await this.queueBehindTransaction();
+    return this.collection("bookings").all().filter(b => b.userId === userId).sort(byNewest);
+  }
+
+  async getBookingsByPlumberId(plumberId: string): Promise<Booking[]> {
+    await this.queueBehindTransaction();
+    return this.collection("bookings").all().filter(b => b.assignedPlumber === plumberId).sort(byNewest);
+  }
+
+  async countActiveBookingsByPlumberId(plumberId: string): Promise<number> {
+    await this.queueBehindTransaction();
+    return this.collection("bookings").all().filter(b => b.assignedPlumber === plumberId && activeBookingStatuses.includes(b.status)).length;
+  }
+
+  async getAllBookings(): Promise<Booking[]> {
+    await this.queueBehindTransaction();
+    return this.collection("bookings").all().sort(byNewest);
+  }
+
+  async getPendingBookings(): Promise<Booking[]> {
+    await this.queueBehindTransaction();
+    return this.collection("bookings").all().filter(b => b.status === 'pending').sort(byNewest);
+  }
+
+  async getAssignedBookings(): Promise<Booking[]> {
+    await this.queueBehindTransaction();
+    return this.collection("bookings").all().filter(b => b.status === 'assigned').sort(byNewest);
+  }
+
+  async getPlumberDocument(id: string): Promise<PlumberDocument | undefined> {
+    await this.queueBehindTransaction();
+    return this.collection("plumberDocuments").get(id);
+  }
+
+  async getPlumberDocuments(plumberId: string): Promise<PlumberDocument[]> {
+    await this.queueBehindTransaction();
+    return this.collection("plumberDocuments").all().filter(d => d.plumberId === plumberId).sort(byNewest);
+  }
+
+  async createPlumberDocument(insertDocument: InsertPlumberDocument): Promise<PlumberDocument> {
+    await this.queueBehindTransaction();
+    return this.insertRow("plumberDocuments", {
+      id: randomUUID(),
+      plumberId: insertDocument.plumberId,
+      type: insertDocument.type,
+      fileName: insertDocument.fileName,
+      contentType: insertDocument.contentType,
+      size: insertDocument.size,
+      storageKey: insertDocument.storageKey,
+      expiresAt: insertDocument.expiresAt ?? null,
+      status: 'pending',
+      reviewedBy: null,
+      reviewedAt: null,
+      reviewNotes: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+  }
+
+  async updatePlumberDocument(id: string, updateData: Partial<PlumberDocument>): Promise<PlumberDocument | undefined> {
+    await this.queueBehindTransaction();
+    return this.updateRow("plumberDocuments", id, updateData);
+  }
+
+  async getPlumberTimeOff(plumberId: string): Promise<PlumberTimeOff[]> {
+    await this.queueBehindTransaction();
+    return this.collection("plumberTimeOff").all()
+      .filter(t => t.plumberId === plumberId)
+      .sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  async createPlumberTimeOff(insertTimeOff: InsertPlumberTimeOff): Promise<PlumberTimeOff> {
+    await this.queueBehindTransaction();
+    return this.insertRow("plumberTimeOff", {
+      id: randomUUID(),
+      plumberId: insertTimeOff.plumberId,
+      date: insertTimeOff.date,
+      startTime: insertTimeOff.startTime ?? null,
+      endTime: insertTimeOff.endTime ?? null,
+      reason: insertTimeOff.reason ?? null,
+      createdAt: new Date(),
+    });
+  }
+
+  async deletePlumberTimeOff(id: string): Promise<boolean> {
+    await this.queueBehindTransaction();
+    return this.collection("plumberTimeOff").delete(id);
+  }
+
+  async getReview(id: string): Promise<Review | undefined> {
+    await this.queueBehindTransaction();
+    return this.collection("reviews").get(id);
+  }
+
+  async getReviewByBookingId(bookingId: string): Promise<Review | undefined> {
+    await this.queueBehindTransaction();
+    return this.collection("reviews").all().find(r => r.bookingId === bookingId);
+  }
+
+  async getReviewsByPlumberId(plumberId: string): Promise<Review[]> {
+    await this.queueBehindTransaction();
+    return this.collection("reviews").all().filter(r => r.plumberId === plumberId).sort(byNewest);
+  }
+
+  async getReviewsByUserId(userId: string): Promise<Review[]> {
+    await this.queueBehindTransaction();
+    return this.collection("reviews").all().filter(r => r.userId === userId).sort(byNewest);
+  }
+
+  async getAllReviews(): Promise<Review[]> {
+    await this.queueBehindTransaction();
+    return this.collection("reviews").all().sort(byNewest);
+  }
+
+  async createReview(insertReview: InsertReview): Promise<Review> {
+    await this.queueBehindTransaction();
+    if (this.collection("reviews").all().some(r => r.bookingId === insertReview.bookingId)) {
+      throw new Error('duplicate key value violates unique constraint "reviews_booking_id_unique"');
+    }
+    return this.insertRow("reviews", {
+      id: randomUUID(),
+      bookingId: insertReview.bookingId,
+      plumberId: insertReview.plumberId,
+      userId: insertReview.userId,
+      rating: insertReview.rating,
+      comment: insertReview.comment ?? null,
+      reply: null,
+      repliedAt: null,
+      status: 'published',
+      moderatedBy: null,
+      moderatedAt: null,
+      moderationNote: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+  }
+
+  async updateReview(id: string, updateData: Partial<Review>): Promise<Review | undefined> {
+    await this.queueBehindTransaction();
+    return this.updateRow("reviews", id, updateData);
+  }
+
+  async getQuote(id: string): Promise<Quote | undefined> {
+    await this.queueBehindTransaction();
+    return this.collection("quotes").get(id);
+  }
+
+  async getQuotesByBookingId(bookingId: string): Promise<Quote[]> {
+    return this.getQuotesByBookingIds([bookingId]);
+  }
+
+  async getQuotesByBookingIds(bookingIds: string[]): Promise<Quote[]> {
+    await this.queueBehindTransaction();
+    return this.collection("quotes").all()
+      .filter(q => bookingIds.includes(q.bookingId))
+      .sort((a, b) => b.version - a.version);
+  }
+
+  async createQuote(insertQuote: InsertQuote): Promise<Quote> {
+    await this.queueBehindTransaction();
+    if (this.collection("quotes").all().some(q => q.bookingId === insertQuote.bookingId && q.version === insertQuote.version)) {
+      throw new Error('duplicate key value violates unique constraint "quotes_booking_version_unique"');
+    }
+    return this.insertRow("quotes", {
+      id: randomUUID(),
+      bookingId: insertQuote.bookingId,
+      plumberId: insertQuote.plumberId,
+      version: insertQuote.version,
+      status: 'pending',
+      lineItems: insertQuote.lineItems,
+      taxRate: insertQuote.taxRate ?? 0,
+      subtotal: insertQuote.subtotal,
+      tax: insertQuote.tax,
+      total: insertQuote.total,
+      notes: insertQuote.notes ?? null,
+      respondedAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+  }
+
+  async updateQuote(id: string, updateData: Partial<Quote>): Promise<Quote | undefined> {
+    await this.queueBehindTransaction();
+    return this.updateRow("quotes", id, updateData);
+  }
+
+  async getInvoice(id: string): Promise<Invoice | undefined> {
+    await this.queueBehindTransaction();
+    return this.collection("invoices").get(id);
+  }
+
+  async getInvoiceByBookingId(bookingId: string): Promise<Invoice | undefined> {
+    await this.queueBehindTransaction();
+    return this.collection("invoices").all().find(i => i.bookingId === bookingId);
+  }
+
+  async createInvoice(insertInvoice: InsertInvoice): Promise<Invoice> {
+    await this.queueBehindTransaction();
+    const existing = this.collection("invoices").all();
+    if (existing.some(i => i.bookingId === insertInvoice.bookingId)) {
+      throw new Error('duplicate key value violates unique constraint "invoices_booking_id_unique"');
+    }
+    return this.insertRow("invoices", {
+      id: randomUUID(),
+      number: existing.reduce((highest, i) => Math.max(highest, i.number), 0) + 1,
+      bookingId: insertInvoice.bookingId,
+      quoteId: insertInvoice.quoteId ?? null,
+      userId: insertInvoice.userId,
+      plumberId: insertInvoice.plumberId,
+      customer: insertInvoice.customer,
+      plumber: insertInvoice.plumber,
+      lineItems: insertInvoice.lineItems,
+      taxLines: insertInvoice.taxLines,
+      subtotal: insertInvoice.subtotal,
+      tax: insertInvoice.tax,
+      total: insertInvoice.total,
+      paymentStatus: 'unpaid',
+      amountPaid: 0,
+      paidAt: null,
+      amountRefunded: 0,
+      issuedAt: new Date(),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+  }
+
+  async updateInvoice(id: string, updateData: Partial<Invoice>): Promise<Invoice | undefined> {
+    await this.queueBehindTransaction();
+    return this.updateRow("invoices", id, updateData);
+  }
+
+  async getPayment(id: string): Promise<Payment | undefined> {
+    await this.queueBehindTransaction();
+    return this.collection("payments").get(id);
+  }
+
+  async getPaymentByProviderIntentId(providerIntentId: string): Promise<Payment | undefined> {
+    await this.queueBehindTransaction();
+    return this.collection("payments").all().find(p => p.providerIntentId === providerIntentId);
+  }
+
+  async getPaymentsByBookingId(bookingId: string): Promise<Payment[]> {
+    await this.queueBehindTransaction();
+    return this.collection("payments").all().filter(p => p.bookingId === bookingId).sort(byNewest);
+  }
+
+  async createPayment(insertPayment: InsertPayment): Promise<Payment> {
+    await this.queueBehindTransaction();
+    if (this.collection("payments").all().some(p => p.providerIntentId === insertPayment.providerIntentId)) {
+      throw new Error('duplicate key value violates unique constraint "payments_provider_intent_id_unique"');
+    }
+    return this.insertRow("payments", {
+      id: randomUUID(),
+      invoiceId: insertPayment.invoiceId,
+      bookingId: insertPayment.bookingId,
+      userId: insertPayment.userId,
+      provider: insertPayment.provider,
+      providerIntentId: insertPayment.providerIntentId,
+      amount: insertPayment.amount,
+      currency: insertPayment.currency,
+      status: 'requires-payment',
+      amountCaptured: 0,
+      failureReason: null,
+      authorizedAt: null,
+      capturedAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+  }
+
+  async updatePayment(id: string, updateData: Partial<Payment>): Promise<Payment | undefined> {
+    await this.queueBehindTransaction();
+    return this.updateRow("payments", id, updateData);
+  }
+
+  async getRefundsByBookingId(bookingId: string): Promise<Refund[]> {
+    return this.getRefundsByBookingIds([bookingId]);
+  }
+
+  async getRefundsByBookingIds(bookingIds: string[]): Promise<Refund[]> {
+    await this.queueBehindTransaction();
+    return this.collection("refunds").all().filter(r => bookingIds.includes(r.bookingId)).sort(byNewest);
+  }
+
+  async getPendingRefunds(): Promise<Refund[]> {
+    await this.queueBehindTransaction();
+    return this.collection("refunds").all().filter(r => r.status === 'pending').sort(byNewest).reverse();
+  }
+
+  async createRefund(insertRefund: InsertRefund): Promise<Refund> {
+    await this.queueBehindTransaction();
+    return this.insertRow("refunds", {
+      id: randomUUID(),
+      paymentId: insertRefund.paymentId,
+      invoiceId: insertRefund.invoiceId,
+      bookingId: insertRefund.bookingId,
+      userId: insertRefund.userId,
+      amount: insertRefund.amount,
+      currency: insertRefund.currency,
+      reason: insertRefund.reason,
+      note: insertRefund.note ?? null,
+      status: 'pending',
+      providerRefundId: null,
+      settledAt: null,
+      createdBy: insertRefund.createdBy,
+      createdAt: new Date(),
+    });
+  }
+
+  async updateRefund(id: string, updateData: Partial<Refund>): Promise<Refund | undefined> {
+    await this.queueBehindTransaction();
+    const existing = this.collection("refunds").get(id);
+    if (!existing) return undefined;
+    if (updateData.providerRefundId && this.collection("refunds").all().some(r => r.id !== id && r.providerRefundId === updateData.providerRefundId)) {
+      throw new Error('duplicate key value violates unique constraint "refunds_provider_refund_id_unique"');
+    }
+    return this.updateRow("refunds", id, updateData);
+  }
+
+  async getAllEarnings(): Promise<Earning[]> {
+    await this.queueBehindTransaction();
+    return this.collection("earnings").all().sort(byNewest);
+  }
+
+  async getEarningsByPlumberId(plumberId: string): Promise<Earning[]> {
+    await this.queueBehindTransaction();
+    return this.collection("earnings").all().filter(e => e.plumberId === plumberId).sort(byNewest);
+  }
+
+  async getEarningsByBookingId(bookingId: string): Promise<Earning[]> {
+    await this.queueBehindTransaction();
+    return this.collection("earnings").all().filter(e => e.bookingId === bookingId).sort(byNewest);
+  }
+
+  async getEarningsByPayoutBatchId(payoutBatchId: string): Promise<Earning[]> {
+    await this.queueBehindTransaction();
+    return this.collection("earnings").all().filter(e => e.payoutBatchId === payoutBatchId).sort(byNewest);
+  }
+
+  async getUnbatchedEarnings(earnedBefore: Date): Promise<Earning[]> {
+    await this.queueBehindTransaction();
+    return this.collection("earnings").all()
+      .filter(e => !e.payoutBatchId && e.earnedAt < earnedBefore)
+      .sort(byNewest);
+  }
+
+  async createEarning(insertEarning: InsertEarning): Promise<Earning> {
+    await this.queueBehindTransaction();
+    if (this.collection("earnings").all().some(e => e.sourceId === insertEarning.sourceId)) {
+      throw new Error('duplicate key value violates unique constraint "earnings_source_id_unique"');
+    }
+    return this.insertRow("earnings", {
+      id: randomUUID(),
+      plumberId: insertEarning.plumberId,
+      bookingId: insertEarning.bookingId,
+      invoiceId: insertEarning.invoiceId,
+      source: insertEarning.source,
+      sourceId: insertEarning.sourceId,
+      gross: insertEarning.gross,
+      commissionRate: insertEarning.commissionRate,
+      commission: insertEarning.commission,
+      net: insertEarning.net,
+      payoutBatchId: null,
+      paidOutAt: null,
+      earnedAt: insertEarning.earnedAt ?? new Date(),
+      createdAt: new Date(),
+    });
+  }
+
+  async updateEarning(id: string, updateData: Partial<Earning>): Promise<Earning | undefined> {
+    await this.queueBehindTransaction();
+    return this.updateRow("earnings", id, updateData);
+  }
+
+  async getPayoutBatches(): Promise<PayoutBatch[]> {
+    await this.queueBehindTransaction();
+    return this.collection("payoutBatches").all()
+      .sort((a, b) => b.periodEnd.getTime() - a.periodEnd.getTime());
+  }
+
+  async getPayoutBatch(id: string): Promise<PayoutBatch | undefined> {
+    await this.queueBehindTransaction();
+    return this.collection("payoutBatches").get(id);
+  }
+
+  async createPayoutBatch(insertBatch: InsertPayoutBatch): Promise<PayoutBatch> {
+    await this.queueBehindTransaction();
+    if (this.collection("payoutBatches").all().some(b => b.periodEnd.getTime() === insertBatch.periodEnd.getTime())) {
+      throw new Error('duplicate key value violates unique constraint "payout_batches_period_end_unique"');
+    }
+    return this.insertRow("payoutBatches", {
+      id: randomUUID(),
+      periodStart: insertBatch.periodStart,
+      periodEnd: insertBatch.periodEnd,
+      status: 'pending',
+      plumberCount: insertBatch.plumberCount,
+      earningsCount: insertBatch.earningsCount,
+      total: insertBatch.total,
+      createdBy: insertBatch.createdBy,
+      paidAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+  }
+
+  async updatePayoutBatch(id: string, updateData: Partial<PayoutBatch>): Promise<PayoutBatch | undefined> {
+    await this.queueBehindTransaction();
+    return this.updateRow("payoutBatches", id, updateData);
+  }
+
+  async getNotification(id: string): Promise<Notification | undefined> {
+    await this.queueBehindTransaction();
+    return this.collection("notifications").get(id);
+  }
+
+  async getNotificationsByUserId(userId: string, limit: number): Promise<Notification[]> {
+    await this.queueBehindTransaction();
+    return this.collection("notifications").all().filter(n => n.userId === userId).sort(byNewest).slice(0, limit);
+  }
+
+  async getUnreadNotificationCount(userId: string): Promise<number> {
+    await this.queueBehindTransaction();
+    return this.collection("notifications").all().filter(n => n.userId === userId && !n.readAt).length;
+  }
+
+  async createNotification(insertNotification: InsertNotification): Promise<Notification> {
+    await this.queueBehindTransaction();
+    return this.insertRow("notifications", {
+      id: randomUUID(),
+      userId: insertNotification.userId,
+      type: insertNotification.type,
+      title: insertNotification.title,
+      body: insertNotification.body,
+      bookingId: insertNotification.bookingId ?? null,
+      readAt: null,
+      createdAt: new Date(),
+    });
+  }
+
+  async updateNotification(id: string, updateData: Partial<Notification>): Promise<Notification | undefined> {
+    await this.queueBehindTransaction();
+    return this.updateRow("notifications", id, updateData);
+  }
+
+  async markAllNotificationsRead(userId: string): Promise<number> {
+    await this.queueBehindTransaction();
+    const unread = this.collection("notifications").all().filter(n => n.userId === userId && !n.readAt);
+    const readAt = new Date();
+    for (const notification of unread) {
+      this.collection("notifications").update({ ...notification, readAt });
+    }
+    return unread.length;
+  }
+
+  async getNotificationPreferences(userId: string): Promise<NotificationPreferences | undefined> {
+    await this.queueBehindTransaction();
+    return this.collection("notificationPreferences").all().find(p => p.userId === userId);
+  }
+
+  async saveNotificationPreferences(insertPreferences: InsertNotificationPreferences): Promise<NotificationPreferences> {
+    await this.queueBehindTransaction();
+    const existing = this.collection("notificationPreferences").all().find(p => p.userId === insertPreferences.userId);
+    if (existing) {
+      return this.updateRow("notificationPreferences", existing.id, {
+        email: insertPreferences.email,
+        sms: insertPreferences.sms,
+      })!;
+    }
+    return this.insertRow("notificationPreferences", {
+      id: randomUUID(),
+      userId: insertPreferences.userId,
+      email: insertPreferences.email ?? true,
+      sms: insertPreferences.sms ?? false,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+  }
+
+  async getOutboundMessage(id: string): Promise<OutboundMessage | undefined> {
+    await this.queueBehindTransaction();
+    return this.collection("outboundMessages").get(id);
+  }
+
+  async getOutboundMessageForUpdate(id: string): Promise<OutboundMessage | undefined> {
+    return this.getOutboundMessage(id);
+  }
+
+  async getOutboundMessages(limit: number, status?: OutboundMessageStatus): Promise<OutboundMessage[]> {
+    await this.queueBehindTransaction();
+    return this.collection("outboundMessages").all()
+      .filter(m => !status || m.status === status)
+      .sort(byNewest)
+      .slice(0, limit);
+  }
+
+  async getDueOutboundMessages(dueBy: Date): Promise<OutboundMessage[]> {
+    await this.queueBehindTransaction();
+    return this.collection("outboundMessages").all()
+      .filter(m => m.status === 'pending' && m.nextAttemptAt && m.nextAttemptAt <= dueBy)
+      .sort((a, b) => a.nextAttemptAt!.getTime() - b.nextAttemptAt!.getTime());
+  }
+
+  async createOutboundMessage(insertMessage: InsertOutboundMessage): Promise<OutboundMessage> {
+    await this.queueBehindTransaction();
+    return this.insertRow("outboundMessages", {
+      id: randomUUID(),
+      userId: insertMessage.userId,
+      notificationId: insertMessage.notificationId ?? null,
+      bookingId: insertMessage.bookingId ?? null,
+      channel: insertMessage.channel,
+      recipient: insertMessage.recipient,
+      template: insertMessage.template,
+      subject: insertMessage.subject ?? null,
+      body: insertMessage.body,
+      status: 'pending',
+      attempts: [],
+      nextAttemptAt: insertMessage.nextAttemptAt ?? null,
+      sentAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+  }
+
+  async updateOutboundMessage(id: string, updateData: Partial<OutboundMessage>): Promise<OutboundMessage | undefined> {
+    await this.queueBehindTransaction();
+    return this.updateRow("outboundMessages", id, updateData);
+  }
+
+  async getCategories(): Promise<Category[]> {
+    await this.queueBehindTransaction();
+    return this.collection("categories").all().filter(c => c.isActive);
+  }
+
+  async createCategory(insertCategory: InsertCategory): Promise<Category> {
+    await this.queueBehindTransaction();
+    if (this.collection("categories").all().some(c => c.name === insertCategory.name)) {
+      throw new Error('duplicate key value violates unique constraint "categories_name_unique"');
+    }
+    return this.insertRow("categories", {
+      id: randomUUID(),
+      name: insertCategory.name,
+      description: insertCategory.description ?? null,
+      icon: insertCategory.icon ?? null,
+      isActive: insertCategory.isActive ?? true,
+    });
+  }
+
+  async healthCheck(): Promise<void> {
+    await this.queueBehindTransaction();
+    this.collection("categories").all();
+  }
+}
@@ -7,8 +7,11 @@ import * as schema from "../shared/schema";
 // This is required for @neondatabase/serverless to work in Node.js environments
 neonConfig.webSocketConstructor = ws;
 
+// The in-memory and SQLite storage drivers never open this pool
+const usesPostgres = !process.env.STORAGE_DRIVER || process.env.STORAGE_DRIVER === "postgres";
+
 if (!process.env.DATABASE_URL) {
-    console.error("CRITICAL: DATABASE_URL is not set!");
+    if (usesPostgres) console.error("CRITICAL: DATABASE_URL is not set!");
 } else {
     console.log("DATABASE_URL is detected. Attempting to connect...");
 }
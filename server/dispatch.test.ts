@@ -0,0 +1,149 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MemStorage } from "./mem-storage";
+import { assignPlumberToBooking, closeAssignment, maxActiveJobsPerPlumber, redispatchBooking, scorePlumber } from "./dispatch";
+import type { Plumber } from "../shared/schema";
+
+async function addPlumber(store: MemStorage, email: string, licenseNumber: string) {
+  const { plumber } = await store.createPlumberWithUser(
+    { name: "Pat Plumber", email, password: "x", phone: "555-0101", role: "plumber" },
+    { licenseNumber, specializations: ["Leak Repair"], isAvailable: true, isVerified: true },
+  );
+  return plumber;
+}
+
+// A booking its only plumber rejected, which dispatch put back in the queue
+async function escalatedBooking(store: MemStorage) {
+  const customer = await store.createUser({ name: "Casey Customer", email: "casey@example.com", password: "x", phone: "555-0100", role: "user" });
+  const first = await addPlumber(store, "pat@example.com", "PL-1");
+  const created = await store.createBooking({ userId: customer.id, category: "Leak Repair", description: "Dripping tap", address: "1 Main St", phone: "555-0100" });
+  const { booking } = await store.withTransaction(tx => assignPlumberToBooking(tx, created));
+  assert.equal(booking.assignedPlumber, first.id);
+
+  const escalated = await store.updateBooking(booking.id, {
+    status: "pending",
+    assignedPlumber: null,
+    assignmentHistory: closeAssignment(booking.assignmentHistory, first.id, "rejected"),
+  });
+  return { booking: escalated!, first };
+}
+
+test("re-dispatching a pending booking never offers it to a plumber who rejected it", async () => {
+  const store = new MemStorage();
+  const { booking } = await escalatedBooking(store);
+
+  const result = await redispatchBooking(booking.id, store);
+  assert.equal(result?.assignedPlumber, null);
+  assert.equal((await store.getBooking(booking.id))?.status, "pending");
+});
+
+test("re-dispatching assigns a pending booking once another plumber is free", async () => {
+  const store = new MemStorage();
+  const { booking } = await escalatedBooking(store);
+  const second = await addPlumber(store, "sam@example.com", "PL-2");
+
+  const result = await redispatchBooking(booking.id, store);
+  assert.equal(result?.assignedPlumber?.id, second.id);
+  const saved = await store.getBooking(booking.id);
+  assert.equal(saved?.status, "assigned");
+  assert.equal(saved?.assignedPlumber, second.id);
+  assert.deepEqual(saved?.assignmentHistory.map(entry => entry.status), ["rejected", "assigned"]);
+});
+
+test("only pending bookings can be re-dispatched", async () => {
+  const store = new MemStorage();
+  const { booking } = await escalatedBooking(store);
+  await addPlumber(store, "sam@example.com", "PL-2");
+  await redispatchBooking(booking.id, store);
+
+  assert.equal(await redispatchBooking(booking.id, store), null);
+});
+
+// Creates a booking and assigns it in one transaction, as POST /api/bookings does
+function bookAndAssign(store: MemStorage, userId: string) {
+  return store.withTransaction(async (tx) => {
+    const created = await tx.createBooking({ userId, category: "Leak Repair", description: "Dripping tap", address: "1 Main St", phone: "555-0100" });
+    return assignPlumberToBooking(tx, created);
+  });
+}
+
+test("a booking whose assignment fails is not left behind", async () => {
+  const store = new MemStorage();
+  const customer = await store.createUser({ name: "Casey Customer", email: "casey@example.com", password: "x", phone: "555-0100", role: "user" });
+  store.lockAvailablePlumbers = async () => { throw new Error("lock timeout"); };
+
+  await assert.rejects(bookAndAssign(store, customer.id), /lock timeout/);
+  assert.deepEqual(await store.getBookingsByUserId(customer.id), []);
+});
+
+test("simultaneous bookings never take a plumber past capacity", async () => {
+  const store = new MemStorage();
+  const customer = await store.createUser({ name: "Casey Customer", email: "casey@example.com", password: "x", phone: "555-0100", role: "user" });
+  const plumber = await addPlumber(store, "pat@example.com", "PL-1");
+
+  const results = await Promise.all(Array.from({ length: maxActiveJobsPerPlumber + 2 }, () => bookAndAssign(store, customer.id)));
+  assert.equal(results.filter(result => result.assignedPlumber).length, maxActiveJobsPerPlumber);
+  assert.equal(await store.countActiveBookingsByPlumberId(plumber.id), maxActiveJobsPerPlumber);
+});
+
+// Central London, and a plumber based there covering 10 km
+const job = { category: "Leak Repair", latitude: 51.5074, longitude: -0.1278 };
+
+function plumberAt(lat: number, lng: number, overrides: Partial<Plumber> = {}): Plumber {
+  return {
+    id: "plumber", userId: "user", specializations: ["Leak Repair"], isAvailable: true, isVerified: true,
+    experienceYears: 5, rating: 0, reviewCount: 0, totalJobs: 0, licenseNumber: null,
+    serviceArea: { type: "radius", center: { lat, lng }, radiusKm: 10 }, workingHours: null,
+    createdAt: null, updatedAt: null,
+    ...overrides,
+  };
+}
+
+test("plumbers outside their service area, at capacity or in another trade can't be picked", () => {
+  assert.equal(scorePlumber(plumberAt(53.4808, -2.2426), job, 0), null);
+  assert.equal(scorePlumber(plumberAt(51.5074, -0.1278), job, maxActiveJobsPerPlumber), null);
+  assert.equal(scorePlumber(plumberAt(51.5074, -0.1278, { specializations: ["Installation"] }), job, 0), null);
+});
+
+test("a nearer, better rated or less busy plumber scores higher", () => {
+  const score = (plumber: Plumber, activeJobs = 0) => scorePlumber(plumber, job, activeJobs)!.total;
+  const nearby = plumberAt(51.5074, -0.1278);
+
+  assert.ok(score(nearby) > score(plumberAt(51.55, -0.1278)));
+  // Ratings are stored in tenths of a star
+  assert.ok(score(plumberAt(51.5074, -0.1278, { rating: 50, reviewCount: 20 })) > score(plumberAt(51.5074, -0.1278, { rating: 20, reviewCount: 20 })));
+  assert.ok(score(nearby, 0) > score(nearby, 1));
+});
+
+test("the winning score breakdown is kept in the assignment history", async () => {
+  const store = new MemStorage();
+  const customer = await store.createUser({ name: "Casey Customer", email: "casey@example.com", password: "x", phone: "555-0100", role: "user" });
+  const plumber = await addPlumber(store, "pat@example.com", "PL-1");
+  await store.updatePlumber(plumber.id, { serviceArea: { type: "radius", center: { lat: job.latitude, lng: job.longitude }, radiusKm: 10 } });
+
+  const { booking } = await store.withTransaction(async (tx) => {
+    const created = await tx.createBooking({ userId: customer.id, description: "Dripping tap", address: "1 Main St", phone: "555-0100", ...job });
+    return assignPlumberToBooking(tx, created);
+  });
+  const [entry] = booking.assignmentHistory;
+  assert.equal(entry.plumberId, plumber.id);
+  assert.equal(entry.score?.distanceKm, 0);
+  assert.equal(entry.score?.specialization, 1);
+});
+
+test("dispatch skips a plumber who is off at the booking's time", async () => {
+  const store = new MemStorage();
+  const customer = await store.createUser({ name: "Casey Customer", email: "casey@example.com", password: "x", phone: "555-0100", role: "user" });
+  const away = await addPlumber(store, "pat@example.com", "PL-1");
+  const free = await addPlumber(store, "sam@example.com", "PL-2");
+  await store.createPlumberTimeOff({ plumberId: away.id, date: "2025-06-02" });
+
+  const { assignedPlumber } = await store.withTransaction(async (tx) => {
+    const created = await tx.createBooking({
+      userId: customer.id, category: "Leak Repair", description: "Dripping tap", address: "1 Main St", phone: "555-0100",
+      preferredDate: new Date("2025-06-02T09:00:00Z"), preferredEndDate: new Date("2025-06-02T11:00:00Z"), timeZone: "Europe/London",
+    });
+    return assignPlumberToBooking(tx, created);
+  });
+  assert.equal(assignedPlumber?.id, free.id);
+});
@@ -0,0 +1,277 @@
+import { storage, type IStorage } from "./storage";
+import { bookingEvents } from "./events";
+import { activeBookingStatuses, type Booking, type Plumber, type PlumberTimeOff, type DispatchScore } from "../shared/schema";
+import { isPlumberFreeAt } from "../shared/availability";
+import { appointmentDurationMinutes, getBookingWindow, windowsOverlap, type AppointmentWindow } from "../shared/scheduling";
+import { distanceKm, getServiceAreaCenter, isWithinServiceArea, type GeoPoint } from "../shared/geo";
+
+export const maxActiveJobsPerPlumber = parseInt(process.env.PLUMBER_MAX_ACTIVE_JOBS || '3', 10);
+
+// When false, available plumbers outside the category can still be picked, just with a lower score
+const requireSpecialization = process.env.DISPATCH_REQUIRE_SPECIALIZATION !== 'false';
+
+// Distances beyond this score zero on the distance component
+const maxDispatchDistanceKm = Number(process.env.DISPATCH_MAX_DISTANCE_KM || 50);
+
+const dispatchWeights = {
+  distance: 0.4,
+  rating: 0.3,
+  workload: 0.2,
+  specialization: 0.1,
+};
+
+// Plumbers with no reviews are scored as if they had a few reviews at this many stars
+const ratingPrior = { stars: 4, reviews: 3 };
+
+// Score given when either side has no known location, so unplaced bookings still get dispatched
+const unknownDistanceScore = 0.5;
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * Scores one plumber for a booking. Returns null when the plumber can't take
+ * the job at all: outside their service area, at capacity, or not specialised.
+ */
+export function scorePlumber(
+  plumber: Plumber,
+  booking: Pick<Booking, 'category' | 'latitude' | 'longitude'>,
+  activeJobs: number,
+): DispatchScore | null {
+  const isSpecialist = plumber.specializations.includes(booking.category);
+  if (requireSpecialization && !isSpecialist) return null;
+  if (activeJobs >= maxActiveJobsPerPlumber) return null;
+
+  const location: GeoPoint | null = booking.latitude != null && booking.longitude != null
+    ? { lat: booking.latitude, lng: booking.longitude }
+    : null;
+
+  let kilometres: number | null = null;
+  if (location && plumber.serviceArea) {
+    if (!isWithinServiceArea(location, plumber.serviceArea)) return null;
+    kilometres = distanceKm(location, getServiceAreaCenter(plumber.serviceArea));
+  }
+
+  const distance = kilometres === null ? unknownDistanceScore : Math.max(0, 1 - kilometres / maxDispatchDistanceKm);
+  // Ratings are stored as tenths of a star; a prior keeps one early review from deciding everything
+  const stars = ((plumber.rating || 0) / 10 * plumber.reviewCount + ratingPrior.stars * ratingPrior.reviews) /
+    (plumber.reviewCount + ratingPrior.reviews);
+  const rating = Math.min(1, stars / 5);
+  const workload = 1 - activeJobs / maxActiveJobsPerPlumber;
+  const specialization = isSpecialist ? 1 : 0;
+
+  return {
+    total: round(
+      distance * dispatchWeights.distance +
+      rating * dispatchWeights.rating +
+      workload * dispatchWeights.workload +
+      specialization * dispatchWeights.specialization
+    ),
+    distanceKm: kilometres === null ? null : round(kilometres),
+    distance: round(distance),
+    rating: round(rating),
+    workload: round(workload),
+    specialization,
+  };
+}
+
+// A plumber's schedule and booked jobs, loaded once so many start times can be checked against it
+interface PlumberCalendar {
+  plumber: Plumber;
+  timeOff: PlumberTimeOff[];
+  jobs: Booking[];
+}
+
+async function loadCalendar(store: IStorage, plumber: Plumber): Promise<PlumberCalendar> {
+  return {
+    plumber,
+    timeOff: await store.getPlumberTimeOff(plumber.id),
+    jobs: await store.getBookingsByPlumberId(plumber.id),
+  };
+}
+
+/**
+ * Whether an appointment falls inside the plumber's working hours, outside
+ * their time off, and doesn't clash with another of their active jobs.
+ */
+function isCalendarFree({ plumber, timeOff, jobs }: PlumberCalendar, window: Pick<AppointmentWindow, 'start' | 'end'>, bookingId?: string) {
+  const durationMinutes = (window.end.getTime() - window.start.getTime()) / (60 * 1000);
+  if (!isPlumberFreeAt(plumber.workingHours, timeOff, window.start, durationMinutes)) return false;
+
+  return !jobs.some(job => {
+    if (job.id === bookingId || !activeBookingStatuses.includes(job.status)) return false;
+    const jobWindow = getBookingWindow(job);
+    return !!jobWindow && windowsOverlap(jobWindow, window);
+  });
+}
+
+// Bookings without a preferred date are "as soon as possible" and fit any calendar
+export async function isFreeForBooking(tx: IStorage, plumber: Plumber, booking: Pick<Booking, 'id' | 'preferredDate' | 'preferredEndDate'>) {
+  const window = getBookingWindow(booking);
+  if (!window) return true;
+  return isCalendarFree(await loadCalendar(tx, plumber), window, booking.id);
+}
+
+/**
+ * For each start time, how many plumbers dispatch could send to a booking in
+ * this category. The address isn't known yet, so service areas aren't applied.
+ */
+export async function countFreePlumbers(store: IStorage, category: string, starts: Date[]): Promise<number[]> {
+  const calendars: PlumberCalendar[] = [];
+  for (const plumber of await store.getAvailablePlumbers(requireSpecialization ? category : undefined)) {
+    const activeJobs = await store.countActiveBookingsByPlumberId(plumber.id);
+    if (scorePlumber(plumber, { category, latitude: null, longitude: null }, activeJobs)) {
+      calendars.push(await loadCalendar(store, plumber));
+    }
+  }
+  const appointmentMs = appointmentDurationMinutes * 60 * 1000;
+  return starts.map(start => {
+    const window = { start, end: new Date(start.getTime() + appointmentMs) };
+    return calendars.filter(calendar => isCalendarFree(calendar, window)).length;
+  });
+}
+
+/**
+ * Picks the best plumber for a booking. Must run inside storage.withTransaction:
+ * candidates are locked first, so their workload can't change before we commit.
+ */
+export async function selectPlumber(tx: IStorage, booking: Booking, excludedPlumberIds: string[] = []) {
+  const candidates = (await tx.lockAvailablePlumbers(requireSpecialization ? booking.category : undefined))
+    .filter(p => !excludedPlumberIds.includes(p.id));
+
+  let best: { plumber: Plumber; score: DispatchScore } | null = null;
+  for (const plumber of candidates) {
+    const activeJobs = await tx.countActiveBookingsByPlumberId(plumber.id);
+    const score = scorePlumber(plumber, booking, activeJobs);
+    // The schedule lookups are the expensive part, so only run them for a plumber who would win
+    if (!score || (best && score.total <= best.score.total)) continue;
+    if (await isFreeForBooking(tx, plumber, booking)) {
+      best = { plumber, score };
+    }
+  }
+  return best;
+}
+
+export type ReleaseReason = 'rejected' | 'expired';
+
+// Plumbers who already turned the job down or let it lapse are never offered it again
+const releaseReasons: string[] = ['rejected', 'expired'];
+
+function getReleasedPlumberIds(history: Booking['assignmentHistory']) {
+  return history.filter(entry => releaseReasons.includes(entry.status)).map(entry => entry.plumberId);
+}
+
+// Plumber assignment algorithm; see selectPlumber above for how candidates are scored
+export async function assignPlumberToBooking(tx: IStorage, booking: Booking) {
+  const selection = await selectPlumber(tx, booking, getReleasedPlumberIds(booking.assignmentHistory));
+
+  if (!selection) {
+    console.log(`No available plumbers for category: ${booking.category}`);
+    return { booking, assignedPlumber: null };
+  }
+
+  const { plumber: assignedPlumber, score } = selection;
+
+  const updatedBooking = await tx.updateBooking(booking.id, {
+    assignedPlumber: assignedPlumber.id,
+    status: 'assigned',
+    assignmentHistory: [...booking.assignmentHistory, {
+      plumberId: assignedPlumber.id,
+      assignedAt: new Date(),
+      status: 'assigned',
+      score,
+    }],
+  });
+
+  console.log(`Plumber ${assignedPlumber.id} assigned to booking ${booking.id}`);
+  return { booking: updatedBooking ?? booking, assignedPlumber };
+}
+
+// Records the plumber's response on their open assignmentHistory entry
+export function closeAssignment(history: Booking['assignmentHistory'], plumberId: string, status: string): Booking['assignmentHistory'] {
+  return history.map(entry =>
+    entry.plumberId === plumberId && !entry.respondedAt
+      ? { ...entry, status, respondedAt: new Date() }
+      : entry
+  );
+}
+
+
+/**
+ * Takes the job off a plumber who rejected it or let it expire, and offers it
+ * to the next best candidate. Returns null when the booking was no longer
+ * waiting on that plumber, e.g. because they accepted in the meantime.
+ * With assignedBefore, the open offer must also be at least that old.
+ */
+export async function reassignPlumber(
+  bookingId: string,
+  releasedPlumberId: string,
+  reason: ReleaseReason = 'rejected',
+  assignedBefore?: Date,
+): Promise<{ booking: Booking; plumber: Plumber | null } | null> {
+  const result = await storage.withTransaction(async (tx) => {
+    const booking = await tx.getBookingForUpdate(bookingId);
+    if (!booking || booking.status !== 'assigned' || booking.assignedPlumber !== releasedPlumberId) return null;
+
+    if (assignedBefore) {
+      const openEntry = booking.assignmentHistory.find(entry => entry.plumberId === releasedPlumberId && !entry.respondedAt);
+      if (!openEntry || new Date(openEntry.assignedAt) > assignedBefore) return null;
+    }
+
+    const history = closeAssignment(booking.assignmentHistory, releasedPlumberId, reason);
+    const selection = await selectPlumber(tx, booking, [...getReleasedPlumberIds(history), releasedPlumberId]);
+
+    if (!selection) {
+      const updated = await tx.updateBooking(bookingId, {
+        status: 'pending',
+        assignedPlumber: null,
+        assignmentHistory: history,
+      });
+      return { booking: updated ?? booking, plumber: null };
+    }
+
+    const { plumber: nextPlumber, score } = selection;
+    const updated = await tx.updateBooking(bookingId, {
+      assignedPlumber: nextPlumber.id,
+      status: 'assigned',
+      assignmentHistory: [...history, {
+        plumberId: nextPlumber.id,
+        assignedAt: new Date(),
+        status: 'assigned',
+        score,
+      }],
+    });
+
+    console.log(`Booking ${bookingId} reassigned to plumber ${nextPlumber.id}`);
+    return { booking: updated ?? booking, plumber: nextPlumber };
+  });
+
+  // Only announced once the transaction has committed
+  if (result?.plumber) {
+    await bookingEvents.emit("booking.assigned", {
+      booking: result.booking,
+      plumberId: result.plumber.id,
+      previous: { plumberId: releasedPlumberId, reason },
+    });
+  } else if (result) {
+    await bookingEvents.emit("booking.escalated", { booking: result.booking, reason, previousPlumberId: releasedPlumberId });
+  }
+  return result;
+}
+
+/**
+ * Runs dispatch again for a pending booking, for staff to pick up one that was
+ * escalated or unassigned once a plumber is free. Returns null when the booking
+ * is no longer pending; assignedPlumber is null when still nobody can take it.
+ */
+export async function redispatchBooking(bookingId: string, store: IStorage = storage) {
+  const result = await store.withTransaction(async (tx) => {
+    const booking = await tx.getBookingForUpdate(bookingId);
+    if (!booking || booking.status !== 'pending') return null;
+    return assignPlumberToBooking(tx, booking);
+  });
+
+  if (result?.assignedPlumber) {
+    await bookingEvents.emit("booking.assigned", { booking: result.booking, plumberId: result.assignedPlumber.id });
+  }
+  return result;
+}
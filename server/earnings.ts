@@ -0,0 +1,151 @@
+import type { IStorage } from "./storage";
+import { calculateCommission, defaultCommissionPercent, getPayoutWeekStart } from "../shared/earnings";
+import type { Booking, Earning, Invoice, Payment, PayoutBatch, Refund } from "../shared/schema";
+
+const commissionPercent = Number(process.env.PLATFORM_COMMISSION_PERCENT ?? defaultCommissionPercent);
+
+export class PayoutConflictError extends Error {}
+
+/**
+ * Credits the plumber for a settled payment, keeping back the platform
+ * commission. Call inside the transaction that marks the payment succeeded.
+ */
+export async function recordPaymentEarning(tx: IStorage, payment: Payment, invoice: Invoice): Promise<Earning> {
+  return await tx.createEarning({
+    plumberId: invoice.plumberId,
+    bookingId: invoice.bookingId,
+    invoiceId: invoice.id,
+    source: 'payment',
+    sourceId: payment.id,
+    gross: payment.amountCaptured,
+    commissionRate: commissionPercent,
+    ...calculateCommission(payment.amountCaptured, commissionPercent),
+  });
+}
+
+/**
+ * Debits the plumber for a refund at the rate the refunded payment was
+ * credited at, so the platform gives back its share of the commission too.
+ */
+export async function recordRefundEarning(tx: IStorage, refund: Refund, invoice: Invoice): Promise<Earning> {
+  const credited = (await tx.getEarningsByBookingId(refund.bookingId)).find(e => e.sourceId === refund.paymentId);
+  const rate = credited?.commissionRate ?? commissionPercent;
+  return await tx.createEarning({
+    plumberId: invoice.plumberId,
+    bookingId: invoice.bookingId,
+    invoiceId: invoice.id,
+    source: 'refund',
+    sourceId: refund.id,
+    gross: -refund.amount,
+    commissionRate: rate,
+    ...calculateCommission(-refund.amount, rate),
+  });
+}
+
+/**
+ * Batches everything earned before the start of the current payout week.
+ * Earnings left over from earlier weeks are swept in too. A plumber whose
+ * refunds outweigh their payments is left out, so the debt carries forward
+ * against their next week instead of becoming a negative payout.
+ */
+export async function generatePayoutBatch(store: IStorage, createdBy: string, now = new Date()): Promise<PayoutBatch> {
+  const periodEnd = getPayoutWeekStart(now);
+  const periodStart = new Date(periodEnd.getTime() - 7 * 24 * 60 * 60 * 1000);
+
+  return await store.withTransaction(async (tx) => {
+    if ((await tx.getPayoutBatches()).some(b => b.periodEnd.getTime() === periodEnd.getTime())) {
+      throw new PayoutConflictError("A payout batch already exists for this week");
+    }
+
+    const byPlumber = new Map<string, Earning[]>();
+    for (const earning of await tx.getUnbatchedEarnings(periodEnd)) {
+      byPlumber.set(earning.plumberId, [...(byPlumber.get(earning.plumberId) ?? []), earning]);
+    }
+    const payable = Array.from(byPlumber.values())
+      .filter(plumberEarnings => plumberEarnings.reduce((sum, e) => sum + e.net, 0) > 0);
+    if (payable.length === 0) throw new PayoutConflictError("No earnings are waiting to be paid out");
+
+    const included = payable.flat();
+    const batch = await tx.createPayoutBatch({
+      periodStart,
+      periodEnd,
+      plumberCount: payable.length,
+      earningsCount: included.length,
+      total: included.reduce((sum, e) => sum + e.net, 0),
+      createdBy,
+    });
+    for (const earning of included) {
+      await tx.updateEarning(earning.id, { payoutBatchId: batch.id });
+    }
+    return batch;
+  });
+}
+
+/** Records that the batch's transfers went out, and stamps each earning in it as paid. */
+export async function markPayoutBatchPaid(store: IStorage, batchId: string): Promise<PayoutBatch | undefined> {
+  return await store.withTransaction(async (tx) => {
+    const batch = await tx.getPayoutBatch(batchId);
+    if (!batch) return undefined;
+    if (batch.status === 'paid') throw new PayoutConflictError("This payout batch is already paid");
+
+    const paidAt = new Date();
+    for (const earning of await tx.getEarningsByPayoutBatchId(batch.id)) {
+      await tx.updateEarning(earning.id, { paidOutAt: paidAt });
+    }
+    return await tx.updatePayoutBatch(batch.id, { status: 'paid', paidAt });
+  });
+}
+
+export interface PlumberPayout {
+  plumberId: string;
+  plumberName: string;
+  earningsCount: number;
+  gross: number;
+  commission: number;
+  net: number;
+}
+
+/** Each plumber's share of a batch, largest first. */
+export async function getBatchPayouts(store: IStorage, batch: PayoutBatch): Promise<PlumberPayout[]> {
+  const payouts = new Map<string, PlumberPayout>();
+  for (const earning of await store.getEarningsByPayoutBatchId(batch.id)) {
+    const payout = payouts.get(earning.plumberId)
+      ?? { plumberId: earning.plumberId, plumberName: "", earningsCount: 0, gross: 0, commission: 0, net: 0 };
+    payout.earningsCount += 1;
+    payout.gross += earning.gross;
+    payout.commission += earning.commission;
+    payout.net += earning.net;
+    payouts.set(earning.plumberId, payout);
+  }
+
+  for (const payout of Array.from(payouts.values())) {
+    const plumber = await store.getPlumber(payout.plumberId);
+    const user = plumber && await store.getUser(plumber.userId);
+    payout.plumberName = user?.name ?? "Unknown plumber";
+  }
+  return Array.from(payouts.values()).sort((a, b) => b.net - a.net);
+}
+
+function csvCell(value: string | number) {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const toDecimal = (cents: number) => (cents / 100).toFixed(2);
+
+/** The earnings ledger as CSV, amounts in dollars so spreadsheets can sum them. */
+export function renderEarningsCsv(earnings: Earning[], bookings: Map<string, Booking>): string {
+  const header = ["Date", "Booking", "Service", "Type", "Gross", "Commission rate (%)", "Commission", "Net", "Payout"];
+  const rows = earnings.map(earning => [
+    earning.earnedAt.toISOString(),
+    earning.bookingId.slice(-8),
+    bookings.get(earning.bookingId)?.category ?? "",
+    earning.source === 'payment' ? "Payment" : "Refund",
+    toDecimal(earning.gross),
+    earning.commissionRate,
+    toDecimal(earning.commission),
+    toDecimal(earning.net),
+    earning.paidOutAt ? `Paid ${earning.paidOutAt.toISOString().slice(0, 10)}` : earning.payoutBatchId ? "Scheduled" : "Pending",
+  ]);
+  return [header, ...rows].map(row => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
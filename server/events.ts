@@ -0,0 +1,57 @@
+import { EventEmitter } from "events";
+import type { Booking, Notification } from "../shared/schema";
+import type { ReleaseReason } from "./dispatch";
+
+// Emitted only after the change has committed, so listeners always see saved state
+export interface BookingEvents {
+  "booking.created": { booking: Booking };
+  // previous is set when the job moved on from a plumber who rejected it or let it expire
+  "booking.assigned": { booking: Booking; plumberId: string; previous?: { plumberId: string; reason: ReleaseReason } };
+  "booking.accepted": { booking: Booking };
+  "booking.started": { booking: Booking };
+  "booking.completed": { booking: Booking };
+  // The booking no longer has an assignedPlumber by then, so the one released is passed along
+  "booking.cancelled": { booking: Booking; cancelledBy: string; releasedPlumberId: string | null };
+  // Dispatch ran out of candidates and put the booking back in the queue; an admin has to step in
+  "booking.escalated": { booking: Booking; reason: ReleaseReason; previousPlumberId: string };
+  // Anything else a dashboard shows changed: a quote was sent or answered, money moved
+  "booking.updated": { booking: Booking; change: 'quote' | 'payment' | 'refund' };
+}
+
+export interface NotificationEvents {
+  "notification.created": { notification: Notification };
+}
+
+export interface SessionEvents {
+  // Some of the user's sessions were signed out, so connections they opened have to close
+  "sessions.revoked": { userId: string };
+}
+
+class TypedEmitter<Events> {
+  private emitter = new EventEmitter();
+
+  on<K extends keyof Events & string>(event: K, listener: (payload: Events[K]) => void | Promise<void>) {
+    this.emitter.on(event, listener);
+    return () => { this.emitter.off(event, listener); };
+  }
+
+  /**
+   * Runs every listener and waits for the async ones, so a serverless function
+   * isn't frozen before their writes land. A failing listener is logged rather
+   * than failing the request that caused the event.
+   */
+  async emit<K extends keyof Events & string>(event: K, payload: Events[K]) {
+    const results = await Promise.allSettled(this.emitter.listeners(event).map(async (listener) => listener(payload)));
+    for (const result of results) {
+      if (result.status === 'rejected') console.error(`Listener for ${event} failed:`, result.reason);
+    }
+  }
+}
+
+export const bookingEvents = new TypedEmitter<BookingEvents>();
+export const notificationEvents = new TypedEmitter<NotificationEvents>();
+export const sessionEvents = new TypedEmitter<SessionEvents>();
+
+bookingEvents.on("booking.escalated", ({ booking, reason }) => {
+  console.warn(`Booking ${booking.id} needs an admin: no plumbers left after assignment ${reason}`);
+});
@@ -0,0 +1,20 @@
+import type { GeoPoint } from "../../shared/geo";
+
+// Offline geocoding table. Matched against lower-cased addresses, longest match first,
+// so a street entry wins over the city it sits in.
+export const geocodingFixtures: Array<{ match: string } & GeoPoint> = [
+  { match: "221b baker street", lat: 51.5238, lng: -0.1586 },
+  { match: "london", lat: 51.5072, lng: -0.1276 },
+  { match: "manchester", lat: 53.4808, lng: -2.2426 },
+  { match: "birmingham", lat: 52.4862, lng: -1.8904 },
+  { match: "leeds", lat: 53.8008, lng: -1.5491 },
+  { match: "new york", lat: 40.7128, lng: -74.006 },
+  { match: "brooklyn", lat: 40.6782, lng: -73.9442 },
+  { match: "jersey city", lat: 40.7178, lng: -74.0431 },
+  { match: "chicago", lat: 41.8781, lng: -87.6298 },
+  { match: "los angeles", lat: 34.0522, lng: -118.2437 },
+  { match: "san francisco", lat: 37.7749, lng: -122.4194 },
+  { match: "oakland", lat: 37.8044, lng: -122.2712 },
+  { match: "austin", lat: 30.2672, lng: -97.7431 },
+  { match: "seattle", lat: 47.6062, lng: -122.3321 },
+];
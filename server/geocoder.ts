@@ -0,0 +1,24 @@
+import type { GeoPoint } from "../shared/geo";
+import { geocodingFixtures } from "./fixtures/geocoding";
+
+export interface IGeocoder {
+  // Resolves undefined when the address can't be placed
+  geocode(address: string): Promise<GeoPoint | undefined>;
+}
+
+// Looks addresses up in a local table instead of calling an external service
+export class FixtureGeocoder implements IGeocoder {
+  private readonly fixtures: Array<{ match: string } & GeoPoint>;
+
+  constructor(fixtures = geocodingFixtures) {
+    this.fixtures = [...fixtures].sort((a, b) => b.match.length - a.match.length);
+  }
+
+  async geocode(address: string): Promise<GeoPoint | undefined> {
+    const normalized = address.toLowerCase().replace(/\s+/g, " ");
+    const fixture = this.fixtures.find(f => normalized.includes(f.match));
+    return fixture && { lat: fixture.lat, lng: fixture.lng };
+  }
+}
+
+export const geocoder: IGeocoder = new FixtureGeocoder();
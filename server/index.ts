@@ -1,5 +1,10 @@
 import "dotenv/config";
 import { createApp } from "./app";
+import { storage, storageDriver } from "./storage";
+import { startAssignmentTimeoutScheduler } from "./assignment-timeouts";
+import { attachRealtimeServer } from "./realtime";
+import { startMessageRetryScheduler } from "./messaging";
+import { startRefundRetryScheduler } from "./payments";
 import { setupVite, serveStatic } from "./vite";
 import { log } from "./utils";
 import { createServer } from "http";
@@ -7,6 +12,7 @@ import { createServer } from "http";
 (async () => {
   const app = await createApp();
   const server = createServer(app);
+  attachRealtimeServer(server);
 
   if (app.get("env") === "development") {
     await setupVite(app, server);
@@ -21,6 +27,9 @@ import { createServer } from "http";
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
-    console.log(`Server instance started on port ${port}, connected to PostgreSQL.`);
+    console.log(`Server instance started on port ${port}, using ${storageDriver} storage.`);
+    startAssignmentTimeoutScheduler();
+    startMessageRetryScheduler();
+    startRefundRetryScheduler(storage);
   });
 })();
@@ -0,0 +1,157 @@
+import type { IStorage } from "./storage";
+import type { Booking, Invoice, InvoiceParty } from "../shared/schema";
+import { calculateInvoiceTotals, formatInvoiceNumber, formatMoney, getLineItemAmount, quoteLineItemTypes, type InvoiceLineItem, type QuoteLineItem } from "../shared/pricing";
+
+const businessName = process.env.INVOICE_BUSINESS_NAME || "PlumbSwift Connect";
+
+/**
+ * Issues the invoice for a booking that has just been completed: the accepted
+ * quote plus any extras added on site. Extras are taxed at extrasTaxRate, or
+ * the quote's rate when it isn't given. Returns the existing invoice if the
+ * booking already has one, and null when there is nothing to bill.
+ *
+ * Call inside storage.withTransaction, after locking the booking.
+ */
+export async function issueInvoice(tx: IStorage, booking: Booking, extras: QuoteLineItem[] = [], extrasTaxRate?: number): Promise<Invoice | null> {
+  const existing = await tx.getInvoiceByBookingId(booking.id);
+  if (existing) return existing;
+  if (!booking.assignedPlumber) return null;
+
+  const quote = (await tx.getQuotesByBookingId(booking.id)).find(q => q.status === 'accepted');
+  const lineItems: InvoiceLineItem[] = [
+    ...(quote?.lineItems ?? []).map(item => ({ ...item, source: 'quote' as const, taxRate: quote!.taxRate })),
+    ...extras.map(item => ({ ...item, source: 'extra' as const, taxRate: extrasTaxRate ?? quote?.taxRate ?? 0 })),
+  ];
+  if (lineItems.length === 0) return null;
+
+  return await createInvoice(tx, booking, booking.assignedPlumber, quote?.id ?? null, lineItems);
+}
+
+/**
+ * Bills a late cancellation for its fee: feePercent of the accepted quote's
+ * total. Nothing is invoiced when cancelling was free or no price had been
+ * agreed yet. Returns null when there is no fee to bill.
+ *
+ * Call inside the transaction that cancels the booking, with the booking as
+ * it was before cancelling released its plumber.
+ */
+export async function billCancellation(tx: IStorage, booking: Booking, feePercent: number): Promise<Invoice | null> {
+  if (!booking.assignedPlumber || feePercent <= 0) return null;
+  const quote = (await tx.getQuotesByBookingId(booking.id)).find(q => q.status === 'accepted');
+  const fee = quote ? Math.round(quote.total * feePercent / 100) : 0;
+  if (!quote || fee <= 0) return null;
+
+  return await createInvoice(tx, booking, booking.assignedPlumber, quote.id, [
+    { type: 'call-out', description: `Late cancellation fee (${feePercent}% of ${formatMoney(quote.total)})`, quantity: 1, unitPrice: fee, source: 'cancellation', taxRate: 0 },
+  ]);
+}
+
+async function createInvoice(tx: IStorage, booking: Booking, plumberId: string, quoteId: string | null, lineItems: InvoiceLineItem[]) {
+  const customer = await tx.getUser(booking.userId);
+  const plumber = await tx.getPlumber(plumberId);
+  const plumberUser = plumber && await tx.getUser(plumber.userId);
+  if (!customer || !plumber || !plumberUser) {
+    throw new Error(`Cannot invoice booking ${booking.id}: customer or plumber is missing`);
+  }
+
+  return await tx.createInvoice({
+    bookingId: booking.id,
+    quoteId,
+    userId: customer.id,
+    plumberId: plumber.id,
+    customer: { name: customer.name, email: customer.email, phone: customer.phone, address: customer.address ?? booking.address },
+    plumber: { name: plumberUser.name, email: plumberUser.email, phone: plumberUser.phone, address: null, licenseNumber: plumber.licenseNumber },
+    lineItems,
+    ...calculateInvoiceTotals(lineItems),
+  });
+}
+
+function escapeHtml(value: string) {
+  return value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+function renderParty(title: string, party: InvoiceParty) {
+  return `
+    <div>
+      <h3>${title}</h3>
+      <div>${escapeHtml(party.name)}</div>
+      ${party.address ? `<div>${escapeHtml(party.address)}</div>` : ""}
+      <div>${escapeHtml(party.email)}</div>
+      <div>${escapeHtml(party.phone)}</div>
+      ${party.licenseNumber ? `<div>License ${escapeHtml(party.licenseNumber)}</div>` : ""}
+    </div>`;
+}
+
+/** A standalone page the customer can print or save as PDF from the browser. */
+export function renderInvoiceHtml(invoice: Invoice, booking: Booking): string {
+  const number = formatInvoiceNumber(invoice.number);
+  const rows = invoice.lineItems.map(item => `
+        <tr>
+          <td>${escapeHtml(item.description)}<div class="muted">${item.source === 'cancellation' ? "Cancellation" : quoteLineItemTypes[item.type]}${item.source === 'extra' ? " (added on site)" : ""}</div></td>
+          <td class="num">${item.quantity}</td>
+          <td class="num">${formatMoney(item.unitPrice)}</td>
+          <td class="num">${item.taxRate}%</td>
+          <td class="num">${formatMoney(getLineItemAmount(item))}</td>
+        </tr>`).join("");
+  const taxRows = invoice.taxLines.map(line => `
+        <tr><td colspan="4">Tax at ${line.rate}% on ${formatMoney(line.taxable)}</td><td class="num">${formatMoney(line.amount)}</td></tr>`).join("");
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Invoice ${number}</title>
+  <style>
+    body { font-family: system-ui, sans-serif; color: #111; max-width: 800px; margin: 2rem auto; padding: 0 1rem; }
+    header, .parties { display: flex; justify-content: space-between; gap: 2rem; margin-bottom: 2rem; }
+    h1 { margin: 0; }
+    h3 { margin: 0 0 .25rem; font-size: .9rem; text-transform: uppercase; color: #555; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { padding: .5rem; border-bottom: 1px solid #ddd; text-align: left; vertical-align: top; }
+    .num { text-align: right; white-space: nowrap; }
+    .muted { color: #666; font-size: .8rem; }
+    tfoot td { border-bottom: none; }
+    .total td { font-weight: bold; font-size: 1.1rem; border-top: 2px solid #111; }
+    @media print { .no-print { display: none; } body { margin: 0; } }
+  </style>
+</head>
+<body>
+  <header>
+    <div>
+      <h1>Invoice</h1>
+      <div>${escapeHtml(businessName)}</div>
+    </div>
+    <div class="num">
+      <div><strong>${number}</strong></div>
+      <div>Issued ${new Date(invoice.issuedAt).toLocaleDateString('en-US', { dateStyle: 'medium' })}</div>
+      <div>Booking #${escapeHtml(booking.id.slice(-8))}</div>
+    </div>
+  </header>
+  <section class="parties">
+    ${renderParty("Bill to", invoice.customer)}
+    ${renderParty("Plumber", invoice.plumber)}
+    <div>
+      <h3>Service</h3>
+      <div>${escapeHtml(booking.category)}</div>
+      <div>${escapeHtml(booking.address)}</div>
+    </div>
+  </section>
+  <table>
+    <thead>
+      <tr><th>Item</th><th class="num">Qty</th><th class="num">Unit</th><th class="num">Tax</th><th class="num">Amount</th></tr>
+    </thead>
+    <tbody>${rows}
+    </tbody>
+    <tfoot>
+      <tr><td colspan="4">Subtotal</td><td class="num">${formatMoney(invoice.subtotal)}</td></tr>${taxRows}
+      <tr class="total"><td colspan="4">Total</td><td class="num">${formatMoney(invoice.total)}</td></tr>
+      <tr><td colspan="4">Paid</td><td class="num">${formatMoney(invoice.amountPaid)}</td></tr>${invoice.amountRefunded > 0 ? `
+      <tr><td colspan="4">Refunded</td><td class="num">&minus;${formatMoney(invoice.amountRefunded)}</td></tr>` : ""}
+      <tr><td colspan="4"><strong>Balance due</strong></td><td class="num"><strong>${formatMoney(Math.max(0, invoice.total - invoice.amountPaid))}</strong></td></tr>
+    </tfoot>
+  </table>
+  <p class="no-print"><button onclick="window.print()">Print or save as PDF</button></p>
+</body>
+</html>
+`;
+}
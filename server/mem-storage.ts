@@ -0,0 +1,94 @@
+import { CollectionStorage, type Collection, type Tables } from "./collection-storage";
+
+// Called before a row is written, with what it held before (undefined if it didn't exist)
+type WriteListener<T> = (id: string, previous: T | undefined) => void;
+
+// Rows are cloned on the way in and out so callers can't mutate stored state, as with a real database
+class MemCollection<T extends { id: string }> implements Collection<T> {
+  readonly rows = new Map<string, T>();
+
+  constructor(private readonly onWrite: WriteListener<T>) {}
+
+  get(id: string): T | undefined {
+    const row = this.rows.get(id);
+    return row && structuredClone(row);
+  }
+
+  all(): T[] {
+    return Array.from(this.rows.values(), row => structuredClone(row));
+  }
+
+  insert(row: T): void {
+    this.onWrite(row.id, this.rows.get(row.id));
+    this.rows.set(row.id, structuredClone(row));
+  }
+
+  update(row: T): void {
+    this.onWrite(row.id, this.rows.get(row.id));
+    this.rows.set(row.id, structuredClone(row));
+  }
+
+  delete(id: string): boolean {
+    this.onWrite(id, this.rows.get(id));
+    return this.rows.delete(id);
+  }
+}
+
+type MemCollections = { [K in keyof Tables]?: MemCollection<Tables[K]> };
+
+// What each row the open transaction wrote held before its first write, keyed by table then id
+type UndoLog = { [K in keyof Tables]?: Map<string, Tables[K] | undefined> };
+
+export class MemStorage extends CollectionStorage {
+  private collections: MemCollections = {};
+  private undoLog?: UndoLog;
+
+  protected collection<K extends keyof Tables>(name: K): Collection<Tables[K]> {
+    return this.memCollection(name);
+  }
+
+  private memCollection<K extends keyof Tables>(name: K): MemCollection<Tables[K]> {
+    let collection: MemCollection<Tables[K]> | undefined = this.collections[name];
+    if (!collection) {
+      collection = new MemCollection<Tables[K]>((id, previous) => this.recordUndo(name, id, previous));
+      // TypeScript can't check a write through a generic key, though K picks the matching entry
+      this.collections[name] = collection as MemCollections[K];
+    }
+    return collection;
+  }
+
+  // Calls from outside wait for the open transaction, so every write made while it is open is its own
+  private recordUndo<K extends keyof Tables>(name: K, id: string, previous: Tables[K] | undefined) {
+    if (!this.undoLog) return;
+    let rows: Map<string, Tables[K] | undefined> | undefined = this.undoLog[name];
+    if (!rows) {
+      rows = new Map();
+      this.undoLog[name] = rows as UndoLog[K];
+    }
+    if (!rows.has(id)) rows.set(id, previous);
+  }
+
+  private undo<K extends keyof Tables>(name: K, rows: Map<string, Tables[K] | undefined>) {
+    const collection = this.memCollection(name);
+    for (const [id, previous] of Array.from(rows)) {
+      if (previous === undefined) collection.rows.delete(id);
+      else collection.rows.set(id, previous);
+    }
+  }
+
+  protected beginTransaction(): void {
+    this.undoLog = {};
+  }
+
+  protected commitTransaction(): void {
+    this.undoLog = undefined;
+  }
+
+  protected rollbackTransaction(): void {
+    const undoLog = this.undoLog ?? {};
+    for (const name of Object.keys(undoLog) as (keyof Tables)[]) {
+      this.undo(name, undoLog[name]!);
+    }
+    this.undoLog = undefined;
+  }
+}
@@ -0,0 +1,94 @@
+import { formatAppointment, getBookingWindow } from "../shared/scheduling";
+import { isStaffRole } from "../shared/permissions";
+import type { Booking, MessageChannel, Notification, NotificationType, User } from "../shared/schema";
+
+const brandName = "PlumbPro";
+
+// Long texts are split into several billed parts, so keep them to two
+const maxSmsLength = 306;
+
+interface MessageTemplate {
+  // Texts cost money, so only events someone needs to hear about straight away send one
+  sms: boolean;
+  // The email's closing line: what the reader should do next
+  nextStep: (recipient: User) => string;
+}
+
+const openDashboard = "You can follow the job from your PlumbPro dashboard.";
+
+const templates: Record<NotificationType, MessageTemplate> = {
+  'booking.created': {
+    sms: false,
+    nextStep: recipient => isStaffRole(recipient.role)
+      ? "Check the dashboard to see whether it needs assigning by hand."
+      : "We'll let you know as soon as a plumber is matched.",
+  },
+  'booking.assigned': {
+    sms: true,
+    nextStep: recipient => recipient.role === 'plumber'
+      ? "Please accept or reject it from your dashboard before the offer expires."
+      : openDashboard,
+  },
+  'booking.reassigned': { sms: true, nextStep: () => openDashboard },
+  'booking.accepted': { sms: true, nextStep: () => "Look out for their quote on your dashboard." },
+  'booking.started': { sms: false, nextStep: () => openDashboard },
+  'booking.completed': { sms: true, nextStep: () => "You can view and pay your invoice from your dashboard." },
+  'booking.cancelled': { sms: true, nextStep: () => "No further action is needed." },
+  'booking.escalated': {
+    sms: false,
+    nextStep: recipient => isStaffRole(recipient.role)
+      ? "Assign a plumber from the admin dashboard."
+      : "We'll be in touch as soon as a plumber is matched.",
+  },
+};
+
+export interface MessageContext {
+  recipient: User;
+  notification: Notification;
+  booking?: Booking;
+}
+
+export interface RenderedMessage {
+  subject: string | null;
+  body: string;
+}
+
+// Whether this event is ever sent on the channel, before the user's own preferences
+export function templateSendsOn(type: NotificationType, channel: MessageChannel): boolean {
+  return channel === 'email' || templates[type].sms;
+}
+
+/**
+ * Turns an inbox notification into an email or a text. The notification's own
+ * wording is already tailored to the recipient, so templates only add the
+ * booking details and a next step around it.
+ */
+export function renderMessage(channel: MessageChannel, { recipient, notification, booking }: MessageContext): RenderedMessage {
+  if (channel === 'sms') {
+    const body = `${brandName}: ${notification.body}`;
+    return { subject: null, body: body.length > maxSmsLength ? `${body.slice(0, maxSmsLength - 1)}…` : body };
+  }
+
+  const window = booking && getBookingWindow(booking);
+  const details = booking
+    ? [
+      `Job: ${booking.category} (#${booking.id.slice(-8)})`,
+      `Address: ${booking.address}`,
+      ...(window ? [`Appointment: ${formatAppointment(window)}`] : []),
+    ]
+    : [];
+
+  return {
+    subject: booking ? `${notification.title}: ${booking.category}` : notification.title,
+    body: [
+      `Hi ${recipient.name.split(" ")[0]},`,
+      "",
+      notification.body,
+      "",
+      ...(details.length ? [...details, ""] : []),
+      templates[notification.type].nextStep(recipient),
+      "",
+      `The ${brandName} team`,
+    ].join("\n"),
+  };
+}
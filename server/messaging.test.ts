@@ -0,0 +1,69 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MemStorage } from "./mem-storage";
+import { deliverMessage, retryDueMessages, type MessageTransports } from "./messaging";
+import type { OutboundEmail, OutboundSms, TransportReceipt } from "./message-transport";
+
+// Records what it sends, holding each send until release is called
+function slowTransports() {
+  const sent: string[] = [];
+  let release = () => {};
+  const held = new Promise<void>(resolve => { release = resolve; });
+  const send = async (to: string): Promise<TransportReceipt> => {
+    sent.push(to);
+    await held;
+    return { id: `test_${sent.length}` };
+  };
+  const transports: MessageTransports = {
+    mail: { name: "test", send: (email: OutboundEmail) => send(email.to) },
+    sms: { name: "test", send: (sms: OutboundSms) => send(sms.to) },
+  };
+  return { transports, sent, release };
+}
+
+test("the retry sweep leaves a message alone while its first send is still running", async () => {
+  const store = new MemStorage();
+  const user = await store.createUser({ name: "Casey Customer", email: "casey@example.com", password: "x", phone: "555-0100", role: "user" });
+  const queuedAt = new Date();
+  const message = await store.createOutboundMessage({
+    userId: user.id,
+    channel: "email",
+    recipient: user.email,
+    template: "booking.accepted",
+    subject: "Booked",
+    body: "See you soon",
+    nextAttemptAt: new Date(queuedAt.getTime() + 60 * 1000),
+  });
+  const { transports, sent, release } = slowTransports();
+
+  const first = deliverMessage(store, message, transports, queuedAt);
+  // The send hangs past the first retry's due time
+  await new Promise(resolve => setImmediate(resolve));
+  const sweep = await retryDueMessages(store, transports, new Date(queuedAt.getTime() + 2 * 60 * 1000));
+  release();
+
+  assert.deepEqual(sweep, { sent: 0, retrying: 0, failed: 0 });
+  assert.equal((await first)?.status, "sent");
+  assert.deepEqual(sent, ["casey@example.com"]);
+});
+
+test("a message is only sent by the first of two senders that read it", async () => {
+  const store = new MemStorage();
+  const user = await store.createUser({ name: "Casey Customer", email: "casey@example.com", password: "x", phone: "555-0100", role: "user" });
+  const now = new Date();
+  const message = await store.createOutboundMessage({
+    userId: user.id,
+    channel: "sms",
+    recipient: user.phone,
+    template: "booking.accepted",
+    body: "See you soon",
+    nextAttemptAt: now,
+  });
+  const { transports, sent, release } = slowTransports();
+  release();
+
+  const [a, b] = await Promise.all([deliverMessage(store, message, transports, now), deliverMessage(store, message, transports, now)]);
+
+  assert.deepEqual([a?.status, b], ["sent", null]);
+  assert.deepEqual(sent, ["555-0100"]);
+});
@@ -0,0 +1,201 @@
+import { storage, type IStorage } from "./storage";
+import { notificationEvents } from "./events";
+import { mailFrom, mailTransport, smsTransport, type IMailTransport, type ISmsTransport } from "./message-transport";
+import { renderMessage, templateSendsOn } from "./message-templates";
+import { startIntervalSweep } from "./sweeps";
+import { messageChannels, type Booking, type DeliveryAttempt, type MessageChannel, type Notification, type OutboundMessage, type User } from "../shared/schema";
+
+// How many of the newest messages the admin delivery log returns
+export const outboundMessagePageSize = 100;
+
+export const defaultNotificationPreferences = { email: true, sms: false };
+
+// Wait before each retry; a message that fails again after the last one is given up on
+const retryDelaysMinutes = [1, 5, 30, 120];
+
+// How long a message being sent is kept from other senders. Well past the transports' own
+// timeouts, so the sweep only takes a message over from a sender that died mid-send.
+const claimMinutes = 5;
+
+// How often the long-running server looks for messages due a retry
+const scanIntervalSeconds = Number(process.env.MESSAGE_RETRY_SCAN_SECONDS || 60);
+
+export interface MessageTransports {
+  mail: IMailTransport;
+  sms: ISmsTransport;
+}
+
+const defaultTransports: MessageTransports = { mail: mailTransport, sms: smsTransport };
+
+export async function getNotificationPreferences(store: IStorage, userId: string): Promise<Record<MessageChannel, boolean>> {
+  const saved = await store.getNotificationPreferences(userId);
+  return saved ? { email: saved.email, sms: saved.sms } : defaultNotificationPreferences;
+}
+
+function addressFor(channel: MessageChannel, recipient: User, booking?: Booking) {
+  if (channel === 'email') return recipient.email;
+  // Customers give a contact number with each booking, which may not be the one they signed up with
+  return booking?.userId === recipient.id ? booking.phone : recipient.phone;
+}
+
+/**
+ * Claims a message for one sender by pushing its next attempt out, under the
+ * row lock. Returns null when it has changed since the caller read it: sent,
+ * or claimed by someone else, such as the retry sweep overtaking a slow
+ * first attempt.
+ */
+async function claimMessage(store: IStorage, message: OutboundMessage, now: Date): Promise<OutboundMessage | null> {
+  return await store.withTransaction(async (tx) => {
+    const current = await tx.getOutboundMessageForUpdate(message.id);
+    if (!current || current.status === 'sent' || current.nextAttemptAt?.getTime() !== message.nextAttemptAt?.getTime()) return null;
+    return (await tx.updateOutboundMessage(message.id, { nextAttemptAt: new Date(now.getTime() + claimMinutes * 60 * 1000) }))!;
+  });
+}
+
+/**
+ * Makes one attempt to send a queued message and records it. A failure
+ * schedules the next retry, or marks the message failed once they run out.
+ * Returns null without sending when another sender has the message.
+ */
+export async function deliverMessage(
+  store: IStorage,
+  queued: OutboundMessage,
+  transports: MessageTransports = defaultTransports,
+  now = new Date(),
+): Promise<OutboundMessage | null> {
+  const message = await claimMessage(store, queued, now);
+  if (!message) return null;
+
+  const attempt: DeliveryAttempt = {
+    attemptedAt: now,
+    transport: message.channel === 'email' ? transports.mail.name : transports.sms.name,
+  };
+
+  try {
+    const receipt = message.channel === 'email'
+      ? await transports.mail.send({ from: mailFrom, to: message.recipient, subject: message.subject ?? "", text: message.body })
+      : await transports.sms.send({ to: message.recipient, body: message.body });
+    return (await store.updateOutboundMessage(message.id, {
+      status: 'sent',
+      sentAt: now,
+      nextAttemptAt: null,
+      attempts: [...message.attempts, { ...attempt, providerMessageId: receipt.id }],
+    }))!;
+  } catch (error) {
+    const attempts = [...message.attempts, { ...attempt, error: error instanceof Error ? error.message : String(error) }];
+    const delayMinutes = retryDelaysMinutes[attempts.length - 1];
+    if (delayMinutes === undefined) {
+      console.error(`Giving up on ${message.channel} message ${message.id} after ${attempts.length} attempts:`, error);
+      return (await store.updateOutboundMessage(message.id, { status: 'failed', nextAttemptAt: null, attempts }))!;
+    }
+    return (await store.updateOutboundMessage(message.id, {
+      nextAttemptAt: new Date(now.getTime() + delayMinutes * 60 * 1000),
+      attempts,
+    }))!;
+  }
+}
+
+/**
+ * Renders a notification for each channel its recipient has turned on and
+ * queues the messages. Nothing is sent here; see deliverQueuedMessages.
+ */
+export async function queueNotificationMessages(
+  store: IStorage,
+  notification: Notification,
+  now = new Date(),
+): Promise<OutboundMessage[]> {
+  const recipient = await store.getUser(notification.userId);
+  if (!recipient) return [];
+  const booking = notification.bookingId ? await store.getBooking(notification.bookingId) : undefined;
+  const preferences = await getNotificationPreferences(store, recipient.id);
+
+  const messages: OutboundMessage[] = [];
+  for (const channel of messageChannels) {
+    if (!preferences[channel] || !templateSendsOn(notification.type, channel)) continue;
+
+    const { subject, body } = renderMessage(channel, { recipient, notification, booking });
+    const message = await store.createOutboundMessage({
+      userId: recipient.id,
+      notificationId: notification.id,
+      bookingId: notification.bookingId,
+      channel,
+      recipient: addressFor(channel, recipient, booking),
+      template: notification.type,
+      subject,
+      body,
+      // Due for the retry sweep already, in case the process dies before the first attempt is recorded
+      nextAttemptAt: new Date(now.getTime() + retryDelaysMinutes[0] * 60 * 1000),
+    });
+    messages.push(message);
+  }
+  return messages;
+}
+
+// Makes the first attempt at each queued message, one after another
+export async function deliverQueuedMessages(
+  store: IStorage,
+  messages: OutboundMessage[],
+  transports: MessageTransports = defaultTransports,
+): Promise<void> {
+  for (const message of messages) {
+    try {
+      await deliverMessage(store, message, transports);
+    } catch (error) {
+      console.error(`Message delivery error for message ${message.id}:`, error);
+    }
+  }
+}
+
+export interface MessageRetrySummary {
+  sent: number;
+  retrying: number;
+  failed: number;
+}
+
+/**
+ * Retries every pending message whose next attempt is due. Shared by the
+ * in-process scheduler and the Netlify scheduled function.
+ */
+export async function retryDueMessages(
+  store: IStorage = storage,
+  transports: MessageTransports = defaultTransports,
+  now = new Date(),
+): Promise<MessageRetrySummary> {
+  const summary: MessageRetrySummary = { sent: 0, retrying: 0, failed: 0 };
+  for (const message of await store.getDueOutboundMessages(now)) {
+    const result = await deliverMessage(store, message, transports, now);
+    if (!result) continue;
+    if (result.status === 'sent') {
+      summary.sent++;
+    } else if (result.status === 'failed') {
+      summary.failed++;
+    } else {
+      summary.retrying++;
+    }
+  }
+  return summary;
+}
+
+let registered = false;
+
+// Sends email and texts for every new inbox notification. Safe to call more than once.
+export function registerMessageListeners(store: IStorage = storage) {
+  if (registered) return;
+  registered = true;
+
+  notificationEvents.on("notification.created", async ({ notification }) => {
+    const queued = await queueNotificationMessages(store, notification);
+    // Not awaited, so the request that raised the notification never waits on a mail or SMS
+    // provider. Anything this doesn't get to, such as when a serverless function is frozen,
+    // is sent by the retry sweep.
+    void deliverQueuedMessages(store, queued);
+  });
+}
+
+export function startMessageRetryScheduler() {
+  return startIntervalSweep("Message retry", scanIntervalSeconds, async () => {
+    const summary = await retryDueMessages();
+    if (summary.sent + summary.retrying + summary.failed === 0) return;
+    return `retried messages: ${summary.sent} sent, ${summary.retrying} still retrying, ${summary.failed} failed`;
+  });
+}
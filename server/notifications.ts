@@ -0,0 +1,125 @@
+import { storage, type IStorage } from "./storage";
+import { bookingEvents, notificationEvents } from "./events";
+import { cancellationReasons } from "../shared/cancellation-policy";
+import { hasPermission } from "../shared/permissions";
+import type { Booking, NotificationType } from "../shared/schema";
+
+// How many of a user's newest notifications the inbox returns
+export const notificationPageSize = 50;
+
+interface NotificationMessage {
+  type: NotificationType;
+  title: string;
+  body: string;
+}
+
+async function notify(store: IStorage, userIds: Array<string | null | undefined>, booking: Booking, message: NotificationMessage) {
+  const recipients = Array.from(new Set(userIds.filter((id): id is string => !!id)));
+  for (const userId of recipients) {
+    const notification = await store.createNotification({ userId, bookingId: booking.id, ...message });
+    await notificationEvents.emit("notification.created", { notification });
+  }
+}
+
+async function getPlumberUserId(store: IStorage, plumberId: string | null) {
+  return plumberId ? (await store.getPlumber(plumberId))?.userId : undefined;
+}
+
+// Staff who can act on an unmatched booking by reassigning it
+async function getDispatchStaffIds(store: IStorage) {
+  return (await store.getAllUsers()).filter(user => hasPermission(user.role, 'bookings:reassign')).map(user => user.id);
+}
+
+const jobLabel = (booking: Booking) => `${booking.category} (#${booking.id.slice(-8)})`;
+
+let registered = false;
+
+/**
+ * Turns booking events into inbox entries for everyone involved. Safe to call
+ * more than once; every entry point that can change a booking should call it
+ * before handling work.
+ */
+export function registerNotificationListeners(store: IStorage = storage) {
+  if (registered) return;
+  registered = true;
+
+  bookingEvents.on("booking.created", async ({ booking }) => {
+    await notify(store, [booking.userId], booking, {
+      type: 'booking.created',
+      title: "Booking received",
+      body: `We've received your ${booking.category} request and are finding you a plumber.`,
+    });
+    await notify(store, await getDispatchStaffIds(store), booking, {
+      type: 'booking.created',
+      title: "New booking",
+      body: `${jobLabel(booking)} at ${booking.address}.`,
+    });
+  });
+
+  bookingEvents.on("booking.assigned", async ({ booking, plumberId, previous }) => {
+    await notify(store, [await getPlumberUserId(store, plumberId)], booking, {
+      type: 'booking.assigned',
+      title: "New job assigned",
+      body: `${jobLabel(booking)} at ${booking.address}. Please accept or reject it.`,
+    });
+    await notify(store, [booking.userId], booking, previous
+      ? {
+        type: 'booking.reassigned',
+        title: "New plumber assigned",
+        body: `Your first plumber couldn't take your ${booking.category} job, so we've offered it to another.`,
+      }
+      : {
+        type: 'booking.assigned',
+        title: "Plumber assigned",
+        body: `A plumber has been matched to your ${booking.category} job and will confirm shortly.`,
+      });
+  });
+
+  bookingEvents.on("booking.accepted", async ({ booking }) => {
+    await notify(store, [booking.userId], booking, {
+      type: 'booking.accepted',
+      title: "Plumber confirmed",
+      body: `Your plumber accepted the ${booking.category} job and will send you a quote.`,
+    });
+  });
+
+  bookingEvents.on("booking.started", async ({ booking }) => {
+    await notify(store, [booking.userId], booking, {
+      type: 'booking.started',
+      title: "Work started",
+      body: `Your plumber has started on your ${booking.category} job.`,
+    });
+  });
+
+  bookingEvents.on("booking.completed", async ({ booking }) => {
+    await notify(store, [booking.userId], booking, {
+      type: 'booking.completed',
+      title: "Job completed",
+      body: `Your ${booking.category} job is done. Your invoice is ready to view and pay.`,
+    });
+  });
+
+  bookingEvents.on("booking.cancelled", async ({ booking, cancelledBy, releasedPlumberId }) => {
+    const reason = booking.cancellationReason ? cancellationReasons[booking.cancellationReason] : "No reason given";
+    const recipients = [booking.userId, await getPlumberUserId(store, releasedPlumberId)]
+      .filter(userId => userId !== cancelledBy);
+    await notify(store, recipients, booking, {
+      type: 'booking.cancelled',
+      title: "Booking cancelled",
+      body: `${jobLabel(booking)} was cancelled: ${reason}.`,
+    });
+  });
+
+  bookingEvents.on("booking.escalated", async ({ booking, reason }) => {
+    await notify(store, await getDispatchStaffIds(store), booking, {
+      type: 'booking.escalated',
+      title: "Booking needs a plumber",
+      body: `${jobLabel(booking)} ran out of plumbers after the last one ${reason === 'expired' ? "didn't respond" : "rejected it"}.`,
+    });
+    await notify(store, [booking.userId], booking, {
+      type: 'booking.escalated',
+      title: "Still looking for a plumber",
+      body: `We're finding another plumber for your ${booking.category} job.`,
+    });
+  });
+}
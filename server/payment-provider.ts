@@ -0,0 +1,153 @@
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+
+export type ProviderIntentStatus = 'requires-payment' | 'authorized' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface ProviderIntent {
+  id: string;
+  status: ProviderIntentStatus;
+  amount: number;
+  amountCaptured: number;
+  // Handed to the browser so the provider's checkout can confirm this intent
+  clientSecret: string;
+}
+
+export interface ProviderRefund {
+  id: string;
+  amount: number;
+}
+
+export interface PaymentWebhookEvent {
+  id: string;
+  type: 'payment_intent.authorized' | 'payment_intent.succeeded' | 'payment_intent.failed';
+  intentId: string;
+  amount: number;
+  failureReason?: string;
+}
+
+export class WebhookSignatureError extends Error {}
+
+export interface IPaymentProvider {
+  readonly name: string;
+  // Intents are created for manual capture: the customer authorizes, then we capture
+  createIntent(params: { amount: number; currency: string; reference: string }): Promise<ProviderIntent>;
+  capture(intentId: string, amount: number): Promise<ProviderIntent>;
+  // Returns part or all of a captured intent; throws if the provider refuses. Calls repeated
+  // with the same idempotencyKey return the first refund instead of making another.
+  refund(intentId: string, amount: number, idempotencyKey: string): Promise<ProviderRefund>;
+  // Authenticates a callback against the exact bytes received; throws WebhookSignatureError if it fails
+  verifyWebhook(rawBody: Buffer, headers: Record<string, string | string[] | undefined>): PaymentWebhookEvent;
+}
+
+export const signatureHeader = "x-payment-signature";
+
+// Callbacks older than this are refused, so a captured request can't be replayed later
+const signatureToleranceSeconds = 5 * 60;
+
+function sign(secret: string, timestamp: number, payload: string) {
+  return createHmac("sha256", secret).update(`${timestamp}.${payload}`).digest("hex");
+}
+
+/**
+ * A gateway that never moves money, for development and tests. Checkout is
+ * simulated by createCheckoutCallback, which produces the same signed
+ * callback a real provider would post to the webhook endpoint.
+ */
+export class FakePaymentProvider implements IPaymentProvider {
+  readonly name = "fake";
+  private readonly refunds = new Map<string, ProviderRefund>();
+
+  constructor(private readonly webhookSecret: string) {}
+
+  async createIntent({ amount }: { amount: number; currency: string; reference: string }): Promise<ProviderIntent> {
+    const id = `fake_pi_${randomUUID()}`;
+    return { id, status: 'requires-payment', amount, amountCaptured: 0, clientSecret: `${id}_secret` };
+  }
+
+  async capture(intentId: string, amount: number): Promise<ProviderIntent> {
+    return { id: intentId, status: 'succeeded', amount, amountCaptured: amount, clientSecret: `${intentId}_secret` };
+  }
+
+  async refund(_intentId: string, amount: number, idempotencyKey: string): Promise<ProviderRefund> {
+    const refund = this.refunds.get(idempotencyKey) ?? { id: `fake_re_${randomUUID()}`, amount };
+    this.refunds.set(idempotencyKey, refund);
+    return refund;
+  }
+
+  createCheckoutCallback(intentId: string, amount: number, outcome: 'succeeded' | 'failed', now = new Date()) {
+    const event: PaymentWebhookEvent = outcome === 'succeeded'
+      ? { id: `fake_evt_${randomUUID()}`, type: 'payment_intent.authorized', intentId, amount }
+      : { id: `fake_evt_${randomUUID()}`, type: 'payment_intent.failed', intentId, amount, failureReason: "Card declined" };
+    const rawBody = Buffer.from(JSON.stringify(event));
+    const timestamp = Math.floor(now.getTime() / 1000);
+    return {
+      rawBody,
+      headers: { [signatureHeader]: `t=${timestamp},v1=${sign(this.webhookSecret, timestamp, rawBody.toString("utf8"))}` },
+    };
+  }
+
+  verifyWebhook(rawBody: Buffer, headers: Record<string, string | string[] | undefined>, now = new Date()): PaymentWebhookEvent {
+    const header = headers[signatureHeader];
+    const parts = new Map(String(header ?? "").split(",").map(part => part.split("=", 2) as [string, string]));
+    const timestamp = Number(parts.get("t"));
+    const signature = parts.get("v1");
+    if (!Number.isFinite(timestamp) || !signature) {
+      throw new WebhookSignatureError("Missing payment signature");
+    }
+    if (Math.abs(now.getTime() / 1000 - timestamp) > signatureToleranceSeconds) {
+      throw new WebhookSignatureError("Payment signature has expired");
+    }
+
+    const expected = Buffer.from(sign(this.webhookSecret, timestamp, rawBody.toString("utf8")));
+    const received = Buffer.from(signature);
+    if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+      throw new WebhookSignatureError("Invalid payment signature");
+    }
+    return JSON.parse(rawBody.toString("utf8"));
+  }
+}
+
+// Thrown by the payment operations while no provider is configured
+export class PaymentsDisabledError extends Error {
+  constructor() {
+    super("Online payments are not available at the moment");
+  }
+}
+
+/**
+ * Outside production an unconfigured server falls back to the fake gateway
+ * and a well-known webhook secret. Either would let anyone mark an invoice
+ * paid, so in production the fake gateway is never used and a real one
+ * needs its webhook secret; without them payments are turned off, and the
+ * rest of the API keeps working. A provider this build doesn't have turns
+ * them off the same way.
+ */
+function createPaymentProvider(
+  name = process.env.PAYMENT_PROVIDER,
+  webhookSecret = process.env.PAYMENT_WEBHOOK_SECRET,
+): IPaymentProvider | null {
+  const production = process.env.NODE_ENV === "production";
+  if (production && (!name || name === "fake" || !webhookSecret)) {
+    console.warn("Payments are disabled: production needs a real PAYMENT_PROVIDER and PAYMENT_WEBHOOK_SECRET");
+    return null;
+  }
+  switch (name || "fake") {
+    case "fake":
+      return new FakePaymentProvider(webhookSecret || "dev-webhook-secret");
+    default:
+      console.warn(`Payments are disabled: unknown PAYMENT_PROVIDER ${name}`);
+      return null;
+  }
+}
+
+export const paymentProvider = createPaymentProvider();
+
+// For defaults of the payment operations, so they fail with PaymentsDisabledError when turned off
+export function requirePaymentProvider(): IPaymentProvider {
+  if (!paymentProvider) throw new PaymentsDisabledError();
+  return paymentProvider;
+}
+
+// The simulated checkout lets a customer pay their own invoice without a card, so it only
+// exists when PAYMENT_PROVIDER=fake is asked for, never through the fallback
+export const fakeCheckoutProvider =
+  process.env.PAYMENT_PROVIDER === "fake" && paymentProvider instanceof FakePaymentProvider ? paymentProvider : null;
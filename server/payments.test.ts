@@ -0,0 +1,170 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MemStorage } from "./mem-storage";
+import { FakePaymentProvider } from "./payment-provider";
+import { billCancellation, issueInvoice } from "./invoices";
+import { issueRefund, receivePaymentWebhook, retryPendingRefunds, startPayment } from "./payments";
+import { calculateQuoteTotals, type QuoteLineItem } from "../shared/pricing";
+import { getRefundTerms } from "../shared/cancellation-policy";
+
+// A booking whose customer has accepted a $200 quote
+async function acceptedJob(store: MemStorage) {
+  const customer = await store.createUser({ name: "Casey Customer", email: "casey@example.com", password: "x", phone: "555-0100", role: "user" });
+  const plumberUser = await store.createUser({ name: "Pat Plumber", email: "pat@example.com", password: "x", phone: "555-0101", role: "plumber" });
+  const plumber = await store.createPlumber({ userId: plumberUser.id, licenseNumber: "PL-1", specializations: ["leaks"] });
+  const booking = await store.createBooking({
+    userId: customer.id,
+    category: "Leak repair",
+    description: "Dripping tap",
+    address: "1 Main St",
+    phone: "555-0100",
+    status: "accepted",
+    assignedPlumber: plumber.id,
+  });
+
+  const lineItems: QuoteLineItem[] = [{ type: "labour", description: "Replace washer", quantity: 1, unitPrice: 20000 }];
+  const quote = await store.createQuote({ bookingId: booking.id, plumberId: plumber.id, version: 1, lineItems, taxRate: 0, ...calculateQuoteTotals(lineItems, 0) });
+  await store.updateQuote(quote.id, { status: "accepted", respondedAt: new Date() });
+  return { customer, booking };
+}
+
+// The same job completed without extras, which issues its $200 invoice
+async function completedJob(store: MemStorage) {
+  const job = await acceptedJob(store);
+  const booking = (await store.updateBooking(job.booking.id, { status: "completed" }))!;
+  const invoice = await store.withTransaction(tx => issueInvoice(tx, booking));
+  assert.ok(invoice);
+  return { ...job, booking, invoice };
+}
+
+// Pays the invoice in full through the fake provider's signed checkout callback
+async function payInFull(store: MemStorage, provider: FakePaymentProvider, job: Awaited<ReturnType<typeof completedJob>>) {
+  const { payment } = await startPayment(store, job.booking, job.invoice, provider);
+  const callback = provider.createCheckoutCallback(payment.providerIntentId, payment.amount, "succeeded");
+  const settled = await receivePaymentWebhook(store, callback.rawBody, callback.headers, provider);
+  assert.equal(settled?.status, "succeeded");
+}
+
+// Cancels the booking the way the cancel route does, billing any fee in the same transaction
+async function cancel(store: MemStorage, bookingId: string, cancellationFeePercent: number) {
+  return await store.withTransaction(async (tx) => {
+    const current = (await tx.getBookingForUpdate(bookingId))!;
+    const cancelled = await tx.updateBooking(bookingId, { status: "cancelled", assignedPlumber: null, cancelledAt: new Date(), cancellationFeePercent });
+    await billCancellation(tx, current, cancellationFeePercent);
+    return cancelled!;
+  });
+}
+
+test("completing a job invoices its quote and extras", async () => {
+  const store = new MemStorage();
+  const job = await acceptedJob(store);
+  const booking = (await store.updateBooking(job.booking.id, { status: "completed" }))!;
+
+  const invoice = await store.withTransaction(tx => issueInvoice(tx, booking, [{ type: "parts", description: "Valve", quantity: 1, unitPrice: 1000 }], 10));
+
+  assert.deepEqual(invoice?.lineItems.map(item => [item.source, item.taxRate]), [["quote", 0], ["extra", 10]]);
+  assert.equal(invoice?.total, 21100);
+  const again = await store.withTransaction(tx => issueInvoice(tx, booking));
+  assert.equal(again?.id, invoice?.id);
+});
+
+test("a job quoted at nothing is invoiced unpaid with nothing to pay", async () => {
+  const store = new MemStorage();
+  const provider = new FakePaymentProvider("test-secret");
+  const job = await acceptedJob(store);
+  const [quote] = await store.getQuotesByBookingId(job.booking.id);
+  const lineItems: QuoteLineItem[] = [{ type: "labour", description: "Warranty callback", quantity: 1, unitPrice: 0 }];
+  await store.updateQuote(quote.id, { lineItems, ...calculateQuoteTotals(lineItems, 0) });
+  const booking = (await store.updateBooking(job.booking.id, { status: "completed" }))!;
+
+  const invoice = await store.withTransaction(tx => issueInvoice(tx, booking));
+
+  assert.equal(invoice?.total, 0);
+  assert.equal(invoice?.paymentStatus, "unpaid");
+  await assert.rejects(startPayment(store, booking, invoice!, provider), /Nothing is owed on this invoice/);
+  assert.deepEqual(await store.getPaymentsByBookingId(booking.id), []);
+});
+
+test("cancelling late invoices just the fee, which can then be paid", async () => {
+  const store = new MemStorage();
+  const provider = new FakePaymentProvider("test-secret");
+  const job = await acceptedJob(store);
+
+  const cancelled = await cancel(store, job.booking.id, 50);
+
+  const invoice = await store.getInvoiceByBookingId(job.booking.id);
+  assert.deepEqual(invoice?.lineItems.map(item => [item.source, item.unitPrice]), [["cancellation", 10000]]);
+  assert.equal(invoice?.total, 10000);
+  assert.equal(invoice?.paymentStatus, "unpaid");
+  const { payment } = await startPayment(store, cancelled, invoice!, provider);
+  assert.equal(payment.amount, 10000);
+});
+
+test("cancelling for free invoices nothing", async () => {
+  const store = new MemStorage();
+  const job = await acceptedJob(store);
+  await cancel(store, job.booking.id, 0);
+  assert.equal(await store.getInvoiceByBookingId(job.booking.id), undefined);
+});
+
+test("cancelling late before a price is agreed invoices nothing", async () => {
+  const store = new MemStorage();
+  const job = await acceptedJob(store);
+  const [quote] = await store.getQuotesByBookingId(job.booking.id);
+  await store.updateQuote(quote.id, { status: "declined" });
+
+  await cancel(store, job.booking.id, 50);
+  assert.equal(await store.getInvoiceByBookingId(job.booking.id), undefined);
+});
+
+test("a refund the provider doesn't confirm stays pending and is made once on retry", async () => {
+  const store = new MemStorage();
+  const provider = new FakePaymentProvider("test-secret");
+  const job = await completedJob(store);
+  await payInFull(store, provider, job);
+
+  // The provider makes the refund but the response never arrives
+  const refund = provider.refund.bind(provider);
+  let providerCalls = 0;
+  provider.refund = async (intentId, amount, idempotencyKey) => {
+    providerCalls++;
+    const made = await refund(intentId, amount, idempotencyKey);
+    if (providerCalls === 1) throw new Error("Timed out");
+    return made;
+  };
+
+  const result = await issueRefund(store, job.booking, { amount: 5000, reason: "goodwill", createdBy: job.customer.id }, provider);
+  assert.deepEqual(result.refunds.map(r => r.status), ["pending"]);
+  assert.equal(result.invoice.amountRefunded, 0);
+  await assert.rejects(
+    issueRefund(store, job.booking, { amount: 15001, reason: "goodwill", createdBy: job.customer.id }, provider),
+    /At most \$150\.00 can be refunded/,
+  );
+
+  assert.deepEqual(await retryPendingRefunds(store, provider), { settled: 1, pending: 0 });
+  assert.deepEqual(await retryPendingRefunds(store, provider), { settled: 0, pending: 0 });
+  const [settled] = await store.getRefundsByBookingId(job.booking.id);
+  assert.equal(settled.status, "succeeded");
+  assert.equal((await store.getInvoiceByBookingId(job.booking.id))?.amountRefunded, 5000);
+  const earnings = await store.getEarningsByBookingId(job.booking.id);
+  assert.equal(earnings.filter(e => e.source === "refund").length, 1);
+});
+
+test("a paid cancellation fee is refundable up to what was paid, and nothing more", async () => {
+  const store = new MemStorage();
+  const provider = new FakePaymentProvider("test-secret");
+  const job = await acceptedJob(store);
+  const cancelled = await cancel(store, job.booking.id, 50);
+  const invoice = (await store.getInvoiceByBookingId(job.booking.id))!;
+  await payInFull(store, provider, { ...job, booking: cancelled, invoice });
+
+  const paid = (await store.getInvoiceByBookingId(job.booking.id))!;
+  assert.deepEqual(getRefundTerms(paid), { refundable: 10000 });
+  await assert.rejects(
+    issueRefund(store, cancelled, { amount: 10001, reason: "cancellation", createdBy: job.customer.id }, provider),
+    /At most \$100\.00 can be refunded/,
+  );
+  const { invoice: refunded } = await issueRefund(store, cancelled, { amount: 10000, reason: "cancellation", createdBy: job.customer.id }, provider);
+  assert.equal(refunded.paymentStatus, "refunded");
+  assert.deepEqual(getRefundTerms(refunded), { refundable: 0 });
+});
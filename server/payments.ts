@@ -0,0 +1,263 @@
+import type { IStorage } from "./storage";
+import { paymentProvider, requirePaymentProvider, type IPaymentProvider } from "./payment-provider";
+import { recordPaymentEarning, recordRefundEarning } from "./earnings";
+import { startIntervalSweep } from "./sweeps";
+import { currency, formatMoney, type PaymentStatus } from "../shared/pricing";
+import { getRefundTerms, type RefundReason } from "../shared/cancellation-policy";
+import type { Booking, Invoice, Payment, Refund } from "../shared/schema";
+
+export class PaymentConflictError extends Error {}
+
+const refundRetrySeconds = Number(process.env.REFUND_RETRY_SCAN_SECONDS || 60);
+
+// The booking mirrors its invoice's payment status so dashboards don't need the invoice
+async function setPaymentStatus(tx: IStorage, invoice: Invoice, paymentStatus: PaymentStatus, changes: Partial<Invoice> = {}) {
+  const updated = await tx.updateInvoice(invoice.id, { ...changes, paymentStatus });
+  await tx.updateBooking(invoice.bookingId, { paymentStatus });
+  return updated;
+}
+
+/**
+ * Opens a payment intent for whatever is still owed on the invoice. Any
+ * earlier intent the customer never completed is cancelled, so only the
+ * newest checkout can succeed.
+ */
+export async function startPayment(store: IStorage, booking: Booking, invoice: Invoice, provider: IPaymentProvider = requirePaymentProvider()) {
+  const outstanding = invoice.total - invoice.amountPaid;
+  // A $0 invoice stays unpaid with nothing owed, rather than claiming a payment that never happened
+  if (outstanding <= 0) throw new PaymentConflictError(invoice.amountPaid > 0 ? "This invoice is already paid" : "Nothing is owed on this invoice");
+
+  // Created before the transaction: a provider call shouldn't hold the booking lock
+  const intent = await provider.createIntent({ amount: outstanding, currency, reference: invoice.id });
+
+  const payment = await store.withTransaction(async (tx) => {
+    await tx.getBookingForUpdate(booking.id);
+    const previous = await tx.getPaymentsByBookingId(booking.id);
+    if (previous.some(p => p.status === 'authorized')) {
+      throw new PaymentConflictError("A payment for this invoice is already being processed");
+    }
+    for (const open of previous.filter(p => p.status === 'requires-payment')) {
+      await tx.updatePayment(open.id, { status: 'cancelled' });
+    }
+
+    return await tx.createPayment({
+      invoiceId: invoice.id,
+      bookingId: booking.id,
+      userId: booking.userId,
+      provider: provider.name,
+      providerIntentId: intent.id,
+      amount: outstanding,
+      currency,
+    });
+  });
+
+  return { payment, clientSecret: intent.clientSecret };
+}
+
+// Records captured money against the invoice; safe to call again for the same payment
+async function settlePayment(store: IStorage, paymentId: string, amountCaptured: number) {
+  return await store.withTransaction(async (tx) => {
+    const payment = await tx.getPayment(paymentId);
+    if (!payment) return undefined;
+    await tx.getBookingForUpdate(payment.bookingId);
+    const current = await tx.getPayment(paymentId);
+    if (!current || current.status === 'succeeded') return current;
+
+    const invoice = await tx.getInvoice(current.invoiceId);
+    if (!invoice) throw new Error(`Invoice ${current.invoiceId} is missing for payment ${current.id}`);
+    const amountPaid = invoice.amountPaid + amountCaptured;
+    const isPaid = amountPaid >= invoice.total;
+    await setPaymentStatus(tx, invoice, isPaid ? 'paid' : 'unpaid', { amountPaid, paidAt: isPaid ? new Date() : invoice.paidAt });
+
+    const settled = await tx.updatePayment(current.id, { status: 'succeeded', amountCaptured, capturedAt: new Date() });
+    await recordPaymentEarning(tx, settled!, invoice);
+    return settled;
+  });
+}
+
+/** Captures an authorized payment and settles it if the provider confirms straight away. */
+export async function capturePayment(store: IStorage, payment: Payment, provider: IPaymentProvider = requirePaymentProvider()) {
+  if (payment.status !== 'authorized') throw new PaymentConflictError(`Cannot capture a payment that is ${payment.status}`);
+  const intent = await provider.capture(payment.providerIntentId, payment.amount);
+  // Otherwise the provider's succeeded callback settles it later
+  return intent.status === 'succeeded' ? await settlePayment(store, payment.id, intent.amountCaptured) : payment;
+}
+
+/**
+ * Authenticates a provider callback against the raw request bytes and applies
+ * it. Callbacks may arrive more than once or out of order; each step only
+ * moves a payment forward. Returns the affected payment, or undefined for
+ * intents this system didn't create.
+ */
+export async function receivePaymentWebhook(
+  store: IStorage,
+  rawBody: Buffer,
+  headers: Record<string, string | string[] | undefined>,
+  provider: IPaymentProvider = requirePaymentProvider(),
+): Promise<Payment | undefined> {
+  const event = provider.verifyWebhook(rawBody, headers);
+  const payment = await store.getPaymentByProviderIntentId(event.intentId);
+  if (!payment) {
+    console.warn(`Payment webhook ${event.id} refers to unknown intent ${event.intentId}`);
+    return undefined;
+  }
+
+  switch (event.type) {
+    case 'payment_intent.authorized': {
+      const authorized = await store.withTransaction(async (tx) => {
+        await tx.getBookingForUpdate(payment.bookingId);
+        const current = await tx.getPayment(payment.id);
+        if (current?.status !== 'requires-payment') return null;
+
+        const invoice = await tx.getInvoice(current.invoiceId);
+        if (invoice) await setPaymentStatus(tx, invoice, 'pending');
+        return await tx.updatePayment(current.id, { status: 'authorized', authorizedAt: new Date() });
+      });
+      // The invoice is final once issued, so there's nothing to wait for before capturing
+      return authorized ? await capturePayment(store, authorized, provider) : await store.getPayment(payment.id);
+    }
+
+    case 'payment_intent.succeeded':
+      return await settlePayment(store, payment.id, event.amount);
+
+    case 'payment_intent.failed':
+      return await store.withTransaction(async (tx) => {
+        await tx.getBookingForUpdate(payment.bookingId);
+        const current = await tx.getPayment(payment.id);
+        if (current?.status !== 'requires-payment' && current?.status !== 'authorized') return current;
+
+        const invoice = await tx.getInvoice(current.invoiceId);
+        if (invoice && invoice.paymentStatus === 'pending') await setPaymentStatus(tx, invoice, 'unpaid');
+        return await tx.updatePayment(current.id, { status: 'failed', failureReason: event.failureReason ?? null });
+      });
+  }
+}
+
+export function getPendingRefundTotal(refunds: Refund[]) {
+  return refunds.filter(r => r.status === 'pending').reduce((sum, r) => sum + r.amount, 0);
+}
+
+/**
+ * Returns money to the customer and records it in the refund ledger. The
+ * amount is spread over the invoice's captured payments, newest first, with
+ * one provider refund and one ledger row per payment touched.
+ *
+ * The rows are written as pending under the booking lock, which reserves the
+ * money so two admins can't refund it twice, and the provider is only called
+ * once that has committed. A refund the provider doesn't confirm stays
+ * pending and is retried by the refund sweep. Returns the rows, settled or
+ * still pending.
+ */
+export async function issueRefund(
+  store: IStorage,
+  booking: Booking,
+  refund: { amount: number; reason: RefundReason; note?: string; createdBy: string },
+  provider: IPaymentProvider = requirePaymentProvider(),
+): Promise<{ invoice: Invoice; refunds: Refund[] }> {
+  const reserved = await store.withTransaction(async (tx) => {
+    const current = await tx.getBookingForUpdate(booking.id);
+    const invoice = await tx.getInvoiceByBookingId(booking.id);
+    if (!current || !invoice) throw new PaymentConflictError("This booking has no invoice to refund");
+
+    const previous = await tx.getRefundsByBookingId(booking.id);
+    const { refundable } = getRefundTerms(invoice, getPendingRefundTotal(previous));
+    if (refund.amount > refundable) {
+      throw new PaymentConflictError(refundable === 0
+        ? "There is nothing left to refund on this invoice"
+        : `At most ${formatMoney(refundable)} can be refunded`);
+    }
+
+    const captured = (await tx.getPaymentsByBookingId(booking.id)).filter(p => p.status === 'succeeded');
+    const rows: Refund[] = [];
+    let remaining = refund.amount;
+    for (const payment of captured) {
+      if (remaining === 0) break;
+      const alreadyRefunded = previous.filter(r => r.paymentId === payment.id).reduce((sum, r) => sum + r.amount, 0);
+      const amount = Math.min(remaining, payment.amountCaptured - alreadyRefunded);
+      if (amount <= 0) continue;
+
+      rows.push(await tx.createRefund({
+        paymentId: payment.id,
+        invoiceId: invoice.id,
+        bookingId: booking.id,
+        userId: invoice.userId,
+        amount,
+        currency: payment.currency,
+        reason: refund.reason,
+        note: refund.note ?? null,
+        createdBy: refund.createdBy,
+      }));
+      remaining -= amount;
+    }
+    if (remaining > 0) {
+      throw new Error(`Invoice ${invoice.id} records more paid than its payments captured`);
+    }
+    return rows;
+  });
+
+  const refunds: Refund[] = [];
+  for (const row of reserved) {
+    try {
+      refunds.push(await settleRefund(store, row, provider));
+    } catch (error) {
+      console.error(`Refund ${row.id} is pending; the provider call failed:`, error);
+      refunds.push(row);
+    }
+  }
+  const invoice = await store.getInvoiceByBookingId(booking.id);
+  return { invoice: invoice!, refunds };
+}
+
+/**
+ * Asks the provider for a pending refund and records the outcome. The row id
+ * is the idempotency key, so a refund retried after a timeout or a crash is
+ * made at most once.
+ */
+async function settleRefund(store: IStorage, refund: Refund, provider: IPaymentProvider): Promise<Refund> {
+  const payment = await store.getPayment(refund.paymentId);
+  if (!payment) throw new Error(`Payment ${refund.paymentId} is missing for refund ${refund.id}`);
+  const providerRefund = await provider.refund(payment.providerIntentId, refund.amount, refund.id);
+  if (providerRefund.amount !== refund.amount) {
+    throw new Error(`The provider refunded ${providerRefund.amount} of ${refund.amount} for refund ${refund.id}`);
+  }
+
+  return await store.withTransaction(async (tx) => {
+    await tx.getBookingForUpdate(refund.bookingId);
+    const current = (await tx.getRefundsByBookingId(refund.bookingId)).find(r => r.id === refund.id);
+    if (!current || current.status !== 'pending') return current ?? refund;
+
+    const invoice = await tx.getInvoice(refund.invoiceId);
+    if (!invoice) throw new Error(`Invoice ${refund.invoiceId} is missing for refund ${refund.id}`);
+    const settled = await tx.updateRefund(refund.id, { status: 'succeeded', providerRefundId: providerRefund.id, settledAt: new Date() });
+    await recordRefundEarning(tx, settled!, invoice);
+
+    const amountRefunded = invoice.amountRefunded + refund.amount;
+    await setPaymentStatus(tx, invoice, amountRefunded >= invoice.amountPaid ? 'refunded' : 'partially-refunded', { amountRefunded });
+    return settled!;
+  });
+}
+
+// Retries the refunds left pending by a failed or interrupted provider call
+export async function retryPendingRefunds(store: IStorage, provider: IPaymentProvider | null = paymentProvider) {
+  const summary = { settled: 0, pending: 0 };
+  // Without a provider they can only wait until one is configured
+  if (!provider) return summary;
+  for (const refund of await store.getPendingRefunds()) {
+    try {
+      const settled = await settleRefund(store, refund, provider);
+      summary[settled.status === 'succeeded' ? 'settled' : 'pending']++;
+    } catch (error) {
+      summary.pending++;
+      console.error(`Refund retry error for refund ${refund.id}:`, error);
+    }
+  }
+  return summary;
+}
+
+export function startRefundRetryScheduler(store: IStorage) {
+  return startIntervalSweep("Refund retry", refundRetrySeconds, async () => {
+    const summary = await retryPendingRefunds(store);
+    if (summary.settled + summary.pending === 0) return;
+    return `retried refunds: ${summary.settled} settled, ${summary.pending} still pending`;
+  });
+}
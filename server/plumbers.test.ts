@@ -0,0 +1,17 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MemStorage } from "./mem-storage";
+import { getPlumbersWithUsers } from "./plumbers";
+
+test("the plumber list never includes password hashes", async () => {
+  const store = new MemStorage();
+  await store.createPlumberWithUser(
+    { name: "Pat Plumber", email: "pat@example.com", password: "$2b$10$hash", phone: "555-0101", role: "plumber" },
+    { licenseNumber: "PL-1", specializations: ["leaks"] },
+  );
+
+  const [plumber] = await getPlumbersWithUsers(store);
+  assert.equal(plumber.user?.email, "pat@example.com");
+  assert.ok(!("password" in plumber.user!));
+  assert.ok(!JSON.stringify(plumber).includes("$2b$10$"));
+});
@@ -0,0 +1,20 @@
+import type { IStorage } from "./storage";
+import type { Plumber, User } from "../shared/schema";
+
+export type SafeUser = Omit<User, "password">;
+
+export type PlumberWithUser = Plumber & { user: SafeUser | undefined };
+
+// An account as it may leave the server, without its password hash
+export function toSafeUser({ password: _password, ...user }: User): SafeUser {
+  return user;
+}
+
+// Every plumber with the account behind it, for the staff plumber list
+export async function getPlumbersWithUsers(store: IStorage): Promise<PlumberWithUser[]> {
+  const plumbers = await store.getAllPlumbers();
+  return Promise.all(plumbers.map(async plumber => {
+    const user = await store.getUser(plumber.userId);
+    return { ...plumber, user: user && toSafeUser(user) };
+  }));
+}
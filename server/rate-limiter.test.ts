@@ -0,0 +1,64 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { assertLoginAllowed, clearLoginFailures, loginLockoutPolicy, MemoryRateLimitStore, RateLimitError, recordLoginFailure } from "./rate-limiter";
+
+const email = "casey@example.com";
+const minutes = (n: number) => n * 60 * 1000;
+
+async function lockedForSeconds(store: MemoryRateLimitStore, now: Date) {
+  try {
+    await assertLoginAllowed(email, store, now);
+    return 0;
+  } catch (error) {
+    assert.ok(error instanceof RateLimitError);
+    return error.retryAfterSeconds;
+  }
+}
+
+test("failed sign-ins lock the account from the threshold on, twice as long each time", async () => {
+  const store = new MemoryRateLimitStore();
+  const start = new Date("2025-01-01T12:00:00Z");
+  for (let i = 1; i < loginLockoutPolicy.threshold; i++) {
+    await recordLoginFailure(email, store, start);
+  }
+  assert.equal(await lockedForSeconds(store, start), 0);
+
+  const lockouts: number[] = [];
+  let now = start;
+  for (let i = 0; i < 3; i++) {
+    await recordLoginFailure(email, store, now);
+    lockouts.push(await lockedForSeconds(store, now));
+    // Wait the lockout out before failing again
+    now = new Date(now.getTime() + lockouts[i] * 1000);
+    assert.equal(await lockedForSeconds(store, now), 0);
+  }
+  const base = loginLockoutPolicy.baseMinutes * 60;
+  assert.deepEqual(lockouts, [base, base * 2, base * 4]);
+});
+
+test("a lockout never exceeds the maximum", async () => {
+  const store = new MemoryRateLimitStore();
+  const now = new Date("2025-01-01T12:00:00Z");
+  for (let i = 0; i < loginLockoutPolicy.threshold + 20; i++) {
+    await recordLoginFailure(email, store, now);
+  }
+  assert.equal(await lockedForSeconds(store, now), loginLockoutPolicy.maxMinutes * 60);
+});
+
+test("failures are forgotten after their window or a successful sign-in", async () => {
+  const store = new MemoryRateLimitStore();
+  const start = new Date("2025-01-01T12:00:00Z");
+  for (let i = 1; i < loginLockoutPolicy.threshold; i++) {
+    await recordLoginFailure(email, store, start);
+  }
+  const nextDay = new Date(start.getTime() + minutes(loginLockoutPolicy.failureWindowHours * 60));
+  await recordLoginFailure(email, store, nextDay);
+  assert.equal(await lockedForSeconds(store, nextDay), 0);
+
+  for (let i = 0; i < loginLockoutPolicy.threshold; i++) {
+    await recordLoginFailure(email, store, nextDay);
+  }
+  assert.ok(await lockedForSeconds(store, nextDay) > 0);
+  await clearLoginFailures(email, store);
+  assert.equal(await lockedForSeconds(store, nextDay), 0);
+});
@@ -0,0 +1,234 @@
+import type { Request, RequestHandler, Response } from "express";
+import { storage, type IStorage } from "./storage";
+
+// The hits counted for one key in its current fixed window
+export interface RateLimitWindow {
+  count: number;
+  resetAt: Date;
+}
+
+/**
+ * Where hit counts live. The memory store only sees its own process, so a
+ * deployment running several instances, or serverless functions, needs a store
+ * they all share.
+ */
+export interface IRateLimitStore {
+  readonly name: string;
+  // Counts a hit, opening a new window of windowMs when none is open
+  hit(key: string, windowMs: number, now?: Date): Promise<RateLimitWindow>;
+  // The open window, or undefined once it has ended
+  get(key: string, now?: Date): Promise<RateLimitWindow | undefined>;
+  // Replaces the window outright, e.g. to hold a lockout until resetAt
+  set(key: string, window: RateLimitWindow): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+// How often ended windows are cleared out, so keys from one-off clients don't pile up
+const sweepIntervalMs = 60 * 1000;
+
+export class MemoryRateLimitStore implements IRateLimitStore {
+  readonly name = "memory";
+  private readonly windows = new Map<string, RateLimitWindow>();
+  private lastSweep = 0;
+
+  async hit(key: string, windowMs: number, now = new Date()): Promise<RateLimitWindow> {
+    this.sweep(now);
+    const open = await this.get(key, now);
+    const window = open
+      ? { count: open.count + 1, resetAt: open.resetAt }
+      : { count: 1, resetAt: new Date(now.getTime() + windowMs) };
+    this.windows.set(key, window);
+    return window;
+  }
+
+  async get(key: string, now = new Date()): Promise<RateLimitWindow | undefined> {
+    const window = this.windows.get(key);
+    return window && window.resetAt > now ? window : undefined;
+  }
+
+  async set(key: string, window: RateLimitWindow): Promise<void> {
+    this.windows.set(key, window);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.windows.delete(key);
+  }
+
+  private sweep(now: Date) {
+    if (now.getTime() - this.lastSweep < sweepIntervalMs) return;
+    this.lastSweep = now.getTime();
+    for (const [key, window] of Array.from(this.windows)) {
+      if (window.resetAt <= now) this.windows.delete(key);
+    }
+  }
+}
+
+// Keeps counters in the app's own storage, so every instance using the same database shares them
+export class StorageRateLimitStore implements IRateLimitStore {
+  readonly name = "storage";
+  private lastSweep = 0;
+
+  constructor(private readonly store: IStorage) {}
+
+  async hit(key: string, windowMs: number, now = new Date()): Promise<RateLimitWindow> {
+    await this.sweep(now);
+    const counter = await this.store.incrementRateLimitCounter(key, new Date(now.getTime() + windowMs), now);
+    return { count: counter.count, resetAt: counter.expiresAt };
+  }
+
+  async get(key: string, now = new Date()): Promise<RateLimitWindow | undefined> {
+    const counter = await this.store.getRateLimitCounter(key);
+    return counter && counter.expiresAt > now ? { count: counter.count, resetAt: counter.expiresAt } : undefined;
+  }
+
+  async set(key: string, window: RateLimitWindow): Promise<void> {
+    await this.store.saveRateLimitCounter({ id: key, count: window.count, expiresAt: window.resetAt });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.store.deleteRateLimitCounter(key);
+  }
+
+  private async sweep(now: Date) {
+    if (now.getTime() - this.lastSweep < sweepIntervalMs) return;
+    this.lastSweep = now.getTime();
+    await this.store.deleteExpiredRateLimitCounters(now);
+  }
+}
+
+function createRateLimitStore(name = process.env.RATE_LIMIT_STORE || "memory"): IRateLimitStore {
+  switch (name) {
+    case "memory":
+      return new MemoryRateLimitStore();
+    case "storage":
+      return new StorageRateLimitStore(storage);
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE: ${name}`);
+  }
+}
+
+export const rateLimitStore = createRateLimitStore();
+
+export class RateLimitError extends Error {
+  constructor(message: string, readonly retryAfterSeconds: number) {
+    super(message);
+  }
+}
+
+export interface RateLimitRule {
+  // Prefixes the store key, so rules never share a counter
+  name: string;
+  max: number;
+  windowMinutes: number;
+}
+
+export type RateLimitName =
+  | 'loginPerIp'
+  | 'registerPerIp'
+  | 'passwordResetPerIp'
+  | 'passwordResetPerAccount'
+  | 'bookingPerIp'
+  | 'bookingPerAccount';
+
+export const rateLimits: Record<RateLimitName, RateLimitRule> = {
+  loginPerIp: { name: "login:ip", max: 20, windowMinutes: 15 },
+  registerPerIp: { name: "register:ip", max: 5, windowMinutes: 60 },
+  passwordResetPerIp: { name: "password-reset:ip", max: 10, windowMinutes: 60 },
+  passwordResetPerAccount: { name: "password-reset:account", max: 3, windowMinutes: 60 },
+  bookingPerIp: { name: "booking:ip", max: 30, windowMinutes: 60 },
+  bookingPerAccount: { name: "booking:account", max: 10, windowMinutes: 60 },
+};
+
+function secondsUntil(date: Date, now: Date) {
+  return Math.max(1, Math.ceil((date.getTime() - now.getTime()) / 1000));
+}
+
+// Counts a request against the rule for this client, throwing once the client is over the limit
+export async function consumeRateLimit(
+  rule: RateLimitRule,
+  client: string,
+  store: IRateLimitStore = rateLimitStore,
+  now = new Date(),
+): Promise<void> {
+  const window = await store.hit(`${rule.name}:${client}`, rule.windowMinutes * 60 * 1000, now);
+  if (window.count > rule.max) {
+    throw new RateLimitError("Too many requests. Please try again later.", secondsUntil(window.resetAt, now));
+  }
+}
+
+export function sendRateLimited(res: Response, error: RateLimitError) {
+  res.set('Retry-After', String(error.retryAfterSeconds));
+  return res.status(429).json({ message: error.message, retryAfter: error.retryAfterSeconds });
+}
+
+/**
+ * Applies a rule per client, where clientOf picks what a request counts
+ * against: its IP, its account or the email it names. Requests it can't
+ * attribute pass through for the handler to reject. If the store fails,
+ * requests are let through rather than locking everyone out.
+ */
+export function rateLimit(
+  rule: RateLimitRule,
+  clientOf: (req: Request) => string | undefined,
+  store: IRateLimitStore = rateLimitStore,
+): RequestHandler {
+  return async (req, res, next) => {
+    const client = clientOf(req);
+    if (!client) return next();
+    try {
+      await consumeRateLimit(rule, client, store);
+    } catch (error) {
+      if (error instanceof RateLimitError) return sendRateLimited(res, error);
+      console.error('Rate limit error:', error);
+    }
+    next();
+  };
+}
+
+export const byIp = (req: Request) => req.ip;
+export const byEmail = (req: Request) => typeof req.body?.email === 'string' ? req.body.email.toLowerCase().trim() || undefined : undefined;
+// Only meaningful behind requireAuth
+export const byUser = (req: Request) => req.user?.userId;
+
+export const loginLockoutPolicy = {
+  // Failed sign-ins allowed before the account locks
+  threshold: Number(process.env.LOGIN_LOCKOUT_THRESHOLD || 5),
+  // The first lockout; each further failure doubles it, up to maxMinutes
+  baseMinutes: Number(process.env.LOGIN_LOCKOUT_MINUTES || 1),
+  maxMinutes: 60,
+  // Failures are forgotten this long after the first one
+  failureWindowHours: 24,
+};
+
+const loginFailureKey = (email: string) => `login-failures:${email}`;
+const loginLockoutKey = (email: string) => `login-lockout:${email}`;
+
+// Throws while the account is locked, before any password is checked
+export async function assertLoginAllowed(email: string, store: IRateLimitStore = rateLimitStore, now = new Date()): Promise<void> {
+  const lockout = await store.get(loginLockoutKey(email), now);
+  if (lockout) {
+    throw new RateLimitError(
+      "Too many failed sign-in attempts. Try again later, or reset your password.",
+      secondsUntil(lockout.resetAt, now),
+    );
+  }
+}
+
+/**
+ * Records a failed sign-in. From the threshold on, each failure locks the
+ * account for twice as long as the last. Unknown emails are counted the same
+ * way, so a lockout doesn't reveal whether an account exists.
+ */
+export async function recordLoginFailure(email: string, store: IRateLimitStore = rateLimitStore, now = new Date()): Promise<void> {
+  const failures = await store.hit(loginFailureKey(email), loginLockoutPolicy.failureWindowHours * 60 * 60 * 1000, now);
+  const overThreshold = failures.count - loginLockoutPolicy.threshold;
+  if (overThreshold < 0) return;
+
+  const minutes = Math.min(loginLockoutPolicy.baseMinutes * 2 ** overThreshold, loginLockoutPolicy.maxMinutes);
+  await store.set(loginLockoutKey(email), { count: failures.count, resetAt: new Date(now.getTime() + minutes * 60 * 1000) });
+}
+
+// A successful sign-in starts the count again
+export async function clearLoginFailures(email: string, store: IRateLimitStore = rateLimitStore): Promise<void> {
+  await Promise.all([store.delete(loginFailureKey(email)), store.delete(loginLockoutKey(email))]);
+}
@@ -0,0 +1,51 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createServer } from "http";
+import type { AddressInfo } from "net";
+import { WebSocket } from "ws";
+import { MemStorage } from "./mem-storage";
+import { attachRealtimeServer, sessionEndedCloseCode } from "./realtime";
+import { endSession, startSession } from "./sessions";
+import { realtimePath } from "../shared/realtime";
+
+async function listening(store: MemStorage) {
+  const server = createServer();
+  const wss = attachRealtimeServer(server, store);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  const connect = (token: string) => new WebSocket(`ws://127.0.0.1:${port}${realtimePath}?token=${encodeURIComponent(token)}`);
+  const close = () => {
+    wss.close();
+    server.close();
+  };
+  return { connect, close };
+}
+
+async function signedIn(store: MemStorage) {
+  const user = await store.createUser({ name: "Casey Customer", email: "casey@example.com", password: "x", phone: "555-0100", role: "user" });
+  return startSession(store, user, { userAgent: "test" });
+}
+
+test("signing a session out closes the sockets it opened and refuses new ones", async () => {
+  const store = new MemStorage();
+  const tokens = await signedIn(store);
+  const server = await listening(store);
+  try {
+    const socket = server.connect(tokens.token);
+    await new Promise((resolve, reject) => {
+      socket.once("open", resolve);
+      socket.once("error", reject);
+    });
+    const closed = new Promise<number>(resolve => socket.once("close", resolve));
+
+    await endSession(store, tokens.refreshToken);
+    assert.equal(await closed, sessionEndedCloseCode);
+
+    // The access token hasn't expired, but its session has
+    const retry = server.connect(tokens.token);
+    const error = await new Promise<Error>(resolve => retry.once("error", resolve));
+    assert.match(error.message, /401/);
+  } finally {
+    server.close();
+  }
+});
@@ -0,0 +1,228 @@
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import type { Request, Response } from "express";
+import { WebSocket, WebSocketServer } from "ws";
+import { storage, type IStorage } from "./storage";
+import { bookingEvents, notificationEvents, sessionEvents, type BookingEvents } from "./events";
+import { verifyAccessToken, type AuthUser } from "./auth";
+import { isTokenSessionActive } from "./sessions";
+import { notificationPageSize } from "./notifications";
+import { realtimePath, type RealtimeMessage } from "../shared/realtime";
+import { hasPermission } from "../shared/permissions";
+import type { Booking } from "../shared/schema";
+
+// How long one server-sent events response stays open before the browser reconnects
+const sseWindowMs = parseInt(process.env.REALTIME_SSE_WINDOW_SECONDS || '8', 10) * 1000;
+const ssePollMs = 2000;
+const heartbeatMs = 30_000;
+// Close code telling the browser to reconnect with a fresh token, or sign in again
+export const sessionEndedCloseCode = 4001;
+
+interface Client {
+  socket: WebSocket;
+  // Carries the session id, so signing that session out closes the socket
+  user: AuthUser;
+  // The socket closes when the token it was opened with expires
+  expiresAt: Date | null;
+  expiryTimer?: NodeJS.Timeout;
+  alive: boolean;
+}
+
+const clients = new Set<Client>();
+
+function send(recipients: (user: AuthUser) => boolean, message: RealtimeMessage) {
+  const data = JSON.stringify(message);
+  for (const client of Array.from(clients)) {
+    if (client.socket.readyState === WebSocket.OPEN && recipients(client.user)) {
+      client.socket.send(data);
+    }
+  }
+}
+
+// Every plumber a booking event concerns, including ones it was just taken from
+function involvedPlumberIds(payload: BookingEvents[keyof BookingEvents]) {
+  const ids = [payload.booking.assignedPlumber];
+  if ('plumberId' in payload) ids.push(payload.plumberId);
+  if ('previous' in payload) ids.push(payload.previous?.plumberId ?? null);
+  if ('releasedPlumberId' in payload) ids.push(payload.releasedPlumberId);
+  if ('previousPlumberId' in payload) ids.push(payload.previousPlumberId);
+  return Array.from(new Set(ids.filter((id): id is string => !!id)));
+}
+
+const bookingEventNames: Array<keyof BookingEvents> = [
+  "booking.created",
+  "booking.assigned",
+  "booking.accepted",
+  "booking.started",
+  "booking.completed",
+  "booking.cancelled",
+  "booking.escalated",
+  "booking.updated",
+];
+
+let listening = false;
+
+function listenForEvents(store: IStorage) {
+  if (listening) return;
+  listening = true;
+
+  for (const event of bookingEventNames) {
+    bookingEvents.on(event, async (payload) => {
+      if (clients.size === 0) return;
+      const plumberUserIds: string[] = [];
+      for (const plumberId of involvedPlumberIds(payload)) {
+        const plumber = await store.getPlumber(plumberId);
+        if (plumber) plumberUserIds.push(plumber.userId);
+      }
+      const { booking } = payload;
+      send(
+        user => hasPermission(user.role, 'bookings:view-all') || user.userId === booking.userId || plumberUserIds.includes(user.userId),
+        { type: 'booking', event, bookingId: booking.id },
+      );
+    });
+  }
+
+  notificationEvents.on("notification.created", ({ notification }) => {
+    send(user => user.userId === notification.userId, { type: 'notification', notification });
+  });
+
+  sessionEvents.on("sessions.revoked", async ({ userId }) => {
+    for (const client of Array.from(clients)) {
+      if (client.user.userId !== userId) continue;
+      if (!await isTokenSessionActive(store, client.user)) {
+        client.socket.close(sessionEndedCloseCode, "Session ended");
+      }
+    }
+  });
+}
+
+function rejectUpgrade(socket: Duplex, status: string) {
+  socket.write(`HTTP/1.1 ${status}\r\nConnection: close\r\n\r\n`);
+  socket.destroy();
+}
+
+/**
+ * Pushes booking and notification events to signed-in dashboards over a
+ * WebSocket at realtimePath. Browsers can't set headers on a WebSocket, so
+ * the access token comes in the query string. The token is only checked once,
+ * so the socket closes when it expires or its session is signed out, and the
+ * browser reconnects with a refreshed token if it still has one.
+ */
+export function attachRealtimeServer(server: Server, store: IStorage = storage) {
+  listenForEvents(store);
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", async (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (url.pathname !== realtimePath) return;
+
+    const user = verifyAccessToken(url.searchParams.get("token") ?? "");
+    if (!user) return rejectUpgrade(socket, "401 Unauthorized");
+    try {
+      if (!await isTokenSessionActive(store, user)) return rejectUpgrade(socket, "401 Unauthorized");
+    } catch (error) {
+      console.error('Realtime session check error:', error);
+      return rejectUpgrade(socket, "500 Internal Server Error");
+    }
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      const client: Client = {
+        socket: ws,
+        user,
+        expiresAt: user.exp ? new Date(user.exp * 1000) : null,
+        alive: true,
+      };
+      if (client.expiresAt) {
+        client.expiryTimer = setTimeout(
+          () => ws.close(sessionEndedCloseCode, "Access token expired"),
+          Math.max(0, client.expiresAt.getTime() - Date.now()),
+        );
+        client.expiryTimer.unref();
+      }
+      clients.add(client);
+      ws.on("pong", () => { client.alive = true; });
+      ws.on("close", () => {
+        clearTimeout(client.expiryTimer);
+        clients.delete(client);
+      });
+      ws.on("error", (error) => console.error('Realtime socket error:', error));
+    });
+  });
+
+  // Drops connections that went away without closing, e.g. a laptop lid shut
+  const heartbeat = setInterval(() => {
+    for (const client of Array.from(clients)) {
+      if (!client.alive) {
+        client.socket.terminate();
+        clients.delete(client);
+        continue;
+      }
+      client.alive = false;
+      client.socket.ping();
+    }
+  }, heartbeatMs);
+  heartbeat.unref();
+  wss.on("close", () => clearInterval(heartbeat));
+
+  return wss;
+}
+
+async function getVisibleBookings(store: IStorage, user: AuthUser): Promise<Booking[]> {
+  if (hasPermission(user.role, 'bookings:view-all')) return await store.getAllBookings();
+  if (user.role === 'plumber') {
+    const plumber = await store.getPlumberByUserId(user.userId);
+    return plumber ? await store.getBookingsByPlumberId(plumber.id) : [];
+  }
+  return await store.getBookingsByUserId(user.userId);
+}
+
+async function collectChanges(store: IStorage, user: AuthUser, since: Date): Promise<RealtimeMessage[]> {
+  const isNew = (date: Date | null) => !!date && new Date(date).getTime() > since.getTime();
+  const bookings = (await getVisibleBookings(store, user)).filter(booking => isNew(booking.updatedAt));
+  const notifications = (await store.getNotificationsByUserId(user.userId, notificationPageSize))
+    .filter(notification => isNew(notification.createdAt));
+  return [
+    ...bookings.map((booking): RealtimeMessage => ({ type: 'booking', event: "booking.updated", bookingId: booking.id })),
+    ...notifications.map((notification): RealtimeMessage => ({ type: 'notification', notification })),
+  ];
+}
+
+/**
+ * The fallback for serverless hosts, where instances share no memory and
+ * responses are buffered until they end. Instead of listening for events it
+ * polls for bookings and notifications that changed since the browser's
+ * Last-Event-ID, then closes after a short window so the browser reconnects.
+ * Quotes don't touch their booking, so a new quote only shows up here through
+ * the notification it raises, or on the next booking change.
+ */
+export async function streamRealtimeEvents(req: Request, res: Response, user: AuthUser, store: IStorage = storage) {
+  // The header is set by the browser's own reconnects, the query by the client reopening with a new token
+  const lastEventId = parseInt(String(req.headers['last-event-id'] ?? req.query.lastEventId ?? ''), 10);
+  let cursor = Number.isNaN(lastEventId) ? new Date() : new Date(lastEventId);
+
+  let closed = false;
+  req.on("close", () => { closed = true; });
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    "Connection": "keep-alive",
+  });
+  res.write(`retry: ${ssePollMs}\n\n`);
+
+  const deadline = Date.now() + sseWindowMs;
+  while (!closed) {
+    const polledAt = new Date();
+    const messages = await collectChanges(store, user, cursor);
+    cursor = polledAt;
+    // An id with no data still moves the browser's Last-Event-ID forward
+    if (messages.length === 0) res.write(`id: ${cursor.getTime()}\n\n`);
+    for (const message of messages) {
+      res.write(`id: ${cursor.getTime()}\ndata: ${JSON.stringify(message)}\n\n`);
+    }
+
+    if (Date.now() + ssePollMs >= deadline) break;
+    await new Promise(resolve => setTimeout(resolve, ssePollMs));
+  }
+  res.end();
+}
@@ -0,0 +1,27 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MemStorage } from "./mem-storage";
+import { convertWholeStarRatings } from "./reviews";
+
+async function plumberRated(store: MemStorage, email: string, rating: number) {
+  const { plumber } = await store.createPlumberWithUser(
+    { name: "Pat Plumber", email, password: "x", phone: "555-0101", role: "plumber" },
+    { licenseNumber: email, rating },
+  );
+  return plumber.id;
+}
+
+test("whole-star ratings are converted to tenths once, leaving converted and unrated plumbers alone", async () => {
+  const store = new MemStorage();
+  const wholeStars = await plumberRated(store, "old@example.com", 4);
+  const tenths = await plumberRated(store, "new@example.com", 45);
+  const unrated = await plumberRated(store, "none@example.com", 0);
+
+  assert.equal(await convertWholeStarRatings(store), 1);
+  assert.equal((await store.getPlumber(wholeStars))?.rating, 40);
+  assert.equal((await store.getPlumber(tenths))?.rating, 45);
+  assert.equal((await store.getPlumber(unrated))?.rating, 0);
+
+  assert.equal(await convertWholeStarRatings(store), 0);
+  assert.equal((await store.getPlumber(wholeStars))?.rating, 40);
+});
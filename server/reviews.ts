@@ -0,0 +1,37 @@
+import type { IStorage } from "./storage";
+
+/**
+ * Recalculates a plumber's rating and review count from their published
+ * reviews. Call inside storage.withTransaction after locking the plumber with
+ * getPlumberForUpdate, so two reviews landing together can't overwrite each other.
+ */
+export async function recomputePlumberRating(tx: IStorage, plumberId: string) {
+  const published = (await tx.getReviewsByPlumberId(plumberId)).filter(review => review.status === 'published');
+  const totalStars = published.reduce((sum, review) => sum + review.rating, 0);
+
+  return await tx.updatePlumber(plumberId, {
+    // Stored in tenths of a star, like the rest of the plumbers table
+    rating: published.length > 0 ? Math.round((totalStars * 10) / published.length) : 0,
+    reviewCount: published.length,
+  });
+}
+
+/**
+ * Plumber ratings used to be whole stars and are now tenths of a star. A
+ * published average is never below one star, so any rating from 1 to 5 is
+ * still in the old unit; converting it is safe to run more than once.
+ * Returns how many plumbers were converted.
+ */
+export async function convertWholeStarRatings(store: IStorage): Promise<number> {
+  let converted = 0;
+  for (const { id } of await store.getAllPlumbers()) {
+    await store.withTransaction(async (tx) => {
+      const plumber = await tx.getPlumberForUpdate(id);
+      const rating = plumber?.rating ?? 0;
+      if (rating < 1 || rating > 5) return;
+      await tx.updatePlumber(id, { rating: rating * 10 });
+      converted++;
+    });
+  }
+  return converted;
+}
@@ -0,0 +1,53 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { AddressInfo } from "net";
+import express from "express";
+
+// The routes use the shared storage, which picks its driver when first imported
+process.env.STORAGE_DRIVER = "memory";
+const { registerRoutes } = await import("./routes");
+
+async function listening() {
+  const app = express();
+  app.use(express.json());
+  await registerRoutes(app);
+  const server = app.listen(0, "127.0.0.1");
+  await new Promise(resolve => server.once("listening", resolve));
+  const { port } = server.address() as AddressInfo;
+  const post = (path: string, body: unknown) => fetch(`http://127.0.0.1:${port}${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  return { post, close: () => server.close() };
+}
+
+test("someone who signs up with a mixed-case email can sign in with it", async () => {
+  const server = await listening();
+  try {
+    const signup = await server.post("/api/auth/register", {
+      name: "Casey Customer", email: " Casey@Example.com", password: "password1", phone: "555-0100", role: "user",
+    });
+    assert.equal(signup.status, 200);
+    assert.equal((await signup.json()).user.email, "casey@example.com");
+
+    const login = await server.post("/api/auth/login", { email: "Casey@Example.com", password: "password1" });
+    assert.equal(login.status, 200);
+  } finally {
+    server.close();
+  }
+});
+
+test("two sign-ups racing with one email get one account and a plain refusal", async () => {
+  const server = await listening();
+  try {
+    const signup = { name: "Riley Racer", email: "riley@example.com", password: "password1", phone: "555-0101", role: "user" };
+    const responses = await Promise.all([server.post("/api/auth/register", signup), server.post("/api/auth/register", signup)]);
+
+    assert.deepEqual(responses.map(response => response.status).sort(), [200, 400]);
+    const refused = await responses.find(response => response.status === 400)!.json();
+    assert.deepEqual(refused, { message: "User already exists with this email" });
+  } finally {
+    server.close();
+  }
+});
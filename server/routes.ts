@@ -1,145 +1,153 @@
-import type { Express } from "express";
-import { storage } from "./storage";
-import { insertUserSchema, insertPlumberSchema, insertBookingSchema } from "../shared/schema";
+import type { Express, Request } from "express";
+import { isUniqueViolation, storage, type IStorage } from "./storage";
+import { requireAuth, requirePermission, verifyAccessToken, withUser, type AuthUser } from "./auth";
+import { endSession, isSessionActive, isTokenSessionActive, refreshSession, SessionError, startSession, toDeviceSummary, type ClientInfo } from "./sessions";
+import { AccountTokenError, requestPasswordReset, resetPassword, sendEmailVerification, verifyEmail } from "./account-tokens";
+import { acceptAdminInvite, AdminInviteError, createAdminInvite, findPendingInvite, getInviteStatus, toInviteSummary } from "./admin-invites";
+import { blobStore } from "./blob-store";
+import { assertLoginAllowed, byEmail, byIp, byUser, clearLoginFailures, rateLimit, RateLimitError, rateLimits, recordLoginFailure, sendRateLimited } from "./rate-limiter";
+import { assignPlumberToBooking, closeAssignment, reassignPlumber, redispatchBooking } from "./dispatch";
+import { getPlumbersWithUsers, toSafeUser } from "./plumbers";
+import type { ServiceArea } from "../shared/geo";
+import { geocoder } from "./geocoder";
+import { findNextAvailableSlot, getSlotAvailability } from "./slot-availability";
+import { getSlotWindow } from "../shared/scheduling";
+import { recomputePlumberRating } from "./reviews";
+import { billCancellation, issueInvoice, renderInvoiceHtml } from "./invoices";
+import { capturePayment, getPendingRefundTotal, issueRefund, PaymentConflictError, receivePaymentWebhook, startPayment } from "./payments";
+import { fakeCheckoutProvider, PaymentsDisabledError, requirePaymentProvider, WebhookSignatureError } from "./payment-provider";
+import { bookingEvents, sessionEvents, type BookingEvents } from "./events";
+import { streamRealtimeEvents } from "./realtime";
+import { realtimeEventsPath } from "../shared/realtime";
+import { notificationPageSize, registerNotificationListeners } from "./notifications";
+import { deliverMessage, getNotificationPreferences, outboundMessagePageSize, registerMessageListeners } from "./messaging";
+import { MessagingDisabledError } from "./message-transport";
+import { generatePayoutBatch, getBatchPayouts, markPayoutBatchPaid, PayoutConflictError, renderEarningsCsv } from "./earnings";
+import { calculateQuoteTotals } from "../shared/pricing";
+import { canTransition, getAllowedTransitions, isBookingStatus } from "../shared/booking-status";
+import { hasPermission, type Permission } from "../shared/permissions";
+import { defaultCancellationPolicy, getCancellationTerms, getRefundTerms, type CancellationPolicy } from "../shared/cancellation-policy";
+import { registerUserSchema, insertPlumberSchema, createBookingSchema, onboardPlumberSchema, cancelBookingSchema, updateServiceAreaSchema, insertPlumberDocumentSchema, reviewPlumberDocumentSchema, verifyPlumberSchema, workingHoursSchema, insertPlumberTimeOffSchema, availabilityQuerySchema, submitReviewSchema, replyToReviewSchema, moderateReviewSchema, submitQuoteSchema, respondToQuoteSchema, completeBookingSchema, fakeCheckoutSchema, issueRefundSchema, earningsQuerySchema, refreshTokenSchema, passwordResetRequestSchema, passwordResetConfirmSchema, verifyEmailSchema, createAdminInviteSchema, adminInviteTokenSchema, acceptAdminInviteSchema, updateNotificationPreferencesSchema, outboundMessagesQuerySchema, requiredDocumentTypes, type DocumentType, type Booking, type Earning, type InsertBooking, type Review, type User } from "../shared/schema";
+import { z } from "zod";
 import bcrypt from "bcryptjs";
-import jwt from "jsonwebtoken";
+import multer from "multer";
 
-const JWT_SECRET = process.env.SESSION_SECRET || "your-secret-key";
+const allowedDocumentMimeTypes = ["application/pdf", "image/jpeg", "image/png"];
 
-// Middleware for authentication
-function authenticateToken(req: any, res: any, next: any) {
-  const authHeader = req.headers['authorization'];
-  const token = authHeader && authHeader.split(' ')[1];
+const documentUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 10 * 1024 * 1024, files: 1 },
+  fileFilter: (_req, file, cb) => cb(null, allowedDocumentMimeTypes.includes(file.mimetype)),
+});
 
-  if (!token) {
-    return res.status(401).json({ message: 'Access token required' });
-  }
-
-  jwt.verify(token, JWT_SECRET, (err: any, user: any) => {
-    if (err) {
-      return res.status(403).json({ message: 'Invalid or expired token' });
-    }
-    req.user = user;
-    next();
-  });
+// Staff with the given permission can manage any plumber's profile or documents; plumbers only their own
+async function canManagePlumber(user: AuthUser, plumberId: string, permission: Permission = 'plumbers:manage-schedule') {
+  if (hasPermission(user.role, permission)) return true;
+  if (user.role !== 'plumber') return false;
+  const plumber = await storage.getPlumberByUserId(user.userId);
+  return plumber?.id === plumberId;
 }
 
-// Plumber assignment algorithm
-async function assignPlumberToBooking(bookingId: string, category: string) {
-  try {
-    const availablePlumbers = await storage.getAvailablePlumbers(category);
-
-    if (availablePlumbers.length === 0) {
-      console.log(`No available plumbers for category: ${category}`);
-      return null;
-    }
-
-    // Simple assignment: pick the plumber with the highest rating
-    const assignedPlumber = availablePlumbers.sort((a, b) => (b.rating || 0) - (a.rating || 0))[0];
-
-    // Update booking with assigned plumber
-    const booking = await storage.updateBooking(bookingId, {
-      assignedPlumber: assignedPlumber.id,
-      status: 'assigned',
-      assignmentHistory: [{
-        plumberId: assignedPlumber.id,
-        assignedAt: new Date(),
-        status: 'assigned',
-      }]
-    });
-
-    console.log(`Plumber ${assignedPlumber.id} assigned to booking ${bookingId}`);
-    return assignedPlumber;
-  } catch (error) {
-    console.error('Error assigning plumber:', error);
-    return null;
-  }
+// The customer, the assigned plumber and staff who can see all bookings can see a booking's details
+async function canViewBooking(user: AuthUser, booking: Booking) {
+  if (hasPermission(user.role, 'bookings:view-all')) return true;
+  if (user.role === 'user') return booking.userId === user.userId;
+  return !!booking.assignedPlumber && await canManagePlumber(user, booking.assignedPlumber);
 }
 
-// Re-assign plumber when job is rejected
-async function reassignPlumber(bookingId: string, rejectedPlumberId: string) {
-  try {
-    const booking = await storage.getBooking(bookingId);
-    if (!booking) return null;
-
-    const availablePlumbers = await storage.getAvailablePlumbers(booking.category);
-    const filteredPlumbers = availablePlumbers.filter(p => p.id !== rejectedPlumberId);
-
-    if (filteredPlumbers.length === 0) {
-      await storage.updateBooking(bookingId, {
-        status: 'pending',
-        assignedPlumber: null,
-      });
-      return null;
-    }
+// Superseded versions are never accepted, so any accepted quote is the current one
+async function hasAcceptedQuote(store: IStorage, bookingId: string) {
+  const quotes = await store.getQuotesByBookingId(bookingId);
+  return quotes.some(quote => quote.status === 'accepted');
+}
 
-    const nextPlumber = filteredPlumbers.sort((a, b) => (b.rating || 0) - (a.rating || 0))[0];
+// For changes with no lifecycle event of their own, so open dashboards still refresh
+async function announceBookingChange(bookingId: string, change: BookingEvents["booking.updated"]["change"]) {
+  const booking = await storage.getBooking(bookingId);
+  if (booking) await bookingEvents.emit("booking.updated", { booking, change });
+}
 
-    const updatedHistory = [...(booking.assignmentHistory || []), {
-      plumberId: nextPlumber.id,
-      assignedAt: new Date(),
-      status: 'assigned',
-    }];
+// Recorded on each session so the Devices list can tell them apart
+function getClientInfo(req: Request): ClientInfo {
+  return { userAgent: req.get('user-agent'), ipAddress: req.ip };
+}
 
-    await storage.updateBooking(bookingId, {
-      assignedPlumber: nextPlumber.id,
-      status: 'assigned',
-      assignmentHistory: updatedHistory,
-    });
+// The signed-in user as the client stores it
+function toAuthUser(user: User) {
+  return { id: user.id, name: user.name, email: user.email, role: user.role, emailVerified: !!user.emailVerifiedAt };
+}
 
-    console.log(`Booking ${bookingId} reassigned to plumber ${nextPlumber.id}`);
-    return nextPlumber;
-  } catch (error) {
-    console.error('Error reassigning plumber:', error);
-    return null;
-  }
+// Required document types that have no approved, unexpired upload
+async function getMissingRequiredDocuments(plumberId: string): Promise<DocumentType[]> {
+  const documents = await storage.getPlumberDocuments(plumberId);
+  const now = new Date();
+  return requiredDocumentTypes.filter(type => !documents.some(d =>
+    d.type === type && d.status === 'approved' && (!d.expiresAt || new Date(d.expiresAt) > now)
+  ));
 }
 
+const cancellationPolicy: CancellationPolicy = {
+  freeCancellationHours: Number(process.env.CANCELLATION_FREE_HOURS ?? defaultCancellationPolicy.freeCancellationHours),
+  lateCancellationFeePercent: Number(process.env.CANCELLATION_LATE_FEE_PERCENT ?? defaultCancellationPolicy.lateCancellationFeePercent),
+};
+
 export async function registerRoutes(app: Express) {
+  registerNotificationListeners();
+  registerMessageListeners();
+
   // Auth routes
-  app.post("/api/auth/register", async (req, res) => {
+  app.post("/api/auth/register", rateLimit(rateLimits.registerPerIp, byIp), async (req, res) => {
     try {
-      const userData = insertUserSchema.parse(req.body);
+      // Only customers and plumbers can sign themselves up; staff are invited
+      const userData = registerUserSchema.parse(req.body);
       const existingUser = await storage.getUserByEmail(userData.email);
       if (existingUser) {
         return res.status(400).json({ message: "User already exists with this email" });
       }
 
       const hashedPassword = await bcrypt.hash(userData.password, 10);
-      const user = await storage.createUser({
-        ...userData,
-        password: hashedPassword,
-      });
-
-      if (userData.role === 'plumber') {
-        await storage.createPlumber({
-          userId: user.id,
-          specializations: [],
-          isAvailable: false,
-          isVerified: false,
-          experienceYears: 0,
-          rating: 0,
-          totalJobs: 0,
+      // A plumber's profile is written with the account so a failed insert never leaves a plumber login without one
+      const user = await storage.withTransaction(async (tx) => {
+        const user = await tx.createUser({
+          ...userData,
+          password: hashedPassword,
         });
-      }
 
-      const token = jwt.sign(
-        { userId: user.id, email: user.email, role: user.role },
-        JWT_SECRET,
-        { expiresIn: '24h' }
-      );
+        if (userData.role === 'plumber') {
+          await tx.createPlumber({
+            userId: user.id,
+            specializations: [],
+            isAvailable: false,
+            isVerified: false,
+            experienceYears: 0,
+            rating: 0,
+            totalJobs: 0,
+          });
+        }
+        return user;
+      });
+
+      // Registration still succeeds if the email can't be sent; the dashboard offers a resend
+      await sendEmailVerification(storage, user).catch(error => console.error('Send verification email error:', error));
 
       res.json({
-        user: { id: user.id, name: user.name, email: user.email, role: user.role },
-        token,
+        user: toAuthUser(user),
+        ...await startSession(storage, user, getClientInfo(req)),
       });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid registration details", errors: error.errors });
+      }
+      // The check above can race a concurrent sign-up; the constraint has the final say
+      if (isUniqueViolation(error, "users_email_unique")) {
+        return res.status(400).json({ message: "User already exists with this email" });
+      }
       console.error('Registration error:', error);
-      res.status(400).json({ message: "Registration failed", error: error instanceof Error ? error.message : 'Unknown error' });
+      res.status(500).json({ message: "Registration failed" });
     }
   });
 
-  app.post("/api/auth/login", async (req, res) => {
+  app.post("/api/auth/login", rateLimit(rateLimits.loginPerIp, byIp), async (req, res) => {
     try {
       const { email: rawEmail, password } = req.body;
       const email = rawEmail?.toLowerCase().trim();
@@ -148,32 +156,264 @@ export async function registerRoutes(app: Express) {
         return res.status(400).json({ message: "Email and password are required" });
       }
 
-      const user = await storage.getUserByEmail(email);
-      if (!user) {
-        return res.status(401).json({ message: "Invalid credentials" });
-      }
+      // A locked account is refused even with the right password, so guessing gains nothing
+      await assertLoginAllowed(email);
 
-      const isPasswordValid = await bcrypt.compare(password, user.password);
-      if (!isPasswordValid) {
+      const user = await storage.getUserByEmail(email);
+      if (!user || !await bcrypt.compare(password, user.password)) {
+        await recordLoginFailure(email);
         return res.status(401).json({ message: "Invalid credentials" });
       }
-
-      const token = jwt.sign(
-        { userId: user.id, email: user.email, role: user.role },
-        JWT_SECRET,
-        { expiresIn: '24h' }
-      );
+      await clearLoginFailures(email);
 
       res.json({
-        user: { id: user.id, name: user.name, email: user.email, role: user.role },
-        token,
+        user: toAuthUser(user),
+        ...await startSession(storage, user, getClientInfo(req)),
       });
     } catch (error) {
+      if (error instanceof RateLimitError) {
+        return sendRateLimited(res, error);
+      }
       console.error('Login error:', error);
       res.status(500).json({ message: "Login failed" });
     }
   });
 
+  app.post("/api/auth/refresh", async (req, res) => {
+    try {
+      const { refreshToken } = refreshTokenSchema.parse(req.body);
+      const { user, ...tokens } = await refreshSession(storage, refreshToken, getClientInfo(req));
+      res.json({
+        user: toAuthUser(user),
+        ...tokens,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid refresh request", errors: error.errors });
+      }
+      if (error instanceof SessionError) {
+        return res.status(401).json({ message: error.message });
+      }
+      console.error('Refresh session error:', error);
+      res.status(500).json({ message: "Failed to refresh session" });
+    }
+  });
+
+  // Takes the refresh token rather than an access token, so signing out works after the access token expires
+  app.post("/api/auth/logout", async (req, res) => {
+    try {
+      const { refreshToken } = refreshTokenSchema.parse(req.body);
+      await endSession(storage, refreshToken);
+      res.status(204).end();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid logout request", errors: error.errors });
+      }
+      console.error('Logout error:', error);
+      res.status(500).json({ message: "Failed to log out" });
+    }
+  });
+
+  // Always answers the same way, so it can't be used to find out who has an account
+  app.post("/api/auth/password-reset/request", rateLimit(rateLimits.passwordResetPerIp, byIp), rateLimit(rateLimits.passwordResetPerAccount, byEmail), async (req, res) => {
+    try {
+      const { email } = passwordResetRequestSchema.parse(req.body);
+      await requestPasswordReset(storage, email).catch(error => console.error('Password reset email error:', error));
+      res.status(202).json({ message: "If an account exists for that email, we've sent a link to reset the password." });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Please enter a valid email address", errors: error.errors });
+      }
+      console.error('Password reset request error:', error);
+      res.status(500).json({ message: "Failed to request a password reset" });
+    }
+  });
+
+  app.post("/api/auth/password-reset/confirm", rateLimit(rateLimits.passwordResetPerIp, byIp), async (req, res) => {
+    try {
+      const { token, password } = passwordResetConfirmSchema.parse(req.body);
+      await resetPassword(storage, token, password);
+      res.json({ message: "Your password has been reset. Please sign in with your new password." });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid password reset", errors: error.errors });
+      }
+      if (error instanceof AccountTokenError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('Password reset error:', error);
+      res.status(500).json({ message: "Failed to reset password" });
+    }
+  });
+
+  // Works without signing in, since the link is often opened on another device
+  app.post("/api/auth/verify-email", async (req, res) => {
+    try {
+      const { token } = verifyEmailSchema.parse(req.body);
+      const user = await verifyEmail(storage, token);
+      res.json({ message: "Your email address is confirmed.", user: toAuthUser(user) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid verification request", errors: error.errors });
+      }
+      if (error instanceof AccountTokenError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('Verify email error:', error);
+      res.status(500).json({ message: "Failed to verify email" });
+    }
+  });
+
+  app.post("/api/auth/verify-email/resend", requireAuth, withUser(async (req, res) => {
+    try {
+      const user = await storage.getUser(req.user.userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (user.emailVerifiedAt) {
+        return res.status(409).json({ message: "Your email address is already confirmed" });
+      }
+      await sendEmailVerification(storage, user);
+      res.status(202).json({ message: `We've sent a new link to ${user.email}.` });
+    } catch (error) {
+      if (error instanceof MessagingDisabledError) {
+        return res.status(503).json({ message: "Email is not available at the moment" });
+      }
+      console.error('Resend verification email error:', error);
+      res.status(500).json({ message: "Failed to send verification email" });
+    }
+  }));
+
+  // Devices: the signed-in user's active sessions
+  app.get("/api/sessions", requireAuth, withUser(async (req, res) => {
+    try {
+      const sessions = await storage.getSessionsByUserId(req.user.userId);
+      res.json(sessions.filter(session => isSessionActive(session)).map(session => toDeviceSummary(session, req.user.sessionId)));
+    } catch (error) {
+      console.error('Fetch sessions error:', error);
+      res.status(500).json({ message: "Failed to fetch devices" });
+    }
+  }));
+
+  app.delete("/api/sessions/:id", requireAuth, withUser(async (req, res) => {
+    try {
+      const session = await storage.getSession(req.params.id);
+      if (!session || session.userId !== req.user.userId || !isSessionActive(session)) {
+        return res.status(404).json({ message: "Device not found" });
+      }
+      await storage.updateSession(session.id, { revokedAt: new Date() });
+      await sessionEvents.emit("sessions.revoked", { userId: session.userId });
+      res.status(204).end();
+    } catch (error) {
+      console.error('Revoke session error:', error);
+      res.status(500).json({ message: "Failed to sign out device" });
+    }
+  }));
+
+  // Signs out every device except the one making the request
+  app.post("/api/sessions/revoke-others", requireAuth, withUser(async (req, res) => {
+    try {
+      const others = (await storage.getSessionsByUserId(req.user.userId))
+        .filter(session => session.id !== req.user.sessionId && isSessionActive(session));
+      const revokedAt = new Date();
+      for (const session of others) {
+        await storage.updateSession(session.id, { revokedAt });
+      }
+      if (others.length > 0) await sessionEvents.emit("sessions.revoked", { userId: req.user.userId });
+      res.json({ revoked: others.length });
+    } catch (error) {
+      console.error('Revoke other sessions error:', error);
+      res.status(500).json({ message: "Failed to sign out other devices" });
+    }
+  }));
+
+  // Staff invites: the only way to add an admin, dispatcher or support account once the first admin exists
+  app.get("/api/admin-invites", requirePermission('staff:invite'), withUser(async (req, res) => {
+    try {
+      const invites = await storage.getAdminInvites();
+      res.json(invites.map(invite => toInviteSummary(invite)));
+    } catch (error) {
+      console.error('Fetch admin invites error:', error);
+      res.status(500).json({ message: "Failed to fetch invites" });
+    }
+  }));
+
+  app.post("/api/admin-invites", requirePermission('staff:invite'), withUser(async (req, res) => {
+    try {
+      const { email, role } = createAdminInviteSchema.parse(req.body);
+      const inviter = await storage.getUser(req.user.userId);
+      if (!inviter) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      const invite = await createAdminInvite(storage, inviter, email, role);
+      res.status(201).json(toInviteSummary(invite));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Please enter a valid email address and role", errors: error.errors });
+      }
+      if (error instanceof AdminInviteError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error('Create admin invite error:', error);
+      res.status(500).json({ message: "Failed to send invite" });
+    }
+  }));
+
+  app.delete("/api/admin-invites/:id", requirePermission('staff:invite'), withUser(async (req, res) => {
+    try {
+      const invite = await storage.getAdminInvite(req.params.id);
+      if (!invite) {
+        return res.status(404).json({ message: "Invite not found" });
+      }
+      if (getInviteStatus(invite) !== 'pending') {
+        return res.status(409).json({ message: `This invite is already ${getInviteStatus(invite)}` });
+      }
+      await storage.updateAdminInvite(invite.id, { revokedAt: new Date() });
+      res.status(204).end();
+    } catch (error) {
+      console.error('Revoke admin invite error:', error);
+      res.status(500).json({ message: "Failed to revoke invite" });
+    }
+  }));
+
+  // Tells the accept page which address an invite is for, before the invitee signs up
+  app.post("/api/admin-invites/preview", async (req, res) => {
+    try {
+      const { token } = adminInviteTokenSchema.parse(req.body);
+      const invite = await findPendingInvite(storage, token);
+      res.json({ email: invite.email, role: invite.role, expiresAt: invite.expiresAt });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid invite", errors: error.errors });
+      }
+      if (error instanceof AdminInviteError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('Preview admin invite error:', error);
+      res.status(500).json({ message: "Failed to load invite" });
+    }
+  });
+
+  app.post("/api/admin-invites/accept", async (req, res) => {
+    try {
+      const details = acceptAdminInviteSchema.parse(req.body);
+      const user = await acceptAdminInvite(storage, details);
+      res.status(201).json({
+        user: toAuthUser(user),
+        ...await startSession(storage, user, getClientInfo(req)),
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid account details", errors: error.errors });
+      }
+      if (error instanceof AdminInviteError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('Accept admin invite error:', error);
+      res.status(500).json({ message: "Failed to accept invite" });
+    }
+  });
+
   // Categories
   app.get("/api/categories", async (req, res) => {
     try {
@@ -185,15 +425,39 @@ export async function registerRoutes(app: Express) {
   });
 
   // Bookings
-  app.post("/api/bookings", authenticateToken, async (req: any, res) => {
+  app.post("/api/bookings", requireAuth, rateLimit(rateLimits.bookingPerIp, byIp), rateLimit(rateLimits.bookingPerAccount, byUser), withUser(async (req, res) => {
     try {
-      const bookingData = insertBookingSchema.parse({
+      const { slot, ...bookingFields } = createBookingSchema.parse({
         ...req.body,
         userId: req.user.userId,
       });
+      const bookingData: InsertBooking = { ...bookingFields, status: 'pending', assignedPlumber: null };
+      if (slot) {
+        // Same conversion the booking form used to show the slot, so both agree on the instant
+        const window = getSlotWindow(slot.date, slot.start, slot.timeZone);
+        if (window.start <= new Date()) {
+          return res.status(400).json({ message: "That time slot has already started" });
+        }
+        bookingData.preferredDate = window.start;
+        bookingData.preferredEndDate = window.end;
+        bookingData.timeZone = window.timeZone;
+      }
+
+      // Coordinates always come from our geocoder, never from the client
+      const location = await geocoder.geocode(bookingData.address);
+      bookingData.latitude = location?.lat ?? null;
+      bookingData.longitude = location?.lng ?? null;
+
+      // Creation and assignment commit together, so a failed assignment never leaves a half-made booking
+      const { booking, assignedPlumber } = await storage.withTransaction(async (tx) => {
+        const created = await tx.createBooking(bookingData);
+        return await assignPlumberToBooking(tx, created);
+      });
 
-      const booking = await storage.createBooking(bookingData);
-      const assignedPlumber = await assignPlumberToBooking(booking.id, booking.category);
+      await bookingEvents.emit("booking.created", { booking });
+      if (assignedPlumber) {
+        await bookingEvents.emit("booking.assigned", { booking, plumberId: assignedPlumber.id });
+      }
 
       res.json({
         booking,
@@ -206,12 +470,29 @@ export async function registerRoutes(app: Express) {
       console.error('Booking creation error:', error);
       res.status(400).json({ message: "Failed to create booking", error: error instanceof Error ? error.message : 'Unknown error' });
     }
-  });
+  }));
+
+  // Remaining capacity of each booking slot on a day, for the booking form
+  app.get("/api/availability", requireAuth, withUser(async (req, res) => {
+    try {
+      const { category, date, timeZone } = availabilityQuerySchema.parse(req.query);
+      const slots = await getSlotAvailability(storage, category, [date], timeZone);
+      const nextAvailable = slots.find(slot => slot.capacity > 0)
+        ?? await findNextAvailableSlot(storage, category, date, timeZone);
+      res.json({ category, date, timeZone, slots, nextAvailable });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid availability query", errors: error.errors });
+      }
+      console.error('Get availability error:', error);
+      res.status(500).json({ message: "Failed to fetch availability" });
+    }
+  }));
 
-  app.get("/api/bookings", authenticateToken, async (req: any, res) => {
+  app.get("/api/bookings", requireAuth, withUser(async (req, res) => {
     try {
-      let bookings: any[] = [];
-      if (req.user.role === 'admin') {
+      let bookings: Booking[] = [];
+      if (hasPermission(req.user.role, 'bookings:view-all')) {
         bookings = await storage.getAllBookings();
       } else if (req.user.role === 'plumber') {
         const plumber = await storage.getPlumberByUserId(req.user.userId);
@@ -224,64 +505,1074 @@ export async function registerRoutes(app: Express) {
       console.error('Fetch bookings error:', error);
       res.status(500).json({ message: "Failed to fetch bookings" });
     }
-  });
+  }));
 
-  app.patch("/api/bookings/:id/status", authenticateToken, async (req: any, res) => {
+  app.patch("/api/bookings/:id/status", requireAuth, withUser(async (req, res) => {
     try {
       const { id } = req.params;
       const { status } = req.body;
+      const { role } = req.user;
+
+      if (!isBookingStatus(status)) {
+        return res.status(400).json({ message: "Invalid status" });
+      }
+      const { extras, extrasTaxRate } = completeBookingSchema.parse(status === 'completed' ? req.body : {});
 
       const booking = await storage.getBooking(id);
       if (!booking) return res.status(404).json({ message: "Booking not found" });
 
-      if (req.user.role === 'plumber') {
+      if (role === 'plumber') {
         const plumber = await storage.getPlumberByUserId(req.user.userId);
         if (!plumber || booking.assignedPlumber !== plumber.id) {
           return res.status(403).json({ message: "Not authorized" });
         }
+      } else if (role === 'user' && booking.userId !== req.user.userId) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
 
-        if (status === 'rejected') {
-          const newPlumber = await reassignPlumber(id, plumber.id);
-          return res.json({
-            message: newPlumber ? "Reassigned" : "No other plumbers",
-            reassigned: !!newPlumber
-          });
+      if (!canTransition(role, booking.status, status)) {
+        return res.status(409).json({
+          message: `Cannot change booking from ${booking.status} to ${status}`,
+          allowedStatuses: getAllowedTransitions(role, booking.status),
+        });
+      }
+
+      if (status === 'cancelled') {
+        return res.status(400).json({ message: "Use POST /api/bookings/:id/cancel to cancel a booking" });
+      }
+
+      // Work only starts on a price the customer has agreed to
+      if (status === 'in-progress' && !await hasAcceptedQuote(storage, id)) {
+        return res.status(409).json({ message: "The customer must accept a quote before work can start" });
+      }
+
+      if (status === 'rejected') {
+        const result = await reassignPlumber(id, booking.assignedPlumber!, 'rejected');
+        if (!result) {
+          return res.status(409).json({ message: "Booking was updated by someone else. Please refresh and try again." });
         }
+        return res.json({
+          message: result.plumber ? "Reassigned" : "No other plumbers",
+          reassigned: !!result.plumber
+        });
       }
 
-      const updatedBooking = await storage.updateBooking(id, { status });
+      const updatedBooking = await storage.withTransaction(async (tx) => {
+        // Re-checked under the row lock in case a concurrent request moved the booking first
+        const current = await tx.getBookingForUpdate(id);
+        if (!current || !canTransition(role, current.status, status)) return null;
+        if (status === 'in-progress' && !await hasAcceptedQuote(tx, id)) return null;
+
+        const changes: Partial<Booking> = { status };
+        if (status === 'accepted') {
+          changes.assignmentHistory = closeAssignment(current.assignmentHistory, current.assignedPlumber!, 'accepted');
+        } else if (status === 'pending' && current.assignedPlumber) {
+          changes.assignedPlumber = null;
+          changes.assignmentHistory = closeAssignment(current.assignmentHistory, current.assignedPlumber, 'unassigned');
+        }
+        const updated = await tx.updateBooking(id, changes);
+        // Billed in the same transaction, so a completed job always has its invoice
+        if (updated && status === 'completed') await issueInvoice(tx, updated, extras, extrasTaxRate);
+        return updated;
+      });
+
+      if (!updatedBooking) {
+        return res.status(409).json({ message: "Booking was updated by someone else. Please refresh and try again." });
+      }
+      if (status === 'accepted') {
+        await bookingEvents.emit("booking.accepted", { booking: updatedBooking });
+      } else if (status === 'in-progress') {
+        await bookingEvents.emit("booking.started", { booking: updatedBooking });
+      } else if (status === 'completed') {
+        await bookingEvents.emit("booking.completed", { booking: updatedBooking });
+      }
       res.json(updatedBooking);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid extras", errors: error.errors });
+      }
       console.error('Update status error:', error);
       res.status(500).json({ message: "Failed to update status" });
     }
+  }));
+
+  // Staff retry dispatch on a pending booking, e.g. after it ran out of plumbers or was unassigned
+  app.post("/api/bookings/:id/dispatch", requirePermission('bookings:reassign'), withUser(async (req, res) => {
+    try {
+      const booking = await storage.getBooking(req.params.id);
+      if (!booking) return res.status(404).json({ message: "Booking not found" });
+
+      const result = await redispatchBooking(booking.id);
+      if (!result) {
+        return res.status(409).json({ message: "Only pending bookings can be dispatched. Please refresh and try again." });
+      }
+      if (!result.assignedPlumber) {
+        return res.status(409).json({ message: "No plumbers are available for this booking right now" });
+      }
+      res.json(result);
+    } catch (error) {
+      console.error('Dispatch booking error:', error);
+      res.status(500).json({ message: "Failed to dispatch booking" });
+    }
+  }));
+
+  // Cancellation
+  app.get("/api/bookings/:id/cancellation", requireAuth, withUser(async (req, res) => {
+    try {
+      const booking = await storage.getBooking(req.params.id);
+      if (!booking) return res.status(404).json({ message: "Booking not found" });
+      const cancelledByStaff = hasPermission(req.user.role, 'bookings:cancel');
+      if (!cancelledByStaff && booking.userId !== req.user.userId) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+
+      res.json({
+        canCancel: canTransition(req.user.role, booking.status, 'cancelled'),
+        ...getCancellationTerms(booking.preferredDate, { cancelledByStaff, policy: cancellationPolicy }),
+      });
+    } catch (error) {
+      console.error('Cancellation terms error:', error);
+      res.status(500).json({ message: "Failed to fetch cancellation terms" });
+    }
+  }));
+
+  app.post("/api/bookings/:id/cancel", requireAuth, withUser(async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { role } = req.user;
+      const cancelledByStaff = hasPermission(role, 'bookings:cancel');
+      const { reason, note } = cancelBookingSchema.parse(req.body);
+
+      const booking = await storage.getBooking(id);
+      if (!booking) return res.status(404).json({ message: "Booking not found" });
+      if (!cancelledByStaff && booking.userId !== req.user.userId) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+
+      let releasedPlumberId: string | null = null;
+      // Re-read under the lock, so a refusal reports what the booking changed to meanwhile
+      let currentStatus = booking.status;
+      const cancelledBooking = await storage.withTransaction(async (tx) => {
+        const current = await tx.getBookingForUpdate(id);
+        if (current) currentStatus = current.status;
+        if (!current || !canTransition(role, current.status, 'cancelled')) return null;
+        releasedPlumberId = current.assignedPlumber;
+
+        const terms = getCancellationTerms(current.preferredDate, { cancelledByStaff, policy: cancellationPolicy });
+        // Release the plumber so the job drops off their dashboard and frees their capacity
+        const assignmentHistory = current.assignedPlumber
+          ? current.assignmentHistory.map(entry =>
+              entry.plumberId === current.assignedPlumber && !entry.releasedAt
+                ? { ...entry, status: 'released', releasedAt: new Date() }
+                : entry
+            )
+          : current.assignmentHistory;
+
+        const cancelled = await tx.updateBooking(id, {
+          status: 'cancelled',
+          assignedPlumber: null,
+          assignmentHistory,
+          cancellationReason: reason,
+          cancellationNote: note ?? null,
+          cancelledBy: req.user.userId,
+          cancelledAt: new Date(),
+          cancellationFeePercent: terms.feePercent,
+        });
+        // A late cancellation is billed for its fee, which the customer can then pay like any invoice
+        if (cancelled) await billCancellation(tx, current, terms.feePercent);
+        return cancelled;
+      });
+
+      if (!cancelledBooking) {
+        return res.status(409).json({ message: `Cannot cancel a booking that is ${currentStatus}` });
+      }
+      await bookingEvents.emit("booking.cancelled", { booking: cancelledBooking, cancelledBy: req.user.userId, releasedPlumberId });
+      res.json(cancelledBooking);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid cancellation", errors: error.errors });
+      }
+      console.error('Cancel booking error:', error);
+      res.status(500).json({ message: "Failed to cancel booking" });
+    }
+  }));
+
+  // Reviews
+  app.post("/api/bookings/:id/review", requireAuth, withUser(async (req, res) => {
+    try {
+      const { rating, comment } = submitReviewSchema.parse(req.body);
+      const booking = await storage.getBooking(req.params.id);
+      if (!booking) return res.status(404).json({ message: "Booking not found" });
+      if (req.user.role !== 'user' || booking.userId !== req.user.userId) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+      if (booking.status !== 'completed' || !booking.assignedPlumber) {
+        return res.status(409).json({ message: "Only completed jobs can be reviewed" });
+      }
+      const plumberId = booking.assignedPlumber;
+
+      const review = await storage.withTransaction(async (tx) => {
+        // Locking the plumber serialises reviews for them, so the recomputed rating sees every one
+        await tx.getPlumberForUpdate(plumberId);
+        if (await tx.getReviewByBookingId(booking.id)) return null;
+
+        const created = await tx.createReview({
+          bookingId: booking.id,
+          plumberId,
+          userId: req.user.userId,
+          rating,
+          comment: comment ?? null,
+        });
+        await recomputePlumberRating(tx, plumberId);
+        return created;
+      });
+
+      if (!review) return res.status(409).json({ message: "This booking has already been reviewed" });
+      res.status(201).json(review);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid review", errors: error.errors });
+      }
+      console.error('Create review error:', error);
+      res.status(500).json({ message: "Failed to submit review" });
+    }
+  }));
+
+  app.get("/api/reviews", requireAuth, withUser(async (req, res) => {
+    try {
+      let reviews: Review[] = [];
+      if (hasPermission(req.user.role, 'reviews:moderate')) {
+        reviews = await storage.getAllReviews();
+      } else if (req.user.role === 'plumber') {
+        const plumber = await storage.getPlumberByUserId(req.user.userId);
+        reviews = plumber
+          ? (await storage.getReviewsByPlumberId(plumber.id)).filter(review => review.status === 'published')
+          : [];
+      } else {
+        reviews = await storage.getReviewsByUserId(req.user.userId);
+      }
+      res.json(reviews);
+    } catch (error) {
+      console.error('Fetch reviews error:', error);
+      res.status(500).json({ message: "Failed to fetch reviews" });
+    }
+  }));
+
+  app.post("/api/reviews/:id/reply", requireAuth, withUser(async (req, res) => {
+    try {
+      const { reply } = replyToReviewSchema.parse(req.body);
+      const review = await storage.getReview(req.params.id);
+      if (!review) return res.status(404).json({ message: "Review not found" });
+      if (req.user.role !== 'plumber' || !await canManagePlumber(req.user, review.plumberId)) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+
+      const updated = await storage.updateReview(review.id, { reply, repliedAt: new Date() });
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid reply", errors: error.errors });
+      }
+      console.error('Reply to review error:', error);
+      res.status(500).json({ message: "Failed to reply to review" });
+    }
+  }));
+
+  app.patch("/api/reviews/:id/moderate", requirePermission('reviews:moderate'), withUser(async (req, res) => {
+    try {
+      const { status, note } = moderateReviewSchema.parse(req.body);
+      const review = await storage.getReview(req.params.id);
+      if (!review) return res.status(404).json({ message: "Review not found" });
+
+      const updated = await storage.withTransaction(async (tx) => {
+        await tx.getPlumberForUpdate(review.plumberId);
+        const moderated = await tx.updateReview(review.id, {
+          status,
+          moderatedBy: req.user.userId,
+          moderatedAt: new Date(),
+          moderationNote: note ?? null,
+        });
+        await recomputePlumberRating(tx, review.plumberId);
+        return moderated;
+      });
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid moderation", errors: error.errors });
+      }
+      console.error('Moderate review error:', error);
+      res.status(500).json({ message: "Failed to moderate review" });
+    }
+  }));
+
+  // Quotes
+  app.get("/api/quotes", requireAuth, withUser(async (req, res) => {
+    try {
+      let bookings: Booking[] = [];
+      if (hasPermission(req.user.role, 'bookings:view-all')) {
+        bookings = await storage.getAllBookings();
+      } else if (req.user.role === 'plumber') {
+        const plumber = await storage.getPlumberByUserId(req.user.userId);
+        bookings = plumber ? await storage.getBookingsByPlumberId(plumber.id) : [];
+      } else {
+        bookings = await storage.getBookingsByUserId(req.user.userId);
+      }
+      res.json(await storage.getQuotesByBookingIds(bookings.map(booking => booking.id)));
+    } catch (error) {
+      console.error('Fetch quotes error:', error);
+      res.status(500).json({ message: "Failed to fetch quotes" });
+    }
+  }));
+
+  app.get("/api/bookings/:id/quotes", requireAuth, withUser(async (req, res) => {
+    try {
+      const booking = await storage.getBooking(req.params.id);
+      if (!booking) return res.status(404).json({ message: "Booking not found" });
+      if (!await canViewBooking(req.user, booking)) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+      res.json(await storage.getQuotesByBookingId(booking.id));
+    } catch (error) {
+      console.error('Fetch booking quotes error:', error);
+      res.status(500).json({ message: "Failed to fetch quotes" });
+    }
+  }));
+
+  app.post("/api/bookings/:id/quotes", requireAuth, withUser(async (req, res) => {
+    try {
+      const { lineItems, taxRate, notes } = submitQuoteSchema.parse(req.body);
+      const booking = await storage.getBooking(req.params.id);
+      if (!booking) return res.status(404).json({ message: "Booking not found" });
+      if (req.user.role !== 'plumber' || !booking.assignedPlumber || !await canManagePlumber(req.user, booking.assignedPlumber)) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+      const plumberId = booking.assignedPlumber;
+
+      const quote = await storage.withTransaction(async (tx) => {
+        // The booking lock serialises revisions, so version numbers never collide
+        const current = await tx.getBookingForUpdate(booking.id);
+        if (!current || current.status !== 'accepted' || current.assignedPlumber !== plumberId) return null;
+
+        const previous = await tx.getQuotesByBookingId(booking.id);
+        for (const open of previous.filter(q => q.status === 'pending' || q.status === 'accepted')) {
+          await tx.updateQuote(open.id, { status: 'superseded' });
+        }
+
+        return await tx.createQuote({
+          bookingId: booking.id,
+          plumberId,
+          version: (previous[0]?.version ?? 0) + 1,
+          lineItems,
+          taxRate,
+          ...calculateQuoteTotals(lineItems, taxRate),
+          notes: notes ?? null,
+        });
+      });
+
+      if (!quote) return res.status(409).json({ message: "Quotes can only be sent for accepted jobs that haven't started" });
+      await announceBookingChange(booking.id, 'quote');
+      res.status(201).json(quote);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid quote", errors: error.errors });
+      }
+      console.error('Create quote error:', error);
+      res.status(500).json({ message: "Failed to send quote" });
+    }
+  }));
+
+  app.post("/api/quotes/:id/respond", requireAuth, withUser(async (req, res) => {
+    try {
+      const { decision } = respondToQuoteSchema.parse(req.body);
+      const quote = await storage.getQuote(req.params.id);
+      if (!quote) return res.status(404).json({ message: "Quote not found" });
+      const booking = await storage.getBooking(quote.bookingId);
+      if (!booking || req.user.role !== 'user' || booking.userId !== req.user.userId) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+
+      const updated = await storage.withTransaction(async (tx) => {
+        // Locked so a revision can't land between reading the quote and answering it
+        const current = await tx.getBookingForUpdate(booking.id);
+        const latest = await tx.getQuote(quote.id);
+        if (!current || current.status !== 'accepted' || latest?.status !== 'pending') return null;
+        return await tx.updateQuote(quote.id, { status: decision, respondedAt: new Date() });
+      });
+
+      if (!updated) return res.status(409).json({ message: "This quote is no longer open. Please refresh to see the latest version." });
+      await announceBookingChange(booking.id, 'quote');
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid response", errors: error.errors });
+      }
+      console.error('Respond to quote error:', error);
+      res.status(500).json({ message: "Failed to respond to quote" });
+    }
+  }));
+
+  // Invoices; ?format=html returns a printable page instead of JSON
+  app.get("/api/bookings/:id/invoice", requireAuth, withUser(async (req, res) => {
+    try {
+      const booking = await storage.getBooking(req.params.id);
+      if (!booking) return res.status(404).json({ message: "Booking not found" });
+      if (!await canViewBooking(req.user, booking)) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+
+      const invoice = await storage.getInvoiceByBookingId(booking.id);
+      if (!invoice) return res.status(404).json({ message: "This booking has no invoice" });
+
+      if (req.query.format === 'html') {
+        res.setHeader("Content-Type", "text/html; charset=utf-8");
+        res.setHeader("Content-Disposition", `inline; filename="invoice-${invoice.number}.html"`);
+        return res.send(renderInvoiceHtml(invoice, booking));
+      }
+      res.json(invoice);
+    } catch (error) {
+      console.error('Fetch invoice error:', error);
+      res.status(500).json({ message: "Failed to fetch invoice" });
+    }
+  }));
+
+  // Payments
+  app.get("/api/bookings/:id/payments", requireAuth, withUser(async (req, res) => {
+    try {
+      const booking = await storage.getBooking(req.params.id);
+      if (!booking) return res.status(404).json({ message: "Booking not found" });
+      if (!await canViewBooking(req.user, booking)) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+      res.json(await storage.getPaymentsByBookingId(booking.id));
+    } catch (error) {
+      console.error('Fetch payments error:', error);
+      res.status(500).json({ message: "Failed to fetch payments" });
+    }
+  }));
+
+  app.post("/api/bookings/:id/payments", requireAuth, withUser(async (req, res) => {
+    try {
+      const booking = await storage.getBooking(req.params.id);
+      if (!booking) return res.status(404).json({ message: "Booking not found" });
+      if (req.user.role !== 'user' || booking.userId !== req.user.userId) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+      const invoice = await storage.getInvoiceByBookingId(booking.id);
+      if (!invoice) return res.status(409).json({ message: "This booking has not been invoiced yet" });
+
+      const provider = requirePaymentProvider();
+      const { payment, clientSecret } = await startPayment(storage, booking, invoice, provider);
+      res.status(201).json({ payment, clientSecret, provider: provider.name, simulatedCheckout: !!fakeCheckoutProvider });
+    } catch (error) {
+      if (error instanceof PaymentConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error instanceof PaymentsDisabledError) {
+        return res.status(503).json({ message: error.message });
+      }
+      console.error('Start payment error:', error);
+      res.status(500).json({ message: "Failed to start payment" });
+    }
+  }));
+
+  // Called by the payment provider, not the app: authenticated by signature instead of a token
+  app.post("/api/payments/webhook", async (req, res) => {
+    try {
+      if (!Buffer.isBuffer(req.rawBody)) {
+        return res.status(400).json({ message: "Expected a JSON body" });
+      }
+      const payment = await receivePaymentWebhook(storage, req.rawBody, req.headers);
+      if (payment) await announceBookingChange(payment.bookingId, 'payment');
+      res.json({ received: true });
+    } catch (error) {
+      if (error instanceof WebhookSignatureError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof PaymentsDisabledError) {
+        return res.status(503).json({ message: error.message });
+      }
+      console.error('Payment webhook error:', error);
+      res.status(500).json({ message: "Failed to process payment webhook" });
+    }
+  });
+
+  // Stands in for the provider's hosted checkout, only when PAYMENT_PROVIDER=fake is configured
+  if (fakeCheckoutProvider) {
+    const checkoutProvider = fakeCheckoutProvider;
+    app.post("/api/payments/:id/checkout", requireAuth, withUser(async (req, res) => {
+      try {
+        const { outcome } = fakeCheckoutSchema.parse(req.body);
+        const payment = await storage.getPayment(req.params.id);
+        if (!payment) return res.status(404).json({ message: "Payment not found" });
+        if (payment.userId !== req.user.userId) {
+          return res.status(403).json({ message: "Not authorized" });
+        }
+        if (payment.status !== 'requires-payment') {
+          return res.status(409).json({ message: `This payment is already ${payment.status}` });
+        }
+
+        // Goes through the same signature check as a real callback
+        const callback = checkoutProvider.createCheckoutCallback(payment.providerIntentId, payment.amount, outcome);
+        const updated = await receivePaymentWebhook(storage, callback.rawBody, callback.headers);
+        await announceBookingChange(payment.bookingId, 'payment');
+        res.json(updated);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid checkout", errors: error.errors });
+        }
+        // A second submit can get past the status check above while the first is still settling
+        if (error instanceof PaymentConflictError) {
+          return res.status(409).json({ message: error.message });
+        }
+        if (error instanceof WebhookSignatureError) {
+          return res.status(400).json({ message: error.message });
+        }
+        console.error('Fake checkout error:', error);
+        res.status(500).json({ message: "Failed to complete checkout" });
+      }
+    }));
+  }
+
+  app.post("/api/payments/:id/capture", requirePermission('payments:capture'), withUser(async (req, res) => {
+    try {
+      const payment = await storage.getPayment(req.params.id);
+      if (!payment) return res.status(404).json({ message: "Payment not found" });
+      const captured = await capturePayment(storage, payment);
+      await announceBookingChange(payment.bookingId, 'payment');
+      res.json(captured);
+    } catch (error) {
+      if (error instanceof PaymentConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error instanceof PaymentsDisabledError) {
+        return res.status(503).json({ message: error.message });
+      }
+      console.error('Capture payment error:', error);
+      res.status(500).json({ message: "Failed to capture payment" });
+    }
+  }));
+
+  // Refunds
+  app.get("/api/refunds", requireAuth, withUser(async (req, res) => {
+    try {
+      let bookings: Booking[] = [];
+      if (hasPermission(req.user.role, 'bookings:view-all')) {
+        bookings = await storage.getAllBookings();
+      } else if (req.user.role === 'user') {
+        bookings = await storage.getBookingsByUserId(req.user.userId);
+      }
+      res.json(await storage.getRefundsByBookingIds(bookings.map(booking => booking.id)));
+    } catch (error) {
+      console.error('Fetch refunds error:', error);
+      res.status(500).json({ message: "Failed to fetch refunds" });
+    }
+  }));
+
+  app.get("/api/bookings/:id/refundable", requirePermission('refunds:issue'), withUser(async (req, res) => {
+    try {
+      const booking = await storage.getBooking(req.params.id);
+      if (!booking) return res.status(404).json({ message: "Booking not found" });
+      const invoice = await storage.getInvoiceByBookingId(booking.id);
+      if (!invoice) return res.status(404).json({ message: "This booking has no invoice" });
+
+      const refunds = await storage.getRefundsByBookingId(booking.id);
+      res.json({ invoice, refunds, ...getRefundTerms(invoice, getPendingRefundTotal(refunds)) });
+    } catch (error) {
+      console.error('Fetch refund terms error:', error);
+      res.status(500).json({ message: "Failed to fetch refund terms" });
+    }
+  }));
+
+  app.post("/api/bookings/:id/refunds", requirePermission('refunds:issue'), withUser(async (req, res) => {
+    try {
+      const { amount, reason, note } = issueRefundSchema.parse(req.body);
+      const booking = await storage.getBooking(req.params.id);
+      if (!booking) return res.status(404).json({ message: "Booking not found" });
+
+      const result = await issueRefund(storage, booking, { amount, reason, note, createdBy: req.user.userId });
+      await announceBookingChange(booking.id, 'refund');
+      res.status(201).json(result);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid refund", errors: error.errors });
+      }
+      if (error instanceof PaymentConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error instanceof PaymentsDisabledError) {
+        return res.status(503).json({ message: error.message });
+      }
+      console.error('Issue refund error:', error);
+      res.status(500).json({ message: "Failed to issue refund" });
+    }
+  }));
+
+  // Earnings; ?format=csv downloads the same rows
+  app.get("/api/earnings", requireAuth, withUser(async (req, res) => {
+    try {
+      const { from, to, plumberId, format } = earningsQuerySchema.parse(req.query);
+      let earnings: Earning[] = [];
+      let bookings: Booking[] = [];
+      if (hasPermission(req.user.role, 'earnings:view-all')) {
+        earnings = plumberId ? await storage.getEarningsByPlumberId(plumberId) : await storage.getAllEarnings();
+        bookings = await storage.getAllBookings();
+      } else if (req.user.role === 'plumber') {
+        const plumber = await storage.getPlumberByUserId(req.user.userId);
+        if (!plumber) return res.status(404).json({ message: "Plumber profile not found" });
+        earnings = await storage.getEarningsByPlumberId(plumber.id);
+        bookings = await storage.getBookingsByPlumberId(plumber.id);
+      } else {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+
+      earnings = earnings.filter(earning => (!from || earning.earnedAt >= from) && (!to || earning.earnedAt < to));
+      if (format === 'csv') {
+        res.setHeader("Content-Type", "text/csv; charset=utf-8");
+        res.setHeader("Content-Disposition", `attachment; filename="earnings.csv"`);
+        return res.send(renderEarningsCsv(earnings, new Map(bookings.map(booking => [booking.id, booking]))));
+      }
+      res.json(earnings);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid earnings query", errors: error.errors });
+      }
+      console.error('Fetch earnings error:', error);
+      res.status(500).json({ message: "Failed to fetch earnings" });
+    }
+  }));
+
+  // Payout batches
+  app.get("/api/payouts/batches", requirePermission('payouts:manage'), withUser(async (req, res) => {
+    try {
+      res.json(await storage.getPayoutBatches());
+    } catch (error) {
+      console.error('Fetch payout batches error:', error);
+      res.status(500).json({ message: "Failed to fetch payout batches" });
+    }
+  }));
+
+  app.post("/api/payouts/batches", requirePermission('payouts:manage'), withUser(async (req, res) => {
+    try {
+      res.status(201).json(await generatePayoutBatch(storage, req.user.userId));
+    } catch (error) {
+      if (error instanceof PayoutConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error('Generate payout batch error:', error);
+      res.status(500).json({ message: "Failed to generate payout batch" });
+    }
+  }));
+
+  app.get("/api/payouts/batches/:id", requirePermission('payouts:manage'), withUser(async (req, res) => {
+    try {
+      const batch = await storage.getPayoutBatch(req.params.id);
+      if (!batch) return res.status(404).json({ message: "Payout batch not found" });
+      res.json({ ...batch, payouts: await getBatchPayouts(storage, batch) });
+    } catch (error) {
+      console.error('Fetch payout batch error:', error);
+      res.status(500).json({ message: "Failed to fetch payout batch" });
+    }
+  }));
+
+  app.post("/api/payouts/batches/:id/paid", requirePermission('payouts:manage'), withUser(async (req, res) => {
+    try {
+      const batch = await markPayoutBatchPaid(storage, req.params.id);
+      if (!batch) return res.status(404).json({ message: "Payout batch not found" });
+      res.json(batch);
+    } catch (error) {
+      if (error instanceof PayoutConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error('Mark payout batch paid error:', error);
+      res.status(500).json({ message: "Failed to mark payout batch paid" });
+    }
+  }));
+
+  // Notifications
+  app.get("/api/notifications", requireAuth, withUser(async (req, res) => {
+    try {
+      res.json({
+        notifications: await storage.getNotificationsByUserId(req.user.userId, notificationPageSize),
+        unreadCount: await storage.getUnreadNotificationCount(req.user.userId),
+      });
+    } catch (error) {
+      console.error('Fetch notifications error:', error);
+      res.status(500).json({ message: "Failed to fetch notifications" });
+    }
+  }));
+
+  app.patch("/api/notifications/:id/read", requireAuth, withUser(async (req, res) => {
+    try {
+      const notification = await storage.getNotification(req.params.id);
+      // Someone else's notification is reported as missing rather than forbidden
+      if (!notification || notification.userId !== req.user.userId) {
+        return res.status(404).json({ message: "Notification not found" });
+      }
+      res.json(notification.readAt ? notification : await storage.updateNotification(notification.id, { readAt: new Date() }));
+    } catch (error) {
+      console.error('Mark notification read error:', error);
+      res.status(500).json({ message: "Failed to mark notification read" });
+    }
+  }));
+
+  app.post("/api/notifications/read-all", requireAuth, withUser(async (req, res) => {
+    try {
+      res.json({ updated: await storage.markAllNotificationsRead(req.user.userId) });
+    } catch (error) {
+      console.error('Mark all notifications read error:', error);
+      res.status(500).json({ message: "Failed to mark notifications read" });
+    }
+  }));
+
+  app.get("/api/notification-preferences", requireAuth, withUser(async (req, res) => {
+    try {
+      res.json(await getNotificationPreferences(storage, req.user.userId));
+    } catch (error) {
+      console.error('Fetch notification preferences error:', error);
+      res.status(500).json({ message: "Failed to fetch notification preferences" });
+    }
+  }));
+
+  app.put("/api/notification-preferences", requireAuth, withUser(async (req, res) => {
+    try {
+      const changes = updateNotificationPreferencesSchema.parse(req.body);
+      const current = await getNotificationPreferences(storage, req.user.userId);
+      const saved = await storage.saveNotificationPreferences({ ...current, ...changes, userId: req.user.userId });
+      res.json({ email: saved.email, sms: saved.sms });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid preferences", errors: error.errors });
+      }
+      console.error('Update notification preferences error:', error);
+      res.status(500).json({ message: "Failed to update notification preferences" });
+    }
+  }));
+
+  // Outbound email and text messages, with every delivery attempt
+  app.get("/api/messages", requirePermission('messages:manage'), withUser(async (req, res) => {
+    try {
+      const { status } = outboundMessagesQuerySchema.parse(req.query);
+      res.json(await storage.getOutboundMessages(outboundMessagePageSize, status));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid filter", errors: error.errors });
+      }
+      console.error('Fetch messages error:', error);
+      res.status(500).json({ message: "Failed to fetch messages" });
+    }
+  }));
+
+  // Sends a message again straight away; a failed one stays failed if this attempt fails too
+  app.post("/api/messages/:id/retry", requirePermission('messages:manage'), withUser(async (req, res) => {
+    try {
+      const message = await storage.getOutboundMessage(req.params.id);
+      if (!message) return res.status(404).json({ message: "Message not found" });
+      if (message.status === 'sent') return res.status(409).json({ message: "This message has already been sent" });
+      const attempted = await deliverMessage(storage, message);
+      if (!attempted) return res.status(409).json({ message: "This message is already being sent" });
+      res.json(attempted);
+    } catch (error) {
+      console.error('Retry message error:', error);
+      res.status(500).json({ message: "Failed to retry message" });
+    }
+  }));
+
+  // Live updates where WebSockets aren't available (see server/realtime.ts).
+  // EventSource can't send headers, so the token comes in the query string.
+  app.get(realtimeEventsPath, async (req, res) => {
+    const user = typeof req.query.token === 'string' ? verifyAccessToken(req.query.token) : null;
+    if (!user) return res.status(401).json({ message: 'Invalid or expired token' });
+    try {
+      if (!await isTokenSessionActive(storage, user)) return res.status(401).json({ message: 'Your session has ended' });
+      await streamRealtimeEvents(req, res, user);
+    } catch (error) {
+      console.error('Realtime stream error:', error);
+      if (!res.headersSent) return res.status(500).json({ message: "Failed to stream updates" });
+      res.end();
+    }
   });
 
   // Plumber routes
-  app.get("/api/plumbers", authenticateToken, async (req: any, res) => {
+  app.get("/api/plumbers", requirePermission('plumbers:view'), withUser(async (req, res) => {
     try {
-      if (req.user.role !== 'admin') return res.status(403).json({ message: "Admin only" });
-      const plumbers = await storage.getAllPlumbers();
-      const enriched = await Promise.all(plumbers.map(async p => ({ ...p, user: await storage.getUser(p.userId) })));
-      res.json(enriched);
+      res.json(await getPlumbersWithUsers(storage));
     } catch (error) {
       res.status(500).json({ message: "Failed" });
     }
-  });
+  }));
 
-  app.patch("/api/plumbers/:id/verify", authenticateToken, async (req: any, res) => {
+  app.post("/api/plumbers/onboard", requirePermission('plumbers:onboard'), withUser(async (req, res) => {
     try {
-      if (req.user.role !== 'admin') return res.status(403).json({ message: "Admin only" });
-      const updated = await storage.updatePlumber(req.params.id, { isVerified: req.body.isVerified, isAvailable: req.body.isVerified });
-      res.json(updated);
+      const { licenseNumber, experienceYears, specializations, ...userData } = onboardPlumberSchema.parse(req.body);
+
+      if (await storage.getUserByEmail(userData.email)) {
+        return res.status(409).json({ message: "User already exists with this email" });
+      }
+      if (await storage.getPlumberByLicenseNumber(licenseNumber)) {
+        return res.status(409).json({ message: "A plumber with this license number already exists" });
+      }
+
+      const hashedPassword = await bcrypt.hash(userData.password, 10);
+      // Onboarded plumbers stay inactive until their credential documents are approved
+      const { user, plumber } = await storage.createPlumberWithUser(
+        { ...userData, password: hashedPassword, role: 'plumber' },
+        {
+          licenseNumber,
+          experienceYears,
+          specializations,
+          isAvailable: false,
+          isVerified: false,
+          rating: 0,
+          totalJobs: 0,
+        }
+      );
+
+      res.status(201).json({ ...plumber, user: toSafeUser(user) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid plumber details", errors: error.errors });
+      }
+      // The checks above can race a concurrent onboarding; the constraints have the final say
+      if (isUniqueViolation(error, "users_email_unique")) {
+        return res.status(409).json({ message: "User already exists with this email" });
+      }
+      if (isUniqueViolation(error, "plumbers_license_number_unique")) {
+        return res.status(409).json({ message: "A plumber with this license number already exists" });
+      }
+      console.error('Onboard plumber error:', error);
+      res.status(500).json({ message: "Failed to onboard plumber" });
+    }
+  }));
+
+  app.get("/api/plumbers/me", requireAuth, withUser(async (req, res) => {
+    try {
+      const plumber = await storage.getPlumberByUserId(req.user.userId);
+      if (!plumber) return res.status(404).json({ message: "Plumber profile not found" });
+      res.json(plumber);
     } catch (error) {
       res.status(500).json({ message: "Failed" });
     }
-  });
+  }));
+
+  app.put("/api/plumbers/:id/service-area", requireAuth, withUser(async (req, res) => {
+    try {
+      if (!await canManagePlumber(req.user, req.params.id)) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+      const area = updateServiceAreaSchema.parse(req.body);
+
+      let serviceArea: ServiceArea;
+      if ('homeAddress' in area) {
+        const center = await geocoder.geocode(area.homeAddress);
+        if (!center) return res.status(422).json({ message: "Could not locate that address" });
+        serviceArea = { type: 'radius', center, radiusKm: area.radiusKm };
+      } else {
+        serviceArea = area;
+      }
+
+      const updated = await storage.updatePlumber(req.params.id, { serviceArea });
+      if (!updated) return res.status(404).json({ message: "Plumber not found" });
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid service area", errors: error.errors });
+      }
+      console.error('Update service area error:', error);
+      res.status(500).json({ message: "Failed to update service area" });
+    }
+  }));
+
+  // Working hours and time off
+  app.get("/api/plumbers/:id/availability", requireAuth, withUser(async (req, res) => {
+    try {
+      if (!await canManagePlumber(req.user, req.params.id)) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+      const plumber = await storage.getPlumber(req.params.id);
+      if (!plumber) return res.status(404).json({ message: "Plumber not found" });
+      const timeOff = await storage.getPlumberTimeOff(plumber.id);
+      res.json({ workingHours: plumber.workingHours, timeOff });
+    } catch (error) {
+      console.error('Get availability error:', error);
+      res.status(500).json({ message: "Failed to fetch availability" });
+    }
+  }));
 
-  app.get("/api/dashboard/stats", authenticateToken, async (req: any, res) => {
+  app.put("/api/plumbers/:id/working-hours", requireAuth, withUser(async (req, res) => {
+    try {
+      if (!await canManagePlumber(req.user, req.params.id)) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+      const workingHours = workingHoursSchema.parse(req.body);
+      const updated = await storage.updatePlumber(req.params.id, { workingHours });
+      if (!updated) return res.status(404).json({ message: "Plumber not found" });
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid working hours", errors: error.errors });
+      }
+      console.error('Update working hours error:', error);
+      res.status(500).json({ message: "Failed to update working hours" });
+    }
+  }));
+
+  app.post("/api/plumbers/:id/time-off", requireAuth, withUser(async (req, res) => {
+    try {
+      if (!await canManagePlumber(req.user, req.params.id)) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+      const timeOffData = insertPlumberTimeOffSchema.parse({ ...req.body, plumberId: req.params.id });
+      const timeOff = await storage.createPlumberTimeOff(timeOffData);
+      res.status(201).json(timeOff);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid time off", errors: error.errors });
+      }
+      console.error('Create time off error:', error);
+      res.status(500).json({ message: "Failed to add time off" });
+    }
+  }));
+
+  app.delete("/api/plumbers/:id/time-off/:timeOffId", requireAuth, withUser(async (req, res) => {
+    try {
+      if (!await canManagePlumber(req.user, req.params.id)) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+      const timeOff = await storage.getPlumberTimeOff(req.params.id);
+      if (!timeOff.some(t => t.id === req.params.timeOffId)) {
+        return res.status(404).json({ message: "Time off not found" });
+      }
+      await storage.deletePlumberTimeOff(req.params.timeOffId);
+      res.status(204).end();
+    } catch (error) {
+      console.error('Delete time off error:', error);
+      res.status(500).json({ message: "Failed to remove time off" });
+    }
+  }));
+
+  app.patch("/api/plumbers/:id/verify", requirePermission('plumbers:verify'), withUser(async (req, res) => {
+    try {
+      const { isVerified } = verifyPlumberSchema.parse(req.body);
+      if (isVerified) {
+        const missingDocuments = await getMissingRequiredDocuments(req.params.id);
+        if (missingDocuments.length > 0) {
+          return res.status(409).json({ message: "Required documents are not approved", missingDocuments });
+        }
+      }
+      const updated = await storage.updatePlumber(req.params.id, { isVerified, isAvailable: isVerified });
+      if (!updated) return res.status(404).json({ message: "Plumber not found" });
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid verification", errors: error.errors });
+      }
+      console.error('Verify plumber error:', error);
+      res.status(500).json({ message: "Failed to update plumber verification" });
+    }
+  }));
+
+  // Plumber documents
+  app.get("/api/plumbers/:id/documents", requireAuth, withUser(async (req, res) => {
+    try {
+      if (!await canManagePlumber(req.user, req.params.id, 'plumbers:verify')) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+      const documents = await storage.getPlumberDocuments(req.params.id);
+      res.json(documents);
+    } catch (error) {
+      console.error('Fetch documents error:', error);
+      res.status(500).json({ message: "Failed to fetch documents" });
+    }
+  }));
+
+  app.post("/api/plumbers/:id/documents", requireAuth, documentUpload.single("file"), withUser(async (req, res) => {
+    try {
+      if (!await canManagePlumber(req.user, req.params.id, 'plumbers:verify')) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+      if (!await storage.getPlumber(req.params.id)) {
+        return res.status(404).json({ message: "Plumber not found" });
+      }
+      const file = req.file as Express.Multer.File | undefined;
+      if (!file) {
+        return res.status(400).json({ message: "A PDF, JPG or PNG file is required" });
+      }
+
+      const documentData = insertPlumberDocumentSchema.omit({ storageKey: true }).parse({
+        plumberId: req.params.id,
+        type: req.body.type,
+        expiresAt: req.body.expiresAt || null,
+        fileName: file.originalname,
+        contentType: file.mimetype,
+        size: file.size,
+      });
+
+      const storageKey = await blobStore.put(file.buffer, file.mimetype, `plumbers/${req.params.id}`);
+      const document = await storage.createPlumberDocument({ ...documentData, storageKey });
+      res.status(201).json(document);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid document details", errors: error.errors });
+      }
+      console.error('Upload document error:', error);
+      res.status(500).json({ message: "Failed to upload document" });
+    }
+  }));
+
+  app.get("/api/documents/:id/file", requireAuth, withUser(async (req, res) => {
+    try {
+      const document = await storage.getPlumberDocument(req.params.id);
+      if (!document) return res.status(404).json({ message: "Document not found" });
+      if (!await canManagePlumber(req.user, document.plumberId, 'plumbers:verify')) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+
+      const blob = await blobStore.get(document.storageKey);
+      if (!blob) return res.status(404).json({ message: "Document file not found" });
+
+      res.setHeader("Content-Type", blob.contentType);
+      res.setHeader("Content-Disposition", `inline; filename="${encodeURIComponent(document.fileName)}"`);
+      res.send(blob.data);
+    } catch (error) {
+      console.error('Download document error:', error);
+      res.status(500).json({ message: "Failed to fetch document" });
+    }
+  }));
+
+  app.patch("/api/documents/:id/review", requirePermission('plumbers:verify'), withUser(async (req, res) => {
+    try {
+      const { status, notes } = reviewPlumberDocumentSchema.parse(req.body);
+
+      const document = await storage.getPlumberDocument(req.params.id);
+      if (!document) return res.status(404).json({ message: "Document not found" });
+
+      const updated = await storage.updatePlumberDocument(document.id, {
+        status,
+        reviewNotes: notes ?? null,
+        reviewedBy: req.user.userId,
+        reviewedAt: new Date(),
+      });
+
+      // A rejected required document invalidates an existing verification
+      if (status === 'rejected') {
+        const plumber = await storage.getPlumber(document.plumberId);
+        if (plumber?.isVerified && (await getMissingRequiredDocuments(plumber.id)).length > 0) {
+          await storage.updatePlumber(plumber.id, { isVerified: false, isAvailable: false });
+        }
+      }
+
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid review", errors: error.errors });
+      }
+      console.error('Review document error:', error);
+      res.status(500).json({ message: "Failed to review document" });
+    }
+  }));
+
+  app.get("/api/dashboard/stats", requirePermission('stats:view'), withUser(async (req, res) => {
     try {
-      if (req.user.role !== 'admin') return res.status(403).json({ message: "Admin only" });
       const allBookings = await storage.getAllBookings();
       const allPlumbers = await storage.getAllPlumbers();
       const allUsers = await storage.getAllUsers();
@@ -295,5 +1586,5 @@ export async function registerRoutes(app: Express) {
     } catch (error) {
       res.status(500).json({ message: "Failed" });
     }
-  });
+  }));
 }
@@ -0,0 +1,24 @@
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+
+/*
+ * Bearer secrets handed to clients or emailed in links: refresh tokens,
+ * reset and verification links, admin invites. Each token starts with the id
+ * of the row it belongs to, so a lookup never needs the secret, and only its
+ * SHA-256 hash is stored.
+ */
+
+export function newSecretToken(id: string) {
+  return `${id}.${randomBytes(32).toString("base64url")}`;
+}
+
+export function secretTokenId(token: string) {
+  return token.split(".")[0];
+}
+
+export function hashSecretToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+export function matchesSecretToken(tokenHash: string, token: string) {
+  return timingSafeEqual(Buffer.from(tokenHash, "hex"), Buffer.from(hashSecretToken(token), "hex"));
+}
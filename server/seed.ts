@@ -0,0 +1,58 @@
+import bcrypt from "bcryptjs";
+import { randomBytes } from "crypto";
+import type { IStorage } from "./storage";
+import type { InsertCategory } from "../shared/schema";
+
+const seedCategories: InsertCategory[] = [
+  { name: "Leak Repair", description: "Fix dripping taps, burst pipes and hidden leaks", icon: "droplets" },
+  { name: "Installation", description: "New fixtures, appliances and pipework", icon: "wrench" },
+  { name: "Maintenance", description: "Routine inspections and servicing", icon: "clipboard-check" },
+  { name: "Emergency", description: "Urgent call-outs for flooding and blockages", icon: "alert-triangle" },
+];
+
+// Demo accounts match the one debug-login.ts expects
+const seedPassword = "123456";
+
+/**
+ * Populates an empty store with categories, and with demoAccounts one account
+ * per role. Used by the offline backends so they start from the same state; it
+ * is a no-op once any category exists.
+ *
+ * The demo admin never gets the shared demo password: it takes ADMIN_PASSWORD,
+ * as create-admin.ts does, or a random one printed once.
+ */
+export async function seedStorage(storage: IStorage, { demoAccounts = false } = {}) {
+  if ((await storage.getCategories()).length > 0) return;
+
+  for (const category of seedCategories) {
+    await storage.createCategory(category);
+  }
+  if (!demoAccounts) return;
+
+  const password = await bcrypt.hash(seedPassword, 10);
+  const adminPassword = process.env.ADMIN_PASSWORD || randomBytes(12).toString("base64url");
+  const admin = await storage.createUser({ name: "Platform Admin", email: "admin@plumbpro.com", password: await bcrypt.hash(adminPassword, 10), phone: "5550000001", role: "admin" });
+  if (!process.env.ADMIN_PASSWORD) {
+    console.log(`Demo admin ${admin.email} password: ${adminPassword}`);
+  }
+
+  const customer = await storage.createUser({ name: "Demo Customer", email: "user@plumbpro.com", password, phone: "5550000002", role: "user", address: "221B Baker Street, London" });
+  const { user: plumberUser } = await storage.createPlumberWithUser(
+    { name: "Demo Plumber", email: "plumber@plumbpro.com", password, phone: "5550000003", role: "plumber" },
+    {
+      specializations: seedCategories.map(c => c.name),
+      isAvailable: true,
+      isVerified: true,
+      experienceYears: 7,
+      rating: 0,
+      totalJobs: 0,
+      licenseNumber: "PL-00001",
+      serviceArea: { type: "radius", center: { lat: 51.5072, lng: -0.1276 }, radiusKm: 30 },
+    }
+  );
+
+  // The demo inboxes don't exist, so their addresses start out confirmed
+  for (const user of [admin, customer, plumberUser]) {
+    await storage.updateUser(user.id, { emailVerifiedAt: new Date() });
+  }
+}
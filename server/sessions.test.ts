@@ -0,0 +1,33 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MemStorage } from "./mem-storage";
+import { refreshSession, SessionError, startSession } from "./sessions";
+import { secretTokenId } from "./secret-tokens";
+
+async function signedIn(store: MemStorage) {
+  const user = await store.createUser({ name: "Casey Customer", email: "casey@example.com", password: "x", phone: "555-0100", role: "user" });
+  return { user, tokens: await startSession(store, user, { userAgent: "test" }) };
+}
+
+test("a refresh token works once and is swapped for a new one", async () => {
+  const store = new MemStorage();
+  const { user, tokens } = await signedIn(store);
+
+  const refreshed = await refreshSession(store, tokens.refreshToken, {});
+  assert.equal(refreshed.user.id, user.id);
+  assert.notEqual(refreshed.refreshToken, tokens.refreshToken);
+  await refreshSession(store, refreshed.refreshToken, {});
+});
+
+test("reusing a swapped refresh token revokes the session", async () => {
+  const store = new MemStorage();
+  const { tokens } = await signedIn(store);
+  const refreshed = await refreshSession(store, tokens.refreshToken, {});
+
+  await assert.rejects(refreshSession(store, tokens.refreshToken, {}), SessionError);
+
+  const session = await store.getSession(secretTokenId(tokens.refreshToken));
+  assert.ok(session?.revokedAt);
+  // The token the reuse raced with is shut out too
+  await assert.rejects(refreshSession(store, refreshed.refreshToken, {}), SessionError);
+});
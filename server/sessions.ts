@@ -0,0 +1,120 @@
+import { randomUUID } from "crypto";
+import type { IStorage } from "./storage";
+import { signAccessToken, type AuthUser } from "./auth";
+import { sessionEvents } from "./events";
+import { hashSecretToken, matchesSecretToken, newSecretToken, secretTokenId } from "./secret-tokens";
+import type { Session, User } from "../shared/schema";
+
+// How long a device stays signed in without being used
+export const refreshTokenTtlDays = Number(process.env.REFRESH_TOKEN_TTL_DAYS || 30);
+
+export class SessionError extends Error {}
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+}
+
+export interface ClientInfo {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+function matchesToken(session: Session, refreshToken: string) {
+  return matchesSecretToken(session.refreshTokenHash, refreshToken);
+}
+
+function expiresAt(now: Date) {
+  return new Date(now.getTime() + refreshTokenTtlDays * 24 * 60 * 60 * 1000);
+}
+
+export function isSessionActive(session: Session, now = new Date()) {
+  return !session.revokedAt && session.expiresAt > now;
+}
+
+// Whether the session an access token was issued for is still signed in
+export async function isTokenSessionActive(store: IStorage, user: AuthUser, now = new Date()) {
+  const session = user.sessionId ? await store.getSession(user.sessionId) : undefined;
+  return !!session && session.userId === user.userId && isSessionActive(session, now);
+}
+
+export async function startSession(store: IStorage, user: User, client: ClientInfo, now = new Date()): Promise<SessionTokens> {
+  const id = randomUUID();
+  const refreshToken = newSecretToken(id);
+  await store.createSession({
+    id,
+    userId: user.id,
+    refreshTokenHash: hashSecretToken(refreshToken),
+    userAgent: client.userAgent ?? null,
+    ipAddress: client.ipAddress ?? null,
+    expiresAt: expiresAt(now),
+  });
+  return { token: signAccessToken(user, id), refreshToken };
+}
+
+/**
+ * Swaps a refresh token for a new access token and a new refresh token. Each
+ * refresh token works once: one that has already been swapped must have been
+ * copied, so presenting it again revokes the whole session.
+ */
+export async function refreshSession(
+  store: IStorage,
+  refreshToken: string,
+  client: ClientInfo,
+  now = new Date(),
+): Promise<SessionTokens & { user: User }> {
+  const sessionId = secretTokenId(refreshToken);
+
+  let revokedUserId: string | null = null;
+  const result = await store.withTransaction(async (tx) => {
+    // Locked so two refreshes with the same token can't both succeed
+    const session = await tx.getSessionForUpdate(sessionId);
+    if (!session || !isSessionActive(session, now)) return null;
+
+    if (!matchesToken(session, refreshToken)) {
+      console.warn(`Refresh token reused for session ${session.id}; revoking it`);
+      await tx.updateSession(session.id, { revokedAt: now });
+      revokedUserId = session.userId;
+      return null;
+    }
+
+    const user = await tx.getUser(session.userId);
+    if (!user) return null;
+
+    const next = newSecretToken(session.id);
+    await tx.updateSession(session.id, {
+      refreshTokenHash: hashSecretToken(next),
+      userAgent: client.userAgent ?? session.userAgent,
+      ipAddress: client.ipAddress ?? session.ipAddress,
+      lastUsedAt: now,
+      expiresAt: expiresAt(now),
+    });
+    return { user, token: signAccessToken(user, session.id), refreshToken: next };
+  });
+
+  if (revokedUserId) await sessionEvents.emit("sessions.revoked", { userId: revokedUserId });
+  if (!result) throw new SessionError("Your session has ended. Please sign in again.");
+  return result;
+}
+
+// Signs out the device holding this refresh token. Unknown or stale tokens are ignored.
+export async function endSession(store: IStorage, refreshToken: string, now = new Date()) {
+  const sessionId = secretTokenId(refreshToken);
+  const session = await store.getSession(sessionId);
+  if (session && isSessionActive(session, now) && matchesToken(session, refreshToken)) {
+    await store.updateSession(session.id, { revokedAt: now });
+    await sessionEvents.emit("sessions.revoked", { userId: session.userId });
+  }
+}
+
+// What the Devices list shows; the token hash never leaves the server
+export function toDeviceSummary(session: Session, currentSessionId?: string) {
+  return {
+    id: session.id,
+    userAgent: session.userAgent,
+    ipAddress: session.ipAddress,
+    createdAt: session.createdAt,
+    lastUsedAt: session.lastUsedAt,
+    current: session.id === currentSessionId,
+  };
+}
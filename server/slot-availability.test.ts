@@ -0,0 +1,51 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MemStorage } from "./mem-storage";
+import { findNextAvailableSlot, getSlotAvailability } from "./slot-availability";
+import type { InsertPlumber } from "../shared/schema";
+
+const timeZone = "Europe/London";
+// 3 June 2030 is a Monday
+const now = new Date("2030-06-01T12:00:00Z");
+
+async function addPlumber(store: MemStorage, email: string, licenseNumber: string, plumber: Partial<InsertPlumber> = {}) {
+  return (await store.createPlumberWithUser(
+    { name: "Pat Plumber", email, password: "x", phone: "555-0101", role: "plumber" },
+    { licenseNumber, specializations: ["Leak Repair"], isAvailable: true, isVerified: true, ...plumber },
+  )).plumber;
+}
+
+test("each slot's capacity counts the plumbers still free for it", async () => {
+  const store = new MemStorage();
+  const customer = await store.createUser({ name: "Casey Customer", email: "casey@example.com", password: "x", phone: "555-0100", role: "user" });
+  const busy = await addPlumber(store, "pat@example.com", "PL-1");
+  await addPlumber(store, "sam@example.com", "PL-2");
+  await store.createBooking({
+    userId: customer.id, category: "Leak Repair", description: "Dripping tap", address: "1 Main St", phone: "555-0100",
+    status: "assigned", assignedPlumber: busy.id,
+    preferredDate: new Date("2030-06-03T09:00:00Z"), preferredEndDate: new Date("2030-06-03T11:00:00Z"), timeZone,
+  });
+
+  const slots = await getSlotAvailability(store, "Leak Repair", ["2030-06-03"], timeZone, now);
+  assert.deepEqual(slots.map(slot => [slot.start, slot.capacity]), [
+    ["08:00", 2], ["10:00", 1], ["12:00", 2], ["14:00", 2], ["16:00", 2], ["18:00", 2],
+  ]);
+  assert.ok((await getSlotAvailability(store, "Installation", ["2030-06-03"], timeZone, now)).every(slot => slot.capacity === 0));
+});
+
+test("slots that have already started have no capacity", async () => {
+  const store = new MemStorage();
+  await addPlumber(store, "pat@example.com", "PL-1");
+
+  const slots = await getSlotAvailability(store, "Leak Repair", ["2030-06-03"], timeZone, new Date("2030-06-03T10:30:00Z"));
+  assert.deepEqual(slots.map(slot => slot.capacity), [0, 0, 1, 1, 1, 1]);
+});
+
+test("the next open slot skips days nobody works", async () => {
+  const store = new MemStorage();
+  await addPlumber(store, "pat@example.com", "PL-1", { workingHours: { timeZone, slots: [{ dayOfWeek: 3, start: "12:00", end: "18:00" }] } });
+
+  const next = await findNextAvailableSlot(store, "Leak Repair", "2030-06-03", timeZone, now);
+  assert.equal(next?.date, "2030-06-05");
+  assert.equal(next?.start, "12:00");
+});
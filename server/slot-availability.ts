@@ -0,0 +1,34 @@
+import type { IStorage } from "./storage";
+import { countFreePlumbers } from "./dispatch";
+import { addDays, bookingSlots, getSlotWindow } from "../shared/scheduling";
+
+// How far ahead to look for an open slot when the requested day is full
+const nextAvailableSearchDays = 14;
+
+export interface SlotAvailability {
+  date: string;
+  start: string;
+  label: string;
+  startsAt: Date;
+  capacity: number;
+}
+
+// Every booking slot on the given local dates, with how many more bookings each can take
+export async function getSlotAvailability(store: IStorage, category: string, dates: string[], timeZone: string, now = new Date()): Promise<SlotAvailability[]> {
+  const slots = dates.flatMap(date =>
+    bookingSlots.map(slot => ({ ...slot, date, startsAt: getSlotWindow(date, slot.start, timeZone).start }))
+  );
+  const capacities = await countFreePlumbers(store, category, slots.map(slot => slot.startsAt));
+  return slots.map((slot, index) => ({
+    ...slot,
+    // Slots that have already started can't be booked
+    capacity: slot.startsAt > now ? capacities[index] : 0,
+  }));
+}
+
+/** The earliest slot with room, starting from the given date. */
+export async function findNextAvailableSlot(store: IStorage, category: string, fromDate: string, timeZone: string, now = new Date()): Promise<SlotAvailability | null> {
+  const dates = Array.from({ length: nextAvailableSearchDays }, (_, day) => addDays(fromDate, day));
+  const slots = await getSlotAvailability(store, category, dates, timeZone, now);
+  return slots.find(slot => slot.capacity > 0) ?? null;
+}
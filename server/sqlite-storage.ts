@@ -0,0 +1,104 @@
+import { createRequire } from "module";
+import type BetterSqlite3 from "better-sqlite3";
+import { getTableColumns } from "drizzle-orm";
+import type { PgTable } from "drizzle-orm/pg-core";
+import { CollectionStorage, type Collection, type Tables } from "./collection-storage";
+import { users, plumbers, bookings, categories, plumberDocuments, plumberTimeOff, reviews, quotes, invoices, payments, refunds, earnings, payoutBatches, notifications, notificationPreferences, outboundMessages, sessions, accountTokens, adminInvites, rateLimitCounters } from "../shared/schema";
+
+// The Postgres table each collection mirrors
+const pgTables: Record<keyof Tables, PgTable> = { users, plumbers, bookings, categories, plumberDocuments, plumberTimeOff, reviews, quotes, invoices, payments, refunds, earnings, payoutBatches, notifications, notificationPreferences, outboundMessages, sessions, accountTokens, adminInvites, rateLimitCounters };
+
+/**
+ * Dates are stored as ISO strings inside the JSON rows, and only the table's
+ * timestamp columns are revived on read. Like Postgres, a date-like string
+ * anywhere else, such as a description or inside a JSON column, stays a string.
+ */
+function getDateColumns(table: PgTable): string[] {
+  return Object.entries(getTableColumns(table)).filter(([, column]) => column.dataType === "date").map(([key]) => key);
+}
+
+class SqliteCollection<T extends { id: string }> implements Collection<T> {
+  private readonly selectOne: BetterSqlite3.Statement<[string], { data: string }>;
+  private readonly selectAll: BetterSqlite3.Statement<[], { data: string }>;
+  private readonly insertOne: BetterSqlite3.Statement<[string, string]>;
+  private readonly updateOne: BetterSqlite3.Statement<[string, string]>;
+  private readonly deleteOne: BetterSqlite3.Statement<[string]>;
+
+  constructor(db: BetterSqlite3.Database, table: string, private readonly dateColumns: string[]) {
+    db.exec(`CREATE TABLE IF NOT EXISTS "${table}" (id TEXT PRIMARY KEY, data TEXT NOT NULL)`);
+    this.selectOne = db.prepare(`SELECT data FROM "${table}" WHERE id = ?`);
+    this.selectAll = db.prepare(`SELECT data FROM "${table}" ORDER BY rowid`);
+    this.insertOne = db.prepare(`INSERT INTO "${table}" (id, data) VALUES (?, ?)`);
+    this.updateOne = db.prepare(`UPDATE "${table}" SET data = ? WHERE id = ?`);
+    this.deleteOne = db.prepare(`DELETE FROM "${table}" WHERE id = ?`);
+  }
+
+  get(id: string): T | undefined {
+    const row = this.selectOne.get(id);
+    return row && this.parse(row.data);
+  }
+
+  all(): T[] {
+    return this.selectAll.all().map(row => this.parse(row.data));
+  }
+
+  insert(row: T): void {
+    this.insertOne.run(row.id, JSON.stringify(row));
+  }
+
+  update(row: T): void {
+    this.updateOne.run(JSON.stringify(row), row.id);
+  }
+
+  delete(id: string): boolean {
+    return this.deleteOne.run(id).changes > 0;
+  }
+
+  private parse(data: string): T {
+    const row = JSON.parse(data);
+    for (const column of this.dateColumns) {
+      if (typeof row[column] === "string") row[column] = new Date(row[column]);
+    }
+    return row;
+  }
+}
+
+type SqliteCollections = { [K in keyof Tables]?: SqliteCollection<Tables[K]> };
+
+export class SqliteStorage extends CollectionStorage {
+  private readonly db: BetterSqlite3.Database;
+  private collections: SqliteCollections = {};
+
+  constructor(filename: string) {
+    super();
+    // Loaded lazily so the native module is only required when this backend is selected
+    const Database: typeof BetterSqlite3 = createRequire(import.meta.url)("better-sqlite3");
+    this.db = new Database(filename);
+    this.db.pragma("journal_mode = WAL");
+    // Every table is created now: one first created inside a transaction would vanish if it rolled back
+    for (const name of Object.keys(pgTables) as (keyof Tables)[]) this.collection(name);
+  }
+
+  protected collection<K extends keyof Tables>(name: K): Collection<Tables[K]> {
+    let collection: SqliteCollection<Tables[K]> | undefined = this.collections[name];
+    if (!collection) {
+      collection = new SqliteCollection<Tables[K]>(this.db, name, getDateColumns(pgTables[name]));
+      // TypeScript can't check a write through a generic key, though K picks the matching entry
+      this.collections[name] = collection as SqliteCollections[K];
+    }
+    return collection;
+  }
+
+  // BEGIN IMMEDIATE takes the write lock up front, so another process can't interleave writes
+  protected beginTransaction(): void {
+    this.db.exec("BEGIN IMMEDIATE");
+  }
+
+  protected commitTransaction(): void {
+    this.db.exec("COMMIT");
+  }
+
+  protected rollbackTransaction(): void {
+    this.db.exec("ROLLBACK");
+  }
+}
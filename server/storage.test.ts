@@ -0,0 +1,131 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { setTimeout as sleep } from "timers/promises";
+import type { IStorage } from "./storage";
+import { MemStorage } from "./mem-storage";
+import { SqliteStorage } from "./sqlite-storage";
+
+const backends: [string, () => IStorage][] = [
+  ["memory", () => new MemStorage()],
+  ["sqlite", () => new SqliteStorage(":memory:")],
+];
+
+const customer = { name: "Casey Customer", email: "casey@example.com", password: "x", phone: "555-0100", role: "user" } as const;
+
+function bookingFor(userId: string, description: string) {
+  return { userId, category: "Leak Repair", description, address: "1 Main St", phone: "555-0100" };
+}
+
+for (const [driver, createStore] of backends) {
+  test(`${driver}: a failed transaction undoes its inserts and updates`, async () => {
+    const store = createStore();
+    const user = await store.createUser(customer);
+
+    await assert.rejects(store.withTransaction(async (tx) => {
+      await tx.updateUser(user.id, { name: "Renamed" });
+      await tx.createBooking(bookingFor(user.id, "Dripping tap"));
+      throw new Error("boom");
+    }), /boom/);
+
+    assert.equal((await store.getUser(user.id))?.name, "Casey Customer");
+    assert.deepEqual(await store.getBookingsByUserId(user.id), []);
+  });
+
+  test(`${driver}: a committed transaction keeps its writes`, async () => {
+    const store = createStore();
+    const user = await store.createUser(customer);
+
+    const booking = await store.withTransaction(async (tx) => {
+      // Nested calls join the open transaction rather than waiting behind it
+      return tx.withTransaction(inner => inner.createBooking(bookingFor(user.id, "Dripping tap")));
+    });
+
+    assert.equal((await store.getBooking(booking.id))?.description, "Dripping tap");
+  });
+
+  test(`${driver}: lists come back newest first, with timestamps as dates`, async () => {
+    const store = createStore();
+    const user = await store.createUser(customer);
+    await store.createBooking(bookingFor(user.id, "First"));
+    await sleep(5);
+    await store.createBooking(bookingFor(user.id, "Second"));
+
+    const bookings = await store.getBookingsByUserId(user.id);
+    assert.deepEqual(bookings.map(b => b.description), ["Second", "First"]);
+    assert.ok(bookings[0].createdAt instanceof Date);
+  });
+
+  test(`${driver}: duplicate emails are refused like the unique constraint`, async () => {
+    const store = createStore();
+    await store.createUser(customer);
+    await assert.rejects(store.createUser(customer), /users_email_unique/);
+  });
+
+  test(`${driver}: a write made while a transaction is open waits for it to roll back`, async () => {
+    const store = createStore();
+    const user = await store.createUser(customer);
+    let release = () => {};
+    const held = new Promise<void>(resolve => { release = resolve; });
+
+    const failed = store.withTransaction(async (tx) => {
+      await tx.createBooking(bookingFor(user.id, "Inside"));
+      await held;
+      throw new Error("boom");
+    });
+    await sleep(0);
+    const alongside = store.createBooking(bookingFor(user.id, "Alongside"));
+    release();
+    await assert.rejects(failed, /boom/);
+    await alongside;
+
+    assert.deepEqual((await store.getBookingsByUserId(user.id)).map(b => b.description), ["Alongside"]);
+  });
+
+  test(`${driver}: a rollback keeps an outside write to a row the transaction also wrote`, async () => {
+    const store = createStore();
+    const user = await store.createUser(customer);
+    let release = () => {};
+    const held = new Promise<void>(resolve => { release = resolve; });
+
+    const failed = store.withTransaction(async (tx) => {
+      await tx.updateUser(user.id, { name: "Inside" });
+      await held;
+      throw new Error("boom");
+    });
+    await sleep(0);
+    const alongside = store.updateUser(user.id, { phone: "555-0199" });
+    release();
+    await assert.rejects(failed, /boom/);
+    await alongside;
+
+    const saved = await store.getUser(user.id);
+    assert.equal(saved?.name, "Casey Customer");
+    assert.equal(saved?.phone, "555-0199");
+  });
+
+  test(`${driver}: updates stamp updatedAt only on tables that have the column`, async () => {
+    const store = createStore();
+    const user = await store.createUser(customer);
+    const before = user.updatedAt!.getTime();
+    await sleep(5);
+
+    const renamed = await store.updateUser(user.id, { name: "Renamed" });
+    assert.ok(renamed!.updatedAt!.getTime() > before);
+
+    const notification = await store.createNotification({ userId: user.id, type: "booking.assigned", title: "Assigned", body: "A plumber is on the way" });
+    await store.updateNotification(notification.id, { readAt: new Date() });
+    const [read] = await store.getNotificationsByUserId(user.id, 10);
+    assert.ok(read.readAt);
+    assert.equal("updatedAt" in read, false);
+  });
+}
+
+test("sqlite: only timestamp columns are read back as dates", async () => {
+  const store = new SqliteStorage(":memory:");
+  const user = await store.createUser(customer);
+  const booking = await store.createBooking(bookingFor(user.id, "2025-01-01T09:00:00.000Z"));
+
+  const saved = await store.getBooking(booking.id);
+  assert.equal(saved?.description, "2025-01-01T09:00:00.000Z");
+  assert.ok(saved?.createdAt instanceof Date);
+});
@@ -1,9 +1,13 @@
-import { type User, type InsertUser, type Plumber, type InsertPlumber, type Booking, type InsertBooking, type Category, type InsertCategory, users, plumbers, bookings, categories } from "../shared/schema";
-import { db } from "./db";
-import { eq, desc } from "drizzle-orm";
-import { randomUUID } from "crypto";
+import { type User, type InsertUser, type Plumber, type InsertPlumber, type Booking, type InsertBooking, activeBookingStatuses, type Category, type InsertCategory, type PlumberDocument, type InsertPlumberDocument, type PlumberTimeOff, type InsertPlumberTimeOff, type Review, type InsertReview, type Quote, type InsertQuote, type Invoice, type InsertInvoice, type Payment, type InsertPayment, type Refund, type InsertRefund, type Earning, type InsertEarning, type PayoutBatch, type InsertPayoutBatch, type Notification, type InsertNotification, type NotificationPreferences, type InsertNotificationPreferences, type OutboundMessage, type InsertOutboundMessage, type OutboundMessageStatus, type Session, type InsertSession, type AccountToken, type InsertAccountToken, type AdminInvite, type InsertAdminInvite, type RateLimitCounter, type InsertRateLimitCounter, users, plumbers, bookings, categories, plumberDocuments, plumberTimeOff, reviews, quotes, invoices, payments, refunds, earnings, payoutBatches, notifications, notificationPreferences, outboundMessages, sessions, accountTokens, adminInvites, rateLimitCounters } from "../shared/schema";
+import { db as defaultDb } from "./db";
+import { eq, asc, desc, sql, and, inArray, count, max, isNull, lt, lte } from "drizzle-orm";
+import { MemStorage } from "./mem-storage";
+import { SqliteStorage } from "./sqlite-storage";
 
 export interface IStorage {
+  // Runs fn atomically; the IStorage it receives must be used for every read and write inside it
+  withTransaction<T>(fn: (tx: IStorage) => Promise<T>): Promise<T>;
+
   // Users
   getUser(id: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
@@ -11,45 +15,181 @@ export interface IStorage {
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: string, user: Partial<User>): Promise<User | undefined>;
 
+  // Sessions, most recently used first
+  getSession(id: string): Promise<Session | undefined>;
+  getSessionForUpdate(id: string): Promise<Session | undefined>;
+  getSessionsByUserId(userId: string): Promise<Session[]>;
+  createSession(session: InsertSession): Promise<Session>;
+  updateSession(id: string, session: Partial<Session>): Promise<Session | undefined>;
+
+  // Account tokens (password reset and email verification links)
+  getAccountToken(id: string): Promise<AccountToken | undefined>;
+  getAccountTokenForUpdate(id: string): Promise<AccountToken | undefined>;
+  getAccountTokensByUserId(userId: string): Promise<AccountToken[]>;
+  createAccountToken(token: InsertAccountToken): Promise<AccountToken>;
+  updateAccountToken(id: string, token: Partial<AccountToken>): Promise<AccountToken | undefined>;
+
+  // Admin invites, newest first
+  getAdminInvite(id: string): Promise<AdminInvite | undefined>;
+  getAdminInviteForUpdate(id: string): Promise<AdminInvite | undefined>;
+  getAdminInvites(): Promise<AdminInvite[]>;
+  createAdminInvite(invite: InsertAdminInvite): Promise<AdminInvite>;
+  updateAdminInvite(id: string, invite: Partial<AdminInvite>): Promise<AdminInvite | undefined>;
+
+  // Rate limit counters. Incrementing an expired counter starts it again at 1 with the new expiresAt
+  getRateLimitCounter(id: string): Promise<RateLimitCounter | undefined>;
+  incrementRateLimitCounter(id: string, expiresAt: Date, now?: Date): Promise<RateLimitCounter>;
+  saveRateLimitCounter(counter: InsertRateLimitCounter): Promise<RateLimitCounter>;
+  deleteRateLimitCounter(id: string): Promise<boolean>;
+  deleteExpiredRateLimitCounters(now?: Date): Promise<number>;
+
   // Plumbers
   getPlumber(id: string): Promise<Plumber | undefined>;
+  getPlumberForUpdate(id: string): Promise<Plumber | undefined>;
   getPlumberByUserId(userId: string): Promise<Plumber | undefined>;
+  getPlumberByLicenseNumber(licenseNumber: string): Promise<Plumber | undefined>;
   createPlumber(plumber: InsertPlumber): Promise<Plumber>;
+  createPlumberWithUser(user: InsertUser, plumber: Omit<InsertPlumber, 'userId'>): Promise<{ user: User; plumber: Plumber }>;
   updatePlumber(id: string, plumber: Partial<Plumber>): Promise<Plumber | undefined>;
   getAvailablePlumbers(specialization?: string): Promise<Plumber[]>;
+  // Like getAvailablePlumbers, but holds row locks until the surrounding transaction ends
+  lockAvailablePlumbers(specialization?: string): Promise<Plumber[]>;
   getAllPlumbers(): Promise<Plumber[]>;
 
   // Bookings
   getBooking(id: string): Promise<Booking | undefined>;
+  getBookingForUpdate(id: string): Promise<Booking | undefined>;
   createBooking(booking: InsertBooking): Promise<Booking>;
   updateBooking(id: string, booking: Partial<Booking>): Promise<Booking | undefined>;
   getBookingsByUserId(userId: string): Promise<Booking[]>;
   getBookingsByPlumberId(plumberId: string): Promise<Booking[]>;
+  countActiveBookingsByPlumberId(plumberId: string): Promise<number>;
   getAllBookings(): Promise<Booking[]>;
   getPendingBookings(): Promise<Booking[]>;
+  getAssignedBookings(): Promise<Booking[]>;
+
+  // Plumber documents
+  getPlumberDocument(id: string): Promise<PlumberDocument | undefined>;
+  getPlumberDocuments(plumberId: string): Promise<PlumberDocument[]>;
+  createPlumberDocument(document: InsertPlumberDocument): Promise<PlumberDocument>;
+  updatePlumberDocument(id: string, document: Partial<PlumberDocument>): Promise<PlumberDocument | undefined>;
+
+  // Plumber time off
+  getPlumberTimeOff(plumberId: string): Promise<PlumberTimeOff[]>;
+  createPlumberTimeOff(timeOff: InsertPlumberTimeOff): Promise<PlumberTimeOff>;
+  deletePlumberTimeOff(id: string): Promise<boolean>;
+
+  // Reviews
+  getReview(id: string): Promise<Review | undefined>;
+  getReviewByBookingId(bookingId: string): Promise<Review | undefined>;
+  getReviewsByPlumberId(plumberId: string): Promise<Review[]>;
+  getReviewsByUserId(userId: string): Promise<Review[]>;
+  getAllReviews(): Promise<Review[]>;
+  createReview(review: InsertReview): Promise<Review>;
+  updateReview(id: string, review: Partial<Review>): Promise<Review | undefined>;
+
+  // Quotes, newest version first
+  getQuote(id: string): Promise<Quote | undefined>;
+  getQuotesByBookingId(bookingId: string): Promise<Quote[]>;
+  getQuotesByBookingIds(bookingIds: string[]): Promise<Quote[]>;
+  createQuote(quote: InsertQuote): Promise<Quote>;
+  updateQuote(id: string, quote: Partial<Quote>): Promise<Quote | undefined>;
+
+  // Invoices
+  getInvoice(id: string): Promise<Invoice | undefined>;
+  getInvoiceByBookingId(bookingId: string): Promise<Invoice | undefined>;
+  // Assigns the next invoice number
+  createInvoice(invoice: InsertInvoice): Promise<Invoice>;
+  updateInvoice(id: string, invoice: Partial<Invoice>): Promise<Invoice | undefined>;
+
+  // Payments
+  getPayment(id: string): Promise<Payment | undefined>;
+  getPaymentByProviderIntentId(providerIntentId: string): Promise<Payment | undefined>;
+  getPaymentsByBookingId(bookingId: string): Promise<Payment[]>;
+  createPayment(payment: InsertPayment): Promise<Payment>;
+  updatePayment(id: string, payment: Partial<Payment>): Promise<Payment | undefined>;
+
+  // Refunds, newest first. Rows are created pending and only updated to settle them; never deleted.
+  getRefundsByBookingId(bookingId: string): Promise<Refund[]>;
+  getRefundsByBookingIds(bookingIds: string[]): Promise<Refund[]>;
+  // Oldest first, so retries go in the order the refunds were issued
+  getPendingRefunds(): Promise<Refund[]>;
+  createRefund(refund: InsertRefund): Promise<Refund>;
+  updateRefund(id: string, refund: Partial<Refund>): Promise<Refund | undefined>;
+
+  // Earnings, newest first
+  getAllEarnings(): Promise<Earning[]>;
+  getEarningsByPlumberId(plumberId: string): Promise<Earning[]>;
+  getEarningsByBookingId(bookingId: string): Promise<Earning[]>;
+  getEarningsByPayoutBatchId(payoutBatchId: string): Promise<Earning[]>;
+  // Earnings not yet in a payout batch that were earned before the given time
+  getUnbatchedEarnings(earnedBefore: Date): Promise<Earning[]>;
+  createEarning(earning: InsertEarning): Promise<Earning>;
+  updateEarning(id: string, earning: Partial<Earning>): Promise<Earning | undefined>;
+
+  // Payout batches, latest period first
+  getPayoutBatches(): Promise<PayoutBatch[]>;
+  getPayoutBatch(id: string): Promise<PayoutBatch | undefined>;
+  createPayoutBatch(batch: InsertPayoutBatch): Promise<PayoutBatch>;
+  updatePayoutBatch(id: string, batch: Partial<PayoutBatch>): Promise<PayoutBatch | undefined>;
+
+  // Notifications, newest first
+  getNotification(id: string): Promise<Notification | undefined>;
+  getNotificationsByUserId(userId: string, limit: number): Promise<Notification[]>;
+  getUnreadNotificationCount(userId: string): Promise<number>;
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  updateNotification(id: string, notification: Partial<Notification>): Promise<Notification | undefined>;
+  // Returns how many were marked
+  markAllNotificationsRead(userId: string): Promise<number>;
+
+  // Notification preferences; undefined until the user first saves some
+  getNotificationPreferences(userId: string): Promise<NotificationPreferences | undefined>;
+  // Creates the user's row or replaces it
+  saveNotificationPreferences(preferences: InsertNotificationPreferences): Promise<NotificationPreferences>;
+
+  // Outbound messages, newest first
+  getOutboundMessage(id: string): Promise<OutboundMessage | undefined>;
+  getOutboundMessageForUpdate(id: string): Promise<OutboundMessage | undefined>;
+  getOutboundMessages(limit: number, status?: OutboundMessageStatus): Promise<OutboundMessage[]>;
+  // Pending messages whose next attempt is due, longest waiting first
+  getDueOutboundMessages(dueBy: Date): Promise<OutboundMessage[]>;
+  createOutboundMessage(message: InsertOutboundMessage): Promise<OutboundMessage>;
+  updateOutboundMessage(id: string, message: Partial<OutboundMessage>): Promise<OutboundMessage | undefined>;
 
   // Categories
   getCategories(): Promise<Category[]>;
   createCategory(category: InsertCategory): Promise<Category>;
+
+  // Throws if the backing store is unreachable
+  healthCheck(): Promise<void>;
 }
 
+type DbExecutor = typeof defaultDb | Parameters<Parameters<typeof defaultDb.transaction>[0]>[0];
+
 export class DatabaseStorage implements IStorage {
+  constructor(private readonly db: DbExecutor = defaultDb) {}
+
+  async withTransaction<T>(fn: (tx: IStorage) => Promise<T>): Promise<T> {
+    // Nested calls become savepoints on the enclosing transaction
+    return await this.db.transaction(async (tx) => fn(new DatabaseStorage(tx)));
+  }
+
   async getUser(id: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
     return user;
   }
 
   async getUserByEmail(email: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.email, email));
+    const [user] = await this.db.select().from(users).where(eq(users.email, email));
     return user;
   }
 
   async getAllUsers(): Promise<User[]> {
-    return await db.select().from(users);
+    return await this.db.select().from(users);
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
-    const [user] = await db.insert(users).values({
+    const [user] = await this.db.insert(users).values({
       ...insertUser,
       createdAt: new Date(),
       updatedAt: new Date(),
@@ -58,25 +198,179 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateUser(id: string, updateData: Partial<User>): Promise<User | undefined> {
-    const [user] = await db.update(users).set({
+    const [user] = await this.db.update(users).set({
       ...updateData,
       updatedAt: new Date(),
     }).where(eq(users.id, id)).returning();
     return user;
   }
 
+  async getSession(id: string): Promise<Session | undefined> {
+    const [session] = await this.db.select().from(sessions).where(eq(sessions.id, id));
+    return session;
+  }
+
+  async getSessionForUpdate(id: string): Promise<Session | undefined> {
+    const [session] = await this.db.select().from(sessions).where(eq(sessions.id, id)).for('update');
+    return session;
+  }
+
+  async getSessionsByUserId(userId: string): Promise<Session[]> {
+    return await this.db.select().from(sessions).where(eq(sessions.userId, userId)).orderBy(desc(sessions.lastUsedAt));
+  }
+
+  async createSession(insertSession: InsertSession): Promise<Session> {
+    const now = new Date();
+    const [session] = await this.db.insert(sessions).values({
+      ...insertSession,
+      lastUsedAt: now,
+      createdAt: now,
+      updatedAt: now,
+    }).returning();
+    return session;
+  }
+
+  async updateSession(id: string, updateData: Partial<Session>): Promise<Session | undefined> {
+    const [session] = await this.db.update(sessions).set({
+      ...updateData,
+      updatedAt: new Date(),
+    }).where(eq(sessions.id, id)).returning();
+    return session;
+  }
+
+  async getAccountToken(id: string): Promise<AccountToken | undefined> {
+    const [token] = await this.db.select().from(accountTokens).where(eq(accountTokens.id, id));
+    return token;
+  }
+
+  async getAccountTokenForUpdate(id: string): Promise<AccountToken | undefined> {
+    const [token] = await this.db.select().from(accountTokens).where(eq(accountTokens.id, id)).for('update');
+    return token;
+  }
+
+  async getAccountTokensByUserId(userId: string): Promise<AccountToken[]> {
+    return await this.db.select().from(accountTokens).where(eq(accountTokens.userId, userId)).orderBy(desc(accountTokens.createdAt));
+  }
+
+  async createAccountToken(insertToken: InsertAccountToken): Promise<AccountToken> {
+    const [token] = await this.db.insert(accountTokens).values({
+      ...insertToken,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }).returning();
+    return token;
+  }
+
+  async updateAccountToken(id: string, updateData: Partial<AccountToken>): Promise<AccountToken | undefined> {
+    const [token] = await this.db.update(accountTokens).set({
+      ...updateData,
+      updatedAt: new Date(),
+    }).where(eq(accountTokens.id, id)).returning();
+    return token;
+  }
+
+  async getAdminInvite(id: string): Promise<AdminInvite | undefined> {
+    const [invite] = await this.db.select().from(adminInvites).where(eq(adminInvites.id, id));
+    return invite;
+  }
+
+  async getAdminInviteForUpdate(id: string): Promise<AdminInvite | undefined> {
+    const [invite] = await this.db.select().from(adminInvites).where(eq(adminInvites.id, id)).for('update');
+    return invite;
+  }
+
+  async getAdminInvites(): Promise<AdminInvite[]> {
+    return await this.db.select().from(adminInvites).orderBy(desc(adminInvites.createdAt));
+  }
+
+  async createAdminInvite(insertInvite: InsertAdminInvite): Promise<AdminInvite> {
+    const [invite] = await this.db.insert(adminInvites).values({
+      ...insertInvite,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }).returning();
+    return invite;
+  }
+
+  async updateAdminInvite(id: string, updateData: Partial<AdminInvite>): Promise<AdminInvite | undefined> {
+    const [invite] = await this.db.update(adminInvites).set({
+      ...updateData,
+      updatedAt: new Date(),
+    }).where(eq(adminInvites.id, id)).returning();
+    return invite;
+  }
+
+  async getRateLimitCounter(id: string): Promise<RateLimitCounter | undefined> {
+    const [counter] = await this.db.select().from(rateLimitCounters).where(eq(rateLimitCounters.id, id));
+    return counter;
+  }
+
+  async incrementRateLimitCounter(id: string, expiresAt: Date, now = new Date()): Promise<RateLimitCounter> {
+    // A single upsert, so concurrent hits from several server instances can't lose a count.
+    // SET expressions see the old row; excluded holds the values this call tried to insert.
+    const expired = sql`${rateLimitCounters.expiresAt} <= excluded.updated_at`;
+    const [counter] = await this.db.insert(rateLimitCounters).values({
+      id,
+      count: 1,
+      expiresAt,
+      createdAt: now,
+      updatedAt: now,
+    }).onConflictDoUpdate({
+      target: rateLimitCounters.id,
+      set: {
+        count: sql`CASE WHEN ${expired} THEN 1 ELSE ${rateLimitCounters.count} + 1 END`,
+        expiresAt: sql`CASE WHEN ${expired} THEN excluded.expires_at ELSE ${rateLimitCounters.expiresAt} END`,
+        updatedAt: now,
+      },
+    }).returning();
+    return counter;
+  }
+
+  async saveRateLimitCounter(insertCounter: InsertRateLimitCounter): Promise<RateLimitCounter> {
+    const now = new Date();
+    const [counter] = await this.db.insert(rateLimitCounters).values({
+      ...insertCounter,
+      createdAt: now,
+      updatedAt: now,
+    }).onConflictDoUpdate({
+      target: rateLimitCounters.id,
+      set: { count: insertCounter.count, expiresAt: insertCounter.expiresAt, updatedAt: now },
+    }).returning();
+    return counter;
+  }
+
+  async deleteRateLimitCounter(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(rateLimitCounters).where(eq(rateLimitCounters.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  async deleteExpiredRateLimitCounters(now = new Date()): Promise<number> {
+    const deleted = await this.db.delete(rateLimitCounters).where(lte(rateLimitCounters.expiresAt, now)).returning({ id: rateLimitCounters.id });
+    return deleted.length;
+  }
+
   async getPlumber(id: string): Promise<Plumber | undefined> {
-    const [plumber] = await db.select().from(plumbers).where(eq(plumbers.id, id));
+    const [plumber] = await this.db.select().from(plumbers).where(eq(plumbers.id, id));
+    return plumber;
+  }
+
+  async getPlumberForUpdate(id: string): Promise<Plumber | undefined> {
+    const [plumber] = await this.db.select().from(plumbers).where(eq(plumbers.id, id)).for('update');
     return plumber;
   }
 
   async getPlumberByUserId(userId: string): Promise<Plumber | undefined> {
-    const [plumber] = await db.select().from(plumbers).where(eq(plumbers.userId, userId));
+    const [plumber] = await this.db.select().from(plumbers).where(eq(plumbers.userId, userId));
+    return plumber;
+  }
+
+  async getPlumberByLicenseNumber(licenseNumber: string): Promise<Plumber | undefined> {
+    const [plumber] = await this.db.select().from(plumbers).where(eq(plumbers.licenseNumber, licenseNumber));
     return plumber;
   }
 
   async createPlumber(insertPlumber: InsertPlumber): Promise<Plumber> {
-    const [plumber] = await db.insert(plumbers).values({
+    const [plumber] = await this.db.insert(plumbers).values({
       ...insertPlumber,
       createdAt: new Date(),
       updatedAt: new Date(),
@@ -84,8 +378,17 @@ export class DatabaseStorage implements IStorage {
     return plumber;
   }
 
+  async createPlumberWithUser(insertUser: InsertUser, insertPlumber: Omit<InsertPlumber, 'userId'>): Promise<{ user: User; plumber: Plumber }> {
+    // The user and plumber rows are written together so a failed plumber insert never leaves an orphaned login
+    return await this.withTransaction(async (tx) => {
+      const user = await tx.createUser(insertUser);
+      const plumber = await tx.createPlumber({ ...insertPlumber, userId: user.id });
+      return { user, plumber };
+    });
+  }
+
   async updatePlumber(id: string, updateData: Partial<Plumber>): Promise<Plumber | undefined> {
-    const [plumber] = await db.update(plumbers).set({
+    const [plumber] = await this.db.update(plumbers).set({
       ...updateData,
       updatedAt: new Date(),
     }).where(eq(plumbers.id, id)).returning();
@@ -93,24 +396,38 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getAvailablePlumbers(specialization?: string): Promise<Plumber[]> {
-    const allPlumbers = await db.select().from(plumbers).where(eq(plumbers.isAvailable, true));
+    const allPlumbers = await this.db.select().from(plumbers).where(eq(plumbers.isAvailable, true));
     if (specialization) {
       return allPlumbers.filter(p => Array.isArray(p.specializations) && (p.specializations as string[]).includes(specialization));
     }
     return allPlumbers;
   }
 
+  async lockAvailablePlumbers(specialization?: string): Promise<Plumber[]> {
+    // Locked in id order so concurrent assignments can't deadlock on each other
+    const lockedPlumbers = await this.db.select().from(plumbers).where(eq(plumbers.isAvailable, true)).orderBy(plumbers.id).for('update');
+    if (specialization) {
+      return lockedPlumbers.filter(p => Array.isArray(p.specializations) && (p.specializations as string[]).includes(specialization));
+    }
+    return lockedPlumbers;
+  }
+
   async getAllPlumbers(): Promise<Plumber[]> {
-    return await db.select().from(plumbers);
+    return await this.db.select().from(plumbers);
   }
 
   async getBooking(id: string): Promise<Booking | undefined> {
-    const [booking] = await db.select().from(bookings).where(eq(bookings.id, id));
+    const [booking] = await this.db.select().from(bookings).where(eq(bookings.id, id));
+    return booking;
+  }
+
+  async getBookingForUpdate(id: string): Promise<Booking | undefined> {
+    const [booking] = await this.db.select().from(bookings).where(eq(bookings.id, id)).for('update');
     return booking;
   }
 
   async createBooking(insertBooking: InsertBooking): Promise<Booking> {
-    const [booking] = await db.insert(bookings).values({
+    const [booking] = await this.db.insert(bookings).values({
       ...insertBooking,
       createdAt: new Date(),
       updatedAt: new Date(),
@@ -119,7 +436,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateBooking(id: string, updateData: Partial<Booking>): Promise<Booking | undefined> {
-    const [booking] = await db.update(bookings).set({
+    const [booking] = await this.db.update(bookings).set({
       ...updateData,
       updatedAt: new Date(),
     }).where(eq(bookings.id, id)).returning();
@@ -127,30 +444,427 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getBookingsByUserId(userId: string): Promise<Booking[]> {
-    return await db.select().from(bookings).where(eq(bookings.userId, userId)).orderBy(desc(bookings.createdAt));
+    return await this.db.select().from(bookings).where(eq(bookings.userId, userId)).orderBy(desc(bookings.createdAt));
   }
 
   async getBookingsByPlumberId(plumberId: string): Promise<Booking[]> {
-    return await db.select().from(bookings).where(eq(bookings.assignedPlumber, plumberId)).orderBy(desc(bookings.createdAt));
+    return await this.db.select().from(bookings).where(eq(bookings.assignedPlumber, plumberId)).orderBy(desc(bookings.createdAt));
+  }
+
+  async countActiveBookingsByPlumberId(plumberId: string): Promise<number> {
+    const [result] = await this.db.select({ value: count() }).from(bookings).where(and(
+      eq(bookings.assignedPlumber, plumberId),
+      inArray(bookings.status, activeBookingStatuses),
+    ));
+    return result.value;
   }
 
   async getAllBookings(): Promise<Booking[]> {
-    return await db.select().from(bookings).orderBy(desc(bookings.createdAt));
+    return await this.db.select().from(bookings).orderBy(desc(bookings.createdAt));
   }
 
   async getPendingBookings(): Promise<Booking[]> {
-    return await db.select().from(bookings).where(eq(bookings.status, 'pending')).orderBy(desc(bookings.createdAt));
+    return await this.db.select().from(bookings).where(eq(bookings.status, 'pending')).orderBy(desc(bookings.createdAt));
+  }
+
+  async getAssignedBookings(): Promise<Booking[]> {
+    return await this.db.select().from(bookings).where(eq(bookings.status, 'assigned')).orderBy(desc(bookings.createdAt));
+  }
+
+  async getPlumberDocument(id: string): Promise<PlumberDocument | undefined> {
+    const [document] = await this.db.select().from(plumberDocuments).where(eq(plumberDocuments.id, id));
+    return document;
+  }
+
+  async getPlumberDocuments(plumberId: string): Promise<PlumberDocument[]> {
+    return await this.db.select().from(plumberDocuments).where(eq(plumberDocuments.plumberId, plumberId)).orderBy(desc(plumberDocuments.createdAt));
+  }
+
+  async createPlumberDocument(insertDocument: InsertPlumberDocument): Promise<PlumberDocument> {
+    const [document] = await this.db.insert(plumberDocuments).values({
+      ...insertDocument,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }).returning();
+    return document;
+  }
+
+  async updatePlumberDocument(id: string, updateData: Partial<PlumberDocument>): Promise<PlumberDocument | undefined> {
+    const [document] = await this.db.update(plumberDocuments).set({
+      ...updateData,
+      updatedAt: new Date(),
+    }).where(eq(plumberDocuments.id, id)).returning();
+    return document;
+  }
+
+  async getPlumberTimeOff(plumberId: string): Promise<PlumberTimeOff[]> {
+    return await this.db.select().from(plumberTimeOff).where(eq(plumberTimeOff.plumberId, plumberId)).orderBy(asc(plumberTimeOff.date));
+  }
+
+  async createPlumberTimeOff(insertTimeOff: InsertPlumberTimeOff): Promise<PlumberTimeOff> {
+    const [timeOff] = await this.db.insert(plumberTimeOff).values(insertTimeOff).returning();
+    return timeOff;
+  }
+
+  async deletePlumberTimeOff(id: string): Promise<boolean> {
+    const deleted = await this.db.delete(plumberTimeOff).where(eq(plumberTimeOff.id, id)).returning();
+    return deleted.length > 0;
+  }
+
+  async getReview(id: string): Promise<Review | undefined> {
+    const [review] = await this.db.select().from(reviews).where(eq(reviews.id, id));
+    return review;
+  }
+
+  async getReviewByBookingId(bookingId: string): Promise<Review | undefined> {
+    const [review] = await this.db.select().from(reviews).where(eq(reviews.bookingId, bookingId));
+    return review;
+  }
+
+  async getReviewsByPlumberId(plumberId: string): Promise<Review[]> {
+    return await this.db.select().from(reviews).where(eq(reviews.plumberId, plumberId)).orderBy(desc(reviews.createdAt));
+  }
+
+  async getReviewsByUserId(userId: string): Promise<Review[]> {
+    return await this.db.select().from(reviews).where(eq(reviews.userId, userId)).orderBy(desc(reviews.createdAt));
+  }
+
+  async getAllReviews(): Promise<Review[]> {
+    return await this.db.select().from(reviews).orderBy(desc(reviews.createdAt));
+  }
+
+  async createReview(insertReview: InsertReview): Promise<Review> {
+    const [review] = await this.db.insert(reviews).values({
+      ...insertReview,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }).returning();
+    return review;
+  }
+
+  async updateReview(id: string, updateData: Partial<Review>): Promise<Review | undefined> {
+    const [review] = await this.db.update(reviews).set({
+      ...updateData,
+      updatedAt: new Date(),
+    }).where(eq(reviews.id, id)).returning();
+    return review;
+  }
+
+  async getQuote(id: string): Promise<Quote | undefined> {
+    const [quote] = await this.db.select().from(quotes).where(eq(quotes.id, id));
+    return quote;
+  }
+
+  async getQuotesByBookingId(bookingId: string): Promise<Quote[]> {
+    return await this.db.select().from(quotes).where(eq(quotes.bookingId, bookingId)).orderBy(desc(quotes.version));
+  }
+
+  async getQuotesByBookingIds(bookingIds: string[]): Promise<Quote[]> {
+    if (bookingIds.length === 0) return [];
+    return await this.db.select().from(quotes).where(inArray(quotes.bookingId, bookingIds)).orderBy(desc(quotes.version));
+  }
+
+  async createQuote(insertQuote: InsertQuote): Promise<Quote> {
+    const [quote] = await this.db.insert(quotes).values({
+      ...insertQuote,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }).returning();
+    return quote;
+  }
+
+  async updateQuote(id: string, updateData: Partial<Quote>): Promise<Quote | undefined> {
+    const [quote] = await this.db.update(quotes).set({
+      ...updateData,
+      updatedAt: new Date(),
+    }).where(eq(quotes.id, id)).returning();
+    return quote;
+  }
+
+  async getInvoice(id: string): Promise<Invoice | undefined> {
+    const [invoice] = await this.db.select().from(invoices).where(eq(invoices.id, id));
+    return invoice;
+  }
+
+  async getInvoiceByBookingId(bookingId: string): Promise<Invoice | undefined> {
+    const [invoice] = await this.db.select().from(invoices).where(eq(invoices.bookingId, bookingId));
+    return invoice;
+  }
+
+  async createInvoice(insertInvoice: InsertInvoice): Promise<Invoice> {
+    // Invoice numbers must not skip, which a sequence can't promise, so take max + 1 under a lock
+    return await this.db.transaction(async (tx) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext('invoices.number'))`);
+      const [{ value }] = await tx.select({ value: max(invoices.number) }).from(invoices);
+      const [invoice] = await tx.insert(invoices).values({
+        ...insertInvoice,
+        number: (value ?? 0) + 1,
+        issuedAt: new Date(),
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      }).returning();
+      return invoice;
+    });
+  }
+
+  async updateInvoice(id: string, updateData: Partial<Invoice>): Promise<Invoice | undefined> {
+    const [invoice] = await this.db.update(invoices).set({
+      ...updateData,
+      updatedAt: new Date(),
+    }).where(eq(invoices.id, id)).returning();
+    return invoice;
+  }
+
+  async getPayment(id: string): Promise<Payment | undefined> {
+    const [payment] = await this.db.select().from(payments).where(eq(payments.id, id));
+    return payment;
+  }
+
+  async getPaymentByProviderIntentId(providerIntentId: string): Promise<Payment | undefined> {
+    const [payment] = await this.db.select().from(payments).where(eq(payments.providerIntentId, providerIntentId));
+    return payment;
+  }
+
+  async getPaymentsByBookingId(bookingId: string): Promise<Payment[]> {
+    return await this.db.select().from(payments).where(eq(payments.bookingId, bookingId)).orderBy(desc(payments.createdAt));
+  }
+
+  async createPayment(insertPayment: InsertPayment): Promise<Payment> {
+    const [payment] = await this.db.insert(payments).values({
+      ...insertPayment,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }).returning();
+    return payment;
+  }
+
+  async updatePayment(id: string, updateData: Partial<Payment>): Promise<Payment | undefined> {
+    const [payment] = await this.db.update(payments).set({
+      ...updateData,
+      updatedAt: new Date(),
+    }).where(eq(payments.id, id)).returning();
+    return payment;
+  }
+
+  async getRefundsByBookingId(bookingId: string): Promise<Refund[]> {
+    return this.getRefundsByBookingIds([bookingId]);
+  }
+
+  async getRefundsByBookingIds(bookingIds: string[]): Promise<Refund[]> {
+    if (bookingIds.length === 0) return [];
+    return await this.db.select().from(refunds).where(inArray(refunds.bookingId, bookingIds)).orderBy(desc(refunds.createdAt));
+  }
+
+  async getPendingRefunds(): Promise<Refund[]> {
+    return await this.db.select().from(refunds).where(eq(refunds.status, 'pending')).orderBy(refunds.createdAt);
+  }
+
+  async createRefund(insertRefund: InsertRefund): Promise<Refund> {
+    const [refund] = await this.db.insert(refunds).values({
+      ...insertRefund,
+      createdAt: new Date(),
+    }).returning();
+    return refund;
+  }
+
+  async updateRefund(id: string, updateData: Partial<Refund>): Promise<Refund | undefined> {
+    const [refund] = await this.db.update(refunds).set(updateData).where(eq(refunds.id, id)).returning();
+    return refund;
+  }
+
+  async getAllEarnings(): Promise<Earning[]> {
+    return await this.db.select().from(earnings).orderBy(desc(earnings.createdAt));
+  }
+
+  async getEarningsByPlumberId(plumberId: string): Promise<Earning[]> {
+    return await this.db.select().from(earnings).where(eq(earnings.plumberId, plumberId)).orderBy(desc(earnings.createdAt));
+  }
+
+  async getEarningsByBookingId(bookingId: string): Promise<Earning[]> {
+    return await this.db.select().from(earnings).where(eq(earnings.bookingId, bookingId)).orderBy(desc(earnings.createdAt));
+  }
+
+  async getEarningsByPayoutBatchId(payoutBatchId: string): Promise<Earning[]> {
+    return await this.db.select().from(earnings).where(eq(earnings.payoutBatchId, payoutBatchId)).orderBy(desc(earnings.createdAt));
+  }
+
+  async getUnbatchedEarnings(earnedBefore: Date): Promise<Earning[]> {
+    return await this.db.select().from(earnings)
+      .where(and(isNull(earnings.payoutBatchId), lt(earnings.earnedAt, earnedBefore)))
+      .orderBy(desc(earnings.createdAt));
+  }
+
+  async createEarning(insertEarning: InsertEarning): Promise<Earning> {
+    const [earning] = await this.db.insert(earnings).values({
+      ...insertEarning,
+      createdAt: new Date(),
+    }).returning();
+    return earning;
+  }
+
+  async updateEarning(id: string, updateData: Partial<Earning>): Promise<Earning | undefined> {
+    const [earning] = await this.db.update(earnings).set(updateData).where(eq(earnings.id, id)).returning();
+    return earning;
+  }
+
+  async getPayoutBatches(): Promise<PayoutBatch[]> {
+    return await this.db.select().from(payoutBatches).orderBy(desc(payoutBatches.periodEnd));
+  }
+
+  async getPayoutBatch(id: string): Promise<PayoutBatch | undefined> {
+    const [batch] = await this.db.select().from(payoutBatches).where(eq(payoutBatches.id, id));
+    return batch;
+  }
+
+  async createPayoutBatch(insertBatch: InsertPayoutBatch): Promise<PayoutBatch> {
+    const [batch] = await this.db.insert(payoutBatches).values({
+      ...insertBatch,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }).returning();
+    return batch;
+  }
+
+  async updatePayoutBatch(id: string, updateData: Partial<PayoutBatch>): Promise<PayoutBatch | undefined> {
+    const [batch] = await this.db.update(payoutBatches).set({
+      ...updateData,
+      updatedAt: new Date(),
+    }).where(eq(payoutBatches.id, id)).returning();
+    return batch;
+  }
+
+  async getNotification(id: string): Promise<Notification | undefined> {
+    const [notification] = await this.db.select().from(notifications).where(eq(notifications.id, id));
+    return notification;
+  }
+
+  async getNotificationsByUserId(userId: string, limit: number): Promise<Notification[]> {
+    return await this.db.select().from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt))
+      .limit(limit);
+  }
+
+  async getUnreadNotificationCount(userId: string): Promise<number> {
+    const [{ value }] = await this.db.select({ value: count() }).from(notifications)
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+    return value;
+  }
+
+  async createNotification(insertNotification: InsertNotification): Promise<Notification> {
+    const [notification] = await this.db.insert(notifications).values({
+      ...insertNotification,
+      createdAt: new Date(),
+    }).returning();
+    return notification;
+  }
+
+  async updateNotification(id: string, updateData: Partial<Notification>): Promise<Notification | undefined> {
+    const [notification] = await this.db.update(notifications).set(updateData).where(eq(notifications.id, id)).returning();
+    return notification;
+  }
+
+  async markAllNotificationsRead(userId: string): Promise<number> {
+    const updated = await this.db.update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)))
+      .returning({ id: notifications.id });
+    return updated.length;
+  }
+
+  async getNotificationPreferences(userId: string): Promise<NotificationPreferences | undefined> {
+    const [preferences] = await this.db.select().from(notificationPreferences).where(eq(notificationPreferences.userId, userId));
+    return preferences;
+  }
+
+  async saveNotificationPreferences(insertPreferences: InsertNotificationPreferences): Promise<NotificationPreferences> {
+    const now = new Date();
+    const [preferences] = await this.db.insert(notificationPreferences).values({
+      ...insertPreferences,
+      createdAt: now,
+      updatedAt: now,
+    }).onConflictDoUpdate({
+      target: notificationPreferences.userId,
+      set: { email: insertPreferences.email, sms: insertPreferences.sms, updatedAt: now },
+    }).returning();
+    return preferences;
+  }
+
+  async getOutboundMessage(id: string): Promise<OutboundMessage | undefined> {
+    const [message] = await this.db.select().from(outboundMessages).where(eq(outboundMessages.id, id));
+    return message;
+  }
+
+  async getOutboundMessageForUpdate(id: string): Promise<OutboundMessage | undefined> {
+    const [message] = await this.db.select().from(outboundMessages).where(eq(outboundMessages.id, id)).for('update');
+    return message;
+  }
+
+  async getOutboundMessages(limit: number, status?: OutboundMessageStatus): Promise<OutboundMessage[]> {
+    return await this.db.select().from(outboundMessages)
+      .where(status ? eq(outboundMessages.status, status) : undefined)
+      .orderBy(desc(outboundMessages.createdAt))
+      .limit(limit);
+  }
+
+  async getDueOutboundMessages(dueBy: Date): Promise<OutboundMessage[]> {
+    return await this.db.select().from(outboundMessages)
+      .where(and(eq(outboundMessages.status, 'pending'), lte(outboundMessages.nextAttemptAt, dueBy)))
+      .orderBy(asc(outboundMessages.nextAttemptAt));
+  }
+
+  async createOutboundMessage(insertMessage: InsertOutboundMessage): Promise<OutboundMessage> {
+    const [message] = await this.db.insert(outboundMessages).values({
+      ...insertMessage,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    }).returning();
+    return message;
+  }
+
+  async updateOutboundMessage(id: string, updateData: Partial<OutboundMessage>): Promise<OutboundMessage | undefined> {
+    const [message] = await this.db.update(outboundMessages).set({
+      ...updateData,
+      updatedAt: new Date(),
+    }).where(eq(outboundMessages.id, id)).returning();
+    return message;
   }
 
   async getCategories(): Promise<Category[]> {
-    return await db.select().from(categories).where(eq(categories.isActive, true));
+    return await this.db.select().from(categories).where(eq(categories.isActive, true));
   }
 
   async createCategory(insertCategory: InsertCategory): Promise<Category> {
-    const [category] = await db.insert(categories).values(insertCategory).returning();
+    const [category] = await this.db.insert(categories).values(insertCategory).returning();
     return category;
   }
+
+  async healthCheck(): Promise<void> {
+    await this.db.execute(sql`SELECT 1`);
+  }
+}
+
+// Postgres and the document stores both report a broken unique constraint with its name in the message
+export function isUniqueViolation(error: unknown, constraint: string): boolean {
+  return error instanceof Error && error.message.includes(`unique constraint "${constraint}"`);
+}
+
+export type StorageDriver = 'postgres' | 'memory' | 'sqlite';
+
+export const storageDriver = (process.env.STORAGE_DRIVER || 'postgres') as StorageDriver;
+
+export function createStorage(driver: StorageDriver = storageDriver): IStorage {
+  switch (driver) {
+    case 'memory':
+      return new MemStorage();
+    case 'sqlite':
+      return new SqliteStorage(process.env.SQLITE_PATH || 'data.sqlite');
+    case 'postgres':
+      return new DatabaseStorage();
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER: ${driver}`);
+  }
 }
 
-export const storage = new DatabaseStorage();
+export const storage = createStorage();
 
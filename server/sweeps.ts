@@ -0,0 +1,41 @@
+import { log } from "./utils";
+
+/**
+ * Runs a background sweep every few seconds in the long-running server. The
+ * sweep returns a line to log, or nothing when there was nothing to do. A
+ * tick that comes while the last run is still going is skipped rather than
+ * overlapping it, and the timer doesn't keep the process alive on its own.
+ * Returns a function that stops the sweep.
+ */
+export function startIntervalSweep(name: string, seconds: number, sweep: () => Promise<string | undefined>): () => void {
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      const report = await sweep();
+      if (report) log(report, "scheduler");
+    } catch (error) {
+      console.error(`${name} sweep error:`, error);
+    } finally {
+      running = false;
+    }
+  }, seconds * 1000);
+  timer.unref();
+  return () => clearInterval(timer);
+}
+
+/**
+ * Wraps a sweep as a Netlify scheduled function. Functions don't live long
+ * enough for startIntervalSweep, so netlify.toml sets how often it runs.
+ */
+export function scheduledSweep<T>(name: string, sweep: () => Promise<T>) {
+  return async () => {
+    const summary = await sweep();
+    console.log(`${name} sweep:`, summary);
+    return {
+      statusCode: 200,
+      body: JSON.stringify(summary),
+    };
+  };
+}
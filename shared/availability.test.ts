@@ -0,0 +1,36 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { isPlumberFreeAt, isWithinWorkingHours, type WorkingHours } from "./availability";
+import { zonedTimeToInstant } from "./scheduling";
+
+// Weekdays 9 to 5 in New York; 2 June 2025 is a Monday
+const hours: WorkingHours = {
+  timeZone: "America/New_York",
+  slots: [1, 2, 3, 4, 5].map(dayOfWeek => ({ dayOfWeek, start: "09:00", end: "17:00" })),
+};
+const at = (date: string, time: string) => zonedTimeToInstant(date, time, hours.timeZone);
+
+test("a visit has to fit inside a weekly slot in the plumber's own time zone", () => {
+  assert.ok(isWithinWorkingHours(hours, at("2025-06-02", "09:00")));
+  assert.ok(isWithinWorkingHours(hours, at("2025-06-02", "15:00")));
+  // A two-hour visit starting at 4pm runs past the end of the day
+  assert.ok(!isWithinWorkingHours(hours, at("2025-06-02", "16:00")));
+  assert.ok(!isWithinWorkingHours(hours, at("2025-06-01", "10:00")));
+  // 10am in London is 5am in New York
+  assert.ok(!isWithinWorkingHours(hours, zonedTimeToInstant("2025-06-02", "10:00", "Europe/London")));
+});
+
+test("plumbers without working hours are always on", () => {
+  assert.ok(isWithinWorkingHours(null, at("2025-06-01", "03:00")));
+});
+
+test("time off blocks the whole day, or only the visits it overlaps", () => {
+  const dayOff = [{ date: "2025-06-02", startTime: null, endTime: null }];
+  assert.ok(!isPlumberFreeAt(hours, dayOff, at("2025-06-02", "09:00")));
+  assert.ok(isPlumberFreeAt(hours, dayOff, at("2025-06-03", "09:00")));
+
+  const appointment = [{ date: "2025-06-02", startTime: "12:00", endTime: "13:00" }];
+  assert.ok(!isPlumberFreeAt(hours, appointment, at("2025-06-02", "11:00")));
+  assert.ok(isPlumberFreeAt(hours, appointment, at("2025-06-02", "09:00")));
+  assert.ok(isPlumberFreeAt(hours, appointment, at("2025-06-02", "13:00")));
+});
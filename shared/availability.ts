@@ -0,0 +1,49 @@
+import { appointmentDurationMinutes, defaultTimeZone, getLocalDateTime, toMinutes } from "./scheduling";
+
+// A recurring block of working time; start and end are "HH:MM" wall-clock times
+export interface WeeklySlot {
+  dayOfWeek: number;
+  start: string;
+  end: string;
+}
+
+// Slots are read in the plumber's own time zone, so "09:00" means 9am where they work
+export interface WorkingHours {
+  timeZone: string;
+  slots: WeeklySlot[];
+}
+
+// A date ("YYYY-MM-DD") the plumber is off; without times it covers the whole day
+export interface TimeOffPeriod {
+  date: string;
+  startTime: string | null;
+  endTime: string | null;
+}
+
+/**
+ * Whether a visit starting at `start` fits entirely inside one of the weekly
+ * slots. Plumbers without working hours are treated as always on.
+ */
+export function isWithinWorkingHours(hours: WorkingHours | null, start: Date, durationMinutes = appointmentDurationMinutes): boolean {
+  if (!hours) return true;
+  const local = getLocalDateTime(start, hours.timeZone);
+  const end = local.minutes + durationMinutes;
+  return hours.slots.some(slot =>
+    slot.dayOfWeek === local.dayOfWeek && toMinutes(slot.start) <= local.minutes && end <= toMinutes(slot.end)
+  );
+}
+
+export function overlapsTimeOff(timeOff: TimeOffPeriod[], timeZone: string, start: Date, durationMinutes = appointmentDurationMinutes): boolean {
+  const local = getLocalDateTime(start, timeZone);
+  const end = local.minutes + durationMinutes;
+  return timeOff.some(period => {
+    if (period.date !== local.date) return false;
+    if (!period.startTime || !period.endTime) return true;
+    return toMinutes(period.startTime) < end && local.minutes < toMinutes(period.endTime);
+  });
+}
+
+export function isPlumberFreeAt(hours: WorkingHours | null, timeOff: TimeOffPeriod[], start: Date, durationMinutes = appointmentDurationMinutes): boolean {
+  return isWithinWorkingHours(hours, start, durationMinutes) &&
+    !overlapsTimeOff(timeOff, hours?.timeZone ?? defaultTimeZone, start, durationMinutes);
+}
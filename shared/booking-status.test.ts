@@ -0,0 +1,38 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { canTransition } from "./booking-status";
+
+test("customers can only cancel, and only before work starts", () => {
+  assert.ok(canTransition("user", "pending", "cancelled"));
+  assert.ok(canTransition("user", "accepted", "cancelled"));
+  assert.ok(!canTransition("user", "in-progress", "cancelled"));
+  assert.ok(!canTransition("user", "accepted", "in-progress"));
+  assert.ok(!canTransition("user", "in-progress", "completed"));
+});
+
+test("plumbers move their job forward but can't cancel it", () => {
+  assert.ok(canTransition("plumber", "assigned", "accepted"));
+  assert.ok(canTransition("plumber", "assigned", "rejected"));
+  assert.ok(canTransition("plumber", "accepted", "in-progress"));
+  assert.ok(canTransition("plumber", "in-progress", "completed"));
+  assert.ok(!canTransition("plumber", "pending", "accepted"));
+  assert.ok(!canTransition("plumber", "accepted", "completed"));
+  assert.ok(!canTransition("plumber", "accepted", "cancelled"));
+});
+
+test("staff roles get the changes their permissions allow", () => {
+  assert.ok(canTransition("admin", "in-progress", "completed"));
+  assert.ok(canTransition("admin", "assigned", "pending"));
+  assert.ok(canTransition("dispatcher", "assigned", "pending"));
+  assert.ok(canTransition("dispatcher", "accepted", "in-progress"));
+  assert.ok(canTransition("support", "accepted", "cancelled"));
+  assert.ok(!canTransition("support", "assigned", "pending"));
+  assert.ok(!canTransition("support", "in-progress", "completed"));
+});
+
+test("nobody moves a finished booking", () => {
+  for (const role of ["user", "plumber", "admin", "dispatcher", "support"] as const) {
+    assert.ok(!canTransition(role, "completed", "cancelled"), role);
+    assert.ok(!canTransition(role, "cancelled", "pending"), role);
+  }
+});
@@ -0,0 +1,43 @@
+import { hasPermission, type Permission, type Role } from "./permissions";
+
+export const bookingStatuses = ['pending', 'assigned', 'accepted', 'rejected', 'in-progress', 'completed', 'cancelled'] as const;
+
+export type BookingStatus = typeof bookingStatuses[number];
+
+// Legal status changes for the booking's own customer and plumber. Anything not listed here is refused by the server.
+// 'rejected' is never stored: a plumber rejecting a job triggers reassignment instead.
+const ownerTransitions: Record<'user' | 'plumber', Partial<Record<BookingStatus, BookingStatus[]>>> = {
+  user: {
+    pending: ['cancelled'],
+    assigned: ['cancelled'],
+    accepted: ['cancelled'],
+  },
+  plumber: {
+    assigned: ['accepted', 'rejected'],
+    accepted: ['in-progress'],
+    'in-progress': ['completed'],
+  },
+};
+
+// Staff can move any booking, each change needing its own permission
+const staffTransitions: Partial<Record<BookingStatus, Partial<Record<BookingStatus, Permission>>>> = {
+  pending: { cancelled: 'bookings:cancel' },
+  assigned: { pending: 'bookings:reassign', cancelled: 'bookings:cancel' },
+  accepted: { 'in-progress': 'bookings:update-status', cancelled: 'bookings:cancel' },
+  'in-progress': { completed: 'bookings:update-status', cancelled: 'bookings:cancel' },
+};
+
+export function isBookingStatus(value: unknown): value is BookingStatus {
+  return typeof value === 'string' && (bookingStatuses as readonly string[]).includes(value);
+}
+
+export function getAllowedTransitions(role: Role, from: BookingStatus): BookingStatus[] {
+  if (role === 'user' || role === 'plumber') return ownerTransitions[role][from] ?? [];
+  return Object.entries(staffTransitions[from] ?? {})
+    .filter(([, permission]) => hasPermission(role, permission))
+    .map(([to]) => to as BookingStatus);
+}
+
+export function canTransition(role: Role, from: BookingStatus, to: BookingStatus): boolean {
+  return getAllowedTransitions(role, from).includes(to);
+}
@@ -0,0 +1,27 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { getCancellationTerms } from "./cancellation-policy";
+
+const now = new Date("2025-06-01T09:00:00Z");
+const policy = { freeCancellationHours: 24, lateCancellationFeePercent: 50 };
+const hoursFromNow = (hours: number) => new Date(now.getTime() + hours * 60 * 60 * 1000);
+
+test("cancelling before the cutoff is free and after it costs the late fee", () => {
+  assert.deepEqual(getCancellationTerms(hoursFromNow(24), { now, policy }), { isFree: true, feePercent: 0, hoursUntilAppointment: 24, freeCancellationHours: 24 });
+
+  const late = getCancellationTerms(hoursFromNow(3), { now, policy });
+  assert.equal(late.isFree, false);
+  assert.equal(late.feePercent, 50);
+  assert.equal(late.hoursUntilAppointment, 3);
+});
+
+test("bookings without a date and cancellations by staff are always free", () => {
+  assert.equal(getCancellationTerms(null, { now, policy }).feePercent, 0);
+  assert.equal(getCancellationTerms(hoursFromNow(1), { now, policy, cancelledByStaff: true }).feePercent, 0);
+});
+
+test("the cutoff and fee come from the policy", () => {
+  const strict = { freeCancellationHours: 48, lateCancellationFeePercent: 100 };
+  assert.equal(getCancellationTerms(hoursFromNow(30), { now, policy: strict }).feePercent, 100);
+  assert.equal(getCancellationTerms(hoursFromNow(30), { now, policy }).feePercent, 0);
+});
@@ -0,0 +1,82 @@
+export const cancellationReasons = {
+  'schedule-conflict': 'Schedule conflict',
+  'found-another-provider': 'Found another provider',
+  'issue-resolved': 'Issue resolved itself',
+  'too-expensive': 'Too expensive',
+  'other': 'Other',
+} as const;
+
+export type CancellationReason = keyof typeof cancellationReasons;
+
+export const refundReasons = {
+  cancellation: 'Booking cancelled',
+  dispute: 'Customer dispute',
+  'service-issue': 'Problem with the work',
+  goodwill: 'Goodwill gesture',
+  other: 'Other',
+} as const;
+
+export type RefundReason = keyof typeof refundReasons;
+
+export interface CancellationPolicy {
+  // Cancelling at least this many hours before preferredDate is free
+  freeCancellationHours: number;
+  // Share of the job price charged for a later cancellation
+  lateCancellationFeePercent: number;
+}
+
+export interface CancellationTerms {
+  isFree: boolean;
+  feePercent: number;
+  hoursUntilAppointment: number | null;
+  freeCancellationHours: number;
+}
+
+export const defaultCancellationPolicy: CancellationPolicy = {
+  freeCancellationHours: 24,
+  lateCancellationFeePercent: 50,
+};
+
+/**
+ * Works out what cancelling a booking now would cost. Bookings without a
+ * preferredDate, and cancellations made by staff, are always free.
+ */
+export function getCancellationTerms(
+  preferredDate: Date | string | null,
+  options: { cancelledByStaff?: boolean; now?: Date; policy?: CancellationPolicy } = {},
+): CancellationTerms {
+  const { cancelledByStaff = false, now = new Date(), policy = defaultCancellationPolicy } = options;
+  const hoursUntilAppointment = preferredDate
+    ? (new Date(preferredDate).getTime() - now.getTime()) / (60 * 60 * 1000)
+    : null;
+
+  const isFree = cancelledByStaff || hoursUntilAppointment === null || hoursUntilAppointment >= policy.freeCancellationHours;
+
+  return {
+    isFree,
+    feePercent: isFree ? 0 : policy.lateCancellationFeePercent,
+    hoursUntilAppointment,
+    freeCancellationHours: policy.freeCancellationHours,
+  };
+}
+
+export interface RefundTerms {
+  // Paid and not yet refunded or awaiting the provider; no refund may exceed this
+  refundable: number;
+}
+
+/**
+ * Works out how much of an invoice can still be refunded. Refunds still
+ * pending with the provider count as given back.
+ *
+ * Nothing is paid before a job is invoiced, on completion or for a late
+ * cancellation's fee, so the cancellation policy never leaves money to hand
+ * back: its part is billing the fee, and how much of a paid invoice to refund
+ * is the admin's call.
+ */
+export function getRefundTerms(
+  invoice: { amountPaid: number; amountRefunded: number },
+  pendingRefunds = 0,
+): RefundTerms {
+  return { refundable: Math.max(0, invoice.amountPaid - invoice.amountRefunded - pendingRefunds) };
+}
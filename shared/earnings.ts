@@ -0,0 +1,73 @@
+// Share of each payment the platform keeps, unless PLATFORM_COMMISSION_PERCENT says otherwise
+export const defaultCommissionPercent = 15;
+
+// A payment credits the plumber; a refund of that payment debits them by the same split
+export const earningSources = ['payment', 'refund'] as const;
+
+export type EarningSource = typeof earningSources[number];
+
+export const payoutBatchStatuses = ['pending', 'paid'] as const;
+
+export type PayoutBatchStatus = typeof payoutBatchStatuses[number];
+
+export interface EarningSplit {
+  commission: number;
+  net: number;
+}
+
+/** Splits a gross amount in cents; negative amounts (refunds) split the same way, mirrored. */
+export function calculateCommission(gross: number, commissionPercent: number): EarningSplit {
+  const commission = Math.sign(gross) * Math.round(Math.abs(gross) * commissionPercent / 100);
+  return { commission, net: gross - commission };
+}
+
+export interface EarningsTotals {
+  gross: number;
+  commission: number;
+  net: number;
+  // Payments only, so a refunded job still counts once
+  jobs: number;
+}
+
+export function summarizeEarnings(earnings: Array<{ source: EarningSource; gross: number; commission: number; net: number }>): EarningsTotals {
+  return earnings.reduce((totals, earning) => ({
+    gross: totals.gross + earning.gross,
+    commission: totals.commission + earning.commission,
+    net: totals.net + earning.net,
+    jobs: totals.jobs + (earning.source === 'payment' ? 1 : 0),
+  }), { gross: 0, commission: 0, net: 0, jobs: 0 });
+}
+
+/** Payouts run weekly, Monday to Monday in UTC, so every server agrees on the boundaries. */
+export function getPayoutWeekStart(date: Date): Date {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  // getUTCDay() is 0 for Sunday
+  start.setUTCDate(start.getUTCDate() - (start.getUTCDay() + 6) % 7);
+  return start;
+}
+
+export const earningsPeriods = {
+  'this-week': 'This week',
+  'this-month': 'This month',
+  'last-month': 'Last month',
+  all: 'All time',
+} as const;
+
+export type EarningsPeriod = keyof typeof earningsPeriods;
+
+/** The [from, to) range of a reporting period in the viewer's local time; null bounds are open. */
+export function getEarningsPeriodRange(period: EarningsPeriod, now = new Date()): { from: Date | null; to: Date | null } {
+  switch (period) {
+    case 'this-week': {
+      const from = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+      from.setDate(from.getDate() - (from.getDay() + 6) % 7);
+      return { from, to: null };
+    }
+    case 'this-month':
+      return { from: new Date(now.getFullYear(), now.getMonth(), 1), to: null };
+    case 'last-month':
+      return { from: new Date(now.getFullYear(), now.getMonth() - 1, 1), to: new Date(now.getFullYear(), now.getMonth(), 1) };
+    case 'all':
+      return { from: null, to: null };
+  }
+}
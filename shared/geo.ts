@@ -0,0 +1,50 @@
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+export type ServiceArea =
+  | { type: 'radius'; center: GeoPoint; radiusKm: number }
+  | { type: 'polygon'; points: GeoPoint[] };
+
+const earthRadiusKm = 6371;
+
+function toRadians(degrees: number) {
+  return (degrees * Math.PI) / 180;
+}
+
+// Great-circle distance between two points
+export function distanceKm(a: GeoPoint, b: GeoPoint): number {
+  const dLat = toRadians(b.lat - a.lat);
+  const dLng = toRadians(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * earthRadiusKm * Math.asin(Math.sqrt(h));
+}
+
+// Ray casting; fine for the city-sized polygons plumbers draw
+function isInPolygon(point: GeoPoint, polygon: GeoPoint[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.lat > point.lat) !== (b.lat > point.lat) &&
+        point.lng < ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// The point a plumber travels from: the home location, or the middle of the polygon
+export function getServiceAreaCenter(area: ServiceArea): GeoPoint {
+  if (area.type === 'radius') return area.center;
+  return {
+    lat: area.points.reduce((sum, p) => sum + p.lat, 0) / area.points.length,
+    lng: area.points.reduce((sum, p) => sum + p.lng, 0) / area.points.length,
+  };
+}
+
+export function isWithinServiceArea(point: GeoPoint, area: ServiceArea): boolean {
+  if (area.type === 'radius') return distanceKm(point, area.center) <= area.radiusKm;
+  return isInPolygon(point, area.points);
+}
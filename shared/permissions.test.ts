@@ -0,0 +1,38 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { hasPermission, isStaffRole, permissions, roles } from "./permissions";
+
+test("admins hold every permission", () => {
+  for (const permission of permissions) {
+    assert.ok(hasPermission("admin", permission), permission);
+  }
+});
+
+test("customers and plumbers hold none; ownership decides what they can touch", () => {
+  for (const permission of permissions) {
+    assert.ok(!hasPermission("user", permission), permission);
+    assert.ok(!hasPermission("plumber", permission), permission);
+  }
+});
+
+test("dispatchers run bookings and schedules but not money or staff", () => {
+  assert.ok(hasPermission("dispatcher", "bookings:reassign"));
+  assert.ok(hasPermission("dispatcher", "plumbers:manage-schedule"));
+  for (const permission of ["refunds:issue", "payouts:manage", "payments:capture", "staff:invite", "plumbers:onboard", "plumbers:verify"] as const) {
+    assert.ok(!hasPermission("dispatcher", permission), permission);
+  }
+});
+
+test("support handles customers but can't move jobs or manage staff", () => {
+  assert.ok(hasPermission("support", "bookings:cancel"));
+  assert.ok(hasPermission("support", "refunds:issue"));
+  assert.ok(hasPermission("support", "reviews:moderate"));
+  for (const permission of ["bookings:reassign", "bookings:update-status", "payouts:manage", "staff:invite", "plumbers:verify"] as const) {
+    assert.ok(!hasPermission("support", permission), permission);
+  }
+});
+
+test("unknown roles get nothing and only staff roles count as staff", () => {
+  assert.ok(!hasPermission("superuser", "stats:view"));
+  assert.deepEqual(roles.filter(isStaffRole), ["admin", "dispatcher", "support"]);
+});
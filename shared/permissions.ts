@@ -0,0 +1,71 @@
+export const roles = ['user', 'plumber', 'admin', 'dispatcher', 'support'] as const;
+export type Role = typeof roles[number];
+
+// Roles that work from the admin dashboard. Admins are the only ones with every permission.
+export const staffRoles = ['admin', 'dispatcher', 'support'] as const;
+export type StaffRole = typeof staffRoles[number];
+
+export const roleLabels: Record<Role, string> = {
+  user: "Customer",
+  plumber: "Plumber",
+  admin: "Admin",
+  dispatcher: "Dispatcher",
+  support: "Support",
+};
+
+export const permissions = [
+  'bookings:view-all',        // every booking, with its quotes, invoice, payments and refunds
+  'bookings:update-status',   // start or complete a job on the plumber's behalf
+  'bookings:reassign',        // take a job off its plumber so it can be matched again
+  'bookings:cancel',          // cancel anyone's booking, without the late fee
+  'reviews:moderate',
+  'payments:capture',
+  'refunds:issue',
+  'earnings:view-all',
+  'payouts:manage',
+  'messages:manage',          // the outbound email and text log, and retrying sends
+  'plumbers:view',
+  'plumbers:onboard',
+  'plumbers:verify',          // review credential documents and verify plumbers
+  'plumbers:manage-schedule', // any plumber's service area, working hours and time off
+  'staff:invite',
+  'stats:view',
+] as const;
+export type Permission = typeof permissions[number];
+
+/**
+ * What each role may do beyond its own bookings and profile. Customers and
+ * plumbers get nothing here: what they can touch is decided by ownership.
+ * The server enforces this; the dashboards read it only to hide controls.
+ */
+const rolePermissions: Record<Role, readonly Permission[]> = {
+  user: [],
+  plumber: [],
+  admin: permissions,
+  dispatcher: [
+    'bookings:view-all',
+    'bookings:update-status',
+    'bookings:reassign',
+    'bookings:cancel',
+    'plumbers:view',
+    'plumbers:manage-schedule',
+    'stats:view',
+  ],
+  support: [
+    'bookings:view-all',
+    'bookings:cancel',
+    'reviews:moderate',
+    'refunds:issue',
+    'messages:manage',
+    'plumbers:view',
+    'stats:view',
+  ],
+};
+
+export function isStaffRole(role: string): role is StaffRole {
+  return (staffRoles as readonly string[]).includes(role);
+}
+
+export function hasPermission(role: string, permission: Permission): boolean {
+  return (rolePermissions[role as Role] ?? []).includes(permission);
+}
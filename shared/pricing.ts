@@ -0,0 +1,88 @@
+// All amounts are integer cents, so totals add up exactly
+export const currency = 'USD';
+
+// Where a booking's invoice stands; 'pending' means a payment is authorized or in flight.
+// The refunded states replace 'paid' once money has gone back to the customer.
+export const paymentStatuses = ['unpaid', 'pending', 'paid', 'partially-refunded', 'refunded'] as const;
+
+export type PaymentStatus = typeof paymentStatuses[number];
+
+export const paymentStatusLabels: Record<PaymentStatus, string> = {
+  unpaid: 'Payment Due',
+  pending: 'Payment Processing',
+  paid: 'Paid',
+  'partially-refunded': 'Partially Refunded',
+  refunded: 'Refunded',
+};
+
+export const quoteLineItemTypes = {
+  'call-out': 'Call-out fee',
+  labour: 'Labour',
+  parts: 'Parts',
+} as const;
+
+export type QuoteLineItemType = keyof typeof quoteLineItemTypes;
+
+export interface QuoteLineItem {
+  type: QuoteLineItemType;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+export interface QuoteTotals {
+  subtotal: number;
+  tax: number;
+  total: number;
+}
+
+export function getLineItemAmount(item: QuoteLineItem): number {
+  return Math.round(item.quantity * item.unitPrice);
+}
+
+/**
+ * Sums the line items and applies taxRate (a percentage) to the subtotal.
+ * Tax is rounded once on the whole subtotal rather than per line.
+ */
+export function calculateQuoteTotals(lineItems: QuoteLineItem[], taxRate: number): QuoteTotals {
+  const subtotal = lineItems.reduce((sum, item) => sum + getLineItemAmount(item), 0);
+  const tax = Math.round(subtotal * taxRate / 100);
+  return { subtotal, tax, total: subtotal + tax };
+}
+
+// Quote items are taxed at the quote's rate; extras added on site may carry their own.
+// A late cancellation is invoiced for just its fee.
+export interface InvoiceLineItem extends QuoteLineItem {
+  source: 'quote' | 'extra' | 'cancellation';
+  taxRate: number;
+}
+
+export interface TaxLine {
+  rate: number;
+  taxable: number;
+  amount: number;
+}
+
+export interface InvoiceTotals extends QuoteTotals {
+  taxLines: TaxLine[];
+}
+
+/** Like calculateQuoteTotals, with one tax line per distinct rate. */
+export function calculateInvoiceTotals(lineItems: InvoiceLineItem[]): InvoiceTotals {
+  const rates = Array.from(new Set(lineItems.map(item => item.taxRate))).sort((a, b) => a - b);
+  const taxLines = rates.map(rate => {
+    const { subtotal, tax } = calculateQuoteTotals(lineItems.filter(item => item.taxRate === rate), rate);
+    return { rate, taxable: subtotal, amount: tax };
+  });
+  const subtotal = taxLines.reduce((sum, line) => sum + line.taxable, 0);
+  const tax = taxLines.reduce((sum, line) => sum + line.amount, 0);
+  return { subtotal, tax, total: subtotal + tax, taxLines };
+}
+
+export function formatInvoiceNumber(number: number): string {
+  return `INV-${String(number).padStart(6, '0')}`;
+}
+
+export function formatMoney(cents: number): string {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(cents / 100);
+}
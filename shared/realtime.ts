@@ -0,0 +1,15 @@
+import type { Notification } from "./schema";
+
+// WebSocket endpoint; upgrades anywhere else are left to Vite's HMR
+export const realtimePath = "/api/realtime";
+
+// Server-sent events for hosts that can't hold a socket open (the Netlify function)
+export const realtimeEventsPath = "/api/realtime/events";
+
+/**
+ * What the server pushes. Messages only say what changed; clients refetch
+ * through the normal API so every field stays behind the same access checks.
+ */
+export type RealtimeMessage =
+  | { type: 'booking'; event: string; bookingId: string }
+  | { type: 'notification'; notification: Notification };
@@ -0,0 +1,20 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { getLocalDateTime, zonedTimeToInstant } from "./scheduling";
+
+test("zonedTimeToInstant uses the offset on each side of a DST change", () => {
+  // London moved from GMT to BST at 01:00 UTC on 30 March 2025
+  assert.equal(zonedTimeToInstant("2025-03-29", "09:00", "Europe/London").toISOString(), "2025-03-29T09:00:00.000Z");
+  assert.equal(zonedTimeToInstant("2025-03-30", "09:00", "Europe/London").toISOString(), "2025-03-30T08:00:00.000Z");
+  // New York moved back from EDT to EST at 06:00 UTC on 2 November 2025
+  assert.equal(zonedTimeToInstant("2025-11-01", "08:00", "America/New_York").toISOString(), "2025-11-01T12:00:00.000Z");
+  assert.equal(zonedTimeToInstant("2025-11-02", "08:00", "America/New_York").toISOString(), "2025-11-02T13:00:00.000Z");
+});
+
+test("zonedTimeToInstant round-trips through getLocalDateTime on the day of the change", () => {
+  for (const time of ["00:00", "08:00", "12:00", "18:00"]) {
+    const local = getLocalDateTime(zonedTimeToInstant("2025-03-30", time, "Europe/London"), "Europe/London");
+    assert.equal(local.date, "2025-03-30", time);
+    assert.equal(local.minutes, Number(time.slice(0, 2)) * 60, time);
+  }
+});
@@ -0,0 +1,133 @@
+// 0 = Sunday, matching Date#getDay
+export const weekdays = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'] as const;
+
+// Customers book two-hour visits
+export const appointmentDurationMinutes = 120;
+
+// The visit windows offered in the booking form, keyed by their local start time
+export const bookingSlots = [
+  { start: '08:00', label: '8:00 AM - 10:00 AM' },
+  { start: '10:00', label: '10:00 AM - 12:00 PM' },
+  { start: '12:00', label: '12:00 PM - 2:00 PM' },
+  { start: '14:00', label: '2:00 PM - 4:00 PM' },
+  { start: '16:00', label: '4:00 PM - 6:00 PM' },
+  { start: '18:00', label: '6:00 PM - 8:00 PM' },
+] as const;
+
+export type BookingSlot = typeof bookingSlots[number];
+export type BookingSlotStart = BookingSlot['start'];
+
+export const bookingSlotStarts = bookingSlots.map(slot => slot.start) as [BookingSlotStart, ...BookingSlotStart[]];
+
+// For plumbers without working hours and bookings made before time zones were recorded
+export const defaultTimeZone = 'Europe/London';
+
+export function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The calendar date, weekday and minute of the day an instant falls on in a time zone. */
+export function getLocalDateTime(instant: Date, timeZone: string) {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      weekday: 'long',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(instant).map(part => [part.type, part.value])
+  );
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    dayOfWeek: weekdays.indexOf(parts.weekday as typeof weekdays[number]),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+// Difference between wall-clock time in the zone and UTC at an instant, in ms
+function getTimeZoneOffset(instant: Date, timeZone: string): number {
+  const local = getLocalDateTime(instant, timeZone);
+  const wallClock = Date.parse(`${local.date}T00:00:00Z`) + local.minutes * 60 * 1000;
+  return wallClock - Math.floor(instant.getTime() / 60000) * 60000;
+}
+
+/** The instant a wall-clock date ("YYYY-MM-DD") and time ("HH:MM") refer to in a time zone. */
+export function zonedTimeToInstant(date: string, time: string, timeZone: string): Date {
+  const wallClock = Date.parse(`${date}T${time}:00Z`);
+  const firstGuess = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone);
+  // A second pass picks up the right offset when the guess landed across a DST change
+  return new Date(wallClock - getTimeZoneOffset(new Date(firstGuess), timeZone));
+}
+
+export function addDays(date: string, days: number): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+}
+
+export interface AppointmentWindow {
+  start: Date;
+  end: Date;
+  timeZone: string;
+}
+
+/**
+ * The appointment a customer picked in the booking form: a slot on a local
+ * date, in the customer's time zone. Client and server both go through this,
+ * so the instant shown before booking is the one that gets stored.
+ */
+export function getSlotWindow(date: string, slotStart: string, timeZone: string): AppointmentWindow {
+  const start = zonedTimeToInstant(date, slotStart, timeZone);
+  return { start, end: new Date(start.getTime() + appointmentDurationMinutes * 60 * 1000), timeZone };
+}
+
+// Older bookings only have a start, so they get the standard visit length
+export function getBookingWindow(booking: {
+  preferredDate: Date | string | null;
+  preferredEndDate?: Date | string | null;
+  timeZone?: string | null;
+}): AppointmentWindow | null {
+  if (!booking.preferredDate) return null;
+  const start = new Date(booking.preferredDate);
+  const end = booking.preferredEndDate
+    ? new Date(booking.preferredEndDate)
+    : new Date(start.getTime() + appointmentDurationMinutes * 60 * 1000);
+  return { start, end, timeZone: booking.timeZone || defaultTimeZone };
+}
+
+export function windowsOverlap(a: Pick<AppointmentWindow, 'start' | 'end'>, b: Pick<AppointmentWindow, 'start' | 'end'>): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+/**
+ * "Mon, Jan 7, 2030, 10:00 AM - 12:00 PM GMT", always in the booking's own time
+ * zone so the customer and the plumber read the same appointment.
+ */
+export function formatAppointment(window: AppointmentWindow): string {
+  const date = new Intl.DateTimeFormat('en-US', {
+    timeZone: window.timeZone, weekday: 'short', month: 'short', day: 'numeric', year: 'numeric',
+  }).format(window.start);
+  const time = (instant: Date, withZone: boolean) => new Intl.DateTimeFormat('en-US', {
+    timeZone: window.timeZone, hour: 'numeric', minute: '2-digit', ...(withZone ? { timeZoneName: 'short' as const } : {}),
+  }).format(instant);
+  return `${date}, ${time(window.start, false)} - ${time(window.end, true)}`;
+}
+
+export function formatAppointmentDate(window: AppointmentWindow): string {
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone: window.timeZone, month: 'short', day: 'numeric', year: 'numeric',
+  }).format(window.start);
+}
@@ -1,7 +1,15 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, boolean, integer, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, boolean, integer, timestamp, jsonb, doublePrecision, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { bookingStatuses, type BookingStatus } from "./booking-status";
+import { roles, staffRoles, type Role, type StaffRole } from "./permissions";
+import { cancellationReasons, refundReasons, type CancellationReason, type RefundReason } from "./cancellation-policy";
+import type { ServiceArea } from "./geo";
+import type { WorkingHours } from "./availability";
+import { bookingSlotStarts, defaultTimeZone, isValidTimeZone, toMinutes } from "./scheduling";
+import { earningSources, type EarningSource, type PayoutBatchStatus } from "./earnings";
+import { quoteLineItemTypes, type PaymentStatus, type InvoiceLineItem, type QuoteLineItem, type QuoteLineItemType, type TaxLine } from "./pricing";
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -9,8 +17,62 @@ export const users = pgTable("users", {
   email: text("email").notNull().unique(),
   password: text("password").notNull(),
   phone: text("phone").notNull(),
-  role: text("role").notNull().$type<'user' | 'plumber' | 'admin'>(),
+  role: text("role").notNull().$type<Role>(),
   address: text("address"),
+  emailVerifiedAt: timestamp("email_verified_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// One signed-in device. The refresh token itself is never stored, only its SHA-256 hash
+export const sessions = pgTable("sessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  refreshTokenHash: text("refresh_token_hash").notNull(),
+  userAgent: text("user_agent"),
+  ipAddress: text("ip_address"),
+  expiresAt: timestamp("expires_at").notNull(),
+  lastUsedAt: timestamp("last_used_at").defaultNow().notNull(),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const accountTokenPurposes = ['password-reset', 'email-verification'] as const;
+export type AccountTokenPurpose = typeof accountTokenPurposes[number];
+
+// A single-use link emailed to a user. As with sessions, only the token's SHA-256 hash is stored
+export const accountTokens = pgTable("account_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  purpose: text("purpose").notNull().$type<AccountTokenPurpose>(),
+  tokenHash: text("token_hash").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// An emailed invitation to join as an admin or other staff role; accepting it creates the account
+export const adminInvites = pgTable("admin_invites", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  email: text("email").notNull(),
+  role: text("role").notNull().default("admin").$type<StaffRole>(),
+  tokenHash: text("token_hash").notNull(),
+  invitedBy: varchar("invited_by").references(() => users.id).notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  acceptedUserId: varchar("accepted_user_id").references(() => users.id),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// A fixed-window counter for the rate limiter, keyed by rule and client (e.g. "login:ip:203.0.113.7")
+export const rateLimitCounters = pgTable("rate_limit_counters", {
+  id: varchar("id").primaryKey(),
+  count: integer("count").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -22,9 +84,13 @@ export const plumbers = pgTable("plumbers", {
   isAvailable: boolean("is_available").default(true).notNull(),
   isVerified: boolean("is_verified").default(false).notNull(),
   experienceYears: integer("experience_years"),
+  // Average of published reviews in tenths of a star, kept in step by recomputePlumberRating
   rating: integer("rating").default(0),
+  reviewCount: integer("review_count").default(0).notNull(),
   totalJobs: integer("total_jobs").default(0),
-  licenseNumber: text("license_number"),
+  licenseNumber: text("license_number").unique(),
+  serviceArea: jsonb("service_area").$type<ServiceArea>(),
+  workingHours: jsonb("working_hours").$type<WorkingHours>(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -36,19 +102,288 @@ export const bookings = pgTable("bookings", {
   description: text("description").notNull(),
   address: text("address").notNull(),
   phone: text("phone").notNull(),
+  // The appointment window; timeZone is where the customer booked it, for display
   preferredDate: timestamp("preferred_date"),
-  status: text("status").$type<'pending' | 'assigned' | 'accepted' | 'rejected' | 'in-progress' | 'completed' | 'cancelled'>().default('pending').notNull(),
+  preferredEndDate: timestamp("preferred_end_date"),
+  timeZone: text("time_zone"),
+  latitude: doublePrecision("latitude"),
+  longitude: doublePrecision("longitude"),
+  status: text("status").$type<BookingStatus>().default('pending').notNull(),
   assignedPlumber: varchar("assigned_plumber").references(() => plumbers.id),
   assignmentHistory: jsonb("assignment_history").$type<Array<{
     plumberId: string;
     assignedAt: Date;
     status: string;
     respondedAt?: Date;
+    releasedAt?: Date;
+    score?: DispatchScore;
   }>>().default([]).notNull(),
+  cancellationReason: text("cancellation_reason").$type<CancellationReason>(),
+  cancellationNote: text("cancellation_note"),
+  cancelledBy: varchar("cancelled_by").references(() => users.id),
+  cancelledAt: timestamp("cancelled_at"),
+  cancellationFeePercent: integer("cancellation_fee_percent"),
+  paymentStatus: text("payment_status").$type<PaymentStatus>().default('unpaid').notNull(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+export const plumberDocuments = pgTable("plumber_documents", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  plumberId: varchar("plumber_id").references(() => plumbers.id).notNull(),
+  type: text("type").notNull().$type<'license' | 'insurance' | 'id'>(),
+  fileName: text("file_name").notNull(),
+  contentType: text("content_type").notNull(),
+  size: integer("size").notNull(),
+  storageKey: text("storage_key").notNull(),
+  expiresAt: timestamp("expires_at"),
+  status: text("status").$type<'pending' | 'approved' | 'rejected'>().default('pending').notNull(),
+  reviewedBy: varchar("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  reviewNotes: text("review_notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const plumberTimeOff = pgTable("plumber_time_off", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  plumberId: varchar("plumber_id").references(() => plumbers.id).notNull(),
+  date: text("date").notNull(),
+  startTime: text("start_time"),
+  endTime: text("end_time"),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const reviewStatuses = ['published', 'hidden'] as const;
+
+export const reviews = pgTable("reviews", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  bookingId: varchar("booking_id").references(() => bookings.id).notNull().unique(),
+  plumberId: varchar("plumber_id").references(() => plumbers.id).notNull(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  rating: integer("rating").notNull(),
+  comment: text("comment"),
+  reply: text("reply"),
+  repliedAt: timestamp("replied_at"),
+  // Hidden reviews stay on record but don't count towards the plumber's rating
+  status: text("status").$type<typeof reviewStatuses[number]>().default('published').notNull(),
+  moderatedBy: varchar("moderated_by").references(() => users.id),
+  moderatedAt: timestamp("moderated_at"),
+  moderationNote: text("moderation_note"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const quoteStatuses = ['pending', 'accepted', 'declined', 'superseded'] as const;
+
+// Each revision is a new row with the next version; the one it replaces becomes superseded
+export const quotes = pgTable("quotes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  bookingId: varchar("booking_id").references(() => bookings.id).notNull(),
+  plumberId: varchar("plumber_id").references(() => plumbers.id).notNull(),
+  version: integer("version").notNull(),
+  status: text("status").$type<typeof quoteStatuses[number]>().default('pending').notNull(),
+  lineItems: jsonb("line_items").$type<QuoteLineItem[]>().notNull(),
+  // Percentage applied to the subtotal; amounts are in cents
+  taxRate: doublePrecision("tax_rate").default(0).notNull(),
+  subtotal: integer("subtotal").notNull(),
+  tax: integer("tax").notNull(),
+  total: integer("total").notNull(),
+  notes: text("notes"),
+  respondedAt: timestamp("responded_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  unique("quotes_booking_version_unique").on(table.bookingId, table.version),
+]);
+
+// Contact details copied onto an invoice when it is issued, so later profile edits don't change it
+export interface InvoiceParty {
+  name: string;
+  email: string;
+  phone: string;
+  address: string | null;
+  licenseNumber?: string | null;
+}
+
+export const invoices = pgTable("invoices", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  // Sequential with no gaps; assigned by storage when the invoice is created
+  number: integer("number").notNull().unique(),
+  bookingId: varchar("booking_id").references(() => bookings.id).notNull().unique(),
+  quoteId: varchar("quote_id").references(() => quotes.id),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  plumberId: varchar("plumber_id").references(() => plumbers.id).notNull(),
+  customer: jsonb("customer").$type<InvoiceParty>().notNull(),
+  plumber: jsonb("plumber").$type<InvoiceParty>().notNull(),
+  lineItems: jsonb("line_items").$type<InvoiceLineItem[]>().notNull(),
+  taxLines: jsonb("tax_lines").$type<TaxLine[]>().notNull(),
+  subtotal: integer("subtotal").notNull(),
+  tax: integer("tax").notNull(),
+  total: integer("total").notNull(),
+  paymentStatus: text("payment_status").$type<PaymentStatus>().default('unpaid').notNull(),
+  amountPaid: integer("amount_paid").default(0).notNull(),
+  paidAt: timestamp("paid_at"),
+  amountRefunded: integer("amount_refunded").default(0).notNull(),
+  issuedAt: timestamp("issued_at").defaultNow().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const paymentIntentStatuses = ['requires-payment', 'authorized', 'succeeded', 'failed', 'cancelled'] as const;
+
+// One attempt to collect an invoice through the payment provider
+export const payments = pgTable("payments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  invoiceId: varchar("invoice_id").references(() => invoices.id).notNull(),
+  bookingId: varchar("booking_id").references(() => bookings.id).notNull(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  provider: text("provider").notNull(),
+  providerIntentId: text("provider_intent_id").notNull().unique(),
+  amount: integer("amount").notNull(),
+  currency: text("currency").notNull(),
+  status: text("status").$type<typeof paymentIntentStatuses[number]>().default('requires-payment').notNull(),
+  amountCaptured: integer("amount_captured").default(0).notNull(),
+  failureReason: text("failure_reason"),
+  authorizedAt: timestamp("authorized_at"),
+  capturedAt: timestamp("captured_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const refundStatuses = ['pending', 'succeeded'] as const;
+
+// Money returned against one payment. A row is written as pending before the provider
+// is asked, and only ever updated to record that it succeeded; the succeeded rows
+// always add up to the invoice's amountRefunded.
+export const refunds = pgTable("refunds", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  paymentId: varchar("payment_id").references(() => payments.id).notNull(),
+  invoiceId: varchar("invoice_id").references(() => invoices.id).notNull(),
+  bookingId: varchar("booking_id").references(() => bookings.id).notNull(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  amount: integer("amount").notNull(),
+  currency: text("currency").notNull(),
+  reason: text("reason").$type<RefundReason>().notNull(),
+  note: text("note"),
+  status: text("status").$type<typeof refundStatuses[number]>().default('pending').notNull(),
+  // Set once the provider has made the refund
+  providerRefundId: text("provider_refund_id").unique(),
+  settledAt: timestamp("settled_at"),
+  createdBy: varchar("created_by").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// One weekly payout run. Each plumber's share is the sum of the earnings assigned to it.
+export const payoutBatches = pgTable("payout_batches", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  periodStart: timestamp("period_start").notNull(),
+  // Exclusive; also stops the same week being batched twice
+  periodEnd: timestamp("period_end").notNull().unique(),
+  status: text("status").$type<PayoutBatchStatus>().default('pending').notNull(),
+  plumberCount: integer("plumber_count").notNull(),
+  earningsCount: integer("earnings_count").notNull(),
+  total: integer("total").notNull(),
+  createdBy: varchar("created_by").references(() => users.id).notNull(),
+  paidAt: timestamp("paid_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// What a plumber is owed from one payment, or gives back from one refund. Only
+// the payout fields change after a row is written.
+export const earnings = pgTable("earnings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  plumberId: varchar("plumber_id").references(() => plumbers.id).notNull(),
+  bookingId: varchar("booking_id").references(() => bookings.id).notNull(),
+  invoiceId: varchar("invoice_id").references(() => invoices.id).notNull(),
+  source: text("source").$type<EarningSource>().notNull(),
+  // The payment or refund id, so settling the same money twice can't credit it twice
+  sourceId: varchar("source_id").notNull().unique(),
+  gross: integer("gross").notNull(),
+  commissionRate: doublePrecision("commission_rate").notNull(),
+  commission: integer("commission").notNull(),
+  net: integer("net").notNull(),
+  payoutBatchId: varchar("payout_batch_id").references(() => payoutBatches.id),
+  paidOutAt: timestamp("paid_out_at"),
+  earnedAt: timestamp("earned_at").defaultNow().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const notificationTypes = [
+  'booking.created',
+  'booking.assigned',
+  'booking.reassigned',
+  'booking.accepted',
+  'booking.started',
+  'booking.completed',
+  'booking.cancelled',
+  'booking.escalated',
+] as const;
+
+export type NotificationType = typeof notificationTypes[number];
+
+// One entry in a user's in-app inbox
+export const notifications = pgTable("notifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  type: text("type").$type<NotificationType>().notNull(),
+  title: text("title").notNull(),
+  body: text("body").notNull(),
+  bookingId: varchar("booking_id").references(() => bookings.id),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const messageChannels = ['email', 'sms'] as const;
+export type MessageChannel = typeof messageChannels[number];
+
+// Channels a user wants notifications on besides the in-app inbox; users without a row get the defaults
+export const notificationPreferences = pgTable("notification_preferences", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull().unique(),
+  email: boolean("email").default(true).notNull(),
+  sms: boolean("sms").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// pending messages are retried at nextAttemptAt; failed ones ran out of attempts
+export const outboundMessageStatuses = ['pending', 'sent', 'failed'] as const;
+export type OutboundMessageStatus = typeof outboundMessageStatuses[number];
+
+export interface DeliveryAttempt {
+  attemptedAt: Date;
+  transport: string;
+  // Set when the transport accepted the message
+  providerMessageId?: string;
+  error?: string;
+}
+
+// An email or text rendered from a notification, queued until a transport accepts it
+export const outboundMessages = pgTable("outbound_messages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  notificationId: varchar("notification_id").references(() => notifications.id),
+  bookingId: varchar("booking_id").references(() => bookings.id),
+  channel: text("channel").$type<MessageChannel>().notNull(),
+  // An email address or phone number, captured when the message was queued
+  recipient: text("recipient").notNull(),
+  template: text("template").$type<NotificationType>().notNull(),
+  subject: text("subject"),
+  body: text("body").notNull(),
+  status: text("status").$type<OutboundMessageStatus>().default('pending').notNull(),
+  attempts: jsonb("attempts").$type<DeliveryAttempt[]>().default([]).notNull(),
+  nextAttemptAt: timestamp("next_attempt_at"),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// A plumber holding a booking in any of these states is considered busy with it
+export const activeBookingStatuses: BookingStatus[] = ['assigned', 'accepted', 'in-progress'];
+
 export const categories = pgTable("categories", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull().unique(),
@@ -57,16 +392,66 @@ export const categories = pgTable("categories", {
   isActive: boolean("is_active").default(true).notNull(),
 });
 
+// Why dispatch picked a plumber; each component is normalised to 0..1
+export interface DispatchScore {
+  total: number;
+  distanceKm: number | null;
+  distance: number;
+  rating: number;
+  workload: number;
+  specialization: number;
+}
+
 export const insertUserSchema = createInsertSchema(users, {
-  role: z.enum(["user", "plumber", "admin"]),
+  role: z.enum(roles),
 }).omit({
   id: true,
+  emailVerifiedAt: true,
   createdAt: true,
   updatedAt: true,
 });
 
+// Staff only come from an invite or the create-admin script, never from the signup form
+export const selfServiceRoles = ["user", "plumber"] as const;
+
+export const registerUserSchema = insertUserSchema.extend({
+  email: z.string().trim().toLowerCase().email(),
+  role: z.enum(selfServiceRoles),
+});
+
+const geoPointSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+});
+
+export const serviceAreaSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("radius"), center: geoPointSchema, radiusKm: z.number().positive().max(500) }),
+  z.object({ type: z.literal("polygon"), points: z.array(geoPointSchema).min(3) }),
+]);
+
+// Radius areas may give a home address instead of coordinates; the server geocodes it
+export const updateServiceAreaSchema = z.union([
+  serviceAreaSchema,
+  z.object({ type: z.literal("radius"), homeAddress: z.string().trim().min(3), radiusKm: z.number().positive().max(500) }),
+]);
+
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$|^24:00$/, "Use HH:MM");
+const localDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD");
+const timeZoneSchema = z.string().refine(isValidTimeZone, "Unknown time zone");
+
+export const workingHoursSchema = z.object({
+  timeZone: timeZoneSchema,
+  slots: z.array(z.object({
+    dayOfWeek: z.number().int().min(0).max(6),
+    start: timeOfDaySchema,
+    end: timeOfDaySchema,
+  }).refine(slot => toMinutes(slot.start) < toMinutes(slot.end), "Slot must end after it starts")).max(50),
+});
+
 export const insertPlumberSchema = createInsertSchema(plumbers, {
   specializations: z.array(z.string()),
+  serviceArea: serviceAreaSchema.optional().nullable(),
+  workingHours: workingHoursSchema.optional().nullable(),
 }).omit({
   id: true,
   createdAt: true,
@@ -78,20 +463,391 @@ export const insertBookingSchema = createInsertSchema(bookings).omit({
   createdAt: true,
   updatedAt: true,
   assignmentHistory: true,
+  cancellationReason: true,
+  cancellationNote: true,
+  cancelledBy: true,
+  cancelledAt: true,
+  cancellationFeePercent: true,
+  paymentStatus: true,
+}).extend({
+  status: z.enum(bookingStatuses).default('pending'),
+  preferredDate: z.coerce.date().optional().nullable(),
+  preferredEndDate: z.coerce.date().optional().nullable(),
+  timeZone: timeZoneSchema.optional().nullable(),
+});
+
+// The booking form picks a slot on a local date; the server turns it into the stored window
+export const bookingSlotSelectionSchema = z.object({
+  date: localDateSchema,
+  start: z.enum(bookingSlotStarts),
+  timeZone: timeZoneSchema,
+});
+
+// What a customer may send; the status and plumber only ever change through the booking lifecycle
+export const createBookingSchema = insertBookingSchema.omit({
+  status: true,
+  assignedPlumber: true,
+  preferredDate: true,
+  preferredEndDate: true,
+  timeZone: true,
 }).extend({
-  status: z.enum(['pending', 'assigned', 'accepted', 'rejected', 'in-progress', 'completed', 'cancelled']).default('pending'),
+  slot: bookingSlotSelectionSchema.optional().nullable(),
+});
+
+export const documentTypes = ['license', 'insurance', 'id'] as const;
+
+// Every one of these must be approved and unexpired before a plumber can be verified
+export const requiredDocumentTypes: ReadonlyArray<typeof documentTypes[number]> = documentTypes;
+
+export const insertPlumberDocumentSchema = createInsertSchema(plumberDocuments, {
+  type: z.enum(documentTypes),
+  expiresAt: z.coerce.date().optional().nullable(),
+}).omit({
+  id: true,
+  status: true,
+  reviewedBy: true,
+  reviewedAt: true,
+  reviewNotes: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertPlumberTimeOffSchema = createInsertSchema(plumberTimeOff, {
+  date: localDateSchema,
+  startTime: timeOfDaySchema.optional().nullable(),
+  endTime: timeOfDaySchema.optional().nullable(),
+  reason: z.string().trim().max(200).optional().nullable(),
+}).omit({
+  id: true,
+  createdAt: true,
+}).refine(
+  period => (!period.startTime && !period.endTime) ||
+    (!!period.startTime && !!period.endTime && toMinutes(period.startTime) < toMinutes(period.endTime)),
+  "Give both a start and end time, or neither for a whole day off",
+);
+
+export const insertReviewSchema = createInsertSchema(reviews, {
+  rating: z.number().int().min(1).max(5),
+  comment: z.string().trim().max(2000).optional().nullable(),
+}).omit({
+  id: true,
+  reply: true,
+  repliedAt: true,
+  status: true,
+  moderatedBy: true,
+  moderatedAt: true,
+  moderationNote: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// What a customer sends; the booking, plumber and author come from the server
+export const submitReviewSchema = insertReviewSchema.pick({ rating: true, comment: true });
+
+export const replyToReviewSchema = z.object({
+  reply: z.string().trim().min(1).max(2000),
+});
+
+export const moderateReviewSchema = z.object({
+  status: z.enum(reviewStatuses),
+  note: z.string().trim().max(500).optional(),
+});
+
+const quoteLineItemSchema = z.object({
+  type: z.enum(Object.keys(quoteLineItemTypes) as [QuoteLineItemType, ...QuoteLineItemType[]]),
+  description: z.string().trim().min(1).max(200),
+  quantity: z.number().positive().max(1000),
+  unitPrice: z.number().int().min(0).max(10_000_000),
+});
+
+export const insertQuoteSchema = createInsertSchema(quotes, {
+  lineItems: z.array(quoteLineItemSchema).min(1).max(50),
+  taxRate: z.number().min(0).max(100).default(0),
+  notes: z.string().trim().max(2000).optional().nullable(),
+}).omit({
+  id: true,
+  status: true,
+  respondedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// What a plumber sends; the version and totals are worked out by the server
+export const submitQuoteSchema = insertQuoteSchema.pick({ lineItems: true, taxRate: true, notes: true });
+
+// Sent with the move to completed; extras are work agreed on site beyond the quote
+export const completeBookingSchema = z.object({
+  extras: z.array(quoteLineItemSchema).max(50).default([]),
+  extrasTaxRate: z.number().min(0).max(100).optional(),
+});
+
+export const respondToQuoteSchema = z.object({
+  decision: z.enum(['accepted', 'declined']),
+});
+
+const invoicePartySchema = z.object({
+  name: z.string(),
+  email: z.string(),
+  phone: z.string(),
+  address: z.string().nullable(),
+  licenseNumber: z.string().nullable().optional(),
+});
+
+export const insertPaymentSchema = createInsertSchema(payments).omit({
+  id: true,
+  status: true,
+  amountCaptured: true,
+  failureReason: true,
+  authorizedAt: true,
+  capturedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Only the fake provider's checkout posts this; real providers collect the card themselves
+export const fakeCheckoutSchema = z.object({
+  outcome: z.enum(['succeeded', 'failed']).default('succeeded'),
+});
+
+export const insertEarningSchema = createInsertSchema(earnings, {
+  source: z.enum(earningSources),
+}).omit({
+  id: true,
+  payoutBatchId: true,
+  paidOutAt: true,
+  createdAt: true,
+});
+
+export const insertPayoutBatchSchema = createInsertSchema(payoutBatches).omit({
+  id: true,
+  status: true,
+  paidAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Bounds are [from, to); format=csv downloads the same rows as a spreadsheet
+export const earningsQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  plumberId: z.string().optional(),
+  format: z.enum(['json', 'csv']).default('json'),
+});
+
+export const insertNotificationSchema = createInsertSchema(notifications, {
+  type: z.enum(notificationTypes),
+}).omit({
+  id: true,
+  readAt: true,
+  createdAt: true,
+});
+
+// The id is chosen up front because the refresh token carries it
+export const insertSessionSchema = createInsertSchema(sessions).omit({
+  lastUsedAt: true,
+  revokedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1),
+});
+
+// The id is chosen up front because the emailed token carries it
+export const insertAccountTokenSchema = createInsertSchema(accountTokens, {
+  purpose: z.enum(accountTokenPurposes),
+}).omit({
+  usedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// The id is chosen up front because the emailed token carries it
+export const insertAdminInviteSchema = createInsertSchema(adminInvites, {
+  role: z.enum(staffRoles),
+}).omit({
+  acceptedAt: true,
+  acceptedUserId: true,
+  revokedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const createAdminInviteSchema = z.object({
+  email: z.string().email(),
+  role: z.enum(staffRoles).default("admin"),
+});
+
+export const adminInviteTokenSchema = z.object({
+  token: z.string().min(1),
+});
+
+export const acceptAdminInviteSchema = adminInviteTokenSchema.extend({
+  name: z.string().min(2),
+  phone: z.string().min(1),
+  password: z.string().min(6),
+});
+
+export const passwordResetRequestSchema = z.object({
+  email: z.string().email(),
+});
+
+export const passwordResetConfirmSchema = z.object({
+  token: z.string().min(1),
+  password: z.string().min(6),
+});
+
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1),
+});
+
+export const insertRateLimitCounterSchema = createInsertSchema(rateLimitCounters).omit({
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertNotificationPreferencesSchema = createInsertSchema(notificationPreferences).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const updateNotificationPreferencesSchema = insertNotificationPreferencesSchema.pick({ email: true, sms: true }).partial();
+
+export const insertOutboundMessageSchema = createInsertSchema(outboundMessages, {
+  channel: z.enum(messageChannels),
+  template: z.enum(notificationTypes),
+}).omit({
+  id: true,
+  status: true,
+  attempts: true,
+  sentAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const outboundMessagesQuerySchema = z.object({
+  status: z.enum(outboundMessageStatuses).optional(),
+});
+
+const refundReasonSchema = z.enum(Object.keys(refundReasons) as [RefundReason, ...RefundReason[]]);
+
+export const insertRefundSchema = createInsertSchema(refunds, {
+  reason: refundReasonSchema,
+}).omit({
+  id: true,
+  status: true,
+  providerRefundId: true,
+  settledAt: true,
+  createdAt: true,
+});
+
+export const issueRefundSchema = z.object({
+  amount: z.number().int().positive(),
+  reason: refundReasonSchema,
+  note: z.string().trim().max(500).optional(),
+});
+
+export const insertInvoiceSchema = createInsertSchema(invoices, {
+  customer: invoicePartySchema,
+  plumber: invoicePartySchema,
+  lineItems: z.array(quoteLineItemSchema.extend({
+    source: z.enum(['quote', 'extra', 'cancellation']),
+    taxRate: z.number().min(0).max(100),
+  })),
+  taxLines: z.array(z.object({ rate: z.number(), taxable: z.number().int(), amount: z.number().int() })),
+}).omit({
+  id: true,
+  number: true,
+  paymentStatus: true,
+  amountPaid: true,
+  paidAt: true,
+  amountRefunded: true,
+  issuedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const availabilityQuerySchema = z.object({
+  category: z.string().trim().min(1),
+  date: localDateSchema,
+  timeZone: timeZoneSchema.default(defaultTimeZone),
+});
+
+export const verifyPlumberSchema = z.object({
+  isVerified: z.boolean(),
+});
+
+export const reviewPlumberDocumentSchema = z.object({
+  status: z.enum(['approved', 'rejected']),
+  notes: z.string().trim().max(500).optional(),
+});
+
+export const cancelBookingSchema = z.object({
+  reason: z.enum(Object.keys(cancellationReasons) as [CancellationReason, ...CancellationReason[]]),
+  note: z.string().trim().max(500).optional(),
 });
 
 export const insertCategorySchema = createInsertSchema(categories).omit({
   id: true,
 });
 
+export const onboardPlumberSchema = insertUserSchema.omit({
+  role: true,
+}).merge(insertPlumberSchema.pick({
+  licenseNumber: true,
+  experienceYears: true,
+  specializations: true,
+})).extend({
+  email: z.string().trim().toLowerCase().email(),
+  password: z.string().min(6),
+  licenseNumber: z.string().trim().min(3),
+  experienceYears: z.number().int().min(0),
+  specializations: z.array(z.string()).min(1),
+});
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type InsertPlumber = z.infer<typeof insertPlumberSchema>;
 export type InsertBooking = z.infer<typeof insertBookingSchema>;
 export type InsertCategory = z.infer<typeof insertCategorySchema>;
+export type OnboardPlumber = z.infer<typeof onboardPlumberSchema>;
+export type InsertPlumberDocument = z.infer<typeof insertPlumberDocumentSchema>;
+export type DocumentType = typeof documentTypes[number];
+export type InsertPlumberTimeOff = z.infer<typeof insertPlumberTimeOffSchema>;
+export type InsertReview = z.infer<typeof insertReviewSchema>;
+export type InsertQuote = z.infer<typeof insertQuoteSchema>;
+export type InsertInvoice = z.infer<typeof insertInvoiceSchema>;
+export type InsertPayment = z.infer<typeof insertPaymentSchema>;
+export type InsertRefund = z.infer<typeof insertRefundSchema>;
+export type InsertEarning = z.infer<typeof insertEarningSchema>;
+export type InsertPayoutBatch = z.infer<typeof insertPayoutBatchSchema>;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type InsertSession = z.infer<typeof insertSessionSchema>;
+export type InsertAccountToken = z.infer<typeof insertAccountTokenSchema>;
+export type InsertAdminInvite = z.infer<typeof insertAdminInviteSchema>;
+export type AcceptAdminInvite = z.infer<typeof acceptAdminInviteSchema>;
+export type InsertRateLimitCounter = z.infer<typeof insertRateLimitCounterSchema>;
+export type InsertNotificationPreferences = z.infer<typeof insertNotificationPreferencesSchema>;
+export type InsertOutboundMessage = z.infer<typeof insertOutboundMessageSchema>;
 
 export type User = typeof users.$inferSelect;
 export type Plumber = typeof plumbers.$inferSelect;
 export type Booking = typeof bookings.$inferSelect;
+export type PlumberDocument = typeof plumberDocuments.$inferSelect;
+export type PlumberTimeOff = typeof plumberTimeOff.$inferSelect;
+export type Review = typeof reviews.$inferSelect;
+export type Quote = typeof quotes.$inferSelect;
+export type Invoice = typeof invoices.$inferSelect;
+export type Payment = typeof payments.$inferSelect;
+export type Refund = typeof refunds.$inferSelect;
+export type Earning = typeof earnings.$inferSelect;
+export type PayoutBatch = typeof payoutBatches.$inferSelect;
+export type Notification = typeof notifications.$inferSelect;
+export type Session = typeof sessions.$inferSelect;
+export type AccountToken = typeof accountTokens.$inferSelect;
+export type AdminInvite = typeof adminInvites.$inferSelect;
+export type RateLimitCounter = typeof rateLimitCounters.$inferSelect;
+export type NotificationPreferences = typeof notificationPreferences.$inferSelect;
+export type OutboundMessage = typeof outboundMessages.$inferSelect;
 export type Category = typeof categories.$inferSelect;